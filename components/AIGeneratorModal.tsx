@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import {
   X,
@@ -13,14 +13,35 @@ import {
   CheckCircle,
   AlertTriangle,
   Beaker,
+  Loader2,
+  Settings,
+  Square,
+  RotateCcw,
 } from 'lucide-react';
-import { importBentoFromJSON, type BentoJSON } from '../services/storageService';
+import {
+  importBentoFromJSON,
+  BentoValidationError,
+  type BentoJSON,
+  type SchemaIssue,
+} from '../services/storageService';
+import {
+  BentoGenerationError,
+  createOpenAiCompatibleProvider,
+  extractJsonFromReply,
+  generateBento,
+  isLlmConfigured,
+  loadLlmSettings,
+  normalizeAiBento,
+  type LlmSettings,
+} from '../services/llm';
 import type { SavedBento } from '../types';
 
 type AIGeneratorModalProps = {
   isOpen: boolean;
   onClose: () => void;
   onBentoImported: (bento: SavedBento) => void;
+  // Opens the settings on the AI tab, where the model endpoint is configured
+  onOpenSettings?: () => void;
 };
 
 type VisualStyle = 'modern' | 'minimalist' | 'colorful' | 'dark' | 'professional' | 'playful';
@@ -38,9 +59,10 @@ const AIGeneratorModal: React.FC<AIGeneratorModalProps> = ({
   isOpen,
   onClose,
   onBentoImported,
+  onOpenSettings,
 }) => {
   // Step state
-  const [step, setStep] = useState<'prompt' | 'import'>('prompt');
+  const [step, setStep] = useState<'prompt' | 'generate' | 'import'>('prompt');
 
   // Form state (Step 1)
   const [name, setName] = useState('');
@@ -56,9 +78,39 @@ const AIGeneratorModal: React.FC<AIGeneratorModalProps> = ({
   const [jsonInput, setJsonInput] = useState('');
   const [jsonError, setJsonError] = useState<string | null>(null);
   const [importSuccess, setImportSuccess] = useState(false);
+  // Set when unsafe values were stripped: the user confirms before continuing
+  const [importReport, setImportReport] = useState<SchemaIssue[]>([]);
+  const [importedBento, setImportedBento] = useState<SavedBento | null>(null);
+
+  // Direct generation state (Step 2 when a model endpoint is configured)
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [modelOutput, setModelOutput] = useState('');
+  const [generationStatus, setGenerationStatus] = useState('');
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [failedReply, setFailedReply] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Settings may have changed in the settings modal since the last opening
+  useEffect(() => {
+    if (isOpen) setLlmSettings(loadLlmSettings());
+  }, [isOpen]);
+
+  const canGenerate = isLlmConfigured(llmSettings);
+
+  const resetGeneration = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsGenerating(false);
+    setModelOutput('');
+    setGenerationStatus('');
+    setGenerationError(null);
+    setFailedReply(null);
+  };
 
   // Reset state when modal closes
   const handleClose = () => {
+    resetGeneration();
     setStep('prompt');
     setName('');
     setBio('');
@@ -68,6 +120,8 @@ const AIGeneratorModal: React.FC<AIGeneratorModalProps> = ({
     setJsonInput('');
     setJsonError(null);
     setImportSuccess(false);
+    setImportReport([]);
+    setImportedBento(null);
     setCopied(false);
     onClose();
   };
@@ -210,6 +264,12 @@ Note: Perfect for a row of small social icons. Use colSpan: 1, rowSpan: 1.
 { "type": "MAP", "title": "Paris, France", "content": "Paris, France", "colSpan": 3, "rowSpan": 3 }
 \`\`\`
 
+### EMBED - Music or video player (Spotify, SoundCloud, Vimeo, Bandcamp, Apple Music)
+\`\`\`json
+{ "type": "EMBED", "title": "My latest single", "content": "https://open.spotify.com/track/...", "colSpan": 6, "rowSpan": 3 }
+\`\`\`
+Note: Only use real share URLs from these providers; other hosts are rejected.
+
 ### SPACER - Empty spacing block
 \`\`\`json
 { "type": "SPACER", "colSpan": 3, "rowSpan": 1 }
@@ -429,6 +489,83 @@ If data needs confirmation → First ask your questions, then provide the JSON a
     }
   };
 
+  // Save the bento; when values were stripped, wait for the user to confirm
+  const importBento = (bentoJson: BentoJSON) => {
+    const { bento: newBento, report } = importBentoFromJSON(bentoJson);
+    setImportSuccess(true);
+
+    if (report.length > 0) {
+      setImportReport(report);
+      setImportedBento(newBento);
+      return;
+    }
+
+    // Notify parent and close after a short delay
+    setTimeout(() => {
+      onBentoImported(newBento);
+      handleClose();
+    }, 1000);
+  };
+
+  // Generate the bento with the configured model and import it
+  const handleGenerate = async () => {
+    resetGeneration();
+    setImportSuccess(false);
+    setImportReport([]);
+    setImportedBento(null);
+    setStep('generate');
+    setIsGenerating(true);
+    setGenerationStatus(`Asking ${llmSettings.model}...`);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const { json } = await generateBento(
+        createOpenAiCompatibleProvider(llmSettings),
+        generatedPrompt,
+        {
+          signal: controller.signal,
+          fallback: { name, bio },
+          onToken: (token) => setModelOutput((output) => output + token),
+          onRepair: (attempt, error) => {
+            setModelOutput('');
+            setGenerationStatus(`Attempt ${attempt}: asking the model to fix\n${error}`);
+          },
+        }
+      );
+      if (controller.signal.aborted) return;
+      setGenerationStatus('');
+      importBento(json);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setGenerationStatus('');
+      if (e instanceof BentoGenerationError) setFailedReply(e.reply);
+      setGenerationError(e instanceof Error ? e.message : 'Generation failed');
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const handleStopGeneration = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsGenerating(false);
+    setGenerationStatus('');
+    setGenerationError('Generation stopped');
+  };
+
+  // Fix the last reply by hand in the import step
+  const handleEditReply = () => {
+    setJsonInput(extractJsonFromReply(failedReply || modelOutput));
+    setJsonError(null);
+    resetGeneration();
+    setStep('import');
+  };
+
   // Validate and import JSON
   const handleImport = () => {
     setJsonError(null);
@@ -448,55 +585,13 @@ If data needs confirmation → First ask your questions, then provide the JSON a
         parsed = JSON.parse(parsed);
       }
 
-      // Basic validation
-      if (!parsed.profile && !parsed.blocks) {
-        setJsonError('Invalid JSON: missing "profile" or "blocks"');
-        return;
-      }
-
       // Add required fields if missing
-      const bentoJson: BentoJSON = {
-        id: `ai_${Date.now()}`,
-        name: parsed.name || name || 'My AI Bento',
-        version: '1.0',
-        profile: {
-          name: parsed.profile?.name || name || 'My Bento',
-          bio: parsed.profile?.bio || bio || '',
-          avatarUrl: parsed.profile?.avatarUrl || '',
-          theme: parsed.profile?.theme || 'light',
-          primaryColor: parsed.profile?.primaryColor || 'blue',
-          showBranding: parsed.profile?.showBranding ?? true,
-          analytics: { enabled: false, supabaseUrl: '' },
-          socialAccounts: parsed.profile?.socialAccounts || [],
-        },
-        blocks: (parsed.blocks || []).map((block: Record<string, unknown>, index: number) => ({
-          id: block.id || `block_${index + 1}`,
-          type: block.type || 'TEXT',
-          title: block.title || '',
-          subtext: block.subtext || '',
-          content: block.content || '',
-          colSpan: block.colSpan || 3,
-          rowSpan: block.rowSpan || 3,
-          gridColumn: block.gridColumn || 1,
-          gridRow: block.gridRow || 1,
-          color: block.color || 'bg-gray-900',
-          textColor: block.textColor || 'text-white',
-          socialPlatform: block.socialPlatform,
-          socialHandle: block.socialHandle,
-          imageUrl: block.imageUrl,
-        })),
-      };
-
-      // Import the bento
-      const newBento = importBentoFromJSON(bentoJson);
-      setImportSuccess(true);
-
-      // Notify parent and close after a short delay
-      setTimeout(() => {
-        onBentoImported(newBento);
-        handleClose();
-      }, 1000);
+      importBento(normalizeAiBento(parsed, { name, bio }));
     } catch (e) {
+      if (e instanceof BentoValidationError) {
+        setJsonError(e.message);
+        return;
+      }
       const errorMessage = e instanceof Error ? e.message : 'Unknown error';
       setJsonError(`Invalid JSON: ${errorMessage}`);
     }
@@ -522,6 +617,43 @@ If data needs confirmation → First ask your questions, then provide the JSON a
     setJsonError(null);
   };
 
+  // Outcome of an import, shown after pasting or generating
+  const importResult = (
+    <>
+      {/* Success message */}
+      {importSuccess && (
+        <div className="flex items-start gap-3 p-4 bg-green-50 rounded-xl border border-green-200">
+          <CheckCircle size={20} className="text-green-500 shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-semibold text-green-700">Import successful!</p>
+            <p className="text-sm text-green-600 mt-1">
+              {importReport.length > 0
+                ? 'Your Bento has been created.'
+                : 'Your Bento has been created. Redirecting...'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Stripped values */}
+      {importReport.length > 0 && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 rounded-xl border border-amber-200">
+          <AlertTriangle size={20} className="text-amber-500 shrink-0 mt-0.5" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-amber-700">Some unsafe values were removed</p>
+            <ul className="text-xs text-amber-700 mt-1 space-y-0.5 font-mono break-all">
+              {importReport.map((issue, index) => (
+                <li key={`${issue.path}-${index}`}>
+                  {issue.path}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </>
+  );
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -548,7 +680,11 @@ If data needs confirmation → First ask your questions, then provide the JSON a
                 <div>
                   <div className="flex items-center gap-2">
                     <h2 className="text-lg font-bold text-gray-900">
-                      {step === 'prompt' ? 'Generate with AI' : 'Import result'}
+                      {step === 'prompt'
+                        ? 'Generate with AI'
+                        : step === 'generate'
+                          ? 'Generating'
+                          : 'Import result'}
                     </h2>
                     <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-700 border border-amber-200">
                       <Beaker size={12} />
@@ -557,8 +693,12 @@ If data needs confirmation → First ask your questions, then provide the JSON a
                   </div>
                   <p className="text-gray-500 text-sm mt-0.5">
                     {step === 'prompt'
-                      ? 'Step 1/2 - Customize and copy the prompt'
-                      : 'Step 2/2 - Paste the generated JSON'}
+                      ? canGenerate
+                        ? 'Step 1/2 - Customize the prompt'
+                        : 'Step 1/2 - Customize and copy the prompt'
+                      : step === 'generate'
+                        ? `Step 2/2 - ${llmSettings.model} is writing your Bento`
+                        : 'Step 2/2 - Paste the generated JSON'}
                   </p>
                 </div>
               </div>
@@ -731,6 +871,70 @@ If data needs confirmation → First ask your questions, then provide the JSON a
                       Copy this prompt and paste it into ChatGPT, Claude, or your favorite AI.
                     </p>
                   </div>
+
+                  {/* Direct generation */}
+                  <div className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100">
+                    <p className="text-sm text-gray-600">
+                      {canGenerate ? (
+                        <>
+                          Or generate directly with <strong>{llmSettings.model}</strong> (
+                          {llmSettings.baseUrl}).
+                        </>
+                      ) : (
+                        'Skip the copy/paste: connect an OpenAI-compatible API or a local model (Ollama, llama.cpp) in the settings.'
+                      )}
+                    </p>
+                    {onOpenSettings && (
+                      <button
+                        onClick={onOpenSettings}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 transition-colors shrink-0"
+                      >
+                        <Settings size={14} />
+                        {canGenerate ? 'Change' : 'Set up'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ) : step === 'generate' ? (
+                <div className="space-y-5">
+                  {/* Progress */}
+                  {isGenerating && (
+                    <div className="flex items-start gap-3 p-3 bg-violet-50 rounded-xl border border-violet-100">
+                      <Loader2 size={18} className="text-violet-500 shrink-0 mt-0.5 animate-spin" />
+                      <p className="text-sm text-violet-700 whitespace-pre-line">
+                        {generationStatus || 'Writing...'}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Streamed reply */}
+                  <div>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+                      Model output
+                    </label>
+                    <div className="bg-gray-50 rounded-xl p-4 h-72 overflow-y-auto">
+                      <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono">
+                        {modelOutput ||
+                          failedReply ||
+                          (isGenerating ? 'Waiting for the model...' : '')}
+                      </pre>
+                    </div>
+                  </div>
+
+                  {/* Error message */}
+                  {generationError && (
+                    <div className="flex items-start gap-3 p-4 bg-red-50 rounded-xl border border-red-200">
+                      <AlertCircle size={20} className="text-red-500 shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-semibold text-red-700">Generation failed</p>
+                        <p className="text-sm text-red-600 mt-1 whitespace-pre-line">
+                          {generationError}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
+                  {importResult}
                 </div>
               ) : (
                 <div className="space-y-5">
@@ -780,23 +984,12 @@ If data needs confirmation → First ask your questions, then provide the JSON a
                       <AlertCircle size={20} className="text-red-500 shrink-0 mt-0.5" />
                       <div>
                         <p className="text-sm font-semibold text-red-700">Validation error</p>
-                        <p className="text-sm text-red-600 mt-1">{jsonError}</p>
+                        <p className="text-sm text-red-600 mt-1 whitespace-pre-line">{jsonError}</p>
                       </div>
                     </div>
                   )}
 
-                  {/* Success message */}
-                  {importSuccess && (
-                    <div className="flex items-start gap-3 p-4 bg-green-50 rounded-xl border border-green-200">
-                      <CheckCircle size={20} className="text-green-500 shrink-0 mt-0.5" />
-                      <div>
-                        <p className="text-sm font-semibold text-green-700">Import successful!</p>
-                        <p className="text-sm text-green-600 mt-1">
-                          Your Bento has been created. Redirecting...
-                        </p>
-                      </div>
-                    </div>
-                  )}
+                  {importResult}
                 </div>
               )}
             </div>
@@ -804,9 +997,12 @@ If data needs confirmation → First ask your questions, then provide the JSON a
             {/* Footer */}
             <div className="p-5 pt-3 border-t border-gray-100 shrink-0">
               <div className="flex gap-3">
-                {step === 'import' && (
+                {step !== 'prompt' && (
                   <button
-                    onClick={() => setStep('prompt')}
+                    onClick={() => {
+                      resetGeneration();
+                      setStep('prompt');
+                    }}
                     className="flex-1 py-2.5 border border-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-50 transition-colors flex items-center justify-center gap-2"
                   >
                     <ArrowLeft size={18} />
@@ -814,14 +1010,63 @@ If data needs confirmation → First ask your questions, then provide the JSON a
                   </button>
                 )}
                 {step === 'prompt' ? (
+                  <>
+                    <button
+                      onClick={() => setStep('import')}
+                      className="flex-1 py-2.5 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors flex items-center justify-center gap-2"
+                    >
+                      I have my JSON
+                      <ArrowRight size={18} />
+                    </button>
+                    {canGenerate && (
+                      <button
+                        onClick={handleGenerate}
+                        className="flex-1 py-2.5 bg-violet-600 text-white rounded-xl font-bold hover:bg-violet-700 transition-colors flex items-center justify-center gap-2"
+                      >
+                        <Sparkles size={18} />
+                        Generate
+                      </button>
+                    )}
+                  </>
+                ) : step === 'generate' && isGenerating ? (
+                  <button
+                    onClick={handleStopGeneration}
+                    className="flex-1 py-2.5 border border-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-50 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Square size={16} />
+                    Stop
+                  </button>
+                ) : step === 'generate' && generationError ? (
+                  <>
+                    {(failedReply || modelOutput) && (
+                      <button
+                        onClick={handleEditReply}
+                        className="flex-1 py-2.5 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors flex items-center justify-center gap-2"
+                      >
+                        Edit JSON
+                        <ArrowRight size={18} />
+                      </button>
+                    )}
+                    <button
+                      onClick={handleGenerate}
+                      className="flex-1 py-2.5 bg-violet-600 text-white rounded-xl font-bold hover:bg-violet-700 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <RotateCcw size={18} />
+                      Retry
+                    </button>
+                  </>
+                ) : importedBento ? (
                   <button
-                    onClick={() => setStep('import')}
-                    className="flex-1 py-2.5 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors flex items-center justify-center gap-2"
+                    onClick={() => {
+                      onBentoImported(importedBento);
+                      handleClose();
+                    }}
+                    className="flex-1 py-2.5 bg-violet-600 text-white rounded-xl font-bold hover:bg-violet-700 transition-colors flex items-center justify-center gap-2"
                   >
-                    I have my JSON
+                    Continue
                     <ArrowRight size={18} />
                   </button>
-                ) : (
+                ) : step === 'generate' ? null : (
                   <button
                     onClick={handleImport}
                     disabled={importSuccess}
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Accessibility, CheckCircle, Contrast, ImageOff, Link2 } from 'lucide-react';
+import type { SiteData } from '../types';
+import {
+  checkAccessibility,
+  type AccessibilityIssue,
+  type AccessibilityIssueKind,
+} from '../utils/accessibility';
+
+type AccessibilityPanelProps = {
+  data: SiteData;
+  onSelectBlock: (blockId: string) => void;
+  onEditProfile: () => void;
+};
+
+const ISSUE_ICONS: Record<AccessibilityIssueKind, React.ReactNode> = {
+  'alt-text': <ImageOff size={14} />,
+  contrast: <Contrast size={14} />,
+  'link-label': <Link2 size={14} />,
+};
+
+/**
+ * Accessibility checks shown before export. Issues are warnings: the export still works.
+ */
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
+  data,
+  onSelectBlock,
+  onEditProfile,
+}) => {
+  const issues = useMemo(() => checkAccessibility(data), [data]);
+
+  const fix = (issue: AccessibilityIssue) => {
+    if (issue.blockId) onSelectBlock(issue.blockId);
+    else onEditProfile();
+  };
+
+  return (
+    <section
+      aria-labelledby="accessibility-panel-title"
+      className="bg-gray-50 border border-gray-100 rounded-xl p-3 space-y-2"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h3
+          id="accessibility-panel-title"
+          className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-1.5"
+        >
+          <Accessibility size={14} /> Accessibility
+        </h3>
+        {issues.length > 0 && (
+          <span className="text-[10px] font-bold text-amber-700 bg-amber-100 rounded-full px-2 py-0.5">
+            {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+          </span>
+        )}
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="text-xs text-gray-500 flex items-center gap-1.5">
+          <CheckCircle size={14} className="text-green-600" />
+          No issues found: images are described, text is readable and links are labeled.
+        </p>
+      ) : (
+        <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li
+              key={`${issue.kind}-${issue.blockId ?? 'profile'}-${index}`}
+              className="flex items-start gap-2 bg-white border border-gray-100 rounded-lg p-2"
+            >
+              <span className="mt-0.5 text-amber-600 shrink-0">{ISSUE_ICONS[issue.kind]}</span>
+              <span className="flex-1 min-w-0 text-xs text-gray-700">{issue.message}</span>
+              <button
+                type="button"
+                onClick={() => fix(issue)}
+                className="shrink-0 text-xs font-semibold text-violet-600 hover:text-violet-800 focus:outline-none focus:ring-2 focus:ring-violet-500 rounded"
+              >
+                Fix
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default AccessibilityPanel;
@@ -16,7 +16,10 @@ import {
   Eye,
   Target,
   Zap,
+  ShieldOff,
 } from 'lucide-react';
+import type { AnalyticsProvider } from '../types';
+import { ANALYTICS_PROVIDERS, getCollectorEventsUrl } from '../utils/analytics';
 
 type AnalyticsEvent = {
   id: string;
@@ -43,8 +46,43 @@ type AnalyticsEvent = {
   timezone: string | null;
 };
 
+// Events dropped by the track endpoint, counted per reason
+type FilteredCounts = {
+  total: number;
+  bot: number;
+  rateLimit: number;
+  origin: number;
+  duplicate: number;
+};
+
+// Complete counts of the range from daily rollups; the events stop at the row limit
+type AnalyticsSummary = {
+  totals: {
+    pageViews: number;
+    clicks: number;
+    visitors: number; // Distinct visitors of the whole range
+    sessions: number;
+    engagedSessions: number;
+    avgDurationSeconds: number;
+    avgScrollDepth: number;
+  };
+  series: { day: string; pageViews: number; clicks: number; visitors: number }[];
+};
+
+// Rows returned by the fetch endpoints at most
+const MAX_EVENTS = 10000;
+
+const FILTER_LABELS: { key: Exclude<keyof FilteredCounts, 'total'>; label: string }[] = [
+  { key: 'bot', label: 'Bots' },
+  { key: 'rateLimit', label: 'Rate limited' },
+  { key: 'origin', label: 'Other origins' },
+  { key: 'duplicate', label: 'Duplicate views' },
+];
+
 const AnalyticsPage: React.FC = () => {
   const [events, setEvents] = useState<AnalyticsEvent[]>([]);
+  const [filtered, setFiltered] = useState<FilteredCounts | null>(null);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [days, setDays] = useState(7);
@@ -56,6 +94,15 @@ const AnalyticsPage: React.FC = () => {
     return '';
   });
   const [projectUrl, setProjectUrl] = useState('');
+  // Self-hosted collector: read with the admin token instead of the database password
+  const [provider, setProvider] = useState<AnalyticsProvider>('supabase');
+  const [collectorUrl, setCollectorUrl] = useState('');
+  const [adminToken, setAdminToken] = useState(() => {
+    if (typeof window !== 'undefined') {
+      return sessionStorage.getItem('openbento_analytics_admin_token') || '';
+    }
+    return '';
+  });
   const [isConfigured, setIsConfigured] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
 
@@ -66,12 +113,25 @@ const AnalyticsPage: React.FC = () => {
     }
   }, [dbPassword]);
 
+  useEffect(() => {
+    if (adminToken) {
+      sessionStorage.setItem('openbento_analytics_admin_token', adminToken);
+    }
+  }, [adminToken]);
+
+  const isSelfHosted = provider === 'self-hosted';
+  const sourceUrl = isSelfHosted ? collectorUrl : projectUrl;
+  const secret = isSelfHosted ? adminToken : dbPassword;
+
   // Load config on mount and auto-fetch if password is saved
   useEffect(() => {
     fetch('/__openbento/config')
       .then((r) => r.json())
       .then((data) => {
-        if (data.ok && data.config?.projectUrl) {
+        if (data.ok && data.config?.provider === 'self-hosted') {
+          setProvider('self-hosted');
+          setCollectorUrl(data.config.collectorUrl || '');
+        } else if (data.ok && data.config?.projectUrl) {
           setProjectUrl(data.config.projectUrl);
           // If we have both URL and saved password, auto-fetch
           const savedPassword = sessionStorage.getItem('openbento_db_password');
@@ -86,8 +146,12 @@ const AnalyticsPage: React.FC = () => {
 
   const fetchAnalytics = async (customDays?: number) => {
     const daysToFetch = customDays ?? days;
-    if (!projectUrl || !dbPassword) {
-      setError('Please enter your Supabase URL and database password');
+    if (!sourceUrl || !secret) {
+      setError(
+        isSelfHosted
+          ? 'Please enter your collector URL and admin token'
+          : 'Please enter your Supabase URL and database password'
+      );
       return;
     }
 
@@ -95,15 +159,21 @@ const AnalyticsPage: React.FC = () => {
     setError(null);
 
     try {
-      const res = await fetch('/__openbento/analytics/fetch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ projectUrl, dbPassword, days: daysToFetch }),
-      });
+      const res = isSelfHosted
+        ? await fetch(getCollectorEventsUrl(collectorUrl, daysToFetch), {
+            headers: { 'x-openbento-admin-token': adminToken.trim() },
+          })
+        : await fetch('/__openbento/analytics/fetch', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ projectUrl, dbPassword, days: daysToFetch }),
+          });
 
       const data = await res.json();
       if (data.ok) {
         setEvents(data.events || []);
+        setFiltered(data.filtered || null);
+        setSummary(data.summary || null);
         setIsConfigured(true);
       } else {
         setError(data.error || 'Failed to fetch analytics');
@@ -117,14 +187,14 @@ const AnalyticsPage: React.FC = () => {
 
   // Auto-fetch when config is ready
   useEffect(() => {
-    if (!initialLoading && projectUrl && dbPassword && !isConfigured) {
+    if (!initialLoading && sourceUrl && secret && !isConfigured) {
       fetchAnalytics();
     }
-  }, [initialLoading, projectUrl, dbPassword]);
+  }, [initialLoading, sourceUrl, secret]);
 
   // Auto-refresh when days change (if already configured)
   useEffect(() => {
-    if (isConfigured && projectUrl && dbPassword) {
+    if (isConfigured && sourceUrl && secret) {
       fetchAnalytics(days);
     }
   }, [days]);
@@ -225,8 +295,9 @@ const AnalyticsPage: React.FC = () => {
       languages[lang] = (languages[lang] || 0) + 1;
     });
 
-    return {
+    const sampled = {
       uniqueVisitors,
+      sampledPageViews: totalPageViews,
       totalPageViews,
       totalClicks,
       avgDuration,
@@ -248,7 +319,23 @@ const AnalyticsPage: React.FC = () => {
         .sort((a, b) => b[1] - a[1])
         .slice(0, 5),
     };
-  }, [events]);
+
+    // Headline counts and the daily chart prefer the complete rollups
+    if (!summary) return sampled;
+    const { totals } = summary;
+    return {
+      ...sampled,
+      uniqueVisitors: totals.visitors,
+      totalPageViews: totals.pageViews,
+      totalClicks: totals.clicks,
+      avgDuration: totals.avgDurationSeconds,
+      avgScroll: totals.avgScrollDepth,
+      engagementRate:
+        totals.sessions > 0 ? Math.round((totals.engagedSessions / totals.sessions) * 100) : 0,
+      ctr: totals.pageViews > 0 ? Math.round((totals.clicks / totals.pageViews) * 100) : 0,
+      viewsByDay: summary.series.map((d): [string, number] => [d.day, d.pageViews]),
+    };
+  }, [events, summary]);
 
   const formatDuration = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
@@ -290,50 +377,108 @@ const AnalyticsPage: React.FC = () => {
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Analytics Dashboard</h1>
                 <p className="text-gray-500">
-                  {projectUrl ? 'Enter your database password' : 'Enter your credentials'}
+                  {sourceUrl
+                    ? isSelfHosted
+                      ? 'Enter your admin token'
+                      : 'Enter your database password'
+                    : 'Enter your credentials'}
                 </p>
               </div>
             </div>
 
             <div className="space-y-4">
-              {!projectUrl && (
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Supabase Project URL
-                  </label>
-                  <input
-                    type="text"
-                    value={projectUrl}
-                    onChange={(e) => setProjectUrl(e.target.value)}
-                    placeholder="https://xxxxx.supabase.co"
-                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                  />
-                </div>
-              )}
+              <div className="flex items-center bg-gray-100 rounded-lg p-1">
+                {ANALYTICS_PROVIDERS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    aria-pressed={provider === option.id}
+                    onClick={() => setProvider(option.id)}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                      provider === option.id
+                        ? 'bg-white text-violet-600 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
 
-              {projectUrl && (
-                <div className="p-3 bg-gray-50 rounded-xl text-sm text-gray-600 flex items-center gap-2">
-                  <Globe size={16} className="text-gray-400" />
-                  <span className="truncate">{projectUrl}</span>
-                </div>
-              )}
+              {isSelfHosted ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Collector URL
+                    </label>
+                    <input
+                      type="text"
+                      value={collectorUrl}
+                      onChange={(e) => setCollectorUrl(e.target.value)}
+                      placeholder="https://example.com/analytics"
+                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    />
+                  </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Database Password
-                </label>
-                <input
-                  type="password"
-                  value={dbPassword}
-                  onChange={(e) => setDbPassword(e.target.value)}
-                  placeholder="Your Supabase DB password"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                  autoFocus={!!projectUrl}
-                />
-                <p className="text-xs text-gray-400 mt-1">
-                  Stored in session only (cleared when browser closes)
-                </p>
-              </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Admin Token
+                    </label>
+                    <input
+                      type="password"
+                      value={adminToken}
+                      onChange={(e) => setAdminToken(e.target.value)}
+                      placeholder="OPENBENTO_ANALYTICS_ADMIN_TOKEN"
+                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      autoFocus={!!collectorUrl}
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                      Stored in session only (cleared when browser closes)
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {!projectUrl && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Supabase Project URL
+                      </label>
+                      <input
+                        type="text"
+                        value={projectUrl}
+                        onChange={(e) => setProjectUrl(e.target.value)}
+                        placeholder="https://xxxxx.supabase.co"
+                        className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  {projectUrl && (
+                    <div className="p-3 bg-gray-50 rounded-xl text-sm text-gray-600 flex items-center gap-2">
+                      <Globe size={16} className="text-gray-400" />
+                      <span className="truncate">{projectUrl}</span>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Database Password
+                    </label>
+                    <input
+                      type="password"
+                      value={dbPassword}
+                      onChange={(e) => setDbPassword(e.target.value)}
+                      placeholder="Your Supabase DB password"
+                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      autoFocus={!!projectUrl}
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                      Stored in session only (cleared when browser closes)
+                    </p>
+                  </div>
+                </>
+              )}
 
               {error && (
                 <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm">
@@ -343,7 +488,7 @@ const AnalyticsPage: React.FC = () => {
 
               <button
                 onClick={() => fetchAnalytics()}
-                disabled={loading || !dbPassword}
+                disabled={loading || !secret}
                 className="w-full py-3 bg-violet-600 text-white rounded-xl font-semibold hover:bg-violet-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {loading ? (
@@ -386,7 +531,10 @@ const AnalyticsPage: React.FC = () => {
               </a>
               <div className="min-w-0">
                 <h1 className="text-lg sm:text-xl font-bold text-gray-900 truncate">Analytics</h1>
-                <p className="text-xs sm:text-sm text-gray-500">{events.length} events</p>
+                <p className="text-xs sm:text-sm text-gray-500">
+                  {events.length} events
+                  {events.length >= MAX_EVENTS && ' (latest only: breakdowns are sampled)'}
+                </p>
               </div>
             </div>
 
@@ -479,6 +627,21 @@ const AnalyticsPage: React.FC = () => {
           />
         </div>
 
+        {/* Filtered events */}
+        {filtered && filtered.total > 0 && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-8 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+            <span className="font-semibold text-gray-900 flex items-center gap-2">
+              <ShieldOff size={16} className="text-gray-400" />
+              {filtered.total.toLocaleString()} filtered events
+            </span>
+            {FILTER_LABELS.map(({ key, label }) => (
+              <span key={key} className="text-gray-500">
+                {label}: <span className="font-semibold text-gray-700">{filtered[key]}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           {/* Traffic Sources */}
           <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
@@ -500,7 +663,7 @@ const AnalyticsPage: React.FC = () => {
                       <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
                         <div
                           className="h-full bg-violet-500 rounded-full"
-                          style={{ width: `${(count / stats.totalPageViews) * 100}%` }}
+                          style={{ width: `${(count / stats.sampledPageViews) * 100}%` }}
                         />
                       </div>
                     </div>
@@ -549,19 +712,19 @@ const AnalyticsPage: React.FC = () => {
                 icon={<Monitor size={18} />}
                 label="Desktop"
                 value={stats.devices.desktop}
-                total={stats.totalPageViews}
+                total={stats.sampledPageViews}
               />
               <DeviceBar
                 icon={<Tablet size={18} />}
                 label="Tablet"
                 value={stats.devices.tablet}
-                total={stats.totalPageViews}
+                total={stats.sampledPageViews}
               />
               <DeviceBar
                 icon={<Smartphone size={18} />}
                 label="Mobile"
                 value={stats.devices.mobile}
-                total={stats.totalPageViews}
+                total={stats.sampledPageViews}
               />
             </div>
           </div>
@@ -574,7 +737,7 @@ const AnalyticsPage: React.FC = () => {
                 <div key={browser} className="flex items-center justify-between">
                   <span className="text-sm text-gray-700">{browser}</span>
                   <span className="text-sm font-medium text-gray-900">
-                    {count} ({Math.round((count / stats.totalPageViews) * 100)}%)
+                    {count} ({Math.round((count / stats.sampledPageViews) * 100)}%)
                   </span>
                 </div>
               ))}
@@ -589,7 +752,7 @@ const AnalyticsPage: React.FC = () => {
                 <div key={lang} className="flex items-center justify-between">
                   <span className="text-sm text-gray-700">{lang.toUpperCase()}</span>
                   <span className="text-sm font-medium text-gray-900">
-                    {count} ({Math.round((count / stats.totalPageViews) * 100)}%)
+                    {count} ({Math.round((count / stats.sampledPageViews) * 100)}%)
                   </span>
                 </div>
               ))}
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { BlockData, BlockType } from '../types';
+import { BlockData, BlockType, ColorScheme } from '../types';
 import {
   Youtube,
   MoveVertical,
@@ -15,6 +15,13 @@ import {
 import { motion } from 'framer-motion';
 import { getSocialPlatformOption, inferSocialPlatformFromUrl } from '../socialPlatforms';
 import { openSafeUrl, isValidYouTubeChannelId, isValidLocationString } from '../utils/security';
+import { EMBED_ALLOW, EMBED_SANDBOX, parseEmbedUrl } from '../utils/embed';
+import { getBlockRadius } from '../utils/theme';
+import { getBlockColors } from '../utils/colorScheme';
+import { getGalleryImages, getGalleryInterval } from '../utils/gallery';
+import { getImageAlt } from '../utils/accessibility';
+import { fetchYouTubeFeed } from '../services/youtubeFeedService';
+import GalleryCarousel from './GalleryCarousel';
 
 // Apple TV style 3D tilt effect hook
 const useTiltEffect = (isEnabled: boolean = true) => {
@@ -78,7 +85,7 @@ interface BlockProps {
   isSelected: boolean;
   isDragTarget?: boolean;
   isDragging?: boolean;
-  onEdit: (block: BlockData) => void;
+  onEdit: (block: BlockData, e?: React.MouseEvent) => void; // e carries shift for multi-select
   onDelete: (id: string) => void;
   onDragStart: (id: string) => void;
   onDragEnter: (id: string) => void;
@@ -91,6 +98,7 @@ interface BlockProps {
   onInlineUpdate?: (block: BlockData) => void;
   enableTiltEffect?: boolean; // Apple TV style 3D tilt on hover
   previewMode?: boolean; // In preview mode, clicks navigate to URLs instead of editing
+  colorScheme?: ColorScheme; // Dark mode shows the block's dark colors
 }
 
 const Block: React.FC<BlockProps> = ({
@@ -111,6 +119,7 @@ const Block: React.FC<BlockProps> = ({
   onInlineUpdate,
   enableTiltEffect,
   previewMode,
+  colorScheme,
 }) => {
   // Apple TV tilt effect
   const {
@@ -146,6 +155,12 @@ const Block: React.FC<BlockProps> = ({
   } | null>(null);
   const mediaContainerRef = useRef<HTMLDivElement>(null);
 
+  // Embed players only load on click (privacy: no third-party request before that)
+  const [isEmbedLoaded, setIsEmbedLoaded] = useState(false);
+  useEffect(() => {
+    setIsEmbedLoaded(false);
+  }, [block.content]);
+
   // Update media position when block changes
   useEffect(() => {
     setMediaPosition(block.mediaPosition || { x: 50, y: 50 });
@@ -277,25 +292,8 @@ const Block: React.FC<BlockProps> = ({
       const fetchFeed = async () => {
         setIsLoading(true);
         try {
-          const rssUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${block.channelId}`;
-          const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(rssUrl)}`;
-          const response = await fetch(proxyUrl);
-          if (response.ok && isMounted) {
-            const text = await response.text();
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(text, 'text/xml');
-            const entries = Array.from(xmlDoc.querySelectorAll('entry'));
-            const vids = entries.slice(0, 4).map((entry) => {
-              const vidId = entry.getElementsByTagName('yt:videoId')[0]?.textContent || '';
-              const vidTitle = entry.getElementsByTagName('title')[0]?.textContent || '';
-              return {
-                id: vidId,
-                title: vidTitle,
-                thumbnail: `https://img.youtube.com/vi/${vidId}/mqdefault.jpg`,
-              };
-            });
-            if (vids.length > 0) setFetchedVideos(vids);
-          }
+          const { videos } = await fetchYouTubeFeed(block.channelId!);
+          if (videos.length > 0 && isMounted) setFetchedVideos(videos);
         } catch (e) {
           console.warn('Auto-fetch warning:', e);
         } finally {
@@ -319,15 +317,11 @@ const Block: React.FC<BlockProps> = ({
         : 'md:col-span-1 lg:col-span-1';
   const rowClass = block.rowSpan === 2 ? 'md:row-span-2' : 'md:row-span-1';
 
-  // Calculate border-radius based on block size (smaller = more rectangular)
-  const getBorderRadius = () => {
-    const minDim = Math.min(block.colSpan, block.rowSpan);
-    if (minDim <= 1) return '0.5rem'; // 8px for tiny blocks
-    if (minDim <= 2) return '0.625rem'; // 10px for small blocks
-    if (minDim <= 3) return '0.75rem'; // 12px for medium blocks
-    return '0.875rem'; // 14px for large blocks
-  };
-  const borderRadius = getBorderRadius();
+  // Colors of the displayed color scheme (edits still apply to `block`)
+  const colors = getBlockColors(block, colorScheme);
+
+  // Border radius follows the theme radius, scaled by block size (smaller = more rectangular)
+  const borderRadius = getBlockRadius(block.colSpan, block.rowSpan);
   const sizeTier = (() => {
     const minDim = Math.min(block.colSpan, block.rowSpan);
     const area = block.colSpan * block.rowSpan;
@@ -463,7 +457,7 @@ const Block: React.FC<BlockProps> = ({
           e.preventDefault();
           onDrop(block.id);
         }}
-        onClick={() => onEdit(block)}
+        onClick={(e) => onEdit(block, e)}
         data-block-id={block.id}
         className={`
                 relative ${colClass} ${rowClass} cursor-pointer h-full
@@ -499,14 +493,16 @@ const Block: React.FC<BlockProps> = ({
 
     // Determine if we should show colored or grey/black icon
     // Use brand color by default, but respect textColor if explicitly set
-    const useColor = !block.textColor || block.textColor === 'text-brand';
+    const useColor = !colors.textColor || colors.textColor === 'text-brand';
     const iconColor = useColor
       ? brandColor
-      : block.textColor === 'text-black'
+      : colors.textColor === 'text-black'
         ? '#000000'
-        : block.textColor === 'text-gray-700'
+        : colors.textColor === 'text-gray-700'
           ? '#374151'
-          : undefined;
+          : colors.textColor === 'text-white'
+            ? '#ffffff'
+            : undefined;
 
     return (
       <motion.a
@@ -546,24 +542,24 @@ const Block: React.FC<BlockProps> = ({
         onClick={(e) => {
           if (e.ctrlKey || e.metaKey) return; // Allow link click
           e.preventDefault();
-          onEdit(block);
+          onEdit(block, e);
         }}
         data-block-id={block.id}
         className={`
           bento-item relative cursor-pointer overflow-hidden h-full
-          ${block.color || 'bg-white'}
+          ${colors.color || 'bg-white'}
           ${isSelected ? 'ring-2 ring-violet-500 shadow-lg' : 'hover:ring-2 hover:ring-gray-300 hover:shadow-md'}
           ${isDragTarget ? 'ring-2 ring-violet-500 bg-violet-50/50 scale-105' : ''}
           ${isDragging ? 'opacity-40 scale-95' : ''}
           transition-all duration-200 group
           flex items-center justify-center
-          shadow-sm border border-gray-100
+          theme-card
           focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
         `}
         style={{
           ...gridPositionStyle,
           borderRadius,
-          ...(block.customBackground ? { background: block.customBackground } : {}),
+          ...(colors.customBackground ? { background: colors.customBackground } : {}),
         }}
       >
         {BrandIcon ? (
@@ -634,9 +630,10 @@ const Block: React.FC<BlockProps> = ({
   const isYoutubeList = isYoutube && block.youtubeMode === 'list';
 
   const isLinkWithImage = block.type === BlockType.LINK && block.imageUrl;
+  const embed = block.type === BlockType.EMBED ? parseEmbedUrl(block.content) : null;
 
-  const backgroundStyle: React.CSSProperties = block.customBackground
-    ? { background: block.customBackground }
+  const backgroundStyle: React.CSSProperties = colors.customBackground
+    ? { background: colors.customBackground }
     : {};
 
   let finalStyle: React.CSSProperties = backgroundStyle;
@@ -698,11 +695,11 @@ const Block: React.FC<BlockProps> = ({
           e.preventDefault();
           onDrop(block.id);
         }}
-        onClick={() => {
+        onClick={(e) => {
           if (previewMode && block.channelId && isValidYouTubeChannelId(block.channelId)) {
             openSafeUrl(`https://youtube.com/channel/${block.channelId}`);
           } else if (!previewMode) {
-            onEdit(block);
+            onEdit(block, e);
           }
         }}
         data-block-id={block.id}
@@ -712,11 +709,10 @@ const Block: React.FC<BlockProps> = ({
         style={{
           ...gridPositionStyle,
           borderRadius,
-          ...(block.customBackground ? { background: block.customBackground } : {}),
+          ...(colors.customBackground ? { background: colors.customBackground } : {}),
         }}
-        className={`bento-item group relative overflow-hidden ${block.color || 'bg-white'} ${colClass} ${rowClass} cursor-pointer h-full
-          ${isSelected ? 'ring-4 ring-blue-500 shadow-xl z-20' : 'ring-1 ring-black/5'}
-          ${!isSelected ? 'shadow-sm hover:shadow-xl' : ''}
+        className={`bento-item group relative overflow-hidden ${colors.color || 'bg-white'} ${colClass} ${rowClass} cursor-pointer h-full
+          ${isSelected ? 'ring-4 ring-blue-500 shadow-xl z-20' : 'theme-card hover:shadow-xl'}
           ${isDragTarget ? 'ring-2 ring-violet-500 z-20 scale-[1.02]' : ''}
           ${isDragging ? 'opacity-40 scale-95' : ''}
           transition-all duration-300 select-none
@@ -833,8 +829,12 @@ const Block: React.FC<BlockProps> = ({
         e.preventDefault();
         onDrop(block.id);
       }}
-      onClick={() => {
-        if (previewMode) {
+      onClick={(e) => {
+        if (previewMode && block.type === BlockType.EMBED) {
+          setIsEmbedLoaded(true);
+        } else if (previewMode && block.type === BlockType.GALLERY) {
+          // Images open the lightbox themselves
+        } else if (previewMode) {
           // In preview mode, navigate to block URL with security validation
           let url = block.content;
           if (block.type === BlockType.SOCIAL && block.socialPlatform && block.socialHandle) {
@@ -844,7 +844,7 @@ const Block: React.FC<BlockProps> = ({
           // SECURITY: Only open safe URLs (http/https)
           openSafeUrl(url);
         } else {
-          onEdit(block);
+          onEdit(block, e);
         }
       }}
       data-block-id={block.id}
@@ -864,9 +864,9 @@ const Block: React.FC<BlockProps> = ({
         onMouseLeave={enableTiltEffect ? onTiltLeave : undefined}
         onMouseEnter={enableTiltEffect ? onTiltEnter : undefined}
         style={{ ...finalStyle, borderRadius, ...tiltWrapperStyle }}
-        className={`bento-item group relative overflow-hidden w-full h-full ${!block.customBackground && !isLinkWithImage && !isRichYoutube ? block.color || 'bg-white' : ''} ${block.textColor || 'text-gray-900'}
-          ${isSelected ? 'ring-4 ring-blue-500 shadow-xl' : 'ring-1 ring-black/5'}
-          ${!isSelected && !enableTiltEffect ? 'shadow-sm hover:shadow-xl' : 'shadow-sm'}
+        className={`bento-item group relative overflow-hidden w-full h-full ${!colors.customBackground && !isLinkWithImage && !isRichYoutube ? colors.color || 'bg-white' : ''} ${colors.textColor || 'text-gray-900'}
+          ${isSelected ? 'ring-4 ring-blue-500 shadow-xl' : 'theme-card'}
+          ${!isSelected && !enableTiltEffect ? 'hover:shadow-xl' : ''}
           ${isDragTarget ? 'ring-2 ring-violet-500' : ''}
           transition-all duration-300
           focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
@@ -921,6 +921,10 @@ const Block: React.FC<BlockProps> = ({
 
         {resizeHandle}
 
+        {isLinkWithImage && block.imageAlt && (
+          <span role="img" aria-label={block.imageAlt} className="sr-only" />
+        )}
+
         {/* Gradient overlay for image backgrounds - only when there's text */}
         {(isRichYoutube || isLinkWithImage) &&
           (block.title || block.subtext || block.channelTitle) &&
@@ -1006,6 +1010,7 @@ const Block: React.FC<BlockProps> = ({
               {/\.(mp4|webm|ogg|mov)$/i.test(block.imageUrl) ? (
                 <video
                   src={block.imageUrl}
+                  aria-label={getImageAlt(block) || undefined}
                   className="full-img"
                   style={{ objectPosition: `${mediaPosition.x}% ${mediaPosition.y}%` }}
                   autoPlay
@@ -1016,7 +1021,7 @@ const Block: React.FC<BlockProps> = ({
               ) : (
                 <img
                   src={block.imageUrl}
-                  alt={block.title || ''}
+                  alt={getImageAlt(block)}
                   className="full-img"
                   style={{ objectPosition: `${mediaPosition.x}% ${mediaPosition.y}%` }}
                   draggable={false}
@@ -1084,13 +1089,61 @@ const Block: React.FC<BlockProps> = ({
               {/* Subtle gradient from bottom for optional text */}
               {block.title && !isRepositioning && (
                 <div className="media-overlay">
-                  <p className={`media-title ${textSizes.overlayTitle}`}>{block.title}</p>
+                  <p className={`media-title ${textSizes.overlayTitle}`}>
+                    <span className="theme-heading">{block.title}</span>
+                  </p>
                   {block.subtext && (
-                    <p className={`media-subtext ${textSizes.overlaySubtext}`}>{block.subtext}</p>
+                    <p className={`media-subtext ${textSizes.overlaySubtext}`}>
+                      <span className="theme-text">{block.subtext}</span>
+                    </p>
                   )}
                 </div>
               )}
             </div>
+          ) : block.type === BlockType.GALLERY ? (
+            /* GALLERY BLOCK - Carousel or slideshow, lightbox in preview */
+            <GalleryCarousel
+              images={getGalleryImages(block)}
+              mode={block.galleryMode}
+              interval={getGalleryInterval(block)}
+              title={block.title}
+              enableLightbox={previewMode}
+              titleClassName={textSizes.overlayTitle}
+              captionClassName={textSizes.overlaySubtext}
+            />
+          ) : block.type === BlockType.EMBED ? (
+            /* EMBED BLOCK - Allow-listed player, loaded on click */
+            <div className="w-full h-full relative bg-gray-100 overflow-hidden flex items-center justify-center">
+              {/* SECURITY: Only render iframe for allow-listed providers */}
+              {!embed ? (
+                <div className="px-3 text-center text-gray-400 text-sm">Unsupported embed URL</div>
+              ) : isEmbedLoaded ? (
+                <iframe
+                  src={embed.src}
+                  title={block.title || `${embed.label} player`}
+                  className="w-full max-h-full border-0"
+                  style={{ aspectRatio: embed.aspectRatio }}
+                  loading="lazy"
+                  allow={EMBED_ALLOW}
+                  sandbox={EMBED_SANDBOX}
+                  referrerPolicy="strict-origin-when-cross-origin"
+                ></iframe>
+              ) : (
+                <div className="flex flex-col items-center gap-2 px-3 text-center">
+                  <div className="w-8 h-8 md:w-10 md:h-10 rounded-full bg-gray-900 flex items-center justify-center shadow-lg transform group-hover:scale-110 transition-transform duration-300">
+                    <Play size={12} className="md:w-4 md:h-4 text-white ml-0.5" fill="white" />
+                  </div>
+                  <p className={`font-semibold text-gray-900 ${textSizes.overlayTitle}`}>
+                    <span className="theme-heading">{block.title || embed.label}</span>
+                  </p>
+                  <p className={`text-gray-500 ${textSizes.overlaySubtext}`}>
+                    {previewMode
+                      ? `Click to load the ${embed.label} player`
+                      : `${embed.label} player, loads when visitors click`}
+                  </p>
+                </div>
+              )}
+            </div>
           ) : block.type === BlockType.MAP ? (
             /* MAP BLOCK - Clean minimal */
             <div className="w-full h-full relative bg-gray-100 overflow-hidden">
@@ -1112,7 +1165,7 @@ const Block: React.FC<BlockProps> = ({
               {block.title && (
                 <div className="absolute bottom-0 left-0 right-0 p-2 md:p-3 bg-gradient-to-t from-black/60 to-transparent">
                   <p className={`font-semibold text-white drop-shadow ${textSizes.overlayTitle}`}>
-                    {block.title}
+                    <span className="theme-heading">{block.title}</span>
                   </p>
                 </div>
               )}
@@ -1137,7 +1190,7 @@ const Block: React.FC<BlockProps> = ({
                   <h3
                     className={`font-semibold text-white leading-tight drop-shadow-lg line-clamp-1 ${textSizes.overlayTitle}`}
                   >
-                    {block.channelTitle || block.title}
+                    <span className="theme-heading">{block.channelTitle || block.title}</span>
                   </h3>
                 </div>
               )}
@@ -1154,13 +1207,13 @@ const Block: React.FC<BlockProps> = ({
                   const BrandIcon = option?.brandIcon;
                   const FallbackIcon = option?.icon;
                   const brandColor = option?.brandColor;
-                  const useColor = block.textColor === 'text-brand';
+                  const useColor = colors.textColor === 'text-brand';
                   const iconColor = useColor ? brandColor : undefined;
 
                   return (
                     <div
                       className={`w-6 h-6 md:w-7 md:h-7 rounded-lg flex items-center justify-center shrink-0 ${
-                        block.textColor === 'text-white' || isLinkWithImage
+                        colors.textColor === 'text-white' || isLinkWithImage
                           ? 'bg-white/20 text-white backdrop-blur-sm'
                           : 'bg-gray-100'
                       }`}
@@ -1212,7 +1265,9 @@ const Block: React.FC<BlockProps> = ({
                         }
                       }}
                     >
-                      {block.channelTitle || block.title || (
+                      {block.channelTitle || block.title ? (
+                        <span className="theme-heading">{block.channelTitle || block.title}</span>
+                      ) : (
                         <span className="opacity-40 italic">Add title...</span>
                       )}
                       {onInlineUpdate && !block.channelTitle && (
@@ -1251,7 +1306,9 @@ const Block: React.FC<BlockProps> = ({
                           }
                         }}
                       >
-                        {block.subtext || (
+                        {block.subtext ? (
+                          <span className="theme-text">{block.subtext}</span>
+                        ) : (
                           <span className="opacity-40 italic text-xs">Add subtitle...</span>
                         )}
                         {onInlineUpdate && (
@@ -1269,7 +1326,7 @@ const Block: React.FC<BlockProps> = ({
                   <p
                     className={`opacity-70 mt-2 whitespace-pre-wrap leading-relaxed ${textSizes.body}`}
                   >
-                    {block.content}
+                    <span className="theme-text">{block.content}</span>
                   </p>
                 )}
               </div>
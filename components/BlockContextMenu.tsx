@@ -0,0 +1,131 @@
+import React, { useEffect, useRef } from 'react';
+import { ClipboardPaste, Copy, CopyPlus, Trash2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface BlockContextMenuProps {
+  x: number; // Viewport position of the pointer
+  y: number;
+  count: number; // Blocks the menu acts on (0 on the empty grid)
+  onCopy: () => void;
+  onPaste: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const MENU_WIDTH = 208;
+const MENU_HEIGHT = 184;
+
+// Right-click menu of the builder grid: clipboard and block actions
+const BlockContextMenu: React.FC<BlockContextMenuProps> = ({
+  x,
+  y,
+  count,
+  onCopy,
+  onPaste,
+  onDuplicate,
+  onDelete,
+  onClose,
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const menu: HTMLDivElement | null = menuRef.current;
+    menu?.querySelector<HTMLButtonElement>('button')?.focus();
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menu?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', onClose);
+    window.addEventListener('scroll', onClose, true);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', onClose);
+      window.removeEventListener('scroll', onClose, true);
+    };
+  }, [onClose]);
+
+  const blockLabel = count === 1 ? 'block' : `${count} blocks`;
+  const items = [
+    ...(count > 0
+      ? [{ label: `Copy ${blockLabel}`, shortcut: 'Ctrl/Cmd+C', icon: Copy, action: onCopy }]
+      : []),
+    { label: 'Paste', shortcut: 'Ctrl/Cmd+V', icon: ClipboardPaste, action: onPaste },
+    ...(count > 0
+      ? [
+          {
+            label: `Duplicate ${blockLabel}`,
+            shortcut: 'Ctrl/Cmd+D',
+            icon: CopyPlus,
+            action: onDuplicate,
+          },
+        ]
+      : []),
+  ];
+
+  const itemClass =
+    'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-left transition-colors focus:outline-none';
+
+  return (
+    <motion.div
+      ref={menuRef}
+      role="menu"
+      aria-label="Block actions"
+      initial={{ opacity: 0, scale: 0.96 }}
+      animate={{ opacity: 1, scale: 1 }}
+      onContextMenu={(e) => e.preventDefault()}
+      className="fixed z-50 bg-white rounded-xl shadow-xl ring-1 ring-black/5 p-1.5"
+      style={{
+        left: Math.min(x, window.innerWidth - MENU_WIDTH - 8),
+        top: Math.min(y, window.innerHeight - MENU_HEIGHT - 8),
+        width: MENU_WIDTH,
+      }}
+    >
+      {items.map(({ label, shortcut, icon: Icon, action }) => (
+        <button
+          key={label}
+          type="button"
+          role="menuitem"
+          onClick={() => {
+            onClose();
+            action();
+          }}
+          className={`${itemClass} text-gray-700 hover:bg-gray-100 focus:bg-gray-100`}
+        >
+          <Icon size={16} className="text-gray-500" />
+          <span className="flex-1">{label}</span>
+          <span className="text-xs text-gray-400">{shortcut}</span>
+        </button>
+      ))}
+      {count > 0 && (
+        <>
+          <div className="h-px bg-gray-100 my-1" />
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              onClose();
+              onDelete();
+            }}
+            className={`${itemClass} text-red-600 hover:bg-red-50 focus:bg-red-50`}
+          >
+            <Trash2 size={16} />
+            <span className="flex-1">Delete {blockLabel}</span>
+          </button>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default BlockContextMenu;
@@ -3,6 +3,9 @@ import { BlockData, BlockType } from '../types';
 import { Youtube, Play, Loader2 } from 'lucide-react';
 import { getSocialPlatformOption, inferSocialPlatformFromUrl } from '../socialPlatforms';
 import { openSafeUrl, isValidYouTubeChannelId, isValidLocationString } from '../utils/security';
+import { parseEmbedUrl } from '../utils/embed';
+import { getFocalPoint, getGalleryAlt, getGalleryImages } from '../utils/gallery';
+import { fetchYouTubeFeed } from '../services/youtubeFeedService';
 
 // Apple TV style 3D tilt effect hook
 const useTiltEffect = (isEnabled: boolean = true) => {
@@ -92,25 +95,8 @@ const BlockPreview: React.FC<BlockPreviewProps> = ({
       const fetchFeed = async () => {
         setIsLoading(true);
         try {
-          const rssUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${block.channelId}`;
-          const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(rssUrl)}`;
-          const response = await fetch(proxyUrl);
-          if (response.ok && isMounted) {
-            const text = await response.text();
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(text, 'text/xml');
-            const entries = Array.from(xmlDoc.querySelectorAll('entry'));
-            const vids = entries.slice(0, 4).map((entry) => {
-              const vidId = entry.getElementsByTagName('yt:videoId')[0]?.textContent || '';
-              const vidTitle = entry.getElementsByTagName('title')[0]?.textContent || '';
-              return {
-                id: vidId,
-                title: vidTitle,
-                thumbnail: `https://img.youtube.com/vi/${vidId}/mqdefault.jpg`,
-              };
-            });
-            if (vids.length > 0) setFetchedVideos(vids);
-          }
+          const { videos } = await fetchYouTubeFeed(block.channelId!);
+          if (videos.length > 0 && isMounted) setFetchedVideos(videos);
         } catch (e) {
           console.warn('Auto-fetch warning:', e);
         } finally {
@@ -237,6 +223,8 @@ const BlockPreview: React.FC<BlockPreviewProps> = ({
     isYoutube && activeVideoId && block.youtubeMode !== 'grid' && block.youtubeMode !== 'list';
   const isYoutubeGrid = isYoutube && (block.youtubeMode === 'grid' || block.youtubeMode === 'list');
   const isLinkWithImage = block.type === BlockType.LINK && block.imageUrl;
+  const embed = block.type === BlockType.EMBED ? parseEmbedUrl(block.content) : null;
+  const galleryCover = block.type === BlockType.GALLERY ? getGalleryImages(block)[0] : undefined;
 
   // Background style
   let finalStyle: React.CSSProperties = block.customBackground
@@ -440,6 +428,34 @@ const BlockPreview: React.FC<BlockPreviewProps> = ({
                 </div>
               )}
             </div>
+          ) : block.type === BlockType.GALLERY && galleryCover ? (
+            /* GALLERY BLOCK - First image only, previews are static */
+            <div className="w-full h-full relative overflow-hidden">
+              <img
+                src={galleryCover.url}
+                alt={getGalleryAlt(galleryCover)}
+                className="full-img"
+                style={{ objectPosition: getFocalPoint(galleryCover) }}
+                draggable={false}
+              />
+              {(galleryCover.caption || block.title) && (
+                <div className="media-overlay">
+                  <p className={`media-title ${textSizes.overlayTitle}`}>
+                    {galleryCover.caption || block.title}
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : block.type === BlockType.EMBED ? (
+            /* EMBED BLOCK - Placeholder only, players are never loaded in previews */
+            <div className="w-full h-full bg-gray-100 flex flex-col items-center justify-center gap-2 px-3 text-center">
+              <div className="w-8 h-8 md:w-10 md:h-10 rounded-full bg-gray-900 flex items-center justify-center shadow-lg">
+                <Play size={12} className="md:w-4 md:h-4 text-white ml-0.5" fill="white" />
+              </div>
+              <p className={`font-semibold text-gray-900 ${textSizes.overlayTitle}`}>
+                {block.title || embed?.label || 'Unsupported embed URL'}
+              </p>
+            </div>
           ) : block.type === BlockType.MAP ? (
             /* MAP BLOCK */
             <div className="w-full h-full relative bg-gray-100 overflow-hidden">
@@ -1,26 +1,80 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { UserProfile, BlockData, BlockType, SavedBento, AvatarStyle } from '../types';
+import {
+  UserProfile,
+  BlockData,
+  BlockType,
+  SavedBento,
+  AvatarStyle,
+  SiteData,
+  LayoutBreakpoint,
+  ColorScheme,
+} from '../types';
 import Block from './Block';
 import EditorSidebar from './EditorSidebar';
 import ProfileDropdown from './ProfileDropdown';
-import SettingsModal from './SettingsModal';
+import SettingsModal, { type SettingsTab } from './SettingsModal';
+import AccessibilityPanel from './AccessibilityPanel';
 import ImageCropModal from './ImageCropModal';
 import { useHistory } from '../hooks/useHistory';
 import { useSaveStatus } from '../hooks/useSaveStatus';
+import { useThemeFonts } from '../hooks/useThemeFonts';
 import AvatarStyleModal from './AvatarStyleModal';
 import AIGeneratorModal from './AIGeneratorModal';
-import { exportSite, type ExportDeploymentTarget } from '../services/export';
+import HistoryModal from './HistoryModal';
+import SelectionToolbar, { type SelectionAlignment, type SelectionColor } from './SelectionToolbar';
+import BlockContextMenu from './BlockContextMenu';
+import {
+  DEPLOYMENT_TARGET_LABELS,
+  exportSite,
+  hasYouTubeFeeds,
+  getExportFileName,
+  isDeploymentTarget,
+  type ExportDeploymentTarget,
+  type ExportMode,
+} from '../services/export';
 import {
   initializeApp,
+  getBento,
   updateBentoData,
   setActiveBentoId,
   downloadBentoJSON,
   loadBentoFromFile,
   renameBento,
+  onStorageError,
+  onStorageBlocked,
+  BentoValidationError,
   GRID_VERSION,
 } from '../services/storageService';
+import { YOUTUBE_RUNTIME_FEEDS_KEY } from '../services/youtubeFeedService';
+import { recordAutoSnapshot } from '../services/historyService';
+import { BENTO_SCHEMA_VERSION, formatSchemaIssues, parseBlocksJSON } from '../services/schema';
+import {
+  createBlockFromImage,
+  parseClipboardText,
+  readBlocksFromClipboard,
+  serializeBlocks,
+  writeBlocksToClipboard,
+  type PastedBlocks,
+} from '../services/clipboardService';
+import { optimizeImageFile } from '../services/imageService';
 import { getSocialPlatformOption, buildSocialUrl, formatFollowerCount } from '../socialPlatforms';
-import { getMobileLayout, MOBILE_GRID_CONFIG } from '../utils/mobileLayout';
+import {
+  BREAKPOINT_GRID_CONFIG,
+  BREAKPOINT_LABELS,
+  getBreakpointBlocks,
+  getBreakpointLayout,
+  moveBlockInBreakpoint,
+  resetBreakpointLayout,
+} from '../utils/mobileLayout';
+import { getPageBackground, getPageCssVariables, resolveTheme } from '../utils/theme';
+import { getAvatarAlt } from '../utils/accessibility';
+import {
+  ANALYTICS_PROVIDERS,
+  COLLECTOR_PATH,
+  getAnalyticsBaseUrl,
+  getAnalyticsProvider,
+  getAnalyticsSummaryUrl,
+} from '../utils/analytics';
 import {
   Download,
   Layout,
@@ -45,6 +99,12 @@ import {
   Sparkles,
   Save,
   AlertCircle,
+  History,
+  Tablet,
+  EyeOff,
+  RotateCcw,
+  Moon,
+  Sun,
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -58,45 +118,6 @@ const MAX_ROW_SPAN = 50; // Allow tall blocks for scrollable content
 
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
-// Migrate blocks from old 3-col grid to new 9-col grid
-// Old blocks had colSpan 1-3, new blocks use colSpan 1-9
-// Regular blocks (not SOCIAL_ICON) should take 3x3 cells minimum
-const migrateBlocksToNewGrid = (blocks: BlockData[]): BlockData[] => {
-  const needsMigration = blocks.some((b) => {
-    // SOCIAL_ICON and SPACER with 9 cols are already new format
-    if (b.type === BlockType.SOCIAL_ICON) return false;
-    if (b.type === BlockType.SPACER && b.colSpan === 9) return false;
-    // If colSpan is 1, 2, or 3 for a regular block, it's old format
-    // New format regular blocks have colSpan of 3, 6, or 9
-    return b.colSpan <= 3 && b.rowSpan <= 3;
-  });
-
-  if (!needsMigration) return blocks;
-
-  return blocks.map((block) => {
-    // Skip new-format blocks
-    if (block.type === BlockType.SOCIAL_ICON) return block;
-    if (block.type === BlockType.SPACER && block.colSpan === 9) return block;
-
-    // Migrate old format: multiply dimensions by 3
-    const newColSpan = Math.min(block.colSpan * 3, 9);
-    const newRowSpan = Math.min(block.rowSpan * 3, MAX_ROW_SPAN);
-
-    // Migrate positions: multiply by 3 and adjust for 1-based indexing
-    const newGridColumn =
-      block.gridColumn !== undefined ? (block.gridColumn - 1) * 3 + 1 : undefined;
-    const newGridRow = block.gridRow !== undefined ? (block.gridRow - 1) * 3 + 1 : undefined;
-
-    return {
-      ...block,
-      colSpan: newColSpan,
-      rowSpan: newRowSpan,
-      gridColumn: newGridColumn,
-      gridRow: newGridRow,
-    };
-  });
-};
-
 const blocksOverlap = (a: BlockData, b: BlockData) => {
   if (
     a.gridColumn === undefined ||
@@ -308,8 +329,9 @@ const reflowGrid = (blocks: BlockData[]): BlockData[] => {
   return ensureBlocksHavePositions(cleared as BlockData[]);
 };
 
-// Resolve overlaps: check all blocks and move any that overlap
-const resolveOverlaps = (blocks: BlockData[]): BlockData[] => {
+// Resolve overlaps: check all blocks and move any that overlap.
+// Pinned blocks (e.g. a group that was just moved) keep their cells and the others make room.
+const resolveOverlaps = (blocks: BlockData[], pinnedIds: string[] = []): BlockData[] => {
   if (blocks.length === 0) return blocks;
 
   // Sort by position to maintain visual order
@@ -346,8 +368,20 @@ const resolveOverlaps = (blocks: BlockData[]): BlockData[] => {
     return false;
   };
 
+  // Pinned blocks are placed first, unless they overlap each other
+  const kept = new Set<string>();
   for (const block of sorted) {
-    if (block.gridColumn === undefined || block.gridRow === undefined || hasOverlap(block)) {
+    if (!pinnedIds.includes(block.id)) continue;
+    if (block.gridColumn === undefined || block.gridRow === undefined || hasOverlap(block))
+      continue;
+    markOccupied(block);
+    kept.add(block.id);
+  }
+
+  for (const block of sorted) {
+    if (kept.has(block.id)) {
+      result.push(block);
+    } else if (block.gridColumn === undefined || block.gridRow === undefined || hasOverlap(block)) {
       // Find new position for this block
       const pos = findNextAvailablePosition(block, occupiedCells, 1);
       const movedBlock = { ...block, gridColumn: pos.col, gridRow: pos.row };
@@ -363,6 +397,125 @@ const resolveOverlaps = (blocks: BlockData[]): BlockData[] => {
   return result;
 };
 
+// Bounding box of a group of positioned blocks (right and bottom are exclusive)
+const getGroupBounds = (group: BlockData[]) => ({
+  left: Math.min(...group.map((b) => b.gridColumn ?? 1)),
+  top: Math.min(...group.map((b) => b.gridRow ?? 1)),
+  right: Math.max(...group.map((b) => (b.gridColumn ?? 1) + Math.min(b.colSpan, GRID_COLS))),
+  bottom: Math.max(...group.map((b) => (b.gridRow ?? 1) + b.rowSpan)),
+});
+
+// Move a group by the same offset (keeping relative positions), clamped to the grid
+const moveBlocksBy = (
+  blocks: BlockData[],
+  ids: string[],
+  deltaCol: number,
+  deltaRow: number
+): BlockData[] => {
+  const group = blocks.filter((b) => ids.includes(b.id));
+  if (group.length === 0) return blocks;
+
+  const bounds = getGroupBounds(group);
+  const colOffset = clamp(deltaCol, 1 - bounds.left, GRID_COLS + 1 - bounds.right);
+  const rowOffset = Math.max(deltaRow, 1 - bounds.top);
+
+  return blocks.map((b) =>
+    ids.includes(b.id)
+      ? { ...b, gridColumn: (b.gridColumn ?? 1) + colOffset, gridRow: (b.gridRow ?? 1) + rowOffset }
+      : b
+  );
+};
+
+// Line up the edges of a group with the outermost block of the group
+const alignBlocks = (blocks: BlockData[], ids: string[], edge: SelectionAlignment): BlockData[] => {
+  const group = blocks.filter((b) => ids.includes(b.id));
+  if (group.length < 2) return blocks;
+
+  const bounds = getGroupBounds(group);
+  return blocks.map((b) => {
+    if (!ids.includes(b.id)) return b;
+    const colSpan = Math.min(b.colSpan, GRID_COLS);
+    switch (edge) {
+      case 'left':
+        return { ...b, gridColumn: bounds.left };
+      case 'right':
+        return { ...b, gridColumn: bounds.right - colSpan };
+      case 'top':
+        return { ...b, gridRow: bounds.top };
+      case 'bottom':
+        return { ...b, gridRow: bounds.bottom - b.rowSpan };
+    }
+  });
+};
+
+// Copy of a block with a new id, without grid position
+const cloneBlock = (source: BlockData): BlockData => {
+  const generateId = () => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return Math.random().toString(36).slice(2, 11);
+  };
+
+  return {
+    ...source,
+    id: generateId(),
+    gridColumn: undefined,
+    gridRow: undefined,
+    zIndex: undefined,
+    mediaPosition: source.mediaPosition ? { ...source.mediaPosition } : undefined,
+    galleryImages: source.galleryImages
+      ? source.galleryImages.map((image) => ({ ...image }))
+      : undefined,
+    youtubeVideos: source.youtubeVideos
+      ? source.youtubeVideos.map((vid) => ({ ...vid }))
+      : undefined,
+  };
+};
+
+// Copies of a group with new ids, placed in free cells from `startRow`. Positioned
+// blocks are placed through their bounding box so the copies keep their layout;
+// blocks without a position are placed one by one after them.
+const placeBlockGroup = (blocks: BlockData[], group: BlockData[], startRow = 1): BlockData[] => {
+  const occupiedCells = getOccupiedCells(blocks);
+  const positioned = group.filter((b) => b.gridColumn !== undefined && b.gridRow !== undefined);
+  const placed: BlockData[] = [];
+
+  if (positioned.length > 0) {
+    const bounds = getGroupBounds(positioned);
+    const position = findNextAvailablePosition(
+      {
+        ...positioned[0],
+        colSpan: bounds.right - bounds.left,
+        rowSpan: bounds.bottom - bounds.top,
+      },
+      occupiedCells,
+      startRow
+    );
+    positioned.forEach((source) =>
+      placed.push({
+        ...cloneBlock(source),
+        gridColumn: source.gridColumn! - bounds.left + position.col,
+        gridRow: source.gridRow! - bounds.top + position.row,
+      })
+    );
+  }
+
+  group
+    .filter((b) => !positioned.includes(b))
+    .forEach((source) => {
+      getOccupiedCells(placed).forEach((cell) => occupiedCells.add(cell));
+      const clone = cloneBlock(source);
+      const position = findNextAvailablePosition(clone, occupiedCells, startRow);
+      placed.push({ ...clone, gridColumn: position.col, gridRow: position.row });
+    });
+
+  return placed;
+};
+
+// Pointer travel (px) before a press on the empty grid becomes a marquee selection
+const MARQUEE_THRESHOLD = 6;
+
 const Builder: React.FC<BuilderProps> = ({ onBack }) => {
   // Load initial data from localStorage
   const [activeBento, setActiveBento] = useState<SavedBento | null>(null);
@@ -372,12 +525,22 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
   const [showDeployModal, setShowDeployModal] = useState(false);
   const [showAnalyticsModal, setShowAnalyticsModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [settingsTab, setSettingsTab] = useState<SettingsTab | undefined>(undefined);
   const [showAvatarCropModal, setShowAvatarCropModal] = useState(false);
   const [showAvatarStyleModal, setShowAvatarStyleModal] = useState(false);
   const [showAIGeneratorModal, setShowAIGeneratorModal] = useState(false);
+  // Settings opened from the AI generator: go back to it on close
+  const [returnToAIGenerator, setReturnToAIGenerator] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [pendingAvatarSrc, setPendingAvatarSrc] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'desktop' | 'mobile'>('desktop');
+  // Mobile and tablet view modes edit that breakpoint's layout overrides
+  const [viewMode, setViewMode] = useState<'desktop' | LayoutBreakpoint>('desktop');
+  // Dark preview shows and edits the blocks' dark-mode colors
+  const [colorScheme, setColorScheme] = useState<ColorScheme>('light');
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Another tab still runs an older version and holds the database open
+  const [isStorageBlocked, setIsStorageBlocked] = useState(false);
   const {
     state: siteData,
     set: setSiteData,
@@ -395,21 +558,26 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
   const [deployTarget, setDeployTarget] = useState<ExportDeploymentTarget>(() => {
     try {
       const stored = localStorage.getItem('openbento_deploy_target');
-      if (
-        stored === 'vercel' ||
-        stored === 'netlify' ||
-        stored === 'github-pages' ||
-        stored === 'docker' ||
-        stored === 'vps' ||
-        stored === 'heroku'
-      ) {
-        return stored;
-      }
+      if (isDeploymentTarget(stored)) return stored;
     } catch {
       // ignore
     }
     return 'vercel';
   });
+  const [exportMode, setExportMode] = useState<ExportMode>(() => {
+    try {
+      return localStorage.getItem('openbento_export_mode') === 'static' ? 'static' : 'project';
+    } catch {
+      return 'project';
+    }
+  });
+  const [youtubeRuntimeFeeds, setYoutubeRuntimeFeeds] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem(YOUTUBE_RUNTIME_FEEDS_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  });
   const [hasDownloadedExport, setHasDownloadedExport] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
@@ -439,16 +607,35 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
   const [dragOverBlockId, setDragOverBlockId] = useState<string | null>(null);
   const [dragOverSlotIndex, setDragOverSlotIndex] = useState<number | null>(null);
   const [resizingBlockId, setResizingBlockId] = useState<string | null>(null);
+  // Multi-selection (shift-click or marquee): group actions apply to these blocks
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
+  const [marquee, setMarquee] = useState<{
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+  } | null>(null);
+  // Right-click menu of the grid and the blocks it acts on
+  const [contextMenu, setContextMenu] = useState<{
+    x: number;
+    y: number;
+    blockIds: string[];
+  } | null>(null);
   const [extraRows, setExtraRows] = useState(0); // Extra rows added by user
   const {
     status: saveStatus,
     lastSavedAt,
     timeAgo,
+    errorMessage: saveErrorMessage,
     setSaving,
     setSaved,
     setError,
   } = useSaveStatus();
 
+  // Surface every failed storage write (auto-save, rename, import...) in the save status
+  useEffect(() => onStorageError(setError), [setError]);
+  useEffect(() => onStorageBlocked(() => setIsStorageBlocked(true)), []);
+
   const gridRef = useRef<HTMLElement | null>(null);
   // Store the offset from mouse to block's top-left corner when dragging
   // const dragOffsetRef = useRef<{ col: number; row: number }>({ col: 0, row: 0 });
@@ -458,7 +645,11 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     startRow: number;
     lastColSpan: number;
     lastRowSpan: number;
+    // Starting spans of the selected blocks when resizing a group
+    groupSpans: Record<string, { colSpan: number; rowSpan: number }> | null;
   } | null>(null);
+  // A marquee ends with a click on an empty cell, which must not add a block
+  const suppressCellClickRef = useRef(false);
 
   // Inline editing state
   const [editingField, setEditingField] = useState<'name' | 'bio' | null>(null);
@@ -468,18 +659,12 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
   const nameInputRef = useRef<HTMLInputElement>(null);
   const bioInputRef = useRef<HTMLTextAreaElement>(null);
 
-  // Load bento on mount and migrate old grid format if needed
+  // Load bento on mount (storageService has already migrated it to the current schema)
   useEffect(() => {
     const loadBento = async () => {
       try {
         const bento = await initializeApp();
-        const dataGridVersion = bento.data.gridVersion ?? GRID_VERSION;
-        // Migrate blocks from old 3-col grid to new 9-col grid (legacy only)
-        const migratedBlocks =
-          dataGridVersion < GRID_VERSION
-            ? migrateBlocksToNewGrid(bento.data.blocks)
-            : bento.data.blocks;
-        const normalizedBlocks = ensureBlocksHavePositions(migratedBlocks);
+        const normalizedBlocks = ensureBlocksHavePositions(bento.data.blocks);
         const nextGridVersion = GRID_VERSION;
         setActiveBento({
           ...bento,
@@ -497,8 +682,10 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         }
       } catch (e) {
         console.error('Failed to load bento:', e);
+        setLoadError(e instanceof Error ? e.message : 'Failed to load your bentos.');
       } finally {
         setIsLoading(false);
+        setIsStorageBlocked(false);
       }
     };
     loadBento();
@@ -511,23 +698,23 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
 
       setSaving();
 
-      try {
-        // Save immediately
-        updateBentoData(activeBento.id, {
-          profile: newProfile,
-          blocks: newBlocks,
-          gridVersion,
-        });
-
-        // Show "saved" status briefly
-        setTimeout(() => {
-          setSaved();
-        }, 300);
-      } catch {
-        setError();
-      }
+      const bentoId = activeBento.id;
+      const previous = getBento(bentoId)?.data ?? null;
+      const next = { profile: newProfile, blocks: newBlocks, gridVersion };
+
+      // Save immediately; failures are reported through onStorageError
+      updateBentoData(bentoId, next).then(
+        () => {
+          // Show "saved" status briefly
+          setTimeout(() => {
+            setSaved();
+          }, 300);
+          recordAutoSnapshot(bentoId, previous, next).catch(() => undefined);
+        },
+        () => undefined
+      );
     },
-    [activeBento, gridVersion, setSaving, setSaved, setError]
+    [activeBento, gridVersion, setSaving, setSaved]
   );
 
   // Manual save function for button and keyboard shortcut
@@ -560,10 +747,10 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
 
   // Handle blocks changes with auto-save - always resolve overlaps
   const handleSetBlocks = useCallback(
-    (newBlocks: BlockData[] | ((prev: BlockData[]) => BlockData[])) => {
+    (newBlocks: BlockData[] | ((prev: BlockData[]) => BlockData[]), pinnedIds?: string[]) => {
       const updated = typeof newBlocks === 'function' ? newBlocks(blocks) : newBlocks;
       const normalized = ensureBlocksHavePositions(updated);
-      const resolved = resolveOverlaps(normalized);
+      const resolved = resolveOverlaps(normalized, pinnedIds);
 
       // Ενημερώνουμε το ενιαίο state (snapshot)
       setSiteData({ profile, blocks: resolved });
@@ -572,6 +759,28 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     [profile, blocks, setSiteData, autoSave]
   );
 
+  // Apply a version restored from the history modal. Saved directly rather than via
+  // autoSave: restoreSnapshot already recorded the snapshots.
+  const handleRestoreVersion = useCallback(
+    (data: SiteData) => {
+      if (!activeBento) return;
+      const restoredBlocks = ensureBlocksHavePositions(data.blocks);
+      setSiteData({ profile: data.profile, blocks: restoredBlocks });
+      setEditingBlockId(null);
+      setSelectedBlockIds([]);
+      setSaving();
+      updateBentoData(activeBento.id, {
+        profile: data.profile,
+        blocks: restoredBlocks,
+        gridVersion,
+      }).then(
+        () => setTimeout(setSaved, 300),
+        () => undefined
+      );
+    },
+    [activeBento, gridVersion, setSiteData, setSaving, setSaved]
+  );
+
   // Note: Block positioning is handled when blocks are created (addBlock function)
   // No automatic repositioning to avoid conflicts with user-placed blocks
 
@@ -583,12 +792,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         updateBentoData(activeBento.id, { profile, blocks, gridVersion });
       }
 
-      const dataGridVersion = bento.data.gridVersion ?? GRID_VERSION;
-      const migratedBlocks =
-        dataGridVersion < GRID_VERSION
-          ? migrateBlocksToNewGrid(bento.data.blocks)
-          : bento.data.blocks;
-      const normalizedBlocks = ensureBlocksHavePositions(migratedBlocks);
+      const normalizedBlocks = ensureBlocksHavePositions(bento.data.blocks);
       const nextGridVersion = GRID_VERSION;
       setGridVersion(nextGridVersion);
       setActiveBentoId(bento.id);
@@ -598,6 +802,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       });
       reset({ profile: bento.data.profile, blocks: normalizedBlocks });
       setEditingBlockId(null);
+      setSelectedBlockIds([]);
 
       if (normalizedBlocks !== bento.data.blocks || nextGridVersion !== bento.data.gridVersion) {
         updateBentoData(bento.id, {
@@ -628,9 +833,13 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     // Regular blocks: 3x3 cells on 9-col grid (equivalent to 1x1 on old 3-col grid)
     // SOCIAL_ICON: 1x1 cell (small icon)
     // SPACER: full width (9 cols)
+    // EMBED: wide (6 cols), players are landscape
+    // GALLERY: wide and tall (6x4), photos need room
     const getSpans = () => {
       if (type === BlockType.SOCIAL_ICON) return { colSpan: 1, rowSpan: 1 };
       if (type === BlockType.SPACER) return { colSpan: 9, rowSpan: 1 };
+      if (type === BlockType.EMBED) return { colSpan: 6, rowSpan: 3 };
+      if (type === BlockType.GALLERY) return { colSpan: 6, rowSpan: 4 };
       return { colSpan: 3, rowSpan: 3 }; // Regular blocks take 3x3 cells
     };
     const { colSpan, rowSpan } = getSpans();
@@ -645,9 +854,13 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
             ? ''
             : type === BlockType.MAP
               ? 'Location'
-              : type === BlockType.SPACER
-                ? 'Spacer'
-                : 'New Block',
+              : type === BlockType.EMBED
+                ? 'Now playing'
+                : type === BlockType.SPACER
+                  ? 'Spacer'
+                  : type === BlockType.GALLERY
+                    ? ''
+                    : 'New Block',
       content: '',
       colSpan,
       rowSpan,
@@ -664,6 +877,9 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       ...(type === BlockType.SOCIAL_ICON
         ? { socialPlatform: 'instagram' as const, socialHandle: '' }
         : {}),
+      ...(type === BlockType.GALLERY
+        ? { galleryImages: [], galleryMode: 'carousel' as const }
+        : {}),
     };
     handleSetBlocks([...blocks, newBlock]);
     setEditingBlockId(newBlock.id);
@@ -701,24 +917,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         const source = prev.find((b) => b.id === id);
         if (!source) return prev;
 
-        const generateId = () => {
-          if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-            return crypto.randomUUID();
-          }
-          return Math.random().toString(36).slice(2, 11);
-        };
-
-        const clone: BlockData = {
-          ...source,
-          id: generateId(),
-          gridColumn: undefined,
-          gridRow: undefined,
-          zIndex: undefined,
-          mediaPosition: source.mediaPosition ? { ...source.mediaPosition } : undefined,
-          youtubeVideos: source.youtubeVideos
-            ? source.youtubeVideos.map((vid) => ({ ...vid }))
-            : undefined,
-        };
+        const clone = cloneBlock(source);
 
         const occupiedCells = getOccupiedCells(prev);
         const startRow = source.gridRow ?? 1;
@@ -739,12 +938,90 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     [handleSetBlocks, isSidebarOpen]
   );
 
+  const selectBlock = (block: BlockData, e?: React.MouseEvent) => {
+    // Shift-click toggles the block in the selection, starting from the edited block
+    if (e?.shiftKey) {
+      setSelectedBlockIds((prev) => {
+        const base = prev.length > 0 ? prev : editingBlockId ? [editingBlockId] : [];
+        return base.includes(block.id) ? base.filter((id) => id !== block.id) : [...base, block.id];
+      });
+      setEditingBlockId(null);
+      return;
+    }
+    setSelectedBlockIds([]);
+    setEditingBlockId(block.id);
+    setIsSidebarOpen(true);
+  };
+
+  const deleteSelectedBlocks = useCallback(() => {
+    const remaining = blocks.filter((b) => !selectedBlockIds.includes(b.id));
+    // Reflow to compact the grid after deletion
+    handleSetBlocks(reflowGrid(remaining));
+    setSelectedBlockIds([]);
+  }, [blocks, handleSetBlocks, selectedBlockIds]);
+
+  const duplicateSelectedBlocks = useCallback(() => {
+    const group = blocks.filter(
+      (b) =>
+        selectedBlockIds.includes(b.id) && b.gridColumn !== undefined && b.gridRow !== undefined
+    );
+    if (group.length === 0) return;
+
+    const clones = placeBlockGroup(blocks, group, getGroupBounds(group).top);
+    const cloneIds = clones.map((clone) => clone.id);
+
+    handleSetBlocks([...blocks, ...clones], cloneIds);
+    setSelectedBlockIds(cloneIds);
+  }, [blocks, handleSetBlocks, selectedBlockIds]);
+
+  const colorSelectedBlocks = (color: SelectionColor) => {
+    handleSetBlocks(
+      blocks.map((b) =>
+        // Spacers stay transparent
+        selectedBlockIds.includes(b.id) && b.type !== BlockType.SPACER
+          ? colorScheme === 'dark'
+            ? { ...b, dark: { color: color.bg, textColor: color.text } }
+            : { ...b, color: color.bg, textColor: color.text, customBackground: undefined }
+          : b
+      )
+    );
+  };
+
+  const alignSelectedBlocks = (edge: SelectionAlignment) => {
+    handleSetBlocks(alignBlocks(blocks, selectedBlockIds, edge), selectedBlockIds);
+  };
+
+  // Escape clears the selection, Delete/Backspace removes the selected blocks
+  useEffect(() => {
+    if (selectedBlockIds.length === 0) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const target = (event.target as HTMLElement) || null;
+      if (
+        target &&
+        (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+      )
+        return;
+
+      if (event.key === 'Escape') {
+        setSelectedBlockIds([]);
+      } else if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        deleteSelectedBlocks();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [deleteSelectedBlocks, selectedBlockIds.length]);
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.defaultPrevented) return;
       if (!(event.metaKey || event.ctrlKey)) return;
       if (event.key.toLowerCase() !== 'd') return;
-      if (!editingBlockId) return;
+      if (!editingBlockId && selectedBlockIds.length === 0) return;
 
       const activeElement = (document.activeElement as HTMLElement) || null;
       const targetElement = (event.target as HTMLElement) || null;
@@ -761,12 +1038,164 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       if (shouldSkip) return;
 
       event.preventDefault();
-      duplicateBlock(editingBlockId);
+      if (selectedBlockIds.length > 0) {
+        duplicateSelectedBlocks();
+      } else if (editingBlockId) {
+        duplicateBlock(editingBlockId);
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [duplicateBlock, editingBlockId]);
+  }, [duplicateBlock, duplicateSelectedBlocks, editingBlockId, selectedBlockIds.length]);
+
+  // Clipboard actions apply to the selection, or to the edited block
+  const getClipboardBlocks = useCallback(() => {
+    const ids =
+      selectedBlockIds.length > 0 ? selectedBlockIds : editingBlockId ? [editingBlockId] : [];
+    return blocks.filter((b) => ids.includes(b.id));
+  }, [blocks, editingBlockId, selectedBlockIds]);
+
+  // Add pasted blocks with new ids in the first free cells, keeping their relative layout
+  const pasteBlocks = useCallback(
+    ({ blocks: pasted, report }: PastedBlocks) => {
+      if (pasted.length === 0) return;
+      const placed = placeBlockGroup(blocks, pasted);
+      const placedIds = placed.map((b) => b.id);
+      handleSetBlocks([...blocks, ...placed], placedIds);
+
+      if (placed.length === 1) {
+        setSelectedBlockIds([]);
+        setEditingBlockId(placed[0].id);
+        setIsSidebarOpen(true);
+      } else {
+        setEditingBlockId(null);
+        setSelectedBlockIds(placedIds);
+      }
+      if (report.length > 0) {
+        alert(`Pasted blocks. Some unsafe values were removed:\n${formatSchemaIssues(report)}`);
+      }
+    },
+    [blocks, handleSetBlocks]
+  );
+
+  const reportPasteError = (err: unknown) => {
+    console.error('Failed to paste blocks:', err);
+    alert(
+      err instanceof BentoValidationError
+        ? `Failed to paste blocks. ${err.message}`
+        : 'Failed to paste blocks.'
+    );
+  };
+
+  // Ctrl/Cmd+C copies the selected blocks, Ctrl/Cmd+V pastes blocks, images and URLs.
+  // Text fields and selected text keep the browser's own copy and paste.
+  useEffect(() => {
+    const isTextTarget = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return (
+        !!element &&
+        (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable)
+      );
+    };
+
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isTextTarget(event.target) || !event.clipboardData) return;
+      if (window.getSelection()?.toString()) return;
+      const copied = getClipboardBlocks();
+      if (copied.length === 0) return;
+
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', serializeBlocks(copied));
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextTarget(event.target) || !event.clipboardData) return;
+
+      const image = Array.from(event.clipboardData.files).find((file) =>
+        file.type.startsWith('image/')
+      );
+      if (image) {
+        event.preventDefault();
+        optimizeImageFile(image)
+          .then((dataUrl) =>
+            pasteBlocks(parseBlocksJSON([createBlockFromImage(dataUrl)], BENTO_SCHEMA_VERSION))
+          )
+          .catch(reportPasteError);
+        return;
+      }
+
+      try {
+        const pasted = parseClipboardText(event.clipboardData.getData('text/plain'));
+        if (!pasted) return;
+        event.preventDefault();
+        pasteBlocks(pasted);
+      } catch (err) {
+        event.preventDefault();
+        reportPasteError(err);
+      }
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [getClipboardBlocks, pasteBlocks]);
+
+  // Right-click on a block acts on the selection when the block is part of it
+  const handleGridContextMenu = (e: React.MouseEvent<HTMLElement>) => {
+    if (viewMode !== 'desktop') return;
+    e.preventDefault();
+    const blockId = (e.target as HTMLElement).closest<HTMLElement>('[data-block-id]')?.dataset
+      .blockId;
+
+    let blockIds: string[] = [];
+    if (blockId && selectedBlockIds.includes(blockId)) {
+      blockIds = selectedBlockIds;
+    } else if (blockId) {
+      blockIds = [blockId];
+      setSelectedBlockIds([]);
+      setEditingBlockId(blockId);
+    }
+    setContextMenu({ x: e.clientX, y: e.clientY, blockIds });
+  };
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const copyContextMenuBlocks = () => {
+    const ids = contextMenu?.blockIds ?? [];
+    writeBlocksToClipboard(blocks.filter((b) => ids.includes(b.id))).catch((err) => {
+      console.error('Failed to copy blocks:', err);
+      alert('Could not access the clipboard. Use Ctrl/Cmd+C instead.');
+    });
+  };
+
+  const pasteFromContextMenu = () => {
+    readBlocksFromClipboard()
+      .then((pasted) => pasted && pasteBlocks(pasted))
+      .catch((err) => {
+        if (err instanceof BentoValidationError) {
+          reportPasteError(err);
+          return;
+        }
+        console.error('Failed to read the clipboard:', err);
+        alert('Could not access the clipboard. Use Ctrl/Cmd+V instead.');
+      });
+  };
+
+  const duplicateContextMenuBlocks = () => {
+    const ids = contextMenu?.blockIds ?? [];
+    if (ids.length > 1) duplicateSelectedBlocks();
+    else if (ids.length === 1) duplicateBlock(ids[0]);
+  };
+
+  const deleteContextMenuBlocks = () => {
+    const ids = contextMenu?.blockIds ?? [];
+    if (ids.length > 1) deleteSelectedBlocks();
+    else if (ids.length === 1) deleteBlock(ids[0]);
+  };
 
   const handleExport = () => {
     setHasDownloadedExport(false);
@@ -791,13 +1220,8 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     if (!file) return;
 
     try {
-      const bento = await loadBentoFromFile(file);
-      const dataGridVersion = bento.data.gridVersion ?? GRID_VERSION;
-      const migratedBlocks =
-        dataGridVersion < GRID_VERSION
-          ? migrateBlocksToNewGrid(bento.data.blocks)
-          : bento.data.blocks;
-      const normalizedBlocks = ensureBlocksHavePositions(migratedBlocks);
+      const { bento, report } = await loadBentoFromFile(file);
+      const normalizedBlocks = ensureBlocksHavePositions(bento.data.blocks);
       const nextGridVersion = GRID_VERSION;
       setGridVersion(nextGridVersion);
       setActiveBento({
@@ -806,14 +1230,24 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       });
       reset({ profile: bento.data.profile, blocks: normalizedBlocks });
       setEditingBlockId(null);
+      setSelectedBlockIds([]);
       updateBentoData(bento.id, {
         profile: bento.data.profile,
         blocks: normalizedBlocks,
         gridVersion: nextGridVersion,
       });
+      if (report.length > 0) {
+        alert(
+          `Imported "${bento.name}". Some unsafe values were removed:\n${formatSchemaIssues(report)}`
+        );
+      }
     } catch (err) {
       console.error('Failed to import bento:', err);
-      alert('Failed to import bento. Please check the JSON file.');
+      alert(
+        err instanceof BentoValidationError
+          ? `Failed to import bento. ${err.message}`
+          : 'Failed to import bento. Please check the JSON file.'
+      );
     }
 
     // Reset file input
@@ -946,6 +1380,22 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     }
   }, [deployTarget]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('openbento_export_mode', exportMode);
+    } catch {
+      // ignore
+    }
+  }, [exportMode]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(YOUTUBE_RUNTIME_FEEDS_KEY, String(youtubeRuntimeFeeds));
+    } catch {
+      // ignore
+    }
+  }, [youtubeRuntimeFeeds]);
+
   const downloadExport = useCallback(async () => {
     if (!profile) return;
     setIsExporting(true);
@@ -954,7 +1404,12 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     try {
       await exportSite(
         { profile, blocks },
-        { siteId: activeBento?.id, deploymentTarget: deployTarget }
+        {
+          siteId: activeBento?.id,
+          deploymentTarget: deployTarget,
+          mode: exportMode,
+          youtubeRuntimeFeeds,
+        }
       );
       setHasDownloadedExport(true);
     } catch (e) {
@@ -964,14 +1419,17 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     } finally {
       setIsExporting(false);
     }
-  }, [profile, blocks, activeBento?.id, deployTarget]);
+  }, [profile, blocks, activeBento?.id, deployTarget, exportMode, youtubeRuntimeFeeds]);
 
   const fetchAnalytics = useCallback(async () => {
     if (!profile) return;
 
-    const supabaseUrl = profile.analytics?.supabaseUrl?.trim().replace(/\/+$/, '') || '';
-    if (!supabaseUrl) {
-      setAnalyticsError('Set your Supabase URL in Analytics settings.');
+    if (!getAnalyticsBaseUrl(profile.analytics)) {
+      setAnalyticsError(
+        getAnalyticsProvider(profile.analytics) === 'self-hosted'
+          ? 'Set your collector URL in Analytics settings.'
+          : 'Set your Supabase URL in Analytics settings.'
+      );
       return;
     }
 
@@ -989,7 +1447,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     setAnalyticsError(null);
 
     try {
-      const endpoint = `${supabaseUrl}/functions/v1/openbento-analytics-admin?siteId=${encodeURIComponent(activeBento.id)}&days=${encodeURIComponent(String(analyticsDays))}`;
+      const endpoint = getAnalyticsSummaryUrl(profile.analytics, activeBento.id, analyticsDays);
       const res = await fetch(endpoint, {
         headers: {
           'x-openbento-admin-token': analyticsAdminToken.trim(),
@@ -1191,11 +1649,37 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
     setDragOverSlotIndex(null);
   };
 
+  // Dragging a selected block moves the whole selection
+  const isGroupDrag =
+    !!draggedBlockId && selectedBlockIds.length > 1 && selectedBlockIds.includes(draggedBlockId);
+
+  // Move the selection so the dragged block lands at (col, row); the moved blocks keep
+  // their cells and the blocks they cover are relocated
+  const moveSelectionTo = (col: number, row: number) => {
+    const anchor = blocks.find((b) => b.id === draggedBlockId);
+    if (anchor && anchor.gridColumn !== undefined && anchor.gridRow !== undefined) {
+      handleSetBlocks(
+        moveBlocksBy(blocks, selectedBlockIds, col - anchor.gridColumn, row - anchor.gridRow),
+        selectedBlockIds
+      );
+    }
+    handleDragEnd();
+  };
+
   const handleDrop = (targetId: string) => {
     if (!draggedBlockId || draggedBlockId === targetId) {
       handleDragEnd();
       return;
     }
+    if (isGroupDrag) {
+      const target = blocks.find((b) => b.id === targetId);
+      if (!target || selectedBlockIds.includes(targetId)) {
+        handleDragEnd();
+        return;
+      }
+      moveSelectionTo(target.gridColumn ?? 1, target.gridRow ?? 1);
+      return;
+    }
     const sourceIndex = blocks.findIndex((b) => b.id === draggedBlockId);
     const targetIndex = blocks.findIndex((b) => b.id === targetId);
 
@@ -1299,12 +1783,24 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       setResizingBlockId(block.id);
       handleDragEnd();
 
+      // Resizing a selected block resizes the whole selection by the same amount
+      const group =
+        selectedBlockIds.length > 1 && selectedBlockIds.includes(block.id)
+          ? blocks.filter((b) => selectedBlockIds.includes(b.id))
+          : [];
+
       resizeSessionRef.current = {
         blockId: block.id,
         startCol: block.gridColumn,
         startRow: block.gridRow,
         lastColSpan: block.colSpan,
         lastRowSpan: block.rowSpan,
+        groupSpans:
+          group.length > 0
+            ? Object.fromEntries(
+                group.map((b) => [b.id, { colSpan: b.colSpan, rowSpan: b.rowSpan }])
+              )
+            : null,
       };
 
       // Disable native drag immediately on the block element.
@@ -1334,6 +1830,22 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         session.lastColSpan = nextColSpan;
         session.lastRowSpan = nextRowSpan;
 
+        const groupSpans: Record<string, { colSpan: number; rowSpan: number }> | null =
+          session.groupSpans;
+        if (groupSpans) {
+          const start = groupSpans[session.blockId];
+          const deltaCol = nextColSpan - start.colSpan;
+          const deltaRow = nextRowSpan - start.rowSpan;
+          handleSetBlocks((prev) =>
+            Object.entries(groupSpans).reduce(
+              (acc, [id, span]) =>
+                resizeBlockAndResolve(acc, id, span.colSpan + deltaCol, span.rowSpan + deltaRow),
+              prev
+            )
+          );
+          return;
+        }
+
         handleSetBlocks((prev) =>
           resizeBlockAndResolve(prev, session.blockId, nextColSpan, nextRowSpan)
         );
@@ -1360,16 +1872,92 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         // ignore
       }
     },
-    [getGridCellFromPointer, handleSetBlocks, viewMode]
+    [blocks, getGridCellFromPointer, handleSetBlocks, selectedBlockIds, viewMode]
   );
 
+  // Marquee selection: drag across the empty grid to select every block it touches
+  // (shift adds to the current selection)
+  const handleGridPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    suppressCellClickRef.current = false;
+    if (e.button !== 0 || viewMode !== 'desktop') return;
+    const target = e.target as HTMLElement;
+    if (target.closest('[data-block-id]') || target.closest('button')) return;
+
+    const grid: HTMLElement | null = gridRef.current;
+    if (!grid) return;
+    const startRect = grid.getBoundingClientRect();
+    const start = { x: e.clientX - startRect.left, y: e.clientY - startRect.top };
+    const baseSelection = e.shiftKey ? selectedBlockIds : [];
+    const previousSelect = document.body.style.userSelect;
+    let isActive = false;
+
+    const onMove = (ev: PointerEvent) => {
+      // Relative to the grid, so the marquee follows the page when it scrolls
+      const rect = grid.getBoundingClientRect();
+      const x = ev.clientX - rect.left;
+      const y = ev.clientY - rect.top;
+      if (!isActive && Math.hypot(x - start.x, y - start.y) < MARQUEE_THRESHOLD) return;
+      if (!isActive) {
+        isActive = true;
+        document.body.style.userSelect = 'none';
+        setEditingBlockId(null);
+      }
+
+      const box = {
+        left: Math.min(start.x, x),
+        top: Math.min(start.y, y),
+        width: Math.abs(x - start.x),
+        height: Math.abs(y - start.y),
+      };
+      setMarquee(box);
+
+      const hits = Array.from(grid.querySelectorAll<HTMLElement>('[data-block-id]'))
+        .filter((el) => {
+          const r = el.getBoundingClientRect();
+          return !(
+            r.right - rect.left < box.left ||
+            r.left - rect.left > box.left + box.width ||
+            r.bottom - rect.top < box.top ||
+            r.top - rect.top > box.top + box.height
+          );
+        })
+        .map((el) => el.dataset.blockId as string);
+      setSelectedBlockIds(Array.from(new Set([...baseSelection, ...hits])));
+    };
+
+    const onEnd = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onEnd);
+      window.removeEventListener('pointercancel', onEnd);
+      if (!isActive) return;
+      suppressCellClickRef.current = true;
+      setMarquee(null);
+      document.body.style.userSelect = previousSelect;
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onEnd);
+    window.addEventListener('pointercancel', onEnd);
+  };
+
   const editingBlock = blocks.find((b) => b.id === editingBlockId) || null;
+  const selectedCount = blocks.filter((b) => selectedBlockIds.includes(b.id)).length;
+  const theme = resolveTheme(profile ?? {});
+  useThemeFonts(theme);
 
   // Loading state
   if (isLoading || !profile) {
     return (
       <div className="min-h-screen bg-[#F7F7F7] flex items-center justify-center">
-        <div className="animate-pulse text-gray-400">Loading...</div>
+        {loadError ? (
+          <div className="max-w-sm text-center text-sm text-red-600 font-semibold">{loadError}</div>
+        ) : isStorageBlocked ? (
+          <div className="max-w-sm text-center text-sm text-gray-500">
+            OpenBento was updated. Close its other tabs to finish loading your bentos.
+          </div>
+        ) : (
+          <div className="animate-pulse text-gray-400">Loading...</div>
+        )}
       </div>
     );
   }
@@ -1384,12 +1972,15 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         backgroundPosition: 'center',
         backgroundAttachment: 'fixed',
       }
-    : profile.backgroundColor
-      ? { backgroundColor: profile.backgroundColor }
-      : { backgroundColor: '#f9fafb' }; // default gray-50
+    : { background: getPageBackground(profile, colorScheme) };
+
+  const analyticsProvider = getAnalyticsProvider(profile.analytics);
 
   return (
-    <div className="min-h-screen flex font-sans overflow-x-hidden relative" style={backgroundStyle}>
+    <div
+      className="min-h-screen flex font-sans overflow-x-hidden relative"
+      style={{ ...getPageCssVariables(profile, colorScheme), ...backgroundStyle }}
+    >
       {/* Background blur overlay */}
       {profile.backgroundImage && profile.backgroundBlur && profile.backgroundBlur > 0 && (
         <div
@@ -1437,7 +2028,11 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                 onClick={handleManualSave}
                 disabled={saveStatus === 'saving'}
                 className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 hover:bg-gray-100 disabled:opacity-50"
-                title="Save (Ctrl+S)"
+                title={
+                  saveStatus === 'error' && saveErrorMessage
+                    ? `${saveErrorMessage} Click to retry.`
+                    : 'Save (Ctrl+S)'
+                }
               >
                 {saveStatus === 'saving' ? (
                   <>
@@ -1456,7 +2051,9 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                 ) : saveStatus === 'error' ? (
                   <>
                     <AlertCircle size={16} className="text-red-500" />
-                    <span className="text-red-600">Error</span>
+                    <span className="text-red-600">
+                      {saveErrorMessage ? 'Save failed' : 'Error'}
+                    </span>
                   </>
                 ) : (
                   <>
@@ -1485,7 +2082,30 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                 >
                   <Smartphone size={16} />
                 </button>
+                <button
+                  type="button"
+                  aria-label="Tablet view"
+                  aria-pressed={viewMode === 'tablet'}
+                  onClick={() => setViewMode('tablet')}
+                  className={`p-2 rounded-lg transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 ${viewMode === 'tablet' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+                >
+                  <Tablet size={16} />
+                </button>
               </div>
+              <button
+                type="button"
+                aria-label={colorScheme === 'dark' ? 'Preview light mode' : 'Preview dark mode'}
+                aria-pressed={colorScheme === 'dark'}
+                onClick={() => setColorScheme(colorScheme === 'dark' ? 'light' : 'dark')}
+                className={`p-2 rounded-xl transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 ${colorScheme === 'dark' ? 'bg-gray-900 text-white' : 'bg-gray-100/80 text-gray-400 hover:text-gray-600'}`}
+                title={
+                  colorScheme === 'dark'
+                    ? 'Dark mode: colors you pick apply to the dark variant'
+                    : 'Preview dark mode'
+                }
+              >
+                {colorScheme === 'dark' ? <Moon size={16} /> : <Sun size={16} />}
+              </button>
             </div>
 
             {/* Actions Pill */}
@@ -1511,6 +2131,17 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                 <span className="hidden sm:inline">Settings</span>
               </button>
 
+              <button
+                type="button"
+                aria-label="Open version history"
+                onClick={() => setShowHistoryModal(true)}
+                className="bg-white px-3.5 py-2 rounded-lg shadow-sm border border-gray-200 text-xs font-semibold text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Version history"
+              >
+                <History size={16} />
+                <span className="hidden sm:inline">History</span>
+              </button>
+
               {import.meta.env.DEV && (
                 <button
                   type="button"
@@ -1591,7 +2222,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
 
         {/* LEFT: Profile Header (Fixed on Desktop) */}
         {viewMode === 'desktop' && (
-          <div className="hidden lg:flex fixed left-0 top-0 w-[420px] h-screen flex-col justify-center items-start px-12 z-10">
+          <div className="theme-page hidden lg:flex fixed left-0 top-0 w-[420px] h-screen flex-col justify-center items-start px-12 z-10">
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -1608,7 +2239,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                   {profile.avatarUrl ? (
                     <img
                       src={profile.avatarUrl}
-                      alt={profile.name}
+                      alt={getAvatarAlt(profile)}
                       className={getAvatarClasses(profile.avatarStyle)}
                     />
                   ) : (
@@ -1666,7 +2297,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                     onChange={(e) => setTempName(e.target.value)}
                     onBlur={saveNameEdit}
                     onKeyDown={handleNameKeyDown}
-                    className="text-4xl font-bold tracking-tight text-gray-900 bg-transparent border-b-2 border-violet-500 outline-none w-full leading-[1.1]"
+                    className="text-4xl font-bold tracking-tight theme-ink bg-transparent border-b-2 border-violet-500 outline-none w-full leading-[1.1]"
                     placeholder="Your name"
                   />
                 ) : (
@@ -1674,8 +2305,8 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                     className="group cursor-pointer flex items-center gap-2"
                     onClick={startEditingName}
                   >
-                    <h1 className="text-4xl font-bold tracking-tight text-gray-900 group-hover:text-violet-600 transition-colors leading-[1.1]">
-                      {profile.name}
+                    <h1 className="text-4xl font-bold tracking-tight theme-ink group-hover:text-violet-600 transition-colors leading-[1.1]">
+                      <span className="theme-heading">{profile.name}</span>
                     </h1>
                     <Pencil
                       size={16}
@@ -1693,16 +2324,18 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                     onChange={(e) => setTempBio(e.target.value)}
                     onBlur={saveBioEdit}
                     onKeyDown={handleBioKeyDown}
-                    className="text-base text-gray-600 font-medium leading-relaxed bg-transparent border-b-2 border-violet-500 outline-none w-full resize-none"
+                    className="text-base theme-muted font-medium leading-relaxed bg-transparent border-b-2 border-violet-500 outline-none w-full resize-none"
                     rows={3}
                     placeholder="Write something about yourself..."
                   />
                 ) : (
                   <p
-                    className="group text-base text-gray-500 font-medium leading-relaxed whitespace-pre-wrap cursor-pointer hover:text-gray-700 transition-colors flex items-start gap-2"
+                    className="group text-base theme-muted font-medium leading-relaxed whitespace-pre-wrap cursor-pointer hover:opacity-80 transition-opacity flex items-start gap-2"
                     onClick={startEditingBio}
                   >
-                    <span className="flex-1">{profile.bio || 'Click to add bio...'}</span>
+                    <span className="theme-text flex-1">
+                      {profile.bio || 'Click to add bio...'}
+                    </span>
                     <Pencil
                       size={14}
                       className="text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity mt-1 shrink-0"
@@ -1760,21 +2393,27 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
           <div className={`max-w-[1600px] mx-auto`}>
             {/* RIGHT: Grid (Scrollable or Mobile Frame) */}
             <div
-              className={`p-4 lg:p-12 pt-24 lg:pt-24 transition-all duration-300 ${viewMode === 'desktop' ? 'lg:ml-[420px]' : ''} ${viewMode === 'mobile' ? 'flex justify-center items-start min-h-screen bg-gray-100/50' : ''}`}
+              className={`p-4 lg:p-12 pt-24 lg:pt-24 transition-all duration-300 ${viewMode === 'desktop' ? 'lg:ml-[420px]' : ''} ${viewMode !== 'desktop' ? 'flex justify-center items-start min-h-screen bg-gray-100/50' : ''}`}
             >
-              {viewMode === 'mobile' ? (
-                /* MOBILE FRAME - Matches export mobile layout (single column, stacked) */
+              {viewMode !== 'desktop' ? (
+                /* MOBILE / TABLET FRAME - Matches the export's stacked layouts; blocks can be
+                   reordered by drag and edited (span, visibility) in the sidebar */
                 (() => {
-                  // Sort blocks by grid position (row first, then column) for correct visual order
-                  // This matches the export's sortedBlocks logic
-                  const sortedMobileBlocks = [...blocks].sort((a, b) => {
-                    const aRow = a.gridRow ?? 999;
-                    const bRow = b.gridRow ?? 999;
-                    const aCol = a.gridColumn ?? 999;
-                    const bCol = b.gridColumn ?? 999;
-                    if (aRow !== bRow) return aRow - bRow;
-                    return aCol - bCol;
-                  });
+                  const breakpoint = viewMode;
+                  const gridConfig = BREAKPOINT_GRID_CONFIG[breakpoint];
+                  // Hidden blocks stay visible (dimmed) so they can be shown again
+                  const breakpointBlocks = getBreakpointBlocks(blocks, breakpoint, true);
+                  const hasOverrides = blocks.some((b) => b.layouts?.[breakpoint]);
+
+                  const handleBreakpointDrop = (targetId: string) => {
+                    if (draggedBlockId && draggedBlockId !== targetId) {
+                      const targetIndex = breakpointBlocks.findIndex((b) => b.id === targetId);
+                      handleSetBlocks(
+                        moveBlockInBreakpoint(blocks, breakpoint, draggedBlockId, targetIndex)
+                      );
+                    }
+                    handleDragEnd();
+                  };
 
                   // Get avatar style
                   const avatarStyle = profile.avatarStyle || {
@@ -1804,138 +2443,201 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                         backgroundSize: 'cover',
                         backgroundPosition: 'center',
                       }
-                    : { background: profile.backgroundColor || '#f8fafc' };
+                    : { background: getPageBackground(profile, colorScheme) };
 
                   return (
-                    <div className="mockup-phone border-gray-800 border-[14px] rounded-[3rem] h-[800px] w-[375px] shadow-2xl bg-white overflow-hidden relative">
-                      <div className="absolute top-0 left-1/2 -translate-x-1/2 w-32 h-6 bg-gray-800 rounded-b-xl z-20"></div>
+                    <div className="flex flex-col items-center gap-4">
+                      <div className="flex items-center gap-3 text-xs text-gray-500">
+                        <span>
+                          {BREAKPOINT_LABELS[breakpoint]} layout · drag blocks to reorder, click to
+                          resize or hide
+                        </span>
+                        {hasOverrides && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              handleSetBlocks(resetBreakpointLayout(blocks, breakpoint))
+                            }
+                            className="inline-flex items-center gap-1 font-semibold text-violet-600 hover:text-violet-800"
+                          >
+                            <RotateCcw size={12} /> Reset{' '}
+                            {BREAKPOINT_LABELS[breakpoint].toLowerCase()} layout
+                          </button>
+                        )}
+                      </div>
                       <div
-                        className="h-full w-full overflow-y-auto no-scrollbar relative"
-                        style={bgStyle}
+                        className={`mockup-phone border-gray-800 border-[14px] shadow-2xl bg-white overflow-hidden relative ${
+                          breakpoint === 'tablet'
+                            ? 'rounded-[2rem] h-[900px] w-[768px]'
+                            : 'rounded-[3rem] h-[800px] w-[375px]'
+                        }`}
                       >
-                        {/* Background blur overlay */}
-                        {profile.backgroundImage &&
-                          profile.backgroundBlur &&
-                          profile.backgroundBlur > 0 && (
+                        {breakpoint === 'mobile' && (
+                          <div className="absolute top-0 left-1/2 -translate-x-1/2 w-32 h-6 bg-gray-800 rounded-b-xl z-20"></div>
+                        )}
+                        <div
+                          className="theme-page h-full w-full overflow-y-auto no-scrollbar relative"
+                          style={bgStyle}
+                        >
+                          {/* Background blur overlay */}
+                          {profile.backgroundImage &&
+                            profile.backgroundBlur &&
+                            profile.backgroundBlur > 0 && (
+                              <div
+                                className="absolute inset-0 pointer-events-none"
+                                style={{
+                                  backdropFilter: `blur(${profile.backgroundBlur}px)`,
+                                  WebkitBackdropFilter: `blur(${profile.backgroundBlur}px)`,
+                                }}
+                              />
+                            )}
+                          {/* Profile Section - Matches export's .profile-section mobile styles */}
+                          <div className="p-4 pt-8 flex flex-col items-center text-center relative z-10">
                             <div
-                              className="absolute inset-0 pointer-events-none"
+                              className="w-24 h-24 mb-4 overflow-hidden bg-gray-100 transition-all duration-300"
                               style={{
-                                backdropFilter: `blur(${profile.backgroundBlur}px)`,
-                                WebkitBackdropFilter: `blur(${profile.backgroundBlur}px)`,
+                                borderRadius: avatarRadius,
+                                boxShadow: avatarShadow,
+                                border: avatarBorder,
                               }}
-                            />
-                          )}
-                        {/* Profile Section - Matches export's .profile-section mobile styles */}
-                        <div className="p-4 pt-8 flex flex-col items-center text-center relative z-10">
-                          <div
-                            className="w-24 h-24 mb-4 overflow-hidden bg-gray-100 transition-all duration-300"
-                            style={{
-                              borderRadius: avatarRadius,
-                              boxShadow: avatarShadow,
-                              border: avatarBorder,
-                            }}
-                          >
-                            <img
-                              src={profile.avatarUrl}
-                              alt="Avatar"
-                              className="w-full h-full object-cover"
-                            />
+                            >
+                              <img
+                                src={profile.avatarUrl}
+                                alt="Avatar"
+                                className="w-full h-full object-cover"
+                              />
+                            </div>
+                            <h1 className="text-2xl font-extrabold tracking-tight theme-ink leading-none mb-2">
+                              <span className="theme-heading">{profile.name}</span>
+                            </h1>
+                            <p className="text-sm theme-muted font-medium whitespace-pre-wrap max-w-xs leading-relaxed">
+                              <span className="theme-text">{profile.bio}</span>
+                            </p>
+                            {/* Social icons row - Matches export's .profile-socials */}
+                            {profile.showSocialInHeader &&
+                              profile.socialAccounts &&
+                              profile.socialAccounts.length > 0 && (
+                                <div className="flex flex-wrap justify-center gap-3 mt-4">
+                                  {profile.socialAccounts.map((account) => {
+                                    const option = getSocialPlatformOption(account.platform);
+                                    if (!option) return null;
+                                    const BrandIcon = option.brandIcon;
+                                    const FallbackIcon = option.icon;
+                                    const url = buildSocialUrl(account.platform, account.handle);
+                                    const showCount =
+                                      profile.showFollowerCount && account.followerCount;
+                                    return (
+                                      <a
+                                        key={account.platform}
+                                        href={url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className={`${showCount ? 'px-3 py-2' : 'w-10 h-10'} bg-white rounded-full shadow-md flex items-center justify-center gap-2 font-semibold text-gray-900 transition-transform hover:-translate-y-0.5`}
+                                        title={option.label}
+                                      >
+                                        {BrandIcon ? (
+                                          <span style={{ color: option.brandColor }}>
+                                            <BrandIcon size={20} />
+                                          </span>
+                                        ) : (
+                                          <span className="text-gray-600">
+                                            <FallbackIcon size={20} />
+                                          </span>
+                                        )}
+                                        {showCount && (
+                                          <span className="text-sm font-semibold text-gray-900">
+                                            {formatFollowerCount(account.followerCount)}
+                                          </span>
+                                        )}
+                                      </a>
+                                    );
+                                  })}
+                                </div>
+                              )}
                           </div>
-                          <h1 className="text-2xl font-extrabold tracking-tight text-gray-900 leading-none mb-2">
-                            {profile.name}
-                          </h1>
-                          <p className="text-sm text-gray-500 font-medium whitespace-pre-wrap max-w-xs leading-relaxed">
-                            {profile.bio}
-                          </p>
-                          {/* Social icons row - Matches export's .profile-socials */}
-                          {profile.showSocialInHeader &&
-                            profile.socialAccounts &&
-                            profile.socialAccounts.length > 0 && (
-                              <div className="flex flex-wrap justify-center gap-3 mt-4">
-                                {profile.socialAccounts.map((account) => {
-                                  const option = getSocialPlatformOption(account.platform);
-                                  if (!option) return null;
-                                  const BrandIcon = option.brandIcon;
-                                  const FallbackIcon = option.icon;
-                                  const url = buildSocialUrl(account.platform, account.handle);
-                                  const showCount =
-                                    profile.showFollowerCount && account.followerCount;
-                                  return (
-                                    <a
-                                      key={account.platform}
-                                      href={url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className={`${showCount ? 'px-3 py-2' : 'w-10 h-10'} bg-white rounded-full shadow-md flex items-center justify-center gap-2 font-semibold text-gray-900 transition-transform hover:-translate-y-0.5`}
-                                      title={option.label}
+                          {/* Grid Section - 2 columns on mobile, 4 on tablet */}
+                          <div className="p-4 relative z-10">
+                            <div
+                              className="grid pb-8"
+                              style={{
+                                gridTemplateColumns: `repeat(${gridConfig.columns}, 1fr)`,
+                                gridAutoRows: `${gridConfig.rowHeight}px`,
+                                gap: `${gridConfig.gap}px`,
+                              }}
+                            >
+                              {breakpointBlocks.map((block) => {
+                                const layout = getBreakpointLayout(block, breakpoint);
+                                return (
+                                  <div
+                                    key={block.id}
+                                    role="button"
+                                    tabIndex={0}
+                                    aria-label={`Edit ${BREAKPOINT_LABELS[breakpoint].toLowerCase()} layout of ${block.title ?? block.type}`}
+                                    draggable
+                                    onDragStart={() => handleDragStart(block.id)}
+                                    onDragEnter={() => handleDragEnter(block.id)}
+                                    onDragOver={(e) => e.preventDefault()}
+                                    onDragEnd={handleDragEnd}
+                                    onDrop={(e) => {
+                                      e.preventDefault();
+                                      handleBreakpointDrop(block.id);
+                                    }}
+                                    onClick={() => selectBlock(block)}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter' || e.key === ' ') {
+                                        e.preventDefault();
+                                        selectBlock(block);
+                                      }
+                                    }}
+                                    className={`relative rounded-[1.75rem] cursor-grab transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                                      editingBlockId === block.id ? 'ring-4 ring-blue-500' : ''
+                                    } ${dragOverBlockId === block.id ? 'ring-2 ring-violet-500 scale-[1.02]' : ''} ${
+                                      draggedBlockId === block.id ? 'opacity-40' : ''
+                                    }`}
+                                    style={{
+                                      gridColumn: `span ${layout.colSpan}`,
+                                      gridRow: `span ${layout.rowSpan}`,
+                                    }}
+                                  >
+                                    <div
+                                      className={`pointer-events-none h-full ${layout.hidden ? 'opacity-30 grayscale' : ''}`}
                                     >
-                                      {BrandIcon ? (
-                                        <span style={{ color: option.brandColor }}>
-                                          <BrandIcon size={20} />
-                                        </span>
-                                      ) : (
-                                        <span className="text-gray-600">
-                                          <FallbackIcon size={20} />
-                                        </span>
-                                      )}
-                                      {showCount && (
-                                        <span className="text-sm font-semibold text-gray-900">
-                                          {formatFollowerCount(account.followerCount)}
-                                        </span>
-                                      )}
-                                    </a>
-                                  );
-                                })}
-                              </div>
-                            )}
-                        </div>
-                        {/* Grid Section - Mobile layout: 2 columns adaptive */}
-                        <div className="p-4 relative z-10">
-                          <div
-                            className="grid pb-8"
-                            style={{
-                              gridTemplateColumns: `repeat(${MOBILE_GRID_CONFIG.columns}, 1fr)`,
-                              gridAutoRows: `${MOBILE_GRID_CONFIG.rowHeight}px`,
-                              gap: `${MOBILE_GRID_CONFIG.gap}px`,
-                            }}
-                          >
-                            {sortedMobileBlocks.map((block) => {
-                              // Calculate mobile layout based on desktop dimensions
-                              const mobileLayout = getMobileLayout(block);
-                              return (
-                                <div
-                                  key={block.id}
-                                  className="pointer-events-none"
-                                  style={{
-                                    gridColumn: `span ${mobileLayout.colSpan}`,
-                                    gridRow: `span ${mobileLayout.rowSpan}`,
-                                  }}
-                                >
-                                  <Block
-                                    block={block}
-                                    isSelected={false}
-                                    onEdit={() => {}}
-                                    onDelete={() => {}}
-                                    onDragStart={() => {}}
-                                    onDragEnter={() => {}}
-                                    onDragEnd={() => {}}
-                                    onDrop={() => {}}
-                                    enableTiltEffect={true}
-                                  />
-                                </div>
-                              );
-                            })}
+                                      <Block
+                                        block={{
+                                          ...block,
+                                          gridColumn: undefined,
+                                          gridRow: undefined,
+                                        }}
+                                        isSelected={false}
+                                        onEdit={() => {}}
+                                        onDelete={() => {}}
+                                        onDragStart={() => {}}
+                                        onDragEnter={() => {}}
+                                        onDragEnd={() => {}}
+                                        onDrop={() => {}}
+                                        colorScheme={colorScheme}
+                                      />
+                                    </div>
+                                    {layout.hidden && (
+                                      <span className="absolute top-2 left-2 z-10 inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-900/80 text-white text-[10px] font-semibold pointer-events-none">
+                                        <EyeOff size={10} /> Hidden
+                                      </span>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                            </div>
                           </div>
+                          {/* Footer - Matches export */}
+                          {profile.showBranding !== false && (
+                            <div className="w-full py-6 text-center text-sm text-gray-500 font-medium">
+                              <p className="inline-flex items-center gap-1">
+                                Made with <span className="text-red-400">♥</span> using{' '}
+                                <span className="font-semibold">OpenBento</span>
+                              </p>
+                            </div>
+                          )}
                         </div>
-                        {/* Footer - Matches export */}
-                        {profile.showBranding !== false && (
-                          <div className="w-full py-6 text-center text-sm text-gray-500 font-medium">
-                            <p className="inline-flex items-center gap-1">
-                              Made with <span className="text-red-400">♥</span> using{' '}
-                              <span className="font-semibold">OpenBento</span>
-                            </p>
-                          </div>
-                        )}
                       </div>
                     </div>
                   );
@@ -2034,6 +2736,10 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
 
                     const handleDropOnCell = (col: number, row: number) => {
                       if (!draggedBlockId) return;
+                      if (isGroupDrag) {
+                        moveSelectionTo(col, row);
+                        return;
+                      }
                       const blockIndex = blocks.findIndex((b) => b.id === draggedBlockId);
                       if (blockIndex === -1) return;
 
@@ -2065,6 +2771,11 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
 
                     const handleClickEmptyCell = (col: number, row: number) => {
                       if (draggedBlockId) return;
+                      if (suppressCellClickRef.current) {
+                        suppressCellClickRef.current = false;
+                        return;
+                      }
+                      setSelectedBlockIds([]);
                       setEditingBlockId(null);
                       setIsSidebarOpen(true);
                       sessionStorage.setItem('pendingBlockPosition', JSON.stringify({ col, row }));
@@ -2076,7 +2787,9 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                         role="main"
                         aria-label="Bento grid editor"
                         layout
-                        className="grid gap-2"
+                        onPointerDown={handleGridPointerDown}
+                        onContextMenu={handleGridContextMenu}
+                        className="theme-page theme-grid grid relative"
                         style={{
                           gridTemplateColumns: 'repeat(9, 1fr)',
                           gridAutoRows: '64px', // Auto rows for scrollable content
@@ -2088,16 +2801,18 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                             <Block
                               key={block.id}
                               block={{ ...block, zIndex: index + 1 }}
-                              isSelected={editingBlockId === block.id}
+                              isSelected={
+                                editingBlockId === block.id || selectedBlockIds.includes(block.id)
+                              }
                               isDragTarget={dragOverBlockId === block.id}
-                              isDragging={draggedBlockId === block.id}
+                              isDragging={
+                                draggedBlockId === block.id ||
+                                (isGroupDrag && selectedBlockIds.includes(block.id))
+                              }
                               enableResize={viewMode === 'desktop'}
                               isResizing={resizingBlockId === block.id}
                               onResizeStart={handleResizeStart}
-                              onEdit={(b) => {
-                                setEditingBlockId(b.id);
-                                setIsSidebarOpen(true);
-                              }}
+                              onEdit={selectBlock}
                               onDelete={deleteBlock}
                               onDragStart={handleDragStart}
                               onDragEnter={handleDragEnter}
@@ -2105,6 +2820,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                               onDrop={handleDrop}
                               onDuplicate={duplicateBlock}
                               onInlineUpdate={updateBlock}
+                              colorScheme={colorScheme}
                             />
                           ))}
                         </AnimatePresence>
@@ -2161,6 +2877,14 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                           </motion.div>
                         ))}
 
+                        {marquee && (
+                          <div
+                            aria-hidden="true"
+                            className="absolute z-50 pointer-events-none rounded-md border border-violet-500 bg-violet-500/10"
+                            style={marquee}
+                          />
+                        )}
+
                         {/* Add more rows button - spans full width at bottom */}
                         <motion.button
                           type="button"
@@ -2204,9 +2928,38 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
         )}
       </div>
 
+      {/* Group actions for a multi-block selection */}
+      <AnimatePresence>
+        {viewMode === 'desktop' && selectedCount > 0 && (
+          <SelectionToolbar
+            count={selectedCount}
+            onDuplicate={duplicateSelectedBlocks}
+            onDelete={deleteSelectedBlocks}
+            onColor={colorSelectedBlocks}
+            onAlign={alignSelectedBlocks}
+            onClear={() => setSelectedBlockIds([])}
+          />
+        )}
+      </AnimatePresence>
+
+      {contextMenu && (
+        <BlockContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          count={contextMenu.blockIds.length}
+          onCopy={copyContextMenuBlocks}
+          onPaste={pasteFromContextMenu}
+          onDuplicate={duplicateContextMenuBlocks}
+          onDelete={deleteContextMenuBlocks}
+          onClose={closeContextMenu}
+        />
+      )}
+
       {/* 2. SIDEBAR EDITOR */}
       <EditorSidebar
         isOpen={isSidebarOpen}
+        layoutBreakpoint={viewMode === 'desktop' ? null : viewMode}
+        colorScheme={colorScheme}
         profile={profile}
         addBlock={addBlock}
         editingBlock={editingBlock}
@@ -2218,7 +2971,15 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       {/* 3. SETTINGS MODAL */}
       <SettingsModal
         isOpen={showSettingsModal}
-        onClose={() => setShowSettingsModal(false)}
+        onClose={() => {
+          setShowSettingsModal(false);
+          setSettingsTab(undefined);
+          if (returnToAIGenerator) {
+            setReturnToAIGenerator(false);
+            setShowAIGeneratorModal(true);
+          }
+        }}
+        initialTab={returnToAIGenerator ? 'ai' : settingsTab}
         profile={profile}
         setProfile={handleSetProfile}
         bentoName={activeBento?.name}
@@ -2269,16 +3030,42 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
       <AIGeneratorModal
         isOpen={showAIGeneratorModal}
         onClose={() => setShowAIGeneratorModal(false)}
+        onOpenSettings={() => {
+          // The generator stays mounted, so its form is kept while settings are open
+          setShowAIGeneratorModal(false);
+          setReturnToAIGenerator(true);
+          setShowSettingsModal(true);
+        }}
         onBentoImported={(newBento) => {
-          // Reload the app with the new bento
-          setActiveBento(newBento);
-          handleSetProfile(newBento.data.profile);
-          handleSetBlocks(newBento.data.blocks);
-          setGridVersion(newBento.data.gridVersion ?? GRID_VERSION);
+          // Reload the app with the new bento; blocks the model left unplaced get a free slot
+          const normalizedBlocks = ensureBlocksHavePositions(newBento.data.blocks);
+          const nextGridVersion = GRID_VERSION;
+          setGridVersion(nextGridVersion);
+          setActiveBento({
+            ...newBento,
+            data: { ...newBento.data, blocks: normalizedBlocks, gridVersion: nextGridVersion },
+          });
+          reset({ profile: newBento.data.profile, blocks: normalizedBlocks });
+          setEditingBlockId(null);
+          setSelectedBlockIds([]);
+          updateBentoData(newBento.id, {
+            profile: newBento.data.profile,
+            blocks: normalizedBlocks,
+            gridVersion: nextGridVersion,
+          });
         }}
       />
 
-      {/* 7. DEPLOY MODAL */}
+      {/* 7. HISTORY MODAL */}
+      <HistoryModal
+        isOpen={showHistoryModal}
+        onClose={() => setShowHistoryModal(false)}
+        bentoId={activeBento?.id ?? null}
+        current={profile ? { profile, blocks, gridVersion } : null}
+        onRestore={handleRestoreVersion}
+      />
+
+      {/* 8. DEPLOY MODAL */}
       <AnimatePresence>
         {showDeployModal && (
           <motion.div
@@ -2326,15 +3113,60 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                       }}
                       className="w-full bg-white border border-gray-200 rounded-xl px-3 py-2.5 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all font-semibold text-gray-800"
                     >
-                      <option value="vercel">Vercel</option>
-                      <option value="netlify">Netlify</option>
-                      <option value="docker">Docker (nginx)</option>
-                      <option value="vps">VPS (nginx)</option>
-                      <option value="heroku">Heroku</option>
-                      <option value="github-pages">GitHub Pages</option>
+                      {Object.entries(DEPLOYMENT_TARGET_LABELS).map(([target, label]) => (
+                        <option key={target} value={target}>
+                          {label}
+                        </option>
+                      ))}
                     </select>
                   </div>
 
+                  <div className="bg-gray-50 border border-gray-100 rounded-xl p-3 space-y-2">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                      Export format
+                    </label>
+                    <select
+                      value={exportMode}
+                      onChange={(e) => {
+                        setExportMode(e.target.value as ExportMode);
+                        setHasDownloadedExport(false);
+                        setExportError(null);
+                      }}
+                      className="w-full bg-white border border-gray-200 rounded-xl px-3 py-2.5 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all font-semibold text-gray-800"
+                    >
+                      <option value="project">React project (build required)</option>
+                      <option value="static">Static HTML (no build)</option>
+                    </select>
+                  </div>
+
+                  {hasYouTubeFeeds(blocks) && (
+                    <div className="bg-gray-50 border border-gray-100 rounded-xl p-3 space-y-1">
+                      <label className="flex items-center justify-between gap-3 cursor-pointer">
+                        <span className="text-sm font-semibold text-gray-800">
+                          Live YouTube feeds
+                        </span>
+                        <input
+                          type="checkbox"
+                          aria-label="Load YouTube feeds in the browser"
+                          checked={youtubeRuntimeFeeds}
+                          onChange={(e) => {
+                            setYoutubeRuntimeFeeds(e.target.checked);
+                            setHasDownloadedExport(false);
+                            setExportError(null);
+                          }}
+                          className="w-5 h-5 rounded text-violet-600 border-gray-300 focus:ring-violet-500"
+                        />
+                      </label>
+                      <p className="text-xs text-gray-400">
+                        {exportMode === 'static'
+                          ? 'Channels without saved videos load them in the browser, through the allorigins.win proxy.'
+                          : 'Videos are fetched at build time. When enabled, channels without videos also load them in the browser, through the allorigins.win proxy.'}{' '}
+                        Without the dev server, the builder also loads feeds this way only when
+                        enabled.
+                      </p>
+                    </div>
+                  )}
+
                   <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 flex gap-3 items-center">
                     <div className="bg-white p-2 rounded-full shadow-sm border border-gray-100 text-gray-700">
                       {isExporting ? (
@@ -2354,12 +3186,32 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                             : 'Download package'}
                       </p>
                       <p className="text-gray-500 text-xs break-all">
-                        <code>{`${profile.name.replace(/\s+/g, '-').toLowerCase()}-bento-${deployTarget}.zip`}</code>
+                        <code>
+                          {getExportFileName(profile.name, {
+                            deploymentTarget: deployTarget,
+                            mode: exportMode,
+                          })}
+                        </code>
                       </p>
                     </div>
                   </div>
                 </div>
 
+                <AccessibilityPanel
+                  data={{ profile, blocks }}
+                  onSelectBlock={(blockId) => {
+                    setShowDeployModal(false);
+                    setSelectedBlockIds([]);
+                    setEditingBlockId(blockId);
+                    setIsSidebarOpen(true);
+                  }}
+                  onEditProfile={() => {
+                    setShowDeployModal(false);
+                    setSettingsTab('general');
+                    setShowSettingsModal(true);
+                  }}
+                />
+
                 {exportError && (
                   <div className="bg-red-50 border border-red-100 rounded-xl p-3 text-sm text-red-700 font-semibold">
                     {exportError}
@@ -2434,11 +3286,13 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                   <div className="flex items-start justify-between gap-4">
                     <div className="min-w-0">
                       <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">
-                        Supabase
+                        {analyticsProvider === 'self-hosted' ? 'Self-hosted collector' : 'Supabase'}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         URL is used for tracking + dashboard. Analytics is enabled on export when
                         the URL is set.
+                        {analyticsProvider === 'self-hosted' &&
+                          ' The collector ships with Docker and VPS exports.'}
                       </p>
                     </div>
                     <button
@@ -2466,24 +3320,66 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                     </button>
                   </div>
 
+                  <div className="flex flex-wrap gap-2">
+                    {ANALYTICS_PROVIDERS.map((option) => (
+                      <button
+                        key={option.id}
+                        type="button"
+                        aria-pressed={analyticsProvider === option.id}
+                        onClick={() =>
+                          handleSetProfile((prev) => ({
+                            ...prev,
+                            analytics: { ...(prev.analytics ?? {}), provider: option.id },
+                          }))
+                        }
+                        className={`px-3 py-2 rounded-xl text-xs font-bold border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          analyticsProvider === option.id
+                            ? 'bg-gray-900 text-white border-gray-900'
+                            : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
                   <div className="flex flex-col sm:flex-row gap-3">
-                    <input
-                      type="text"
-                      aria-label="Supabase project URL"
-                      value={profile.analytics?.supabaseUrl || ''}
-                      onChange={(e) =>
-                        handleSetProfile((prev) => ({
-                          ...prev,
-                          analytics: {
-                            ...(prev.analytics ?? {}),
-                            supabaseUrl: e.target.value,
-                          },
-                        }))
-                      }
-                      className="flex-1 bg-white border border-gray-200 rounded-xl p-2.5 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all font-medium text-gray-700"
-                      placeholder="https://xxxx.supabase.co"
-                    />
-                    {import.meta.env.DEV && (
+                    {analyticsProvider === 'self-hosted' ? (
+                      <input
+                        type="text"
+                        aria-label="Analytics collector URL"
+                        value={profile.analytics?.collectorUrl || ''}
+                        onChange={(e) =>
+                          handleSetProfile((prev) => ({
+                            ...prev,
+                            analytics: {
+                              ...(prev.analytics ?? {}),
+                              collectorUrl: e.target.value,
+                            },
+                          }))
+                        }
+                        className="flex-1 bg-white border border-gray-200 rounded-xl p-2.5 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all font-medium text-gray-700"
+                        placeholder={`https://example.com${COLLECTOR_PATH}`}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        aria-label="Supabase project URL"
+                        value={profile.analytics?.supabaseUrl || ''}
+                        onChange={(e) =>
+                          handleSetProfile((prev) => ({
+                            ...prev,
+                            analytics: {
+                              ...(prev.analytics ?? {}),
+                              supabaseUrl: e.target.value,
+                            },
+                          }))
+                        }
+                        className="flex-1 bg-white border border-gray-200 rounded-xl p-2.5 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all font-medium text-gray-700"
+                        placeholder="https://xxxx.supabase.co"
+                      />
+                    )}
+                    {import.meta.env.DEV && analyticsProvider === 'supabase' && (
                       <button
                         type="button"
                         aria-label={
@@ -2497,7 +3393,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                     )}
                   </div>
 
-                  {import.meta.env.DEV && supabaseSetupOpen && (
+                  {import.meta.env.DEV && analyticsProvider === 'supabase' && supabaseSetupOpen && (
                     <div className="pt-2 space-y-3">
                       <div className="flex flex-wrap gap-2">
                         <button
@@ -2698,6 +3594,7 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                         <option value={7}>Last 7 days</option>
                         <option value={30}>Last 30 days</option>
                         <option value={90}>Last 90 days</option>
+                        <option value={365}>Last 365 days</option>
                       </select>
                       {analyticsData?.sampled && (
                         <span className="ml-auto inline-flex items-center gap-2 text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-3 py-1">
@@ -2707,8 +3604,17 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                       )}
                     </div>
                     <p className="text-[11px] text-gray-400">
-                      This dashboard reads from the <code>openbento-analytics-admin</code> Edge
-                      Function using your admin token.
+                      {analyticsProvider === 'self-hosted' ? (
+                        <>
+                          This dashboard reads from the collector&apos;s <code>/summary</code>{' '}
+                          endpoint using your admin token.
+                        </>
+                      ) : (
+                        <>
+                          This dashboard reads from the <code>openbento-analytics-admin</code> Edge
+                          Function using your admin token.
+                        </>
+                      )}
                     </p>
                   </div>
 
@@ -2729,6 +3635,29 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                           {analyticsData?.totals?.clicks ?? '—'}
                         </span>
                       </div>
+                      {analyticsData?.filtered && (
+                        <div>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-semibold text-gray-400">Filtered</span>
+                            <span className="text-sm font-bold text-gray-400">
+                              {analyticsData.filtered.total}
+                            </span>
+                          </div>
+                          {analyticsData.filtered.total > 0 && (
+                            <p className="text-[11px] text-gray-400 mt-1">
+                              {[
+                                ['bots', analyticsData.filtered.bot],
+                                ['rate limited', analyticsData.filtered.rateLimit],
+                                ['other origins', analyticsData.filtered.origin],
+                                ['duplicates', analyticsData.filtered.duplicate],
+                              ]
+                                .filter(([, count]) => count > 0)
+                                .map(([label, count]) => `${count} ${label}`)
+                                .join(' · ')}
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -2780,6 +3709,61 @@ const Builder: React.FC<BuilderProps> = ({ onBack }) => {
                         )}
                       </div>
                     </div>
+
+                    {analyticsData.devices && (
+                      <div className="bg-white border border-gray-100 rounded-xl p-3">
+                        <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">
+                          Devices &amp; languages
+                        </p>
+                        <div className="space-y-2">
+                          {analyticsData.devices.length === 0 ? (
+                            <p className="text-sm text-gray-400">No page views yet.</p>
+                          ) : (
+                            [
+                              ...analyticsData.devices.map((d: any) => [d.device, d.pageViews]),
+                              ...(analyticsData.languages || []).map((l: any) => [
+                                l.language,
+                                l.pageViews,
+                              ]),
+                            ].map(([label, count]) => (
+                              <div key={label} className="flex items-center justify-between gap-4">
+                                <p className="text-xs font-mono text-gray-700 break-all">{label}</p>
+                                <span className="text-xs font-bold text-gray-900 shrink-0">
+                                  {count}
+                                </span>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {analyticsData.utm && (
+                      <div className="bg-white border border-gray-100 rounded-xl p-3">
+                        <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">
+                          Campaigns
+                        </p>
+                        <div className="space-y-2">
+                          {analyticsData.utm.sources.length === 0 ? (
+                            <p className="text-sm text-gray-400">No UTM-tagged visits yet.</p>
+                          ) : (
+                            analyticsData.utm.sources.map((u: any) => (
+                              <div
+                                key={u.value}
+                                className="flex items-center justify-between gap-4"
+                              >
+                                <p className="text-xs font-mono text-gray-700 break-all">
+                                  {u.value}
+                                </p>
+                                <span className="text-xs font-bold text-gray-900 shrink-0">
+                                  {u.pageViews}
+                                </span>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1,5 +1,12 @@
 import React, { useState } from 'react';
-import { BlockData, BlockType, SocialPlatform, UserProfile } from '../types';
+import {
+  BlockData,
+  BlockType,
+  ColorScheme,
+  LayoutBreakpoint,
+  SocialPlatform,
+  UserProfile,
+} from '../types';
 import { BASE_COLORS } from '../constants';
 import {
   X,
@@ -20,6 +27,15 @@ import {
   List,
   Palette,
   CheckCircle2,
+  Music,
+  Smartphone,
+  Tablet,
+  EyeOff,
+  Minus,
+  Plus,
+  Wand2,
+  Moon,
+  Images,
 } from 'lucide-react';
 import {
   buildSocialUrl,
@@ -30,6 +46,18 @@ import {
   normalizeSocialHandle,
   SOCIAL_PLATFORM_OPTIONS,
 } from '../socialPlatforms';
+import { EMBED_PROVIDER_LABELS, parseEmbedUrl } from '../utils/embed';
+import {
+  BREAKPOINT_GRID_CONFIG,
+  BREAKPOINT_LABELS,
+  getBreakpointLayout,
+  getLayoutOverride,
+  updateLayoutOverride,
+} from '../utils/mobileLayout';
+import { unfurlLink, type LinkMetadata } from '../services/unfurlService';
+import { fetchYouTubeFeed } from '../services/youtubeFeedService';
+import { optimizeImageFile } from '../services/imageService';
+import GalleryEditor from './GalleryEditor';
 
 interface EditorSidebarProps {
   profile: UserProfile;
@@ -39,6 +67,8 @@ interface EditorSidebarProps {
   onDelete: (id: string) => void;
   closeEdit: () => void;
   isOpen: boolean;
+  layoutBreakpoint?: LayoutBreakpoint | null; // Set while editing the mobile or tablet layout
+  colorScheme?: ColorScheme; // Dark: background colors edit the block's dark variant
 }
 
 const EditorSidebar: React.FC<EditorSidebarProps> = ({
@@ -49,18 +79,25 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
   onDelete,
   closeEdit,
   isOpen,
+  layoutBreakpoint,
+  colorScheme,
 }) => {
   const [isFetching, setIsFetching] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const [isUnfurling, setIsUnfurling] = useState(false);
+  const [storeUnfurledImage, setStoreUnfurledImage] = useState(false);
+  // Last "Fill from URL" outcome, shown only for the block it was run on
+  const [unfurlStatus, setUnfurlStatus] = useState<{
+    blockId: string;
+    metadata?: LinkMetadata;
+    error?: string;
+  } | null>(null);
 
-  const handleBlockImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleBlockImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file && editingBlock) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        updateBlock({ ...editingBlock, imageUrl: reader.result as string });
-      };
-      reader.readAsDataURL(file);
+      const imageUrl = await optimizeImageFile(file);
+      updateBlock({ ...editingBlock, imageUrl });
     }
   };
 
@@ -91,30 +128,9 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
     setFetchError(null);
 
     try {
-      const rssUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${cId}`;
-      const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(rssUrl)}`;
-
-      const response = await fetch(proxyUrl);
-      if (!response.ok) throw new Error('Network error');
-
-      const text = await response.text();
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(text, 'text/xml');
-
-      const entries = Array.from(xmlDoc.querySelectorAll('entry'));
-      const authorName = xmlDoc.querySelector('author > name')?.textContent;
-
-      if (entries.length > 0 && editingBlock) {
-        const videos = entries.slice(0, 4).map((entry) => {
-          const vidId = entry.getElementsByTagName('yt:videoId')[0]?.textContent || '';
-          const vidTitle = entry.getElementsByTagName('title')[0]?.textContent || '';
-          return {
-            id: vidId,
-            title: vidTitle,
-            thumbnail: `https://img.youtube.com/vi/${vidId}/mqdefault.jpg`,
-          };
-        });
+      const { channelTitle: authorName, videos } = await fetchYouTubeFeed(cId);
 
+      if (videos.length > 0 && editingBlock) {
         const latestVideo = videos[0];
 
         updateBlock({
@@ -131,12 +147,47 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
       }
     } catch (error) {
       console.error(error);
-      setFetchError('Failed to fetch. Check ID.');
+      setFetchError(error instanceof Error ? error.message : 'Failed to fetch. Check ID.');
     } finally {
       setIsFetching(false);
     }
   };
 
+  const fillFromUrl = async () => {
+    if (!editingBlock?.content) return;
+    const block = editingBlock;
+    const url = /^[a-z][a-z0-9+.-]*:/i.test(block.content!)
+      ? block.content!
+      : `https://${block.content}`;
+
+    setIsUnfurling(true);
+    setUnfurlStatus(null);
+    try {
+      const { metadata, imageDataUrl, imageError } = await unfurlLink(url, {
+        storeImage: storeUnfurledImage,
+      });
+      updateBlock({
+        ...block,
+        title: metadata.title ?? block.title,
+        subtext: metadata.description ?? block.subtext,
+        imageUrl: imageDataUrl ?? metadata.imageUrl ?? block.imageUrl,
+      });
+      setUnfurlStatus({
+        blockId: block.id,
+        metadata,
+        error: imageError && `Image not saved: ${imageError}`,
+      });
+    } catch (error) {
+      console.error(error);
+      setUnfurlStatus({
+        blockId: block.id,
+        error: error instanceof Error ? error.message : 'Failed to fetch the page.',
+      });
+    } finally {
+      setIsUnfurling(false);
+    }
+  };
+
   const autoFillSocialText = (
     prevPlatform: SocialPlatform | undefined,
     prevHandle: string,
@@ -260,10 +311,15 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
     });
   };
 
+  const isDarkScheme = colorScheme === 'dark';
+
   const isSelectedColor = (c: any) => {
     if (!editingBlock) return false;
-    if (editingBlock.customBackground) return editingBlock.customBackground === c.hex;
-    return editingBlock.color === c.bg;
+    // Derived dark colors are not a palette choice
+    const colors = isDarkScheme ? editingBlock.dark : editingBlock;
+    if (!colors) return false;
+    if (colors.customBackground) return colors.customBackground === c.hex;
+    return colors.color === c.bg;
   };
 
   return (
@@ -297,6 +353,108 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
         {/* EDITING A SPECIFIC BLOCK */}
         {editingBlock ? (
           <div className="space-y-8 animate-fade-in">
+            {/* Breakpoint layout (mobile / tablet view modes) */}
+            {layoutBreakpoint &&
+              (() => {
+                const layout = getBreakpointLayout(editingBlock, layoutBreakpoint);
+                const columns = BREAKPOINT_GRID_CONFIG[layoutBreakpoint].columns;
+                const label = BREAKPOINT_LABELS[layoutBreakpoint];
+                const BreakpointIcon = layoutBreakpoint === 'tablet' ? Tablet : Smartphone;
+                const setOverride = (changes: Parameters<typeof updateLayoutOverride>[2]) =>
+                  updateBlock(updateLayoutOverride(editingBlock, layoutBreakpoint, changes));
+                return (
+                  <div className="space-y-4 p-4 bg-violet-50/60 border border-violet-100 rounded-2xl">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-bold text-violet-700 uppercase tracking-wider flex items-center gap-2">
+                        <BreakpointIcon size={14} /> {label} layout
+                      </span>
+                      {getLayoutOverride(editingBlock, layoutBreakpoint) && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setOverride({
+                              colSpan: undefined,
+                              rowSpan: undefined,
+                              order: undefined,
+                              hidden: undefined,
+                            })
+                          }
+                          className="text-xs font-semibold text-violet-600 hover:text-violet-800"
+                        >
+                          Reset to automatic
+                        </button>
+                      )}
+                    </div>
+
+                    <fieldset>
+                      <legend className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1.5">
+                        Width (columns)
+                      </legend>
+                      <div className="flex gap-1.5">
+                        {Array.from({ length: columns }, (_, i) => i + 1).map((span) => (
+                          <button
+                            key={span}
+                            type="button"
+                            aria-pressed={layout.colSpan === span}
+                            onClick={() => setOverride({ colSpan: span })}
+                            className={`flex-1 py-2 rounded-lg text-sm font-semibold border transition-colors ${
+                              layout.colSpan === span
+                                ? 'bg-gray-900 text-white border-gray-900'
+                                : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                            }`}
+                          >
+                            {span === columns ? 'Full' : `${span}/${columns}`}
+                          </button>
+                        ))}
+                      </div>
+                    </fieldset>
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                        Height (rows)
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          aria-label={`Decrease ${label.toLowerCase()} height`}
+                          disabled={layout.rowSpan <= 1}
+                          onClick={() => setOverride({ rowSpan: layout.rowSpan - 1 })}
+                          className="p-1.5 rounded-lg bg-white border border-gray-200 text-gray-600 hover:border-gray-300 disabled:opacity-40"
+                        >
+                          <Minus size={14} />
+                        </button>
+                        <span className="w-6 text-center text-sm font-semibold text-gray-900">
+                          {layout.rowSpan}
+                        </span>
+                        <button
+                          type="button"
+                          aria-label={`Increase ${label.toLowerCase()} height`}
+                          onClick={() => setOverride({ rowSpan: layout.rowSpan + 1 })}
+                          className="p-1.5 rounded-lg bg-white border border-gray-200 text-gray-600 hover:border-gray-300"
+                        >
+                          <Plus size={14} />
+                        </button>
+                      </div>
+                    </div>
+
+                    <label className="flex items-center justify-between cursor-pointer">
+                      <span className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                        <EyeOff size={14} className="text-gray-400" /> Hide on {label.toLowerCase()}
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={layout.hidden}
+                        onChange={(e) => setOverride({ hidden: e.target.checked || undefined })}
+                        className="w-4 h-4 accent-violet-600"
+                      />
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      Drag blocks in the preview to change their {label.toLowerCase()} order.
+                    </p>
+                  </div>
+                );
+              })()}
+
             {/* Input Group */}
             <div className="space-y-5">
               {/* 1. Title (Not for spacers or social icons) */}
@@ -730,7 +888,8 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
               {/* 4. CONTENT FIELDS (Standard) */}
               {(editingBlock.type === BlockType.LINK ||
                 editingBlock.type === BlockType.MEDIA ||
-                editingBlock.type === BlockType.MAP) && (
+                editingBlock.type === BlockType.MAP ||
+                editingBlock.type === BlockType.EMBED) && (
                 <div>
                   {/* Image Upload for Block */}
                   {(editingBlock.type === BlockType.MEDIA ||
@@ -773,7 +932,9 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
                       ? 'Media URL / Path'
                       : editingBlock.type === BlockType.MAP
                         ? 'Address / City'
-                        : 'Destination URL'}
+                        : editingBlock.type === BlockType.EMBED
+                          ? 'Player URL'
+                          : 'Destination URL'}
                   </label>
                   <input
                     type="text"
@@ -791,7 +952,9 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
                     placeholder={
                       editingBlock.type === BlockType.MEDIA
                         ? '/images/photo.jpg, video.mp4 or URL'
-                        : 'https://...'
+                        : editingBlock.type === BlockType.EMBED
+                          ? 'https://open.spotify.com/track/...'
+                          : 'https://...'
                     }
                   />
                   {editingBlock.type === BlockType.MEDIA && (
@@ -799,9 +962,106 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
                       Supports images, GIFs, and videos (.mp4, .webm, .mov)
                     </p>
                   )}
+                  {editingBlock.type === BlockType.LINK && (
+                    <div className="mt-2 space-y-2">
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={fillFromUrl}
+                          disabled={isUnfurling || !editingBlock.content}
+                          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-900 text-white text-xs font-bold hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Fill the title, description and image from the page"
+                        >
+                          {isUnfurling ? (
+                            <Loader2 size={14} className="animate-spin" />
+                          ) : (
+                            <Wand2 size={14} />
+                          )}
+                          Fill from URL
+                        </button>
+                        <label className="flex items-center gap-1.5 text-[11px] font-medium text-gray-500 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={storeUnfurledImage}
+                            onChange={(e) => setStoreUnfurledImage(e.target.checked)}
+                            className="rounded border-gray-300"
+                          />
+                          Save image locally
+                        </label>
+                      </div>
+                      {unfurlStatus?.blockId === editingBlock.id && unfurlStatus.metadata && (
+                        <div className="flex items-center gap-2 bg-gray-50 border border-gray-200 rounded-lg p-2">
+                          {unfurlStatus.metadata.faviconUrl && (
+                            <img
+                              src={unfurlStatus.metadata.faviconUrl}
+                              alt=""
+                              className="w-4 h-4 rounded-sm"
+                              onError={(e) => (e.currentTarget.style.display = 'none')}
+                            />
+                          )}
+                          <span className="text-[11px] text-gray-600 truncate">
+                            Filled from{' '}
+                            {unfurlStatus.metadata.siteName ||
+                              new URL(unfurlStatus.metadata.url).hostname}
+                          </span>
+                        </div>
+                      )}
+                      {unfurlStatus?.blockId === editingBlock.id && unfurlStatus.error && (
+                        <p className="text-red-500 text-xs font-medium">{unfurlStatus.error}</p>
+                      )}
+                    </div>
+                  )}
+                  {editingBlock.type === BlockType.EMBED &&
+                    (!editingBlock.content || parseEmbedUrl(editingBlock.content) ? (
+                      <p className="text-[10px] text-gray-400 mt-1.5">
+                        {editingBlock.content
+                          ? `${parseEmbedUrl(editingBlock.content)?.label} player`
+                          : `Paste a link or embed code from ${EMBED_PROVIDER_LABELS.join(', ')}`}
+                      </p>
+                    ) : (
+                      <p className="text-[10px] text-red-500 mt-1.5">
+                        Unsupported URL. Supported: {EMBED_PROVIDER_LABELS.join(', ')}
+                      </p>
+                    ))}
+                  {(editingBlock.type === BlockType.MEDIA ||
+                    editingBlock.type === BlockType.LINK) &&
+                    editingBlock.imageUrl && (
+                      <div className="mt-4">
+                        <label
+                          htmlFor="block-image-alt"
+                          className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2"
+                        >
+                          {editingBlock.type === BlockType.MEDIA ? 'Alt Text' : 'Image Description'}
+                        </label>
+                        <input
+                          id="block-image-alt"
+                          type="text"
+                          className="w-full bg-gray-50 border border-gray-200 rounded-xl p-3 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all text-sm text-gray-700"
+                          value={editingBlock.imageAlt || ''}
+                          onChange={(e) =>
+                            updateBlock({ ...editingBlock, imageAlt: e.target.value || undefined })
+                          }
+                          placeholder={
+                            editingBlock.type === BlockType.MEDIA
+                              ? editingBlock.title || 'Describe the image for screen readers'
+                              : 'Optional: leave empty if the image is decorative'
+                          }
+                        />
+                        <p className="text-[10px] text-gray-400 mt-1.5">
+                          {editingBlock.type === BlockType.MEDIA
+                            ? 'Read by screen readers instead of the image. Defaults to the title.'
+                            : 'Read by screen readers along with the link text.'}
+                        </p>
+                      </div>
+                    )}
                 </div>
               )}
 
+              {/* 5. GALLERY: display mode and images */}
+              {editingBlock.type === BlockType.GALLERY && (
+                <GalleryEditor block={editingBlock} updateBlock={updateBlock} />
+              )}
+
               {(editingBlock.type === BlockType.TEXT ||
                 editingBlock.type === BlockType.LINK ||
                 editingBlock.type === BlockType.SOCIAL) && (
@@ -829,9 +1089,26 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
             {/* Appearance (Colors) */}
             {editingBlock.type !== BlockType.SPACER && (
               <div className="space-y-4">
-                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-                  <Palette size={14} /> Background
-                </label>
+                <div className="flex items-center justify-between">
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    {isDarkScheme ? <Moon size={14} /> : <Palette size={14} />} Background
+                    {isDarkScheme && ' (dark mode)'}
+                  </label>
+                  {isDarkScheme && editingBlock.dark && (
+                    <button
+                      type="button"
+                      onClick={() => updateBlock({ ...editingBlock, dark: undefined })}
+                      className="text-xs font-semibold text-violet-600 hover:text-violet-800"
+                    >
+                      Reset to automatic
+                    </button>
+                  )}
+                </div>
+                {isDarkScheme && !editingBlock.dark && (
+                  <p className="text-xs text-gray-400">
+                    Derived from the light colors. Pick a color to set it yourself.
+                  </p>
+                )}
 
                 {/* Solid Colors */}
                 <div className="space-y-2">
@@ -849,12 +1126,16 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
                             aria-pressed={active}
                             key={c.name}
                             onClick={() =>
-                              updateBlock({
-                                ...editingBlock,
-                                color: c.bg,
-                                textColor: c.text,
-                                customBackground: undefined,
-                              })
+                              updateBlock(
+                                isDarkScheme
+                                  ? { ...editingBlock, dark: { color: c.bg, textColor: c.text } }
+                                  : {
+                                      ...editingBlock,
+                                      color: c.bg,
+                                      textColor: c.text,
+                                      customBackground: undefined,
+                                    }
+                              )
                             }
                             className={`h-10 rounded-full border shadow-sm transition-all transform active:scale-95 ${c.bg} ${active ? 'ring-2 ring-offset-2 ring-gray-900 scale-110' : 'hover:scale-105'} flex items-center justify-center`}
                             title={c.name}
@@ -912,8 +1193,15 @@ const EditorSidebar: React.FC<EditorSidebarProps> = ({
                   { type: BlockType.LINK, label: 'Link', icon: Link, color: 'bg-blue-600' },
                   { type: BlockType.SOCIAL, label: 'Social', icon: Github, color: 'bg-violet-600' },
                   { type: BlockType.MEDIA, label: 'Media', icon: ImageIcon, color: 'bg-pink-600' },
+                  {
+                    type: BlockType.GALLERY,
+                    label: 'Gallery',
+                    icon: Images,
+                    color: 'bg-fuchsia-600',
+                  },
                   { type: BlockType.TEXT, label: 'Note', icon: TypeIcon, color: 'bg-emerald-600' },
                   { type: BlockType.MAP, label: 'Map', icon: MapPin, color: 'bg-amber-500' },
+                  { type: BlockType.EMBED, label: 'Embed', icon: Music, color: 'bg-rose-500' },
                   {
                     type: BlockType.SPACER,
                     label: 'Spacer',
@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ChevronLeft, ChevronRight, Image as ImageIcon, X } from 'lucide-react';
+import type { GalleryImage, GalleryMode } from '../types';
+import { DEFAULT_GALLERY_INTERVAL, getFocalPoint, getGalleryAlt } from '../utils/gallery';
+
+interface GalleryCarouselProps {
+  images: GalleryImage[];
+  mode?: GalleryMode;
+  interval?: number; // Seconds per slide in slideshow mode
+  title?: string;
+  enableLightbox?: boolean; // Preview: clicking an image opens it full screen
+  titleClassName?: string;
+  captionClassName?: string;
+}
+
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' &&
+  !!window.matchMedia &&
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+// Full-screen view of one image, with keyboard navigation
+const Lightbox: React.FC<{
+  images: GalleryImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}> = ({ images, index, onIndexChange, onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const image = images[index];
+  const hasMany = images.length > 1;
+  const step = useCallback(
+    (delta: number) => onIndexChange((index + delta + images.length) % images.length),
+    [index, images.length, onIndexChange]
+  );
+
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, []);
+
+  // Portal events still bubble to the block in the React tree: keep them here
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Image ${index + 1} of ${images.length}`}
+      tabIndex={-1}
+      className="fixed inset-0 z-[100] bg-black/90 flex flex-col items-center justify-center p-4 md:p-10 focus:outline-none"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onMouseMove={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+        else if (e.key === 'ArrowLeft') step(-1);
+        else if (e.key === 'ArrowRight') step(1);
+      }}
+    >
+      <button
+        ref={closeRef}
+        type="button"
+        aria-label="Close image"
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white"
+      >
+        <X size={20} />
+      </button>
+      <img
+        src={image.url}
+        alt={getGalleryAlt(image)}
+        className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      />
+      {image.caption && (
+        <p className="mt-4 max-w-2xl text-center text-sm text-white/80">{image.caption}</p>
+      )}
+      {hasMany && (
+        <>
+          <button
+            type="button"
+            aria-label="Previous image"
+            onClick={(e) => {
+              e.stopPropagation();
+              step(-1);
+            }}
+            className="absolute left-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white"
+          >
+            <ChevronLeft size={24} />
+          </button>
+          <button
+            type="button"
+            aria-label="Next image"
+            onClick={(e) => {
+              e.stopPropagation();
+              step(1);
+            }}
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white"
+          >
+            <ChevronRight size={24} />
+          </button>
+          <p className="absolute bottom-4 text-xs font-medium text-white/60">
+            {index + 1} / {images.length}
+          </p>
+        </>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+/**
+ * Swipeable image track of a GALLERY block. Slides snap with CSS scroll snapping,
+ * so touch swiping needs no script; the slideshow pauses while hovered or focused.
+ */
+const GalleryCarousel: React.FC<GalleryCarouselProps> = ({
+  images,
+  mode,
+  interval = DEFAULT_GALLERY_INTERVAL,
+  title,
+  enableLightbox,
+  titleClassName = '',
+  captionClassName = '',
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const count = images.length;
+
+  const goTo = useCallback(
+    (next: number) => {
+      const track = trackRef.current;
+      if (!track || count === 0) return;
+      const target = (next + count) % count;
+      track.scrollTo({
+        left: target * track.clientWidth,
+        behavior: prefersReducedMotion() ? 'auto' : 'smooth',
+      });
+      setIndex(target);
+    },
+    [count]
+  );
+
+  // Images were removed in the editor
+  useEffect(() => {
+    if (index >= count && count > 0) goTo(count - 1);
+  }, [count, index, goTo]);
+
+  useEffect(() => {
+    if (mode !== 'slideshow' || count < 2 || isPaused || lightboxIndex !== null) return;
+    if (prefersReducedMotion()) return;
+    const timer = window.setInterval(() => goTo(index + 1), interval * 1000);
+    return () => window.clearInterval(timer);
+  }, [mode, count, isPaused, lightboxIndex, interval, index, goTo]);
+
+  if (count === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-2 bg-gray-100 text-gray-400">
+        <ImageIcon size={20} />
+        <span className="text-xs font-medium">Add images to the gallery</span>
+      </div>
+    );
+  }
+
+  const current = images[Math.min(index, count - 1)];
+  const overlayTitle = current.caption || title;
+
+  return (
+    <div
+      className="w-full h-full relative overflow-hidden pointer-events-auto"
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={title || 'Gallery'}
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+      onFocus={() => setIsPaused(true)}
+      onBlur={() => setIsPaused(false)}
+    >
+      <div
+        ref={trackRef}
+        className="w-full h-full flex overflow-x-auto snap-x snap-mandatory no-scrollbar"
+        onScroll={(e) => {
+          const track = e.currentTarget;
+          if (track.clientWidth > 0) setIndex(Math.round(track.scrollLeft / track.clientWidth));
+        }}
+      >
+        {images.map((image, i) => (
+          <div
+            key={image.id}
+            className="w-full h-full shrink-0 snap-center relative overflow-hidden"
+            aria-roledescription="slide"
+            aria-label={`${i + 1} of ${count}`}
+          >
+            <img
+              src={image.url}
+              alt={getGalleryAlt(image)}
+              className={`full-img ${enableLightbox ? 'cursor-zoom-in' : ''}`}
+              style={{ objectPosition: getFocalPoint(image) }}
+              loading={i === 0 ? undefined : 'lazy'}
+              draggable={false}
+              onClick={(e) => {
+                if (!enableLightbox) return;
+                e.stopPropagation();
+                setLightboxIndex(i);
+              }}
+            />
+          </div>
+        ))}
+      </div>
+
+      {overlayTitle && (
+        <div className="media-overlay pointer-events-none">
+          <p className={`media-title ${titleClassName}`}>
+            <span className="theme-heading">{overlayTitle}</span>
+          </p>
+          {current.caption && title && (
+            <p className={`media-subtext ${captionClassName}`}>
+              <span className="theme-text">{title}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {count > 1 && (
+        <>
+          <div className="absolute top-2 left-2 flex gap-1 z-10">
+            {images.map((image, i) => (
+              <button
+                key={image.id}
+                type="button"
+                aria-label={`Show image ${i + 1}`}
+                aria-current={i === index}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  goTo(i);
+                }}
+                className={`h-1.5 rounded-full transition-all focus:outline-none focus:ring-2 focus:ring-white ${
+                  i === index ? 'w-4 bg-white' : 'w-1.5 bg-white/50 hover:bg-white/80'
+                }`}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            aria-label="Previous image"
+            onClick={(e) => {
+              e.stopPropagation();
+              goTo(index - 1);
+            }}
+            className="absolute left-2 top-1/2 -translate-y-1/2 z-10 p-1.5 rounded-full bg-black/40 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-black/60 focus:outline-none focus:ring-2 focus:ring-white"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <button
+            type="button"
+            aria-label="Next image"
+            onClick={(e) => {
+              e.stopPropagation();
+              goTo(index + 1);
+            }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 z-10 p-1.5 rounded-full bg-black/40 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-black/60 focus:outline-none focus:ring-2 focus:ring-white"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </>
+      )}
+
+      {lightboxIndex !== null && (
+        <Lightbox
+          images={images}
+          index={lightboxIndex}
+          onIndexChange={(next) => {
+            setLightboxIndex(next);
+            goTo(next);
+          }}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GalleryCarousel;
@@ -0,0 +1,282 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Images, Plus, Timer, Trash2, Upload } from 'lucide-react';
+import type { BlockData, GalleryImage, GalleryMode } from '../types';
+import {
+  DEFAULT_GALLERY_MODE,
+  GALLERY_INTERVAL_LIMITS,
+  MAX_GALLERY_IMAGES,
+  createGalleryImage,
+  getGalleryInterval,
+  moveGalleryImage,
+} from '../utils/gallery';
+import { optimizeImageFile } from '../services/imageService';
+
+type GalleryEditorProps = {
+  block: BlockData;
+  updateBlock: (block: BlockData) => void;
+};
+
+const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1';
+const inputClass =
+  'w-full bg-gray-50 border border-gray-200 rounded-lg px-2.5 py-1.5 text-xs focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all text-gray-700';
+
+// Whole image as a thumbnail: a click sets the focal point there
+const FocalPointPicker: React.FC<{
+  image: GalleryImage;
+  onChange: (position: { x: number; y: number }) => void;
+}> = ({ image, onChange }) => {
+  const frameRef = useRef<HTMLSpanElement>(null);
+  const position = image.position || { x: 50, y: 50 };
+  const clampPercent = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+  return (
+    <button
+      type="button"
+      aria-label="Set the focal point: click the important part of the image"
+      title="Click to set the focal point"
+      onClick={(e) => {
+        const rect = frameRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0 || rect.height === 0) return;
+        onChange({
+          x: clampPercent(((e.clientX - rect.left) / rect.width) * 100),
+          y: clampPercent(((e.clientY - rect.top) / rect.height) * 100),
+        });
+      }}
+      className="w-20 h-20 shrink-0 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center cursor-crosshair focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <span ref={frameRef} className="relative block">
+        <img src={image.url} alt="" className="block max-w-[5rem] max-h-[5rem]" draggable={false} />
+        <span
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white bg-violet-500 shadow pointer-events-none"
+          style={{ left: `${position.x}%`, top: `${position.y}%` }}
+        />
+      </span>
+    </button>
+  );
+};
+
+const GalleryEditor: React.FC<GalleryEditorProps> = ({ block, updateBlock }) => {
+  const [newUrl, setNewUrl] = useState('');
+  const images = block.galleryImages || [];
+  const mode = block.galleryMode || DEFAULT_GALLERY_MODE;
+  const isFull = images.length >= MAX_GALLERY_IMAGES;
+
+  const setImages = (next: GalleryImage[]) => updateBlock({ ...block, galleryImages: next });
+  const updateImage = (index: number, changes: Partial<GalleryImage>) =>
+    setImages(images.map((image, i) => (i === index ? { ...image, ...changes } : image)));
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).slice(
+      0,
+      MAX_GALLERY_IMAGES - images.length
+    );
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const urls = await Promise.all(files.map((file) => optimizeImageFile(file)));
+      setImages([...images, ...urls.map(createGalleryImage)]);
+    } catch (error) {
+      console.error('Failed to read gallery images:', error);
+    }
+  };
+
+  const addUrl = () => {
+    const url = newUrl.trim();
+    if (!url || isFull) return;
+    setImages([...images, createGalleryImage(url)]);
+    setNewUrl('');
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Display mode */}
+      <fieldset className="space-y-3">
+        <legend className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+          Display
+        </legend>
+        <div className="p-1 bg-gray-100 rounded-xl flex">
+          {(
+            [
+              ['carousel', 'Carousel', Images],
+              ['slideshow', 'Slideshow', Timer],
+            ] as const
+          ).map(([value, label, Icon]) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={mode === value}
+              onClick={() => updateBlock({ ...block, galleryMode: value as GalleryMode })}
+              className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
+                mode === value
+                  ? 'bg-white shadow text-gray-900'
+                  : 'text-gray-500 hover:text-gray-900'
+              }`}
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
+        </div>
+        {mode === 'slideshow' && (
+          <div className="space-y-1.5">
+            <div className="flex justify-between items-center">
+              <label htmlFor="gallery-interval" className="text-xs font-medium text-gray-600">
+                Time per image
+              </label>
+              <span className="text-xs text-gray-400">{getGalleryInterval(block)}s</span>
+            </div>
+            <input
+              id="gallery-interval"
+              type="range"
+              min={GALLERY_INTERVAL_LIMITS.min}
+              max={GALLERY_INTERVAL_LIMITS.max}
+              step={1}
+              value={getGalleryInterval(block)}
+              onChange={(e) => updateBlock({ ...block, galleryInterval: Number(e.target.value) })}
+              className="w-full accent-violet-500"
+            />
+          </div>
+        )}
+        <p className="text-[10px] text-gray-400">
+          {mode === 'slideshow'
+            ? 'Images advance on their own and pause while hovered. Visitors can still swipe.'
+            : 'Visitors swipe or use the arrows to browse.'}{' '}
+          Clicking an image opens it full screen.
+        </p>
+      </fieldset>
+
+      {/* Images */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">
+            Images
+          </span>
+          <span className="text-[10px] text-gray-400">
+            {images.length} / {MAX_GALLERY_IMAGES}
+          </span>
+        </div>
+
+        {images.map((image, index) => (
+          <div
+            key={image.id}
+            className="flex gap-3 p-2.5 bg-white border border-gray-200 rounded-xl"
+          >
+            <FocalPointPicker
+              image={image}
+              onChange={(position) => updateImage(index, { position })}
+            />
+            <div className="flex-1 min-w-0 space-y-2">
+              <div>
+                <label htmlFor={`gallery-caption-${image.id}`} className={labelClass}>
+                  Caption
+                </label>
+                <input
+                  id={`gallery-caption-${image.id}`}
+                  type="text"
+                  className={inputClass}
+                  value={image.caption || ''}
+                  onChange={(e) => updateImage(index, { caption: e.target.value || undefined })}
+                  placeholder="Shown on the image"
+                />
+              </div>
+              <div>
+                <label htmlFor={`gallery-alt-${image.id}`} className={labelClass}>
+                  Alt text
+                </label>
+                <input
+                  id={`gallery-alt-${image.id}`}
+                  type="text"
+                  className={inputClass}
+                  value={image.alt || ''}
+                  onChange={(e) => updateImage(index, { alt: e.target.value || undefined })}
+                  placeholder={image.caption || 'Describe the image'}
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-1">
+              <button
+                type="button"
+                aria-label={`Move image ${index + 1} up`}
+                disabled={index === 0}
+                onClick={() => setImages(moveGalleryImage(images, index, index - 1))}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                type="button"
+                aria-label={`Move image ${index + 1} down`}
+                disabled={index === images.length - 1}
+                onClick={() => setImages(moveGalleryImage(images, index, index + 1))}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                type="button"
+                aria-label={`Remove image ${index + 1}`}
+                onClick={() => setImages(images.filter((_, i) => i !== index))}
+                className="p-1.5 rounded-lg text-red-400 hover:bg-red-50 hover:text-red-600"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {images.length > 0 && (
+          <p className="text-[10px] text-gray-400">
+            Click a thumbnail to set the part of the image that stays visible when it is cropped.
+          </p>
+        )}
+
+        {!isFull && (
+          <>
+            <label
+              htmlFor="gallery-upload"
+              className="relative cursor-pointer border-2 border-dashed border-gray-300 rounded-xl p-4 hover:border-black transition-colors block"
+              aria-label="Upload gallery images"
+            >
+              <input
+                id="gallery-upload"
+                type="file"
+                className="sr-only"
+                accept="image/*"
+                multiple
+                onChange={handleUpload}
+              />
+              <div className="flex flex-col items-center gap-2 text-gray-500">
+                <Upload size={20} />
+                <span className="text-xs">Click to upload one or more images</span>
+              </div>
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                aria-label="Image URL"
+                className="flex-1 bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all font-mono text-xs text-gray-600"
+                value={newUrl}
+                onChange={(e) => setNewUrl(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addUrl();
+                  }
+                }}
+                placeholder="https://... image URL"
+              />
+              <button
+                type="button"
+                onClick={addUrl}
+                disabled={!newUrl.trim()}
+                className="flex items-center gap-1 px-3 py-2 rounded-xl bg-gray-900 text-white text-xs font-bold hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus size={14} /> Add
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GalleryEditor;
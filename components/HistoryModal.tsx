@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { X, Bookmark, Clock, RotateCcw, Trash2, Loader2 } from 'lucide-react';
+import type { BentoSnapshot, SiteData } from '../types';
+import {
+  createCheckpoint,
+  deleteSnapshot,
+  getSnapshots,
+  restoreSnapshot,
+} from '../services/historyService';
+import { diffSiteData, type BentoChangeKind } from '../utils/bentoDiff';
+
+type HistoryModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  bentoId: string | null;
+  current: SiteData | null;
+  onRestore: (data: SiteData) => void;
+};
+
+const KIND_BADGES: Record<BentoSnapshot['kind'], { label: string; className: string }> = {
+  auto: { label: 'Auto', className: 'bg-gray-100 text-gray-600' },
+  manual: { label: 'Checkpoint', className: 'bg-violet-100 text-violet-700' },
+  restore: { label: 'Restored', className: 'bg-amber-100 text-amber-700' },
+};
+
+const CHANGE_DOTS: Record<BentoChangeKind, string> = {
+  added: 'bg-green-500',
+  removed: 'bg-red-500',
+  moved: 'bg-blue-500',
+  resized: 'bg-sky-400',
+  edited: 'bg-amber-500',
+  profile: 'bg-violet-500',
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const HistoryModal: React.FC<HistoryModalProps> = ({
+  isOpen,
+  onClose,
+  bentoId,
+  current,
+  onRestore,
+}) => {
+  const [snapshots, setSnapshots] = useState<BentoSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!bentoId) return;
+    setIsLoading(true);
+    try {
+      setSnapshots(await getSnapshots(bentoId));
+    } catch (e) {
+      console.error('Failed to load history:', e);
+      setError('Could not load the history of this bento.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bentoId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setSelectedId(null);
+    refresh();
+  }, [isOpen, refresh]);
+
+  const selected = snapshots.find((s) => s.id === selectedId) || null;
+
+  // Changes needed to go from the selected version to the current state
+  const changes = useMemo(
+    () => (selected && current ? diffSiteData(selected.data, current) : []),
+    [selected, current]
+  );
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(failure, e);
+      setError(failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCheckpoint = () =>
+    runAction(async () => {
+      if (!bentoId || !current) return;
+      const snapshot = await createCheckpoint(bentoId, current, checkpointName);
+      setCheckpointName('');
+      await refresh();
+      setSelectedId(snapshot.id);
+    }, 'Could not save the checkpoint.');
+
+  const handleRestore = () =>
+    runAction(async () => {
+      if (!selected || !current) return;
+      const data = await restoreSnapshot(selected, current);
+      onRestore(data);
+      onClose();
+    }, 'Could not restore this version.');
+
+  const handleDelete = () =>
+    runAction(async () => {
+      if (!selected) return;
+      await deleteSnapshot(selected);
+      setSelectedId(null);
+      await refresh();
+    }, 'Could not delete this version.');
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[80] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0, y: 16 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.95, opacity: 0, y: 16 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[85vh]"
+          >
+            {/* Header */}
+            <div className="p-5 pb-4 flex justify-between items-start border-b border-gray-100">
+              <div>
+                <h2 className="text-lg font-bold text-gray-900">Version History</h2>
+                <p className="text-gray-500 text-sm mt-0.5">
+                  Browse, compare and restore earlier versions
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            {/* Checkpoint */}
+            <form
+              className="p-5 pb-4 flex gap-2 border-b border-gray-100"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCheckpoint();
+              }}
+            >
+              <input
+                type="text"
+                value={checkpointName}
+                onChange={(e) => setCheckpointName(e.target.value)}
+                placeholder="Checkpoint name (e.g. Before redesign)"
+                maxLength={80}
+                className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-violet-500"
+              />
+              <button
+                type="submit"
+                disabled={isBusy || !current}
+                className="px-3.5 py-2 rounded-lg bg-gray-900 text-white text-xs font-semibold flex items-center gap-2 hover:bg-black transition-colors disabled:opacity-50"
+              >
+                <Bookmark size={14} />
+                Save checkpoint
+              </button>
+            </form>
+
+            {error && (
+              <div className="mx-5 mt-4 p-3 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2">
+              {/* Snapshot list */}
+              <div className="overflow-y-auto border-b md:border-b-0 md:border-r border-gray-100 p-3 max-h-64 md:max-h-none">
+                {isLoading && snapshots.length === 0 ? (
+                  <div className="flex items-center justify-center py-10 text-gray-400">
+                    <Loader2 size={18} className="animate-spin" />
+                  </div>
+                ) : snapshots.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-10 px-4">
+                    No versions yet. Snapshots are taken automatically while you edit, or save a
+                    checkpoint above.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {snapshots.map((snapshot) => {
+                      const badge = KIND_BADGES[snapshot.kind];
+                      return (
+                        <li key={snapshot.id}>
+                          <button
+                            onClick={() => setSelectedId(snapshot.id)}
+                            className={`w-full text-left px-3 py-2.5 rounded-xl transition-colors ${
+                              snapshot.id === selectedId
+                                ? 'bg-violet-50 ring-1 ring-violet-200'
+                                : 'hover:bg-gray-50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="flex items-center gap-1.5 text-sm font-semibold text-gray-900">
+                                <Clock size={12} className="text-gray-400" />
+                                {formatDate(snapshot.createdAt)}
+                              </span>
+                              <span
+                                className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${badge.className}`}
+                              >
+                                {badge.label}
+                              </span>
+                            </div>
+                            {snapshot.label && (
+                              <p className="text-xs text-gray-500 mt-0.5 truncate">
+                                {snapshot.label}
+                              </p>
+                            )}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+
+              {/* Diff */}
+              <div className="overflow-y-auto p-5 flex flex-col">
+                {!selected ? (
+                  <p className="text-sm text-gray-500 text-center my-auto">
+                    Select a version to see what changed since.
+                  </p>
+                ) : (
+                  <>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">
+                      Changes since this version
+                    </label>
+                    {changes.length === 0 ? (
+                      <p className="text-sm text-gray-500">Identical to the current state.</p>
+                    ) : (
+                      <ul className="space-y-2 flex-1">
+                        {changes.map((change, index) => (
+                          <li
+                            key={`${change.kind}-${change.blockId ?? ''}-${index}`}
+                            className="flex items-start gap-2 text-sm text-gray-700"
+                          >
+                            <span
+                              className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${CHANGE_DOTS[change.kind]}`}
+                            />
+                            {change.description}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex gap-2 pt-5 mt-auto">
+                      <button
+                        onClick={handleRestore}
+                        disabled={isBusy || changes.length === 0}
+                        className="flex-1 px-3.5 py-2.5 rounded-xl bg-violet-600 text-white text-sm font-semibold flex items-center justify-center gap-2 hover:bg-violet-700 transition-colors disabled:opacity-50"
+                      >
+                        <RotateCcw size={14} />
+                        Restore this version
+                      </button>
+                      <button
+                        onClick={handleDelete}
+                        disabled={isBusy}
+                        title="Delete this version"
+                        className="px-3 py-2.5 rounded-xl border border-gray-200 text-gray-500 hover:text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default HistoryModal;
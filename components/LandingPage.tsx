@@ -409,7 +409,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onStart }) => {
               {
                 icon: <Shield size={24} />,
                 title: 'Privacy First',
-                desc: 'No tracking, no account, no server required. All data stays in your browser localStorage.',
+                desc: 'No tracking, no account, no server required. All data stays in your browser.',
                 bg: 'bg-emerald-50',
                 border: 'border-emerald-100',
                 iconBg: 'bg-emerald-100',
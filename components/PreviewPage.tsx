@@ -1,20 +1,39 @@
 import React, { useEffect, useState } from 'react';
-import type { AvatarStyle, SavedBento } from '../types';
-import { getBento, getOrCreateActiveBento, setActiveBentoId } from '../services/storageService';
+import { Moon, Sun } from 'lucide-react';
+import type { AvatarStyle, LayoutBreakpoint, SavedBento } from '../types';
+import {
+  getBento,
+  getOrCreateActiveBento,
+  initStorage,
+  setActiveBentoId,
+} from '../services/storageService';
 import Block from './Block';
 import { buildSocialUrl, formatFollowerCount, getSocialPlatformOption } from '../socialPlatforms';
-import { getMobileLayout, MOBILE_GRID_CONFIG } from '../utils/mobileLayout';
+import {
+  BREAKPOINT_GRID_CONFIG,
+  getBreakpointBlocks,
+  getBreakpointLayout,
+} from '../utils/mobileLayout';
+import { getPageBackground, getPageCssVariables, resolveTheme } from '../utils/theme';
+import { isDarkModeEnabled } from '../utils/colorScheme';
+import { getAvatarAlt } from '../utils/accessibility';
+import { useThemeFonts } from '../hooks/useThemeFonts';
+import { useColorScheme } from '../hooks/useColorScheme';
 
 const PreviewPage: React.FC = () => {
   const [bento, setBento] = useState<SavedBento | null>(null);
 
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const requestedId = params.get('id')?.trim();
-    const requested = requestedId ? getBento(requestedId) : null;
-    const resolved = requested || getOrCreateActiveBento();
-    if (requested) setActiveBentoId(requested.id);
-    setBento(resolved);
+    initStorage()
+      .then(() => {
+        const params = new URLSearchParams(window.location.search);
+        const requestedId = params.get('id')?.trim();
+        const requested = requestedId ? getBento(requestedId) : null;
+        const resolved = requested || getOrCreateActiveBento();
+        if (requested) setActiveBentoId(requested.id);
+        setBento(resolved);
+      })
+      .catch((e) => console.error('Failed to load bento:', e));
   }, []);
 
   // Avatar style helpers
@@ -33,6 +52,12 @@ const PreviewPage: React.FC = () => {
     return { borderRadius: radius, boxShadow: shadow, border };
   };
 
+  const theme = resolveTheme(bento?.data.profile ?? {});
+  useThemeFonts(theme);
+  const { scheme, toggle: toggleScheme } = useColorScheme(
+    isDarkModeEnabled(bento?.data.profile ?? {})
+  );
+
   if (!bento) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center text-gray-400">
@@ -44,15 +69,52 @@ const PreviewPage: React.FC = () => {
   const profile = bento.data.profile;
   const blocks = bento.data.blocks;
 
-  // Sort blocks for mobile (by row, then column)
-  const sortedBlocks = [...blocks].sort((a, b) => {
-    const aRow = a.gridRow ?? 999;
-    const bRow = b.gridRow ?? 999;
-    const aCol = a.gridColumn ?? 999;
-    const bCol = b.gridColumn ?? 999;
-    if (aRow !== bRow) return aRow - bRow;
-    return aCol - bCol;
-  });
+  // Mobile and tablet grids: stacked in breakpoint order, with per-block overrides
+  const renderBreakpointGrid = (breakpoint: LayoutBreakpoint, className: string) => {
+    const config = BREAKPOINT_GRID_CONFIG[breakpoint];
+    return (
+      <div
+        className={`pb-8 ${className}`}
+        style={{
+          gridTemplateColumns: `repeat(${config.columns}, 1fr)`,
+          gridAutoRows: `${config.rowHeight}px`,
+          gap: `${config.gap}px`,
+        }}
+      >
+        {getBreakpointBlocks(blocks, breakpoint).map((block) => {
+          const layout = getBreakpointLayout(block, breakpoint);
+          return (
+            <div
+              key={block.id}
+              style={{
+                gridColumn: `span ${layout.colSpan}`,
+                gridRow: `span ${layout.rowSpan}`,
+              }}
+            >
+              <Block
+                block={{ ...block, gridColumn: undefined, gridRow: undefined }}
+                isSelected={false}
+                isDragTarget={false}
+                isDragging={false}
+                enableResize={false}
+                isResizing={false}
+                onResizeStart={undefined}
+                onEdit={() => {}}
+                onDelete={() => {}}
+                onDragStart={() => {}}
+                onDragEnter={() => {}}
+                onDragEnd={() => {}}
+                onDrop={() => {}}
+                enableTiltEffect={true}
+                previewMode={true}
+                colorScheme={scheme}
+              />
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
 
   // Render social icons
   const renderSocialIcons = () => {
@@ -98,12 +160,15 @@ const PreviewPage: React.FC = () => {
         backgroundPosition: 'center',
         backgroundAttachment: 'fixed',
       }
-    : { backgroundColor: profile.backgroundColor || '#f8fafc' };
+    : { background: getPageBackground(profile, scheme) };
 
   const avatarStyle = getAvatarStyle(profile.avatarStyle);
 
   return (
-    <div className="min-h-screen font-sans relative" style={bgStyle}>
+    <div
+      className="theme-page min-h-screen font-sans relative"
+      style={{ ...getPageCssVariables(profile, scheme), ...bgStyle }}
+    >
       {/* Background blur overlay */}
       {profile.backgroundImage && profile.backgroundBlur && profile.backgroundBlur > 0 && (
         <div
@@ -115,6 +180,22 @@ const PreviewPage: React.FC = () => {
         />
       )}
 
+      {profile.backgroundImage && profile.backgroundImageAlt && (
+        <span role="img" aria-label={profile.backgroundImageAlt} className="sr-only" />
+      )}
+
+      {/* Light/dark switch, as in exported sites */}
+      {isDarkModeEnabled(profile) && profile.darkMode?.showToggle && (
+        <button
+          type="button"
+          onClick={toggleScheme}
+          aria-label={scheme === 'dark' ? 'Switch to light mode' : 'Switch to dark mode'}
+          className="fixed top-4 right-4 z-20 w-10 h-10 rounded-full bg-white/80 text-gray-900 shadow-md backdrop-blur flex items-center justify-center hover:scale-105 transition-transform focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {scheme === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
+        </button>
+      )}
+
       <div className="relative z-10">
         {/* Desktop Layout - Matches Builder */}
         <div className="hidden lg:flex">
@@ -126,7 +207,7 @@ const PreviewPage: React.FC = () => {
                   {profile.avatarUrl ? (
                     <img
                       src={profile.avatarUrl}
-                      alt={profile.name}
+                      alt={getAvatarAlt(profile)}
                       className="w-full h-full object-cover"
                     />
                   ) : (
@@ -137,11 +218,11 @@ const PreviewPage: React.FC = () => {
                 </div>
               </div>
               <div className="space-y-3 w-full max-w-xs">
-                <h1 className="text-4xl font-bold tracking-tight text-gray-900 leading-[1.1]">
-                  {profile.name}
+                <h1 className="text-4xl font-bold tracking-tight theme-ink leading-[1.1]">
+                  <span className="theme-heading">{profile.name}</span>
                 </h1>
-                <p className="text-base text-gray-500 font-medium leading-relaxed whitespace-pre-wrap">
-                  {profile.bio || '—'}
+                <p className="text-base theme-muted font-medium leading-relaxed whitespace-pre-wrap">
+                  <span className="theme-text">{profile.bio || '—'}</span>
                 </p>
                 {renderSocialIcons()}
               </div>
@@ -151,7 +232,7 @@ const PreviewPage: React.FC = () => {
           {/* Grid Content */}
           <div className="ml-[420px] flex-1 p-12 pt-24">
             <div
-              className="grid gap-2"
+              className="theme-grid grid"
               style={{ gridTemplateColumns: 'repeat(9, 1fr)', gridAutoRows: '64px' }}
             >
               {blocks.map((block, index) => (
@@ -172,6 +253,7 @@ const PreviewPage: React.FC = () => {
                   onDrop={() => {}}
                   enableTiltEffect={true}
                   previewMode={true}
+                  colorScheme={scheme}
                 />
               ))}
             </div>
@@ -186,7 +268,7 @@ const PreviewPage: React.FC = () => {
               {profile.avatarUrl ? (
                 <img
                   src={profile.avatarUrl}
-                  alt={profile.name}
+                  alt={getAvatarAlt(profile)}
                   className="w-full h-full object-cover"
                 />
               ) : (
@@ -195,11 +277,11 @@ const PreviewPage: React.FC = () => {
                 </div>
               )}
             </div>
-            <h1 className="text-2xl font-extrabold tracking-tight text-gray-900 leading-none mb-2">
-              {profile.name}
+            <h1 className="text-2xl font-extrabold tracking-tight theme-ink leading-none mb-2">
+              <span className="theme-heading">{profile.name}</span>
             </h1>
-            <p className="text-sm text-gray-500 font-medium whitespace-pre-wrap max-w-xs leading-relaxed">
-              {profile.bio}
+            <p className="text-sm theme-muted font-medium whitespace-pre-wrap max-w-xs leading-relaxed">
+              <span className="theme-text">{profile.bio}</span>
             </p>
             {profile.showSocialInHeader && profile.socialAccounts?.length > 0 && (
               <div className="flex flex-wrap justify-center gap-3 mt-4">
@@ -234,47 +316,10 @@ const PreviewPage: React.FC = () => {
             )}
           </div>
 
-          {/* Mobile Grid - 2 columns adaptive */}
+          {/* Mobile Grid - 2 columns adaptive, 4 columns on tablets */}
           <div className="p-4">
-            <div
-              className="grid pb-8"
-              style={{
-                gridTemplateColumns: `repeat(${MOBILE_GRID_CONFIG.columns}, 1fr)`,
-                gridAutoRows: `${MOBILE_GRID_CONFIG.rowHeight}px`,
-                gap: `${MOBILE_GRID_CONFIG.gap}px`,
-              }}
-            >
-              {sortedBlocks.map((block) => {
-                const mobileLayout = getMobileLayout(block);
-                return (
-                  <div
-                    key={block.id}
-                    style={{
-                      gridColumn: `span ${mobileLayout.colSpan}`,
-                      gridRow: `span ${mobileLayout.rowSpan}`,
-                    }}
-                  >
-                    <Block
-                      block={{ ...block, gridColumn: undefined, gridRow: undefined }}
-                      isSelected={false}
-                      isDragTarget={false}
-                      isDragging={false}
-                      enableResize={false}
-                      isResizing={false}
-                      onResizeStart={undefined}
-                      onEdit={() => {}}
-                      onDelete={() => {}}
-                      onDragStart={() => {}}
-                      onDragEnter={() => {}}
-                      onDragEnd={() => {}}
-                      onDrop={() => {}}
-                      enableTiltEffect={true}
-                      previewMode={true}
-                    />
-                  </div>
-                );
-              })}
-            </div>
+            {renderBreakpointGrid('mobile', 'grid md:hidden')}
+            {renderBreakpointGrid('tablet', 'hidden md:grid')}
           </div>
         </div>
 
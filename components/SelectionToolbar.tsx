@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { BASE_COLORS } from '../constants';
+import {
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  Copy,
+  Palette,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+export type SelectionAlignment = 'left' | 'right' | 'top' | 'bottom';
+
+export type SelectionColor = (typeof BASE_COLORS)[number];
+
+interface SelectionToolbarProps {
+  count: number;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onColor: (color: SelectionColor) => void;
+  onAlign: (edge: SelectionAlignment) => void;
+  onClear: () => void;
+}
+
+const ALIGN_ACTIONS: Array<{ edge: SelectionAlignment; label: string; icon: React.ElementType }> = [
+  { edge: 'left', label: 'Align left edges', icon: AlignStartVertical },
+  { edge: 'right', label: 'Align right edges', icon: AlignEndVertical },
+  { edge: 'top', label: 'Align top edges', icon: AlignStartHorizontal },
+  { edge: 'bottom', label: 'Align bottom edges', icon: AlignEndHorizontal },
+];
+
+// Floating actions for a multi-block selection in the builder grid
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count,
+  onDuplicate,
+  onDelete,
+  onColor,
+  onAlign,
+  onClear,
+}) => {
+  const [showColors, setShowColors] = useState(false);
+
+  const buttonClass =
+    'p-2 rounded-lg text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed bottom-6 inset-x-0 z-40 flex justify-center pointer-events-none">
+      <motion.div
+        role="toolbar"
+        aria-label={`${count} blocks selected`}
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 16 }}
+        className="pointer-events-auto flex items-center gap-1 bg-white rounded-2xl shadow-xl ring-1 ring-black/5 px-2 py-1.5"
+      >
+        <span className="px-2 text-sm font-semibold text-gray-700 whitespace-nowrap">
+          {count} selected
+        </span>
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+
+        {ALIGN_ACTIONS.map(({ edge, label, icon: Icon }) => (
+          <button
+            key={edge}
+            type="button"
+            aria-label={label}
+            title={label}
+            onClick={() => onAlign(edge)}
+            className={buttonClass}
+          >
+            <Icon size={18} />
+          </button>
+        ))}
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+
+        <div className="relative">
+          <button
+            type="button"
+            aria-label="Change background color"
+            aria-expanded={showColors}
+            title="Background color"
+            onClick={() => setShowColors((prev) => !prev)}
+            className={buttonClass}
+          >
+            <Palette size={18} />
+          </button>
+          <AnimatePresence>
+            {showColors && (
+              <motion.div
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 8 }}
+                className="absolute bottom-full mb-3 left-0 grid grid-cols-5 gap-2 bg-white rounded-xl shadow-xl ring-1 ring-black/5 p-3 w-56"
+              >
+                {BASE_COLORS.filter((c) => c.type === 'solid').map((c) => (
+                  <button
+                    key={c.name}
+                    type="button"
+                    aria-label={`Set background color to ${c.name}`}
+                    title={c.name}
+                    onClick={() => {
+                      onColor(c);
+                      setShowColors(false);
+                    }}
+                    className={`h-8 rounded-full border shadow-sm transition-transform hover:scale-105 active:scale-95 ${c.bg}`}
+                  />
+                ))}
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+        <button
+          type="button"
+          aria-label="Duplicate selected blocks"
+          title="Duplicate (Ctrl/Cmd+D)"
+          onClick={onDuplicate}
+          className={buttonClass}
+        >
+          <Copy size={18} />
+        </button>
+        <button
+          type="button"
+          aria-label="Delete selected blocks"
+          title="Delete"
+          onClick={onDelete}
+          className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          <Trash2 size={18} />
+        </button>
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+        <button
+          type="button"
+          aria-label="Clear selection"
+          title="Clear selection (Esc)"
+          onClick={onClear}
+          className={buttonClass}
+        >
+          <X size={18} />
+        </button>
+      </motion.div>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
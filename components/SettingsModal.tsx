@@ -15,16 +15,30 @@ import {
   Loader2,
   Database,
   Globe,
+  Sparkles,
+  Palette,
 } from 'lucide-react';
 import type { SocialPlatform, UserProfile, BlockData } from '../types';
 import { AVATAR_PLACEHOLDER } from '../constants';
 import ImageCropModal from './ImageCropModal';
+import ThemeSettings from './ThemeSettings';
 import {
   buildSocialUrl,
   getSocialPlatformOption,
   SOCIAL_PLATFORM_OPTIONS,
   formatFollowerCount,
 } from '../socialPlatforms';
+import { formatSchemaIssues, sanitizeSiteData, validateSiteData } from '../services/schema';
+import { LLM_PRESETS, loadLlmSettings, saveLlmSettings, type LlmSettings } from '../services/llm';
+import { ANALYTICS_PROVIDERS, COLLECTOR_PATH, getAnalyticsProvider } from '../utils/analytics';
+import {
+  IMAGE_MAX_DIMENSION_OPTIONS,
+  loadImageSettings,
+  optimizeImageFile,
+  saveImageSettings,
+} from '../services/imageService';
+
+export type SettingsTab = 'general' | 'theme' | 'social' | 'seo' | 'analytics' | 'ai' | 'json';
 
 type SettingsModalProps = {
   isOpen: boolean;
@@ -36,10 +50,10 @@ type SettingsModalProps = {
   // For raw JSON editing
   blocks?: BlockData[];
   onBlocksChange?: (blocks: BlockData[]) => void;
+  // Tab shown when the modal opens
+  initialTab?: SettingsTab;
 };
 
-type TabType = 'general' | 'social' | 'seo' | 'analytics' | 'json';
-
 const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
@@ -49,10 +63,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onBentoNameChange,
   blocks,
   onBlocksChange,
+  initialTab,
 }) => {
   const avatarInputRef = useRef<HTMLInputElement>(null);
   const [pendingAvatarSrc, setPendingAvatarSrc] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<TabType>('general');
+  const [activeTab, setActiveTab] = useState<SettingsTab>('general');
 
   // Social accounts state
   const [isAddingSocial, setIsAddingSocial] = useState(false);
@@ -62,6 +77,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   // JSON editor state
   const [jsonText, setJsonText] = useState('');
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [jsonNotice, setJsonNotice] = useState<string | null>(null);
 
   // Supabase Analytics state
   const [supabaseProjectUrl, setSupabaseProjectUrl] = useState('');
@@ -73,9 +89,33 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     message: string;
     logs?: string[];
   } | null>(null);
-  const [savedConfig, setSavedConfig] = useState<{ projectUrl?: string; anonKey?: string } | null>(
-    null
-  );
+  const [savedConfig, setSavedConfig] = useState<{
+    projectUrl?: string;
+    anonKey?: string;
+    provider?: string;
+    collectorUrl?: string;
+  } | null>(null);
+  // Self-hosted collector state
+  const [collectorUrl, setCollectorUrl] = useState(profile.analytics?.collectorUrl || '');
+
+  // AI generation endpoint (stored in this browser, not in the bento)
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  // Upload size limit, also per browser
+  const [imageSettings, setImageSettings] = useState(loadImageSettings);
+
+  useEffect(() => {
+    if (isOpen && initialTab) setActiveTab(initialTab);
+  }, [isOpen, initialTab]);
+
+  useEffect(() => {
+    if (isOpen && activeTab === 'ai') setLlmSettings(loadLlmSettings());
+  }, [isOpen, activeTab]);
+
+  const updateLlmSettings = (patch: Partial<LlmSettings>) => {
+    const next = { ...llmSettings, ...patch };
+    setLlmSettings(next);
+    saveLlmSettings(next);
+  };
 
   // Load saved config on mount
   useEffect(() => {
@@ -87,6 +127,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             setSavedConfig(data.config);
             setSupabaseProjectUrl(data.config.projectUrl || '');
             setSupabaseAnonKey(data.config.anonKey || '');
+            if (data.config.collectorUrl) setCollectorUrl(data.config.collectorUrl);
             // Also update profile analytics if not set
             if (data.config.projectUrl && !profile.analytics?.supabaseUrl) {
               setProfile({
@@ -145,6 +186,30 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  const saveCollectorConfig = () => {
+    const url = collectorUrl.trim();
+    if (!url) return;
+    const config = { provider: 'self-hosted', collectorUrl: url };
+    fetch('/__openbento/config', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...config, savedAt: new Date().toISOString() }),
+    }).then(() => {
+      setSavedConfig(config);
+      setProfile({
+        ...profile,
+        analytics: {
+          ...profile.analytics,
+          enabled: true,
+          provider: 'self-hosted',
+          collectorUrl: url,
+        },
+      });
+      setSetupResult({ ok: true, message: 'Config saved!' });
+    });
+  };
+
+  const analyticsProvider = getAnalyticsProvider(profile.analytics);
   const socialAccounts = profile.socialAccounts || [];
 
   // Update JSON text when modal opens or data changes
@@ -158,6 +223,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       setJsonText(JSON.stringify(fullConfig, null, 2));
       setJsonError(null);
     }
+    if (!isOpen) setJsonNotice(null);
   }, [isOpen, activeTab, profile, blocks, bentoName]);
 
   const addSocialAccount = () => {
@@ -234,31 +300,45 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       const parsed = JSON.parse(jsonText);
 
       // Validate structure
-      if (!parsed.profile || !Array.isArray(parsed.blocks)) {
-        setJsonError('Invalid structure: must have "profile" and "blocks"');
+      const issues = validateSiteData({ profile: parsed.profile, blocks: parsed.blocks });
+      if (issues.length > 0) {
+        setJsonError(`Invalid configuration:\n${formatSchemaIssues(issues)}`);
         return;
       }
 
+      // Strip unsafe URLs/CSS before applying
+      const { data, report } = sanitizeSiteData({
+        profile: parsed.profile as UserProfile,
+        blocks: parsed.blocks as BlockData[],
+      });
+
       // Apply changes
       if (parsed.name && onBentoNameChange) {
         onBentoNameChange(parsed.name);
       }
-      setProfile(parsed.profile);
+      setProfile(data.profile);
       if (onBlocksChange) {
-        onBlocksChange(parsed.blocks);
+        onBlocksChange(data.blocks);
       }
 
       setJsonError(null);
+      setJsonNotice(
+        report.length > 0
+          ? `Applied. Some unsafe values were removed:\n${formatSchemaIssues(report)}`
+          : null
+      );
     } catch (e) {
       setJsonError(`JSON Parse Error: ${(e as Error).message}`);
     }
   };
 
-  const tabs: { id: TabType; label: string; icon: React.ReactNode }[] = [
+  const tabs: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
     { id: 'general', label: 'General', icon: <User size={16} /> },
+    { id: 'theme', label: 'Theme', icon: <Palette size={16} /> },
     { id: 'social', label: 'Social', icon: <Share2 size={16} /> },
     { id: 'seo', label: 'SEO & Social Sharing', icon: <Globe size={16} /> },
     { id: 'analytics', label: 'Analytics', icon: <BarChart3 size={16} /> },
+    { id: 'ai', label: 'AI', icon: <Sparkles size={16} /> },
     { id: 'json', label: 'Raw JSON', icon: <Code size={16} /> },
   ];
 
@@ -424,6 +504,27 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                             Enter a path or URL instead of uploading to avoid base64 encoding
                           </p>
                         </div>
+                        <div>
+                          <label
+                            htmlFor="avatar-alt"
+                            className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2"
+                          >
+                            Avatar Alt Text
+                          </label>
+                          <input
+                            id="avatar-alt"
+                            type="text"
+                            value={profile.avatarAlt || ''}
+                            onChange={(e) =>
+                              setProfile({ ...profile, avatarAlt: e.target.value || undefined })
+                            }
+                            className="w-full bg-gray-50 border border-gray-200 rounded-xl p-3 focus:ring-2 focus:ring-black/5 focus:border-black focus:outline-none transition-all text-sm text-gray-700"
+                            placeholder={profile.name || 'Describe your picture'}
+                          />
+                          <p className="text-[10px] text-gray-400 mt-1">
+                            Read by screen readers. Defaults to your name.
+                          </p>
+                        </div>
                         <div>
                           <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">
                             Bio
@@ -672,17 +773,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                             accept="image/*"
                             aria-label="Upload background image file"
                             className="hidden"
-                            onChange={(e) => {
+                            onChange={async (e) => {
                               const file = e.target.files?.[0];
                               if (file) {
-                                const reader = new FileReader();
-                                reader.onload = () => {
-                                  setProfile({
-                                    ...profile,
-                                    backgroundImage: reader.result as string,
-                                  });
-                                };
-                                reader.readAsDataURL(file);
+                                const backgroundImage = await optimizeImageFile(file);
+                                setProfile({ ...profile, backgroundImage });
                               }
                             }}
                           />
@@ -708,6 +803,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           />
                         </div>
                       )}
+                      {profile.backgroundImage && (
+                        <input
+                          type="text"
+                          aria-label="Background image description"
+                          value={profile.backgroundImageAlt || ''}
+                          onChange={(e) =>
+                            setProfile({
+                              ...profile,
+                              backgroundImageAlt: e.target.value || undefined,
+                            })
+                          }
+                          placeholder="Description for screen readers (leave empty if decorative)"
+                          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:outline-none"
+                        />
+                      )}
                     </div>
 
                     {/* Background Blur (only when image is set) */}
@@ -735,9 +845,47 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                       </div>
                     )}
                   </section>
+
+                  {/* Image Uploads */}
+                  <section className="space-y-3">
+                    <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                      Image Uploads
+                    </h3>
+                    <div className="flex items-center justify-between gap-4">
+                      <label
+                        htmlFor="image-max-dimension"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Maximum size
+                      </label>
+                      <select
+                        id="image-max-dimension"
+                        value={imageSettings.maxDimension}
+                        onChange={(e) => {
+                          const next = { ...imageSettings, maxDimension: Number(e.target.value) };
+                          setImageSettings(next);
+                          saveImageSettings(next);
+                        }}
+                        className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:outline-none"
+                      >
+                        {IMAGE_MAX_DIMENSION_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      Uploaded images are scaled down to this size (longest side) and saved as WebP.
+                      Exports add smaller versions for phones. Saved in this browser.
+                    </p>
+                  </section>
                 </>
               )}
 
+              {/* THEME TAB */}
+              {activeTab === 'theme' && <ThemeSettings profile={profile} setProfile={setProfile} />}
+
               {/* SOCIAL TAB */}
               {activeTab === 'social' && (
                 <section className="space-y-3">
@@ -998,20 +1146,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           accept="image/*"
                           aria-label="Upload OpenGraph image"
                           className="hidden"
-                          onChange={(e) => {
+                          onChange={async (e) => {
                             const file = e.target.files?.[0];
                             if (file) {
-                              const reader = new FileReader();
-                              reader.onload = () => {
-                                setProfile({
-                                  ...profile,
-                                  openGraph: {
-                                    ...profile.openGraph,
-                                    image: reader.result as string,
-                                  },
-                                });
-                              };
-                              reader.readAsDataURL(file);
+                              const image = await optimizeImageFile(file);
+                              setProfile({
+                                ...profile,
+                                openGraph: { ...profile.openGraph, image },
+                              });
                             }
                           }}
                         />
@@ -1071,6 +1213,29 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     />
                   </div>
 
+                  {/* Site URL */}
+                  <div className="space-y-2">
+                    <label htmlFor="og-url" className="block text-sm font-medium text-gray-700">
+                      Site URL
+                    </label>
+                    <input
+                      id="og-url"
+                      type="url"
+                      value={profile.openGraph?.url || ''}
+                      onChange={(e) =>
+                        setProfile({
+                          ...profile,
+                          openGraph: { ...profile.openGraph, url: e.target.value },
+                        })
+                      }
+                      placeholder="https://yourdomain.com"
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="text-xs text-gray-400">
+                      Used for the canonical link and absolute image URLs in the export
+                    </p>
+                  </div>
+
                   {/* Twitter Section */}
                   <div className="pt-4 border-t border-gray-100">
                     <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">
@@ -1187,16 +1352,81 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 <section className="space-y-6">
                   <div>
                     <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
-                      Supabase Analytics
+                      Analytics
                     </h3>
                     <p className="text-sm text-gray-500">
-                      Track page views and clicks on your exported bento. This requires a Supabase
-                      project.
+                      Track page views and clicks on your exported bento, with a Supabase project or
+                      your own collector.
                     </p>
                   </div>
 
+                  {/* Provider */}
+                  <div className="grid grid-cols-2 gap-2">
+                    {ANALYTICS_PROVIDERS.map((option) => (
+                      <button
+                        key={option.id}
+                        type="button"
+                        aria-pressed={analyticsProvider === option.id}
+                        onClick={() =>
+                          setProfile({
+                            ...profile,
+                            analytics: { ...profile.analytics, provider: option.id },
+                          })
+                        }
+                        className={`p-3 rounded-xl border-2 text-left text-sm font-semibold transition-all ${
+                          analyticsProvider === option.id
+                            ? 'border-violet-500 bg-violet-50 text-gray-900'
+                            : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {analyticsProvider === 'self-hosted' && (
+                    <div className="space-y-4">
+                      <div className="p-4 bg-gray-50 rounded-xl space-y-2">
+                        <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                          <Database size={16} />
+                          Self-hosted collector
+                        </h4>
+                        <p className="text-xs text-gray-600">
+                          Docker and VPS exports include a small Node.js collector that stores
+                          events in SQLite. Its setup is described in the exported DEPLOY.md; it is
+                          served at <code>{COLLECTOR_PATH}</code> next to your page.
+                        </p>
+                      </div>
+
+                      <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                          Collector URL
+                        </label>
+                        <input
+                          type="text"
+                          aria-label="Analytics collector URL"
+                          value={collectorUrl}
+                          onChange={(e) => setCollectorUrl(e.target.value)}
+                          placeholder={`https://example.com${COLLECTOR_PATH}`}
+                          className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
+                        />
+                      </div>
+
+                      <button
+                        type="button"
+                        aria-label="Save analytics configuration"
+                        onClick={saveCollectorConfig}
+                        disabled={!collectorUrl.trim()}
+                        className="w-full py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                      >
+                        <CheckCircle size={18} />
+                        Save Config
+                      </button>
+                    </div>
+                  )}
+
                   {/* Status indicator */}
-                  {savedConfig?.projectUrl && (
+                  {analyticsProvider === 'supabase' && savedConfig?.projectUrl && (
                     <div className="p-4 bg-green-50 border border-green-200 rounded-xl flex items-center gap-3">
                       <CheckCircle size={20} className="text-green-600 flex-shrink-0" />
                       <div>
@@ -1206,144 +1436,151 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     </div>
                   )}
 
-                  {/* Setup instructions */}
-                  <div className="p-4 bg-gray-50 rounded-xl space-y-2">
-                    <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
-                      <Database size={16} />
-                      Setup Instructions
-                    </h4>
-                    <ol className="text-xs text-gray-600 space-y-1 list-decimal list-inside">
-                      <li>
-                        Create a Supabase project at{' '}
-                        <a
-                          href="https://supabase.com"
-                          target="_blank"
-                          rel="noopener"
-                          className="text-violet-600 underline"
-                        >
-                          supabase.com
-                        </a>
-                      </li>
-                      <li>Copy your Project URL (e.g., https://xxx.supabase.co)</li>
-                      <li>Copy your Database Password (from project creation)</li>
-                      <li>Copy your Publishable Key (Settings → API → anon public)</li>
-                      <li>Fill the form below and click "Setup Database"</li>
-                    </ol>
-                    <p className="text-xs text-amber-600 mt-2">
-                      ⚠️ This setup only works in dev mode. Credentials are stored locally and never
-                      committed.
-                    </p>
-                  </div>
+                  {analyticsProvider === 'supabase' && (
+                    <>
+                      {/* Setup instructions */}
+                      <div className="p-4 bg-gray-50 rounded-xl space-y-2">
+                        <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                          <Database size={16} />
+                          Setup Instructions
+                        </h4>
+                        <ol className="text-xs text-gray-600 space-y-1 list-decimal list-inside">
+                          <li>
+                            Create a Supabase project at{' '}
+                            <a
+                              href="https://supabase.com"
+                              target="_blank"
+                              rel="noopener"
+                              className="text-violet-600 underline"
+                            >
+                              supabase.com
+                            </a>
+                          </li>
+                          <li>Copy your Project URL (e.g., https://xxx.supabase.co)</li>
+                          <li>Copy your Database Password (from project creation)</li>
+                          <li>Copy your Publishable Key (Settings → API → anon public)</li>
+                          <li>Fill the form below and click "Setup Database"</li>
+                        </ol>
+                        <p className="text-xs text-amber-600 mt-2">
+                          ⚠️ This setup only works in dev mode. Credentials are stored locally and
+                          never committed.
+                        </p>
+                      </div>
 
-                  {/* Setup form */}
-                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-xs font-semibold text-gray-600 mb-1.5">
-                        Supabase Project URL
-                      </label>
-                      <input
-                        type="text"
-                        aria-label="Supabase project URL"
-                        value={supabaseProjectUrl}
-                        onChange={(e) => setSupabaseProjectUrl(e.target.value)}
-                        placeholder="https://xxxxx.supabase.co"
-                        className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
-                      />
-                    </div>
+                      {/* Setup form */}
+                      <div className="space-y-4">
+                        <div>
+                          <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                            Supabase Project URL
+                          </label>
+                          <input
+                            type="text"
+                            aria-label="Supabase project URL"
+                            value={supabaseProjectUrl}
+                            onChange={(e) => setSupabaseProjectUrl(e.target.value)}
+                            placeholder="https://xxxxx.supabase.co"
+                            className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
+                          />
+                        </div>
 
-                    <div>
-                      <label className="block text-xs font-semibold text-gray-600 mb-1.5">
-                        Database Password
-                      </label>
-                      <input
-                        type="password"
-                        aria-label="Supabase database password"
-                        value={supabaseDbPassword}
-                        onChange={(e) => setSupabaseDbPassword(e.target.value)}
-                        placeholder="Your Supabase DB password"
-                        className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
-                      />
-                      <p className="text-xs text-gray-400 mt-1">Used only for setup, not stored.</p>
-                    </div>
+                        <div>
+                          <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                            Database Password
+                          </label>
+                          <input
+                            type="password"
+                            aria-label="Supabase database password"
+                            value={supabaseDbPassword}
+                            onChange={(e) => setSupabaseDbPassword(e.target.value)}
+                            placeholder="Your Supabase DB password"
+                            className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
+                          />
+                          <p className="text-xs text-gray-400 mt-1">
+                            Used only for setup, not stored.
+                          </p>
+                        </div>
 
-                    <div>
-                      <label className="block text-xs font-semibold text-gray-600 mb-1.5">
-                        Publishable Key (anon public)
-                      </label>
-                      <input
-                        type="text"
-                        aria-label="Supabase publishable key"
-                        value={supabaseAnonKey}
-                        onChange={(e) => setSupabaseAnonKey(e.target.value)}
-                        placeholder="eyJhbGciOiJIUzI1NiIs..."
-                        className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all font-mono text-xs focus:outline-none"
-                      />
-                      <p className="text-xs text-gray-400 mt-1">
-                        Safe to use in client-side code. Never use the secret/service_role key here.
-                      </p>
-                    </div>
+                        <div>
+                          <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                            Publishable Key (anon public)
+                          </label>
+                          <input
+                            type="text"
+                            aria-label="Supabase publishable key"
+                            value={supabaseAnonKey}
+                            onChange={(e) => setSupabaseAnonKey(e.target.value)}
+                            placeholder="eyJhbGciOiJIUzI1NiIs..."
+                            className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all font-mono text-xs focus:outline-none"
+                          />
+                          <p className="text-xs text-gray-400 mt-1">
+                            Safe to use in client-side code. Never use the secret/service_role key
+                            here.
+                          </p>
+                        </div>
 
-                    {/* Save Config button */}
-                    <button
-                      type="button"
-                      aria-label="Save analytics configuration"
-                      onClick={() => {
-                        if (!supabaseProjectUrl || !supabaseAnonKey) return;
-                        fetch('/__openbento/config', {
-                          method: 'POST',
-                          headers: { 'Content-Type': 'application/json' },
-                          body: JSON.stringify({
-                            projectUrl: supabaseProjectUrl,
-                            anonKey: supabaseAnonKey,
-                            savedAt: new Date().toISOString(),
-                          }),
-                        }).then(() => {
-                          setSavedConfig({
-                            projectUrl: supabaseProjectUrl,
-                            anonKey: supabaseAnonKey,
-                          });
-                          setProfile({
-                            ...profile,
-                            analytics: {
-                              enabled: true,
-                              supabaseUrl: supabaseProjectUrl,
-                              anonKey: supabaseAnonKey,
-                            },
-                          });
-                          setSetupResult({ ok: true, message: 'Config saved!' });
-                        });
-                      }}
-                      disabled={!supabaseProjectUrl || !supabaseAnonKey}
-                      className="w-full py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                    >
-                      <CheckCircle size={18} />
-                      Save Config
-                    </button>
+                        {/* Save Config button */}
+                        <button
+                          type="button"
+                          aria-label="Save analytics configuration"
+                          onClick={() => {
+                            if (!supabaseProjectUrl || !supabaseAnonKey) return;
+                            fetch('/__openbento/config', {
+                              method: 'POST',
+                              headers: { 'Content-Type': 'application/json' },
+                              body: JSON.stringify({
+                                projectUrl: supabaseProjectUrl,
+                                anonKey: supabaseAnonKey,
+                                savedAt: new Date().toISOString(),
+                              }),
+                            }).then(() => {
+                              setSavedConfig({
+                                projectUrl: supabaseProjectUrl,
+                                anonKey: supabaseAnonKey,
+                              });
+                              setProfile({
+                                ...profile,
+                                analytics: {
+                                  enabled: true,
+                                  supabaseUrl: supabaseProjectUrl,
+                                  anonKey: supabaseAnonKey,
+                                },
+                              });
+                              setSetupResult({ ok: true, message: 'Config saved!' });
+                            });
+                          }}
+                          disabled={!supabaseProjectUrl || !supabaseAnonKey}
+                          className="w-full py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                        >
+                          <CheckCircle size={18} />
+                          Save Config
+                        </button>
 
-                    {/* Setup Database button */}
-                    <button
-                      type="button"
-                      aria-label="Setup analytics database"
-                      onClick={handleSupabaseSetup}
-                      disabled={setupLoading || !supabaseProjectUrl || !supabaseDbPassword}
-                      className="w-full py-2.5 bg-violet-100 text-violet-700 rounded-xl font-semibold hover:bg-violet-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                    >
-                      {setupLoading ? (
-                        <>
-                          <Loader2 size={16} className="animate-spin" />
-                          Setting up...
-                        </>
-                      ) : (
-                        <>
-                          <Database size={16} />
-                          Setup Database (first time only)
-                        </>
-                      )}
-                    </button>
-                    <p className="text-xs text-gray-400 text-center">
-                      Only needed once to create the analytics table
-                    </p>
-                  </div>
+                        {/* Setup Database button */}
+                        <button
+                          type="button"
+                          aria-label="Setup analytics database"
+                          onClick={handleSupabaseSetup}
+                          disabled={setupLoading || !supabaseProjectUrl || !supabaseDbPassword}
+                          className="w-full py-2.5 bg-violet-100 text-violet-700 rounded-xl font-semibold hover:bg-violet-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                        >
+                          {setupLoading ? (
+                            <>
+                              <Loader2 size={16} className="animate-spin" />
+                              Setting up...
+                            </>
+                          ) : (
+                            <>
+                              <Database size={16} />
+                              Setup Database (first time only)
+                            </>
+                          )}
+                        </button>
+                        <p className="text-xs text-gray-400 text-center">
+                          Only needed once to create the analytics table
+                        </p>
+                      </div>
+                    </>
+                  )}
 
                   {/* Result */}
                   {setupResult && (
@@ -1403,6 +1640,107 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 </section>
               )}
 
+              {/* AI TAB */}
+              {activeTab === 'ai' && (
+                <section className="space-y-6">
+                  <div>
+                    <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+                      AI Generation
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      Generate bentos directly from the AI generator with any OpenAI-compatible chat
+                      API, hosted or running on your machine. These settings stay in this browser
+                      and are never exported.
+                    </p>
+                  </div>
+
+                  {/* Presets */}
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                      Provider
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {LLM_PRESETS.map((preset) => (
+                        <button
+                          key={preset.id}
+                          type="button"
+                          onClick={() =>
+                            updateLlmSettings({ baseUrl: preset.baseUrl, model: preset.model })
+                          }
+                          className={`p-3 rounded-xl border-2 text-left text-sm font-semibold transition-all ${
+                            llmSettings.baseUrl === preset.baseUrl
+                              ? 'border-violet-500 bg-violet-50 text-gray-900'
+                              : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                          }`}
+                        >
+                          {preset.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                        Endpoint URL
+                      </label>
+                      <input
+                        type="url"
+                        aria-label="AI endpoint URL"
+                        value={llmSettings.baseUrl}
+                        onChange={(e) => updateLlmSettings({ baseUrl: e.target.value })}
+                        placeholder="https://api.openai.com/v1"
+                        className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
+                      />
+                      <p className="text-xs text-gray-400 mt-1">
+                        Base URL of the API; requests go to <code>/chat/completions</code>.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                        Model
+                      </label>
+                      <input
+                        type="text"
+                        aria-label="AI model"
+                        value={llmSettings.model}
+                        onChange={(e) => updateLlmSettings({ model: e.target.value })}
+                        placeholder="gpt-4o-mini"
+                        className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1.5">
+                        API key
+                      </label>
+                      <input
+                        type="password"
+                        aria-label="AI API key"
+                        value={llmSettings.apiKey}
+                        onChange={(e) => updateLlmSettings({ apiKey: e.target.value })}
+                        placeholder="Not needed for local models"
+                        autoComplete="off"
+                        className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:bg-white transition-all focus:outline-none"
+                      />
+                      <p className="text-xs text-gray-400 mt-1">
+                        Kept for this browser session only and sent to the endpoint above.
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="p-4 bg-gray-50 rounded-xl space-y-2">
+                    <h4 className="text-sm font-semibold text-gray-700">Local models</h4>
+                    <p className="text-xs text-gray-600">
+                      The browser calls the endpoint directly, so local servers must allow this
+                      page&apos;s origin. For Ollama, start it with{' '}
+                      <code className="bg-gray-200 px-1 rounded">OLLAMA_ORIGINS=*</code>; for
+                      llama.cpp, <code className="bg-gray-200 px-1 rounded">llama-server</code>{' '}
+                      accepts cross-origin requests by default.
+                    </p>
+                  </div>
+                </section>
+              )}
+
               {/* JSON TAB */}
               {activeTab === 'json' && (
                 <section className="space-y-4">
@@ -1426,11 +1764,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   </div>
 
                   {jsonError && (
-                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600 whitespace-pre-line">
                       {jsonError}
                     </div>
                   )}
 
+                  {jsonNotice && (
+                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700 whitespace-pre-line break-all">
+                      {jsonNotice}
+                    </div>
+                  )}
+
                   <textarea
                     aria-label="Raw JSON configuration"
                     value={jsonText}
@@ -0,0 +1,458 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Download, Moon, RotateCcw, Upload } from 'lucide-react';
+import type { DarkModeSettings, Theme, ThemeShadow, UserProfile } from '../types';
+import {
+  DEFAULT_THEME,
+  FONT_OPTIONS,
+  THEME_LIMITS,
+  THEME_PRESETS,
+  THEME_SHADOW_LABELS,
+  THEME_SHADOWS,
+  getBlockRadius,
+  getFontStack,
+  getPageBackground,
+  getThemeCssVariables,
+  resolveTheme,
+} from '../utils/theme';
+import { isSafeCssBackground, isSafeCssColor, isSafeFontName } from '../utils/security';
+import { downloadThemeJSON, parseThemeFile } from '../services/themeService';
+import { BentoValidationError, formatSchemaIssues } from '../services/schema';
+import { isDarkModeEnabled } from '../utils/colorScheme';
+import { useThemeFonts } from '../hooks/useThemeFonts';
+
+type ThemeSettingsProps = {
+  profile: UserProfile;
+  setProfile: (next: UserProfile | ((prev: UserProfile) => UserProfile)) => void;
+};
+
+const isSameTheme = (a: Theme, b: Theme) => JSON.stringify(a) === JSON.stringify(b);
+
+const sectionTitle = 'text-xs font-bold text-gray-400 uppercase tracking-wider';
+const inputClass =
+  'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent focus:outline-none';
+
+// Small card rendered with a theme's own variables
+const ThemeSwatch: React.FC<{ theme: Theme }> = ({ theme }) => (
+  <div
+    className="h-20 w-full p-3 flex items-end gap-2"
+    style={{ ...getThemeCssVariables(theme), background: theme.background }}
+  >
+    <div
+      className="theme-card bg-white flex-1 h-full flex items-end px-2 pb-1.5"
+      style={{ borderRadius: getBlockRadius(3, 3) }}
+    >
+      <span
+        className="text-xs font-bold text-gray-900 truncate"
+        style={{ fontFamily: 'var(--bento-font-heading)' }}
+      >
+        {theme.name}
+      </span>
+    </div>
+    <div className="theme-card bg-white w-8 h-8" style={{ borderRadius: getBlockRadius(1, 1) }} />
+  </div>
+);
+
+const RangeField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, format, onChange }) => (
+  <div className="space-y-1.5">
+    <div className="flex justify-between items-center">
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <span className="text-xs text-gray-400">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      aria-label={`${label}: ${format(value)}`}
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-violet-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  </div>
+);
+
+// Text field applied only once the value passes `isValid` (fonts and CSS values)
+const CheckedTextField: React.FC<{
+  label: string;
+  value: string;
+  isValid: (value: string) => boolean;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  list?: string;
+}> = ({ label, value, isValid, onChange, placeholder, list }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const invalid = draft.trim() !== '' && !isValid(draft);
+
+  return (
+    <div className="space-y-1.5">
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        type="text"
+        aria-label={label}
+        aria-invalid={invalid}
+        list={list}
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (isValid(e.target.value)) onChange(e.target.value.trim());
+        }}
+        onBlur={() => setDraft(value)}
+        className={`${inputClass} ${invalid ? 'border-red-300' : ''}`}
+      />
+    </div>
+  );
+};
+
+const ToggleField: React.FC<{
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}> = ({ label, description, checked, disabled, onChange }) => (
+  <div
+    className={`flex items-center justify-between gap-4 p-3 bg-white border border-gray-200 rounded-xl ${
+      disabled ? 'opacity-50' : ''
+    }`}
+  >
+    <div className="min-w-0">
+      <p className="text-sm font-semibold text-gray-900">{label}</p>
+      <p className="text-xs text-gray-400">{description}</p>
+    </div>
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={() => onChange(!checked)}
+      className={`relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors ${
+        checked ? 'bg-gray-900' : 'bg-gray-200'
+      }`}
+      aria-pressed={checked}
+      aria-label={label}
+    >
+      <span
+        className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+          checked ? 'translate-x-6' : 'translate-x-1'
+        }`}
+      />
+    </button>
+  </div>
+);
+
+const ThemeSettings: React.FC<ThemeSettingsProps> = ({ profile, setProfile }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [notice, setNotice] = useState<{ ok: boolean; message: string } | null>(null);
+  const theme = resolveTheme(profile);
+
+  // Preset cards are rendered in their own fonts
+  useThemeFonts(THEME_PRESETS, 'presets');
+
+  const darkMode = profile.darkMode ?? {};
+  const updateDarkMode = (patch: Partial<DarkModeSettings>) =>
+    setProfile((prev) => ({ ...prev, darkMode: { ...prev.darkMode, ...patch } }));
+
+  const updateTheme = (patch: Partial<Theme>) =>
+    setProfile((prev) => ({ ...prev, themeConfig: { ...resolveTheme(prev), ...patch } }));
+
+  // The profile background color overrides the theme: clear it so the preset shows
+  const applyTheme = (next: Theme) =>
+    setProfile((prev) => ({ ...prev, themeConfig: { ...next }, backgroundColor: undefined }));
+
+  const handleImport = async (file: File) => {
+    try {
+      const { theme: imported, report } = parseThemeFile(await file.text());
+      applyTheme(imported);
+      setNotice({
+        ok: true,
+        message:
+          report.length > 0
+            ? `Imported "${imported.name}". Some unsafe values were removed:\n${formatSchemaIssues(report)}`
+            : `Imported "${imported.name}".`,
+      });
+    } catch (e) {
+      setNotice({
+        ok: false,
+        message:
+          e instanceof BentoValidationError
+            ? `Invalid theme file:\n${formatSchemaIssues(e.issues)}`
+            : 'Could not read the theme file.',
+      });
+    }
+  };
+
+  return (
+    <>
+      {/* Presets */}
+      <section className="space-y-3">
+        <h3 className={sectionTitle}>Presets</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {THEME_PRESETS.map((preset) => {
+            const active = isSameTheme(preset, theme);
+            return (
+              <button
+                key={preset.name}
+                type="button"
+                aria-pressed={active}
+                aria-label={`Apply the ${preset.name} theme`}
+                onClick={() => applyTheme(preset)}
+                className={`relative rounded-xl overflow-hidden border-2 text-left transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  active ? 'border-violet-500' : 'border-gray-200 hover:border-gray-400'
+                }`}
+              >
+                <ThemeSwatch theme={preset} />
+                {active && (
+                  <span className="absolute top-1.5 right-1.5 w-5 h-5 rounded-full bg-violet-500 text-white flex items-center justify-center">
+                    <Check size={12} />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Typography */}
+      <section className="space-y-4">
+        <h3 className={sectionTitle}>Typography</h3>
+        <datalist id="theme-font-options">
+          {FONT_OPTIONS.map((font) => (
+            <option key={font.name} value={font.name} />
+          ))}
+        </datalist>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <CheckedTextField
+            label="Heading font"
+            value={theme.headingFont}
+            isValid={isSafeFontName}
+            onChange={(headingFont) => updateTheme({ headingFont })}
+            list="theme-font-options"
+          />
+          <CheckedTextField
+            label="Body font"
+            value={theme.bodyFont}
+            isValid={isSafeFontName}
+            onChange={(bodyFont) => updateTheme({ bodyFont })}
+            list="theme-font-options"
+          />
+          <RangeField
+            label="Heading size"
+            value={theme.headingScale}
+            min={THEME_LIMITS.scale.min}
+            max={THEME_LIMITS.scale.max}
+            step={0.05}
+            format={(value) => `${Math.round(value * 100)}%`}
+            onChange={(headingScale) => updateTheme({ headingScale })}
+          />
+          <RangeField
+            label="Body size"
+            value={theme.bodyScale}
+            min={THEME_LIMITS.scale.min}
+            max={THEME_LIMITS.scale.max}
+            step={0.05}
+            format={(value) => `${Math.round(value * 100)}%`}
+            onChange={(bodyScale) => updateTheme({ bodyScale })}
+          />
+        </div>
+        <p className="text-xs text-gray-400">
+          Any Google Fonts family can be typed in. Preview:{' '}
+          <span style={{ fontFamily: getFontStack(theme.headingFont) }} className="font-bold">
+            {theme.headingFont}
+          </span>{' '}
+          / <span style={{ fontFamily: getFontStack(theme.bodyFont) }}>{theme.bodyFont}</span>
+        </p>
+      </section>
+
+      {/* Blocks */}
+      <section className="space-y-4">
+        <h3 className={sectionTitle}>Blocks</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <RangeField
+            label="Corner radius"
+            value={theme.radius}
+            min={THEME_LIMITS.radius.min}
+            max={THEME_LIMITS.radius.max}
+            step={1}
+            format={(value) => `${value}px`}
+            onChange={(radius) => updateTheme({ radius })}
+          />
+          <RangeField
+            label="Gap"
+            value={theme.gap}
+            min={THEME_LIMITS.gap.min}
+            max={THEME_LIMITS.gap.max}
+            step={1}
+            format={(value) => `${value}px`}
+            onChange={(gap) => updateTheme({ gap })}
+          />
+          <RangeField
+            label="Border width"
+            value={theme.borderWidth}
+            min={THEME_LIMITS.borderWidth.min}
+            max={THEME_LIMITS.borderWidth.max}
+            step={1}
+            format={(value) => `${value}px`}
+            onChange={(borderWidth) => updateTheme({ borderWidth })}
+          />
+          <CheckedTextField
+            label="Border color"
+            value={theme.borderColor}
+            isValid={isSafeCssColor}
+            onChange={(borderColor) => updateTheme({ borderColor })}
+            placeholder="rgba(0, 0, 0, 0.05)"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <label className="block text-sm font-medium text-gray-700">Shadow</label>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(THEME_SHADOWS) as ThemeShadow[]).map((shadow) => (
+              <button
+                key={shadow}
+                type="button"
+                aria-pressed={theme.shadow === shadow}
+                onClick={() => updateTheme({ shadow })}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  theme.shadow === shadow
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {THEME_SHADOW_LABELS[shadow]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {/* Page */}
+      <section className="space-y-3">
+        <h3 className={sectionTitle}>Page</h3>
+        <CheckedTextField
+          label="Page background (color or gradient)"
+          value={theme.background}
+          isValid={isSafeCssBackground}
+          onChange={(background) => updateTheme({ background })}
+          placeholder="#f8fafc or linear-gradient(...)"
+        />
+        {(profile.backgroundColor || profile.backgroundImage) && (
+          <div className="flex items-center justify-between gap-3 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800">
+            <span>
+              The background {profile.backgroundImage ? 'image' : 'color'} set in General overrides
+              the theme background.
+            </span>
+            <button
+              type="button"
+              onClick={() =>
+                setProfile({ ...profile, backgroundColor: undefined, backgroundImage: undefined })
+              }
+              className="shrink-0 font-semibold text-amber-900 hover:underline"
+            >
+              Use theme background
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* Dark mode */}
+      <section className="space-y-3">
+        <h3 className={sectionTitle}>Dark mode</h3>
+        <ToggleField
+          label="Dark mode"
+          description="Exported pages follow the visitor's system setting."
+          checked={isDarkModeEnabled(profile)}
+          onChange={(enabled) => updateDarkMode({ enabled })}
+        />
+        <ToggleField
+          label="Light/dark switch"
+          description="Adds a button that lets visitors pick a mode; the choice is remembered."
+          checked={!!darkMode.showToggle}
+          disabled={!isDarkModeEnabled(profile)}
+          onChange={(showToggle) => updateDarkMode({ showToggle })}
+        />
+        {isDarkModeEnabled(profile) && (
+          <>
+            <CheckedTextField
+              label="Dark page background (color or gradient)"
+              value={darkMode.backgroundColor ?? ''}
+              isValid={(value) => value.trim() === '' || isSafeCssBackground(value)}
+              onChange={(backgroundColor) =>
+                updateDarkMode({ backgroundColor: backgroundColor || undefined })
+              }
+              placeholder={getPageBackground({ ...profile, darkMode: {} }, 'dark')}
+            />
+            <p className="flex items-center gap-1.5 text-xs text-gray-400">
+              <Moon size={12} className="shrink-0" />
+              Block colors are derived automatically. Switch the builder preview to dark mode to
+              pick them per block.
+            </p>
+          </>
+        )}
+      </section>
+
+      {/* Share */}
+      <section className="space-y-3">
+        <h3 className={sectionTitle}>Share</h3>
+        <CheckedTextField
+          label="Theme name"
+          value={theme.name}
+          isValid={(value) => value.trim().length > 0 && value.length <= 60}
+          onChange={(name) => updateTheme({ name })}
+        />
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => downloadThemeJSON(theme)}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold hover:bg-black transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <Download size={14} /> Export theme
+          </button>
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <Upload size={14} /> Import theme
+          </button>
+          <button
+            type="button"
+            onClick={() => applyTheme(DEFAULT_THEME)}
+            className="inline-flex items-center gap-2 px-3 py-2 text-gray-500 rounded-lg text-sm font-medium hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <RotateCcw size={14} /> Reset
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Import theme file"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {notice && (
+          <p
+            className={`text-xs whitespace-pre-wrap p-3 rounded-xl ${
+              notice.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'
+            }`}
+          >
+            {notice.message}
+          </p>
+        )}
+      </section>
+    </>
+  );
+};
+
+export default ThemeSettings;
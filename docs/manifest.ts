@@ -38,6 +38,7 @@ const titleOverrides: Record<string, string> = {
   'builder/deploy': 'Deploy Builder',
   'usage/quick-start': 'Quick Start',
   'usage/blocks': 'Block Types',
+  'usage/themes': 'Themes',
   'usage/analytics': 'Analytics',
   'export/quick-start': 'Quick Start',
   'export/overview': 'Overview',
@@ -45,6 +46,12 @@ const titleOverrides: Record<string, string> = {
   'export/netlify': 'Netlify',
   'export/github-pages': 'GitHub Pages',
   'export/docker': 'Docker',
+  'export/cloudflare-pages': 'Cloudflare Pages',
+  'export/firebase': 'Firebase Hosting',
+  'export/s3': 'AWS S3 / CloudFront',
+  'export/render': 'Render',
+  'export/fly': 'Fly.io',
+  'export/cli': 'Command Line',
 };
 
 // Order within sections (lower = first)
@@ -55,13 +62,20 @@ const docOrder: Record<string, number> = {
   'builder/deploy': 4,
   'usage/quick-start': 1,
   'usage/blocks': 2,
-  'usage/analytics': 3,
+  'usage/themes': 3,
+  'usage/analytics': 4,
   'export/quick-start': 1,
   'export/overview': 2,
   'export/vercel': 3,
   'export/netlify': 4,
   'export/github-pages': 5,
   'export/docker': 6,
+  'export/cloudflare-pages': 7,
+  'export/firebase': 8,
+  'export/s3': 9,
+  'export/render': 10,
+  'export/fly': 11,
+  'export/cli': 12,
 };
 
 // Extract title from slug
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ColorScheme } from '../types';
+import { COLOR_SCHEME_STORAGE_KEY } from '../utils/colorScheme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const readStoredScheme = (): ColorScheme | null => {
+  try {
+    const stored = localStorage.getItem(COLOR_SCHEME_STORAGE_KEY);
+    return stored === 'light' || stored === 'dark' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Color scheme a visitor sees: their stored choice, else their system preference.
+ * Always light when the page has no dark mode. `toggle` stores the other scheme.
+ */
+export function useColorScheme(enabled: boolean): {
+  scheme: ColorScheme;
+  toggle: () => void;
+} {
+  const [prefersDark, setPrefersDark] = useState(
+    () => typeof window !== 'undefined' && !!window.matchMedia?.(DARK_QUERY).matches
+  );
+  const [stored, setStored] = useState<ColorScheme | null>(readStoredScheme);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(DARK_QUERY);
+    if (!query) return;
+    const handleChange = (e: MediaQueryListEvent) => setPrefersDark(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const scheme: ColorScheme = !enabled ? 'light' : (stored ?? (prefersDark ? 'dark' : 'light'));
+
+  const toggle = useCallback(() => {
+    const next: ColorScheme = scheme === 'dark' ? 'light' : 'dark';
+    setStored(next);
+    try {
+      localStorage.setItem(COLOR_SCHEME_STORAGE_KEY, next);
+    } catch {
+      // Private mode: the choice lasts until reload
+    }
+  }, [scheme]);
+
+  return { scheme, toggle };
+}
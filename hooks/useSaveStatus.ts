@@ -6,9 +6,10 @@ export interface UseSaveStatusReturn {
   status: SaveStatus;
   lastSavedAt: number | null;
   timeAgo: string;
+  errorMessage: string | null;
   setSaving: () => void;
   setSaved: () => void;
-  setError: () => void;
+  setError: (error?: unknown) => void;
   setIdle: () => void;
 }
 
@@ -33,6 +34,7 @@ export function useSaveStatus(): UseSaveStatusReturn {
   const [status, setStatus] = useState<SaveStatus>('idle');
   const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
   const [timeAgo, setTimeAgo] = useState<string>('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const savedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Update timeAgo periodically
@@ -68,6 +70,7 @@ export function useSaveStatus(): UseSaveStatusReturn {
 
   const setSaved = useCallback(() => {
     setStatus('saved');
+    setErrorMessage(null);
     setLastSavedAt(Date.now());
 
     // Return to idle after 1.5s
@@ -76,9 +79,19 @@ export function useSaveStatus(): UseSaveStatusReturn {
     }, 1500);
   }, []);
 
-  const setError = useCallback(() => {
+  const setError = useCallback((error?: unknown) => {
+    if (savedTimeoutRef.current) {
+      clearTimeout(savedTimeoutRef.current);
+      savedTimeoutRef.current = null;
+    }
     setStatus('error');
 
+    // A real write failure stays visible until the next successful save
+    if (error !== undefined) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
     // Return to idle after 3s
     savedTimeoutRef.current = setTimeout(() => {
       setStatus('idle');
@@ -97,6 +110,7 @@ export function useSaveStatus(): UseSaveStatusReturn {
     status,
     lastSavedAt,
     timeAgo,
+    errorMessage,
     setSaving,
     setSaved,
     setError,
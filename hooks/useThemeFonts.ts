@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { Theme } from '../types';
+import { getThemeFontsUrl } from '../utils/theme';
+
+const LINK_ATTRIBUTE = 'data-openbento-fonts';
+
+/**
+ * Load the Google Fonts of a theme (or of several, e.g. the preset picker) into
+ * the document. Each `key` owns one <link>, replaced when the fonts change.
+ */
+export function useThemeFonts(themes: Theme | Theme[], key = 'page'): void {
+  const url = getThemeFontsUrl(themes);
+
+  useEffect(() => {
+    let link = document.head.querySelector<HTMLLinkElement>(`link[${LINK_ATTRIBUTE}="${key}"]`);
+    if (!url) {
+      link?.remove();
+      return;
+    }
+    if (!link) {
+      link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.setAttribute(LINK_ATTRIBUTE, key);
+      document.head.appendChild(link);
+    }
+    if (link.href !== url) link.href = url;
+  }, [url, key]);
+}
@@ -1,11 +1,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
-import { COMMON_BLOCK_CSS } from './services/commonStyles';
+import { COMMON_BLOCK_CSS, COMMON_THEME_CSS } from './services/commonStyles';
 
 const styleEl = document.createElement('style');
 styleEl.setAttribute('data-openbento-common', 'true');
-styleEl.textContent = COMMON_BLOCK_CSS;
+styleEl.textContent = COMMON_BLOCK_CSS + COMMON_THEME_CSS;
 document.head.appendChild(styleEl);
 
 const rootElement = document.getElementById('root');
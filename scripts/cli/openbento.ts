@@ -0,0 +1,328 @@
+/**
+ * OpenBento command line: validate, migrate and export bento JSON files
+ *
+ * Loaded by scripts/openbento.mjs, which runs this TypeScript through Vite.
+ * Uses the same schema and export code as the builder, without the browser:
+ * exported images are copied as they are (no resized variants).
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { SiteData } from '../../types';
+import { AVATAR_PLACEHOLDER } from '../../constants';
+import {
+  BENTO_SCHEMA_VERSION,
+  BentoJSON,
+  BentoValidationError,
+  getSchemaVersion,
+  parseBentoJSON,
+  SchemaIssue,
+  validateSiteData,
+} from '../../services/schema';
+import { GRID_VERSION } from '../../services/storageService';
+import { buildExportZip, getExportFileName } from '../../services/export/build';
+import {
+  DEPLOYMENT_TARGET_LABELS,
+  ExportDeploymentTarget,
+  isDeploymentTarget,
+} from '../../services/export/deploy';
+
+const USAGE = `Usage: openbento <command> <bento.json> [options]
+
+Commands:
+  validate <file>    Check a bento file against the schema
+  migrate <file>     Upgrade a bento file to the current schema version
+  export <file>      Write the export of a bento to a folder or a .zip file
+
+Options:
+  -o, --out <path>   migrate: output file (default: standard output)
+                     export: output folder, or a file ending in .zip
+                     (default: ./<name>-bento-<target>)
+  --in-place         migrate: overwrite the input file
+  -t, --target <id>  export: deployment target (default: vercel)
+  --static           export: a prebuilt static page instead of a React project
+  --site-id <id>     export: analytics site id (default: the bento id)
+  --force            export: empty a non-empty output folder first
+  --youtube-runtime-feeds
+                     export: load YouTube feeds without videos in the
+                     browser, through the allorigins.win proxy
+  -h, --help         Show this help
+
+Targets: ${Object.keys(DEPLOYMENT_TARGET_LABELS).join(', ')}
+`;
+
+/**
+ * Raised for wrong usage and unreadable input; printed without a stack trace
+ */
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+interface CliOptions {
+  command?: string;
+  file?: string;
+  out?: string;
+  inPlace: boolean;
+  target: ExportDeploymentTarget;
+  static: boolean;
+  siteId?: string;
+  force: boolean;
+  youtubeRuntimeFeeds: boolean;
+  help: boolean;
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    inPlace: false,
+    target: 'vercel',
+    static: false,
+    force: false,
+    youtubeRuntimeFeeds: false,
+    help: false,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined || next.startsWith('-')) throw new CliError(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      case '-o':
+      case '--out':
+        options.out = value();
+        break;
+      case '--in-place':
+        options.inPlace = true;
+        break;
+      case '-t':
+      case '--target': {
+        const target = value();
+        if (!isDeploymentTarget(target)) throw new CliError(`Unknown target "${target}"`);
+        options.target = target;
+        break;
+      }
+      case '--static':
+        options.static = true;
+        break;
+      case '--site-id':
+        options.siteId = value();
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      case '--youtube-runtime-feeds':
+        options.youtubeRuntimeFeeds = true;
+        break;
+      default:
+        if (arg.startsWith('-')) throw new CliError(`Unknown option ${arg}`);
+        positional.push(arg);
+    }
+  }
+
+  [options.command, options.file] = positional;
+  if (positional.length > 2) throw new CliError(`Unexpected argument ${positional[2]}`);
+  return options;
+};
+
+const print = (line = ''): void => {
+  process.stdout.write(`${line}\n`);
+};
+
+const printIssues = (issues: SchemaIssue[]): void => {
+  for (const issue of issues) print(`  ${issue.path || '(root)'}: ${issue.message}`);
+};
+
+const readBentoFile = async (file: string): Promise<Record<string, unknown>> => {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch {
+    throw new CliError(`Cannot read ${file}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CliError(`${file} is not valid JSON`);
+  }
+};
+
+/**
+ * Migrate, validate and sanitize a bento file. Prints the issues and returns
+ * null when it can't be used.
+ */
+const loadBento = async (
+  file: string
+): Promise<{ json: BentoJSON; fromVersion: number; report: SchemaIssue[] } | null> => {
+  const input = await readBentoFile(file);
+  try {
+    const { json, report } = parseBentoJSON(input);
+    // The builder regenerates block ids on import; exports keep them, so they must be unique
+    const issues = validateSiteData(json);
+    if (issues.length > 0) throw new BentoValidationError(issues);
+    return { json, fromVersion: getSchemaVersion(input), report };
+  } catch (error) {
+    if (!(error instanceof BentoValidationError)) throw error;
+    print(`${file}: invalid bento`);
+    printIssues(error.issues);
+    return null;
+  }
+};
+
+const printReport = (report: SchemaIssue[]): void => {
+  if (report.length === 0) return;
+  print('Unsafe values were removed:');
+  printIssues(report);
+};
+
+// Same document as a download from the builder, without the changing timestamp
+const toBentoFile = (json: BentoJSON): string => {
+  const { exportedAt: _exportedAt, ...rest } = json;
+  return `${JSON.stringify(rest, null, 2)}\n`;
+};
+
+// Same defaults as a bento imported in the builder
+const toSiteData = (json: BentoJSON): SiteData => ({
+  gridVersion: json.gridVersion ?? GRID_VERSION,
+  schemaVersion: BENTO_SCHEMA_VERSION,
+  profile: { ...json.profile, avatarUrl: json.profile.avatarUrl || AVATAR_PLACEHOLDER },
+  blocks: json.blocks,
+});
+
+const validate = async (_options: CliOptions, file: string): Promise<number> => {
+  const bento = await loadBento(file);
+  if (!bento) return 1;
+  const upgrade =
+    bento.fromVersion < BENTO_SCHEMA_VERSION
+      ? ` (schema version ${bento.fromVersion}, run "openbento migrate" to upgrade to ${BENTO_SCHEMA_VERSION})`
+      : '';
+  print(`${file}: valid${upgrade}`);
+  printReport(bento.report);
+  return 0;
+};
+
+const migrate = async (options: CliOptions, file: string): Promise<number> => {
+  if (options.inPlace && options.out) throw new CliError('Use either --out or --in-place');
+  const bento = await loadBento(file);
+  if (!bento) return 1;
+
+  const out = options.inPlace ? file : options.out;
+  if (!out) {
+    process.stdout.write(toBentoFile(bento.json));
+    return 0;
+  }
+  await fs.writeFile(out, toBentoFile(bento.json));
+  print(
+    bento.fromVersion < BENTO_SCHEMA_VERSION
+      ? `${out}: migrated from schema version ${bento.fromVersion} to ${BENTO_SCHEMA_VERSION}`
+      : `${out}: already at schema version ${BENTO_SCHEMA_VERSION}`
+  );
+  printReport(bento.report);
+  return 0;
+};
+
+const isEmptyDir = async (dir: string): Promise<boolean> => {
+  try {
+    return (await fs.readdir(dir)).length === 0;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return true;
+    throw new CliError(`Cannot read ${dir}: ${(error as Error).message}`);
+  }
+};
+
+// `parent` is `child` or one of its ancestors
+const contains = (parent: string, child: string): boolean => {
+  const relative = path.relative(parent, child);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+};
+
+/**
+ * Empty the output folder for --force. Refuses folders holding more than an old
+ * export: the working directory, the home directory and their ancestors (the
+ * filesystem root included), and any folder containing the input file.
+ */
+const clearOutputDir = async (out: string, file: string): Promise<void> => {
+  const dir = await fs.realpath(out);
+  const input = await fs.realpath(file);
+  const guarded = [process.cwd(), os.homedir()];
+  if (guarded.some((guardedDir) => contains(dir, guardedDir)) || contains(dir, input)) {
+    throw new CliError(`Refusing to clear ${out}: choose an output folder of its own`);
+  }
+  for (const name of await fs.readdir(dir)) {
+    await fs.rm(path.join(dir, name), { recursive: true, force: true });
+  }
+};
+
+const exportBento = async (options: CliOptions, file: string): Promise<number> => {
+  const bento = await loadBento(file);
+  if (!bento) return 1;
+  printReport(bento.report);
+
+  const data = toSiteData(bento.json);
+  const opts = {
+    siteId: options.siteId ?? bento.json.id,
+    deploymentTarget: options.target,
+    mode: options.static ? ('static' as const) : ('project' as const),
+    youtubeRuntimeFeeds: options.youtubeRuntimeFeeds,
+  };
+  const zip = await buildExportZip(data, opts);
+  const out = options.out ?? getExportFileName(data.profile.name, opts).replace(/\.zip$/, '');
+
+  if (out.endsWith('.zip')) {
+    await fs.writeFile(out, await zip.generateAsync({ type: 'nodebuffer' }));
+    print(`Wrote ${out}`);
+    return 0;
+  }
+
+  if (!(await isEmptyDir(out))) {
+    if (!options.force) throw new CliError(`${out} is not empty (use --force to replace it)`);
+    await clearOutputDir(out, file);
+  }
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  for (const entry of entries) {
+    const target = path.join(out, entry.name);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, await entry.async('nodebuffer'));
+  }
+  print(`Wrote ${entries.length} files to ${out}`);
+  return 0;
+};
+
+const COMMANDS: Record<string, (options: CliOptions, file: string) => Promise<number>> = {
+  validate,
+  migrate,
+  export: exportBento,
+};
+
+/**
+ * Run the CLI with the arguments after the script name; resolves to the exit code
+ */
+export const main = async (argv: string[]): Promise<number> => {
+  try {
+    const options = parseArgs(argv);
+    if (options.help || !options.command) {
+      print(USAGE);
+      return options.help ? 0 : 1;
+    }
+    const command = COMMANDS[options.command];
+    if (!command) throw new CliError(`Unknown command "${options.command}"`);
+    if (!options.file)
+      throw new CliError(`Missing the bento file: openbento ${options.command} <file>`);
+    return await command(options, options.file);
+  } catch (error) {
+    if (!(error instanceof CliError)) throw error;
+    console.error(`openbento: ${error.message}`);
+    return 2;
+  }
+};
@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+
+/**
+ * OpenBento CLI: validate, migrate and export bento JSON files.
+ * The commands live in scripts/cli/openbento.ts and share the builder's
+ * TypeScript sources, which Vite loads here without a build step.
+ *
+ *   npm run openbento -- export my-bento.json --target netlify --out dist-site
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runnerImport } from 'vite';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const { module: cli } = await runnerImport(path.join(__dirname, 'cli', 'openbento.ts'), {
+  configFile: false,
+  root: path.join(__dirname, '..'),
+  logLevel: 'error',
+});
+
+process.exitCode = await cli.main(process.argv.slice(2));
@@ -0,0 +1,68 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { unfurlUrl, UnfurlError } from './unfurl';
+
+// Local fixture server: /page is an HTML page, /redirect?to=<url> redirects
+let server: http.Server;
+let port = 0;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://fixture');
+    if (url.pathname === '/redirect') {
+      res.writeHead(302, { Location: url.searchParams.get('to') ?? '/' }).end();
+      return;
+    }
+    res
+      .writeHead(200, { 'Content-Type': 'text/html' })
+      .end('<html><head><meta property="og:title" content="Fixture page"></head></html>');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const expectRefused = async (promise: Promise<unknown>) => {
+  await expect(promise).rejects.toThrow(UnfurlError);
+  await expect(promise).rejects.toThrow(/local or private address/);
+};
+
+describe('unfurlUrl', () => {
+  it('reads the metadata of a trusted local host', async () => {
+    const metadata = await unfurlUrl(`http://127.0.0.1:${port}/page`, {
+      trustedHosts: ['127.0.0.1'],
+    });
+    expect(metadata.title).toBe('Fixture page');
+  });
+
+  it('refuses loopback addresses, including IPv4-mapped IPv6 ones', async () => {
+    await expectRefused(unfurlUrl(`http://127.0.0.1:${port}/page`));
+    await expectRefused(unfurlUrl(`http://[::ffff:127.0.0.1]:${port}/page`));
+    await expectRefused(unfurlUrl(`http://[::ffff:7f00:1]:${port}/page`));
+    await expectRefused(unfurlUrl(`http://[0:0:0:0:0:ffff:7f00:1]:${port}/page`));
+  });
+
+  it('refuses IPv6 addresses embedding an IPv4 one (NAT64, 6to4)', async () => {
+    await expectRefused(unfurlUrl(`http://[64:ff9b::7f00:1]:${port}/page`));
+    await expectRefused(unfurlUrl(`http://[64:ff9b::a00:1]/page`));
+    await expectRefused(unfurlUrl(`http://[64:ff9b:1::a00:1]/page`));
+    await expectRefused(unfurlUrl(`http://[2002:7f00:1::]:${port}/page`));
+    await expectRefused(unfurlUrl(`http://[2002:c0a8:101::1]/page`));
+  });
+
+  it('refuses host names that resolve to a private address', async () => {
+    await expectRefused(unfurlUrl(`http://localhost:${port}/page`));
+  });
+
+  it('checks every redirect hop', async () => {
+    const options = { trustedHosts: ['127.0.0.1'] };
+    const redirect = (to: string) =>
+      `http://127.0.0.1:${port}/redirect?to=${encodeURIComponent(to)}`;
+
+    await expectRefused(unfurlUrl(redirect(`http://localhost:${port}/page`), options));
+    await expectRefused(unfurlUrl(redirect(`http://[::ffff:7f00:1]:${port}/page`), options));
+    await expectRefused(unfurlUrl(redirect(`http://10.0.0.1/page`), options));
+  });
+});
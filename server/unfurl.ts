@@ -0,0 +1,364 @@
+/**
+ * Link unfurling for the dev server
+ *
+ * Fetches a page and reads its OpenGraph metadata (og:title, og:description,
+ * og:image) and favicon, so LINK blocks can be filled from their URL. Runs in Node:
+ * browsers cannot read other sites' HTML because of CORS.
+ *
+ * The dev server listens on every interface, so by default requests to loopback
+ * and private networks are refused, on every redirect hop. The address is checked
+ * when connecting, so a host cannot resolve to a public address for the check and
+ * to a private one for the request.
+ */
+
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+
+export interface LinkMetadata {
+  url: string; // Final page URL, after redirects
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  faviconUrl?: string;
+  siteName?: string;
+}
+
+export interface UnfurlOptions {
+  allowPrivateHosts?: boolean; // Allow localhost and private networks
+  trustedHosts?: string[]; // Host names allowed even when they are local or private
+  timeoutMs?: number;
+}
+
+/**
+ * Raised when a URL cannot be unfurled. `status` is the HTTP status the dev
+ * server answers with.
+ */
+export class UnfurlError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 422) {
+    super(message);
+    this.name = 'UnfurlError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 5;
+const MAX_HTML_BYTES = 1024 * 1024;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// SVG is left out: it can carry scripts
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif']);
+const USER_AGENT = 'OpenBento link preview (+https://github.com/yoanbernabeu/openbento)';
+
+// ============ NETWORK ============
+
+// Loopback, private, link-local, multicast and reserved ranges. BlockList also
+// matches IPv4-mapped IPv6 addresses (::ffff:7f00:1) against the IPv4 subnets;
+// the other IPv6 ranges embedding an IPv4 address are refused as a whole.
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3], // Multicast and reserved
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['64:ff9b:1::', 48], // Local-use NAT64
+  ['2001::', 32], // Teredo
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link local
+  ['ff00::', 8], // Multicast
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv6');
+}
+
+const isPrivateAddress = (address: string): boolean => {
+  const family = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+  return family === null || PRIVATE_NETWORKS.check(address, family);
+};
+
+const isTrustedHost = (hostname: string, options: UnfurlOptions): boolean =>
+  options.allowPrivateHosts === true || (options.trustedHosts ?? []).includes(hostname);
+
+/**
+ * DNS lookup for http.request that refuses private addresses. The connection is
+ * made to the address checked here, so the host cannot resolve to another one in
+ * between (DNS rebinding).
+ */
+const lookupPublicAddress = (
+  hostname: string,
+  lookupOptions: dns.LookupOptions,
+  callback: (error: Error | null, address: string | dns.LookupAddress[], family?: number) => void
+) => {
+  dns.lookup(hostname, { ...lookupOptions, all: true }, (error, addresses) => {
+    if (error || addresses.length === 0) {
+      callback(new UnfurlError(`Could not resolve ${hostname}`), '');
+    } else if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new UnfurlError(`${hostname} is a local or private address`), '');
+    } else if (lookupOptions.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export const parseHttpUrl = (value: unknown): URL => {
+  let url: URL;
+  try {
+    url = new URL(String(value ?? '').trim());
+  } catch {
+    throw new UnfurlError('Invalid URL', 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('Only http and https URLs can be unfurled', 400);
+  }
+  if (url.username || url.password)
+    throw new UnfurlError('URLs with credentials are not allowed', 400);
+  return url;
+};
+
+// One GET request, without following redirects. IP literals are checked here,
+// host names by lookupPublicAddress when connecting.
+const request = (
+  url: URL,
+  accept: string,
+  signal: AbortSignal,
+  options: UnfurlOptions
+): Promise<http.IncomingMessage> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const trusted = isTrustedHost(hostname, options);
+  if (!trusted && net.isIP(hostname) && isPrivateAddress(hostname)) {
+    return Promise.reject(new UnfurlError(`${url.hostname} is a local or private address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client
+      .get(
+        url,
+        {
+          signal,
+          headers: { Accept: accept, 'User-Agent': USER_AGENT },
+          lookup: trusted ? undefined : (lookupPublicAddress as net.LookupFunction),
+        },
+        resolve
+      )
+      .on('error', (e) => {
+        if (e instanceof UnfurlError) return reject(e);
+        reject(
+          new UnfurlError(
+            signal.aborted
+              ? `${url.hostname} did not answer in time`
+              : `Could not reach ${url.hostname}`,
+            502
+          )
+        );
+      });
+  });
+};
+
+// Follow redirects by hand so every hop goes through the host check
+const fetchChecked = async (
+  url: URL,
+  accept: string,
+  options: UnfurlOptions
+): Promise<{ response: http.IncomingMessage; url: URL }> => {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await request(current, accept, signal, options);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      current = parseHttpUrl(new URL(location, current).href);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new UnfurlError(`${current.hostname} answered with status ${status}`, 502);
+    }
+    return { response, url: current };
+  }
+
+  throw new UnfurlError('Too many redirects', 502);
+};
+
+// Read at most `maxBytes` of the body; HTML is cut off, images are rejected
+const readBody = async (response: http.IncomingMessage, maxBytes: number, truncate: boolean) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of response) {
+      chunks.push(chunk as Buffer);
+      size += (chunk as Buffer).byteLength;
+      if (size > maxBytes) {
+        response.destroy();
+        if (!truncate) throw new UnfurlError('Image is too large', 422);
+        break;
+      }
+    }
+  } catch (e) {
+    if (e instanceof UnfurlError) throw e;
+    throw new UnfurlError('The connection was interrupted', 502);
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+};
+
+// ============ PARSING ============
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const cleanText = (value: string | undefined): string | undefined => {
+  const text = value && decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'<>/=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+const resolveHttpUrl = (value: string | undefined, base: URL): string | undefined => {
+  if (!value) return undefined;
+  try {
+    const url = new URL(decodeEntities(value).trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read OpenGraph metadata from a page's HTML, with the usual fallbacks (Twitter
+ * cards, <title>, meta description). Relative URLs are resolved against `pageUrl`.
+ */
+export const parseLinkMetadata = (html: string, pageUrl: string): LinkMetadata => {
+  // Metadata lives in <head>: skip scripts and comments that could contain fake tags
+  const bodyStart = html.search(/<body[\s>]/i);
+  const head = (bodyStart === -1 ? html : html.slice(0, bodyStart))
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '');
+
+  const meta: Record<string, string> = {};
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    // The first value wins, as for crawlers
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content;
+  }
+
+  let base = new URL(pageUrl);
+  const baseHref = parseAttributes(head.match(/<base\b[^>]*>/i)?.[0] ?? '').href;
+  const resolvedBase = resolveHttpUrl(baseHref, base);
+  if (resolvedBase) base = new URL(resolvedBase);
+
+  const icons = Array.from(head.matchAll(/<link\b[^>]*>/gi))
+    .map(([tag]) => parseAttributes(tag))
+    .filter((attributes) => /(^|\s)(icon|apple-touch-icon)(\s|$)/i.test(attributes.rel ?? ''));
+  const icon = icons.find((attributes) => /(^|\s)icon(\s|$)/i.test(attributes.rel)) ?? icons[0];
+
+  return {
+    url: pageUrl,
+    title: cleanText(
+      meta['og:title'] ??
+        meta['twitter:title'] ??
+        head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    ),
+    description: cleanText(
+      meta['og:description'] ?? meta['twitter:description'] ?? meta.description
+    ),
+    imageUrl: resolveHttpUrl(
+      meta['og:image:secure_url'] ??
+        meta['og:image'] ??
+        meta['og:image:url'] ??
+        meta['twitter:image'] ??
+        meta['twitter:image:src'],
+      base
+    ),
+    faviconUrl: resolveHttpUrl(icon?.href ?? '/favicon.ico', base),
+    siteName: cleanText(meta['og:site_name']),
+  };
+};
+
+// ============ PUBLIC API ============
+
+/**
+ * Fetch a page and read its metadata. Throws an UnfurlError when the URL is
+ * invalid, not reachable, private (see UnfurlOptions) or not an HTML page.
+ */
+export const unfurlUrl = async (
+  input: string,
+  options: UnfurlOptions = {}
+): Promise<LinkMetadata> => {
+  const { response, url } = await fetchChecked(
+    parseHttpUrl(input),
+    'text/html,application/xhtml+xml',
+    options
+  );
+  const contentType = response.headers['content-type'] ?? '';
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    response.destroy();
+    throw new UnfurlError('The URL is not an HTML page');
+  }
+
+  const html = (await readBody(response, MAX_HTML_BYTES, true)).toString('utf8');
+  return parseLinkMetadata(html, url.href);
+};
+
+/**
+ * Download an image (e.g. the og:image of a page) as a data URL, so it can be
+ * stored with the bento instead of hotlinked.
+ */
+export const fetchImageAsDataUrl = async (
+  input: string,
+  options: UnfurlOptions = {}
+): Promise<string> => {
+  const { response } = await fetchChecked(parseHttpUrl(input), 'image/*', options);
+  const type = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (!IMAGE_TYPES.has(type)) {
+    response.destroy();
+    throw new UnfurlError('Unsupported image format');
+  }
+
+  const data = await readBody(response, MAX_IMAGE_BYTES, false);
+  return `data:${type};base64,${data.toString('base64')}`;
+};
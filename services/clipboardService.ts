@@ -0,0 +1,147 @@
+/**
+ * Copy and paste of blocks through the system clipboard
+ *
+ * Copied blocks are written as a versioned JSON payload, so they can be pasted into
+ * another bento or another tab. Uploaded images are data URLs and travel inline.
+ * Pasted payloads go through the same migration, validation and sanitization as
+ * imported files; a pasted URL becomes a block of the matching type.
+ */
+
+import { BlockData, BlockType } from '../types';
+import {
+  extractHandleFromUrl,
+  getSocialPlatformOption,
+  inferSocialPlatformFromUrl,
+} from '../socialPlatforms';
+import { parseEmbedUrl } from '../utils/embed';
+import { BENTO_SCHEMA_VERSION, isRecord, parseBlocksJSON, SchemaIssue } from './schema';
+import { optimizeImageFile } from './imageService';
+
+export const BLOCK_CLIPBOARD_FORMAT = 'openbento/blocks';
+
+export interface BlockClipboardPayload {
+  format: typeof BLOCK_CLIPBOARD_FORMAT;
+  schemaVersion: number; // Schema version of the blocks, migrated on paste
+  blocks: BlockData[];
+}
+
+// Blocks read from the clipboard, and the unsafe values stripped from them
+export interface PastedBlocks {
+  blocks: BlockData[];
+  report: SchemaIssue[];
+}
+
+const URL_PATTERN = /^https?:\/\/[^\s]+$/i;
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp|avif|svg)(\?[^\s]*)?$/i;
+
+/**
+ * Serialize blocks for the clipboard. Grid positions are kept so a group keeps its layout.
+ */
+export const serializeBlocks = (blocks: BlockData[]): string => {
+  const payload: BlockClipboardPayload = {
+    format: BLOCK_CLIPBOARD_FORMAT,
+    schemaVersion: BENTO_SCHEMA_VERSION,
+    // zIndex is runtime only
+    blocks: blocks.map(({ zIndex: _zIndex, ...block }) => block),
+  };
+  return JSON.stringify(payload);
+};
+
+/**
+ * Block for a pasted URL: players become EMBED blocks, image links MEDIA blocks,
+ * profile links SOCIAL blocks and anything else a LINK block. Not yet positioned.
+ */
+export const createBlockFromUrl = (url: string): BlockData => {
+  const base = { id: '', title: '', content: url, textColor: 'text-gray-900' };
+
+  const embed = parseEmbedUrl(url);
+  if (embed) {
+    return { ...base, type: BlockType.EMBED, title: embed.label, colSpan: 6, rowSpan: 3 };
+  }
+
+  if (IMAGE_URL_PATTERN.test(url)) {
+    return { ...base, type: BlockType.MEDIA, imageUrl: url, colSpan: 3, rowSpan: 3 };
+  }
+
+  const platform = inferSocialPlatformFromUrl(url);
+  if (platform) {
+    return {
+      ...base,
+      type: BlockType.SOCIAL,
+      title: getSocialPlatformOption(platform)?.label ?? '',
+      colSpan: 3,
+      rowSpan: 3,
+      color: 'bg-white',
+      socialPlatform: platform,
+      socialHandle: extractHandleFromUrl(platform, url) ?? '',
+    };
+  }
+
+  return {
+    ...base,
+    type: BlockType.LINK,
+    title: new URL(url).hostname.replace(/^www\./, ''),
+    colSpan: 3,
+    rowSpan: 3,
+    color: 'bg-white',
+  };
+};
+
+/**
+ * MEDIA block for a pasted image (read as a data URL). Not yet positioned.
+ */
+export const createBlockFromImage = (dataUrl: string, name = 'Image'): BlockData => ({
+  id: '',
+  type: BlockType.MEDIA,
+  title: name,
+  imageUrl: dataUrl,
+  colSpan: 3,
+  rowSpan: 3,
+});
+
+/**
+ * Parse pasted text: a block payload or a single URL. Returns null for any other
+ * text. Throws a BentoValidationError when a payload is invalid.
+ */
+export const parseClipboardText = (text: string): PastedBlocks | null => {
+  const trimmed = text.trim();
+
+  if (URL_PATTERN.test(trimmed)) {
+    return parseBlocksJSON([createBlockFromUrl(trimmed)], BENTO_SCHEMA_VERSION);
+  }
+
+  if (!trimmed.startsWith('{')) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value) || value.format !== BLOCK_CLIPBOARD_FORMAT) return null;
+  return parseBlocksJSON(value.blocks, value.schemaVersion);
+};
+
+/**
+ * Copy blocks with the async Clipboard API (context menu). Keyboard copies write
+ * to the copy event's clipboardData instead, which needs no permission.
+ */
+export const writeBlocksToClipboard = (blocks: BlockData[]): Promise<void> =>
+  navigator.clipboard.writeText(serializeBlocks(blocks));
+
+/**
+ * Read blocks with the async Clipboard API (context menu): an image, a block payload
+ * or a URL. Returns null when the clipboard holds nothing usable.
+ */
+export const readBlocksFromClipboard = async (): Promise<PastedBlocks | null> => {
+  if (typeof navigator.clipboard.read === 'function') {
+    const items = await navigator.clipboard.read();
+    for (const item of items) {
+      const imageType = item.types.find((type) => type.startsWith('image/'));
+      if (imageType) {
+        const dataUrl = await optimizeImageFile(await item.getType(imageType));
+        return parseBlocksJSON([createBlockFromImage(dataUrl)], BENTO_SCHEMA_VERSION);
+      }
+    }
+  }
+  return parseClipboardText(await navigator.clipboard.readText());
+};
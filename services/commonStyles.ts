@@ -44,3 +44,40 @@ export const COMMON_BLOCK_CSS = `
 .bento-item.size-lg .media-title { font-size: 1.25rem; }
 .bento-item.size-lg .media-subtext { font-size: 1rem; }
 `;
+
+// Rules reading the theme CSS variables (see utils/theme.ts). Text scales multiply
+// the size of the parent, so they go on an inner span of a sized element.
+export const COMMON_THEME_CSS = `
+.theme-page {
+  font-family: var(--bento-font-body, inherit);
+}
+
+.theme-heading {
+  font-family: var(--bento-font-heading, inherit);
+  font-size: calc(1em * var(--bento-heading-scale, 1));
+}
+
+.theme-text {
+  font-size: calc(1em * var(--bento-body-scale, 1));
+}
+
+.theme-grid {
+  gap: var(--bento-gap, 0.5rem);
+}
+
+/* Page text (name, bio), switched with the color scheme */
+.theme-ink {
+  color: var(--bento-text, #111827);
+}
+
+.theme-muted {
+  color: var(--bento-muted, #6b7280);
+}
+
+/* No specificity: selection rings and hover shadows still win */
+:where(.theme-card) {
+  box-shadow:
+    0 0 0 var(--bento-border-width, 1px) var(--bento-border-color, rgba(0, 0, 0, 0.05)),
+    var(--bento-shadow, 0 1px 2px 0 rgba(0, 0, 0, 0.05));
+}
+`;
@@ -0,0 +1,245 @@
+/**
+ * Export builder
+ *
+ * Generates the export archive (a React/Vite/Tailwind project or a prebuilt
+ * static page) without touching the DOM, so the builder UI and the CLI share it
+ */
+
+import JSZip from 'jszip';
+import { SiteData } from '../../types';
+import { resolveTheme } from '../../utils/theme';
+import { COLLECTOR_PORT, getAnalyticsProvider } from '../../utils/analytics';
+
+// Config generators
+import {
+  generatePackageJson,
+  generateViteConfig,
+  generateTailwindConfig,
+  generatePostCSSConfig,
+  generateTSConfig,
+  generatePrerenderScript,
+  generateYouTubeFeedsJson,
+  generateYouTubeFeedsScript,
+  YOUTUBE_FEEDS_FILE,
+  YOUTUBE_FEEDS_SCRIPT,
+} from './config';
+
+// Template generators
+import {
+  generateIndexHtml,
+  generateMainTsx,
+  generateEntryServerTsx,
+  generateIndexCSS,
+  generateAppTsx,
+} from './templates';
+
+// Image extraction
+import { extractImages } from './imageExtractor';
+
+// Static HTML export
+import { generateStaticHtml, toRelativeImages } from './static';
+
+import { toServiceName } from './helpers';
+
+// Deployment configs
+import {
+  ExportDeploymentTarget,
+  ExportMode,
+  VERCEL_JSON,
+  NETLIFY_TOML,
+  GITHUB_WORKFLOW_YAML,
+  NGINX_CONF,
+  DOCKERFILE,
+  DOCKERIGNORE,
+  getVpsNginxConf,
+  HEROKU_STATIC_JSON,
+  CLOUDFLARE_HEADERS,
+  getWranglerToml,
+  FIREBASE_JSON,
+  S3_BUCKET_POLICY,
+  S3_DEPLOY_SCRIPT,
+  getRenderYaml,
+  FLY_NGINX_CONF,
+  getFlyToml,
+  generateDeployMd,
+  generateStaticDeployMd,
+  generateCollectorServer,
+  COLLECTOR_DOCKERFILE,
+  COLLECTOR_SYSTEMD_UNIT,
+  DOCKER_COMPOSE_WITH_COLLECTOR,
+  STATIC_DOCKER_COMPOSE_WITH_COLLECTOR,
+  withCollectorProxy,
+} from './deploy';
+
+export interface ExportOptions {
+  siteId?: string;
+  deploymentTarget?: ExportDeploymentTarget;
+  mode?: ExportMode;
+  // Load YouTube feeds without cached videos in the browser, through a CORS proxy
+  youtubeRuntimeFeeds?: boolean;
+}
+
+const toZipBaseName = (name: string): string => `${name.replace(/\s+/g, '-').toLowerCase()}-bento`;
+
+/**
+ * Name of the downloaded archive, e.g. `jane-bento-vercel.zip`
+ */
+export const getExportFileName = (name: string, opts?: ExportOptions): string =>
+  `${toZipBaseName(name)}-${opts?.mode === 'static' ? 'static' : (opts?.deploymentTarget ?? 'vercel')}.zip`;
+
+// Self-hosted analytics ship their collector with the targets running a server
+const shipsCollector = (data: SiteData, target: ExportDeploymentTarget): boolean =>
+  !!data.profile.analytics?.enabled &&
+  getAnalyticsProvider(data.profile.analytics) === 'self-hosted' &&
+  (target === 'docker' || target === 'vps');
+
+const addCollectorFiles = (zip: JSZip, target: ExportDeploymentTarget): void => {
+  const folder = zip.folder('collector');
+  folder?.file('server.mjs', generateCollectorServer());
+  if (target === 'docker') folder?.file('Dockerfile', COLLECTOR_DOCKERFILE);
+  if (target === 'vps') folder?.file('openbento-analytics.service', COLLECTOR_SYSTEMD_UNIT);
+};
+
+/**
+ * Build a single prebuilt index.html plus its assets
+ */
+const buildStaticSite = async (
+  data: SiteData,
+  opts: { siteId?: string; deploymentTarget: ExportDeploymentTarget; youtubeRuntimeFeeds?: boolean }
+): Promise<JSZip> => {
+  const zip = new JSZip();
+  const { imageMap, imageSources } = toRelativeImages(
+    await extractImages(data, zip.folder('assets'))
+  );
+  const collector = shipsCollector(data, opts.deploymentTarget);
+
+  zip.file(
+    'index.html',
+    generateStaticHtml(data, imageMap, opts.siteId, imageSources, opts.youtubeRuntimeFeeds)
+  );
+  zip.file(
+    'DEPLOY.md',
+    generateStaticDeployMd({ name: data.profile.name, target: opts.deploymentTarget, collector })
+  );
+  if (collector) {
+    addCollectorFiles(zip, opts.deploymentTarget);
+    // The page calls the collector on its own origin: ship the proxying web server config
+    if (opts.deploymentTarget === 'docker') {
+      zip.file('nginx.conf', withCollectorProxy(NGINX_CONF, `collector:${COLLECTOR_PORT}`));
+      zip.file('docker-compose.yml', STATIC_DOCKER_COMPOSE_WITH_COLLECTOR);
+    } else {
+      zip.file('nginx.conf', getVpsNginxConf(true, true));
+    }
+  }
+
+  return zip;
+};
+
+/**
+ * Build the export archive: a complete React project by default,
+ * or a zero-JS static page when `mode` is 'static'
+ */
+export const buildExportZip = async (data: SiteData, opts?: ExportOptions): Promise<JSZip> => {
+  const deploymentTarget: ExportDeploymentTarget = opts?.deploymentTarget ?? 'vercel';
+
+  if (opts?.mode === 'static') {
+    return buildStaticSite(data, {
+      siteId: opts.siteId,
+      deploymentTarget,
+      youtubeRuntimeFeeds: opts.youtubeRuntimeFeeds,
+    });
+  }
+
+  const zip = new JSZip();
+  const assetsFolder = zip.folder('public/assets');
+  const srcFolder = zip.folder('src');
+  const collector = shipsCollector(data, deploymentTarget);
+  const youtubeFeeds = generateYouTubeFeedsJson(data.blocks);
+
+  // Extract base64 images and get mapping. Relative paths keep working under a
+  // base path (e.g. GitHub Pages project sites), like Vite's relative base.
+  const { imageMap, imageSources } = toRelativeImages(await extractImages(data, assetsFolder));
+
+  // Root configuration files
+  zip.file('package.json', generatePackageJson(data.profile.name, !!youtubeFeeds));
+  zip.file('vite.config.ts', generateViteConfig());
+  zip.file('tailwind.config.js', generateTailwindConfig(resolveTheme(data.profile)));
+  zip.file('postcss.config.js', generatePostCSSConfig());
+  zip.file('tsconfig.json', generateTSConfig());
+  zip.file('prerender.js', generatePrerenderScript());
+  if (youtubeFeeds) {
+    zip.file(YOUTUBE_FEEDS_SCRIPT, generateYouTubeFeedsScript());
+    zip.file(YOUTUBE_FEEDS_FILE, youtubeFeeds);
+  }
+  zip.file('index.html', generateIndexHtml(data.profile, imageMap));
+  zip.file(
+    'DEPLOY.md',
+    generateDeployMd({
+      name: data.profile.name,
+      target: deploymentTarget,
+      collector,
+      youtubeFeeds: !!youtubeFeeds,
+    })
+  );
+
+  // Source files
+  srcFolder?.file('main.tsx', generateMainTsx());
+  srcFolder?.file('entry-server.tsx', generateEntryServerTsx());
+  srcFolder?.file('index.css', generateIndexCSS(data.profile));
+  srcFolder?.file(
+    'App.tsx',
+    generateAppTsx(data, imageMap, opts?.siteId, imageSources, opts?.youtubeRuntimeFeeds)
+  );
+
+  // Deployment-specific configuration files
+  switch (deploymentTarget) {
+    case 'vercel':
+      zip.file('vercel.json', VERCEL_JSON);
+      break;
+    case 'netlify':
+      zip.file('netlify.toml', NETLIFY_TOML);
+      break;
+    case 'github-pages':
+      zip.file('.github/workflows/deploy.yml', GITHUB_WORKFLOW_YAML);
+      break;
+    case 'docker':
+      zip.file('Dockerfile', DOCKERFILE);
+      zip.file(
+        'nginx.conf',
+        collector ? withCollectorProxy(NGINX_CONF, `collector:${COLLECTOR_PORT}`) : NGINX_CONF
+      );
+      zip.file('.dockerignore', DOCKERIGNORE);
+      if (collector) zip.file('docker-compose.yml', DOCKER_COMPOSE_WITH_COLLECTOR);
+      break;
+    case 'vps':
+      zip.file('nginx.conf', getVpsNginxConf(collector));
+      break;
+    case 'heroku':
+      zip.file('static.json', HEROKU_STATIC_JSON);
+      break;
+    case 'cloudflare-pages':
+      zip.file('wrangler.toml', getWranglerToml(toServiceName(data.profile.name)));
+      zip.file('public/_headers', CLOUDFLARE_HEADERS);
+      break;
+    case 'firebase':
+      zip.file('firebase.json', FIREBASE_JSON);
+      break;
+    case 's3':
+      zip.file('bucket-policy.json', S3_BUCKET_POLICY);
+      zip.file('deploy-s3.sh', S3_DEPLOY_SCRIPT);
+      break;
+    case 'render':
+      zip.file('render.yaml', getRenderYaml(toServiceName(data.profile.name)));
+      break;
+    case 'fly':
+      zip.file('fly.toml', getFlyToml(toServiceName(data.profile.name)));
+      zip.file('Dockerfile', DOCKERFILE);
+      zip.file('nginx.conf', FLY_NGINX_CONF);
+      zip.file('.dockerignore', DOCKERIGNORE);
+      break;
+  }
+
+  if (collector) addCollectorFiles(zip, deploymentTarget);
+
+  return zip;
+};
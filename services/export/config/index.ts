@@ -7,3 +7,11 @@ export { generateViteConfig } from './viteConfig';
 export { generateTailwindConfig } from './tailwindConfig';
 export { generatePostCSSConfig } from './postcssConfig';
 export { generateTSConfig } from './tsConfig';
+export { generatePrerenderScript } from './prerender';
+export {
+  generateYouTubeFeedsJson,
+  generateYouTubeFeedsScript,
+  hasYouTubeFeeds,
+  YOUTUBE_FEEDS_FILE,
+  YOUTUBE_FEEDS_SCRIPT,
+} from './youtubeFeeds';
@@ -2,8 +2,12 @@
  * Generate package.json for exported project
  */
 
-export const generatePackageJson = (name: string): string => {
+import { PRERENDER_OUT_DIR } from './prerender';
+import { YOUTUBE_FEEDS_SCRIPT } from './youtubeFeeds';
+
+export const generatePackageJson = (name: string, youtubeFeeds = false): string => {
   const safeName = name.replace(/[^a-z0-9-]/gi, '-').toLowerCase();
+  const fetchFeeds = `node ${YOUTUBE_FEEDS_SCRIPT}`;
   return JSON.stringify(
     {
       name: safeName || 'my-bento',
@@ -12,8 +16,11 @@ export const generatePackageJson = (name: string): string => {
       type: 'module',
       scripts: {
         dev: 'vite',
-        build: 'vite build',
+        // Client build, then a server build of the App rendered into dist/index.html
+        // (YouTube feeds are fetched first, so both bundles include them)
+        build: `${youtubeFeeds ? `${fetchFeeds} && ` : ''}vite build && vite build --ssr src/entry-server.tsx --outDir ${PRERENDER_OUT_DIR} && node prerender.js`,
         preview: 'vite preview',
+        ...(youtubeFeeds ? { 'youtube:fetch': fetchFeeds } : {}),
       },
       dependencies: {
         react: '^18.3.1',
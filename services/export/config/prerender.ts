@@ -0,0 +1,28 @@
+/**
+ * Generate prerender.js for exported project
+ *
+ * Runs after the client and server builds: writes the rendered page into
+ * dist/index.html, so crawlers and visitors without JavaScript get the content.
+ */
+
+import { PRERENDER_PLACEHOLDER } from '../templates/mainTsx';
+
+export const PRERENDER_OUT_DIR = 'dist-ssr';
+
+export const generatePrerenderScript =
+  (): string => `// Prerender the page into dist/index.html; src/main.tsx hydrates it in the browser
+import fs from 'node:fs'
+
+const serverDir = new URL('./${PRERENDER_OUT_DIR}/', import.meta.url)
+const indexFile = new URL('./dist/index.html', import.meta.url)
+
+const { render } = await import(new URL('entry-server.js', serverDir).href)
+const html = fs.readFileSync(indexFile, 'utf8')
+if (!html.includes('${PRERENDER_PLACEHOLDER}')) {
+  throw new Error('dist/index.html has no ${PRERENDER_PLACEHOLDER} placeholder to prerender into')
+}
+
+fs.writeFileSync(indexFile, html.replace('${PRERENDER_PLACEHOLDER}', () => render()))
+fs.rmSync(serverDir, { recursive: true, force: true })
+console.log('Prerendered dist/index.html')
+`;
@@ -1,8 +1,20 @@
 /**
  * Generate tailwind.config.js for exported project
+ *
+ * Theme values live in CSS variables (src/index.css); the config exposes them as
+ * Tailwind tokens (font-sans, font-heading, gap-bento, rounded-bento, shadow-bento).
  */
 
-export const generateTailwindConfig = (): string => `/** @type {import('tailwindcss').Config} */
+import { Theme } from '../../../types';
+import { getFontStack } from '../../../utils/theme';
+
+// Font stack as a JS array literal, e.g. ["'DM Sans'", "system-ui", ...]
+const toFontArray = (font: string): string =>
+  JSON.stringify(getFontStack(font).split(/,\s*/)).replace(/,/g, ', ');
+
+export const generateTailwindConfig = (
+  theme: Theme
+): string => `/** @type {import('tailwindcss').Config} */
 export default {
   content: [
     "./index.html",
@@ -11,7 +23,17 @@ export default {
   theme: {
     extend: {
       fontFamily: {
-        sans: ['Inter', 'system-ui', '-apple-system', 'sans-serif'],
+        sans: ${toFontArray(theme.bodyFont)},
+        heading: ${toFontArray(theme.headingFont)},
+      },
+      gap: {
+        bento: 'var(--bento-gap)',
+      },
+      borderRadius: {
+        bento: 'var(--bento-radius)',
+      },
+      boxShadow: {
+        bento: 'var(--bento-shadow)',
       },
     },
   },
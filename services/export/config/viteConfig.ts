@@ -2,11 +2,17 @@
  * Generate vite.config.ts for exported project
  */
 
+import { BUILD_ASSETS_DIR } from '../deploy/caching';
+
 export const generateViteConfig = (): string => `import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
   base: './',
+  build: {
+    // Hashed bundles, cached for good (public/assets holds the images)
+    assetsDir: '${BUILD_ASSETS_DIR}',
+  },
 })
 `;
@@ -0,0 +1,82 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BlockData, BlockType } from '../../../types';
+import {
+  generateYouTubeFeedsJson,
+  generateYouTubeFeedsScript,
+  YOUTUBE_FEEDS_FILE,
+  YOUTUBE_FEEDS_SCRIPT,
+} from './youtubeFeeds';
+
+const execFileAsync = promisify(execFile);
+
+const FIXTURE = fileURLToPath(new URL('./fixtures/youtube-feed.xml', import.meta.url));
+const FIXTURE_CHANNEL = 'UCfixture-channel-000001';
+const MISSING_CHANNEL = 'UCmissing-channel-000001';
+
+const cachedVideo = {
+  id: 'cached-video1',
+  title: 'Cached',
+  thumbnail: 'https://example.com/t.jpg',
+};
+
+const feedBlock = (id: string, channelId: string, youtubeVideos: BlockData['youtubeVideos']) => ({
+  id,
+  type: BlockType.SOCIAL,
+  colSpan: 3,
+  rowSpan: 3,
+  channelId,
+  youtubeVideos,
+});
+
+// An exported project reduced to the feeds script and its JSON file
+let project = '';
+
+beforeEach(async () => {
+  project = await fs.mkdtemp(path.join(os.tmpdir(), 'openbento-feeds-'));
+  const files = {
+    [YOUTUBE_FEEDS_SCRIPT]: generateYouTubeFeedsScript(),
+    [YOUTUBE_FEEDS_FILE]: generateYouTubeFeedsJson([
+      feedBlock('a', FIXTURE_CHANNEL, []),
+      feedBlock('b', MISSING_CHANNEL, [cachedVideo]),
+    ])!,
+    [`feeds/${FIXTURE_CHANNEL}.xml`]: await fs.readFile(FIXTURE, 'utf8'),
+  };
+  for (const [name, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(project, name)), { recursive: true });
+    await fs.writeFile(path.join(project, name), content);
+  }
+});
+
+afterEach(() => fs.rm(project, { recursive: true, force: true }));
+
+describe('generateYouTubeFeedsScript', () => {
+  it('writes the latest videos of each feed and keeps the cached ones on failure', async () => {
+    await execFileAsync(
+      process.execPath,
+      [YOUTUBE_FEEDS_SCRIPT, '--feed-url', path.join(project, 'feeds/{channelId}.xml')],
+      { cwd: project, timeout: 30000 }
+    );
+
+    const feeds = JSON.parse(await fs.readFile(path.join(project, YOUTUBE_FEEDS_FILE), 'utf8'));
+    const video = (id: string, title: string) => ({
+      id,
+      title,
+      thumbnail: `https://img.youtube.com/vi/${id}/mqdefault.jpg`,
+    });
+    expect(feeds).toEqual({
+      [FIXTURE_CHANNEL]: [
+        video('vid-aaaaaa1', 'Tips & tricks: "bento" layouts 🍱'),
+        video('vid-bbbbbb2', 'Second video'),
+        video('vid-cccccc3', 'Third video'),
+        video('vid-dddddd4', 'Fourth video'),
+      ],
+      [MISSING_CHANNEL]: [cachedVideo],
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Build-time YouTube feeds for exported project
+ *
+ * src/youtube-feeds.json holds the latest videos of each channel on the page,
+ * seeded with the videos cached in the builder. scripts/fetch-youtube-feeds.js
+ * refreshes it before `vite build`, so the page doesn't load feeds through a
+ * CORS proxy in the browser.
+ */
+
+import { BlockData, BlockType } from '../../../types';
+import { isValidYouTubeChannelId } from '../../../utils/security';
+
+export const YOUTUBE_FEEDS_FILE = 'src/youtube-feeds.json';
+export const YOUTUBE_FEEDS_SCRIPT = 'scripts/fetch-youtube-feeds.js';
+
+const isYouTubeFeed = (block: BlockData): boolean =>
+  block.type === BlockType.SOCIAL && isValidYouTubeChannelId(block.channelId);
+
+export const hasYouTubeFeeds = (blocks: BlockData[]): boolean => blocks.some(isYouTubeFeed);
+
+/**
+ * Channel ids of the YouTube feed blocks, mapped to their cached videos.
+ * Null when the page shows no feed.
+ */
+export const generateYouTubeFeedsJson = (blocks: BlockData[]): string | null => {
+  const feeds: Record<string, NonNullable<BlockData['youtubeVideos']>> = {};
+  for (const block of blocks.filter(isYouTubeFeed)) {
+    const cached = block.youtubeVideos ?? [];
+    // Blocks of the same channel share a feed: keep the one that has videos
+    if (!feeds[block.channelId!]?.length) feeds[block.channelId!] = cached;
+  }
+  return Object.keys(feeds).length > 0 ? JSON.stringify(feeds, null, 2) : null;
+};
+
+export const generateYouTubeFeedsScript =
+  (): string => `// Fetch the latest videos of the YouTube channels into ${YOUTUBE_FEEDS_FILE}
+//
+// Runs before the build. A channel that can't be fetched keeps the videos it
+// had. --feed-url <url or path> (or YOUTUBE_FEED_URL) reads the feeds from
+// elsewhere, e.g. a local fixture: {channelId} is replaced with the channel id.
+import fs from 'node:fs/promises'
+import { pathToFileURL } from 'node:url'
+
+export const DEFAULT_FEED_URL = 'https://www.youtube.com/feeds/videos.xml?channel_id={channelId}'
+const MAX_VIDEOS = 4
+const TIMEOUT_MS = 10000
+
+const feedsFile = new URL('../${YOUTUBE_FEEDS_FILE}', import.meta.url)
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+const decodeXml = (text) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity) => {
+    if (!entity.startsWith('#')) return ENTITIES[entity] ?? match
+    const code = /^#x/i.test(entity) ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return code <= 0x10ffff ? String.fromCodePoint(code) : match
+  })
+
+const readTag = (xml, tag) => {
+  const match = xml.match(new RegExp('<' + tag + '(?:\\\\s[^>]*)?>([\\\\s\\\\S]*?)</' + tag + '>'))
+  return match ? decodeXml(match[1].trim()) : ''
+}
+
+/**
+ * Videos of a channel feed (Atom), newest first
+ */
+export const parseFeed = (xml) =>
+  Array.from(xml.matchAll(/<entry[\\s>][\\s\\S]*?<\\/entry>/g), ([entry]) => ({
+    id: readTag(entry, 'yt:videoId'),
+    title: readTag(entry, 'title'),
+  }))
+    .filter((video) => /^[\\w-]{6,20}$/.test(video.id))
+    .slice(0, MAX_VIDEOS)
+    .map((video) => ({ ...video, thumbnail: \`https://img.youtube.com/vi/\${video.id}/mqdefault.jpg\` }))
+
+/**
+ * Read the feed of a channel: http(s) URLs are fetched, anything else is a local file
+ */
+export const readFeed = async (channelId, feedUrl = DEFAULT_FEED_URL) => {
+  const location = feedUrl.replaceAll('{channelId}', channelId)
+  if (!/^https?:/i.test(location)) {
+    return fs.readFile(location.startsWith('file:') ? new URL(location) : location, 'utf8')
+  }
+  const response = await fetch(location, { signal: AbortSignal.timeout(TIMEOUT_MS) })
+  if (!response.ok) throw new Error(\`HTTP \${response.status}\`)
+  return response.text()
+}
+
+/**
+ * Refresh every channel of a feeds object; failures keep the cached videos
+ */
+export const fetchFeeds = async (feeds, feedUrl = DEFAULT_FEED_URL) => {
+  const result = {}
+  for (const [channelId, cached] of Object.entries(feeds)) {
+    try {
+      const videos = parseFeed(await readFeed(channelId, feedUrl))
+      if (videos.length === 0) throw new Error('no videos in the feed')
+      result[channelId] = videos
+      console.log(\`\${channelId}: \${videos.length} videos\`)
+    } catch (error) {
+      result[channelId] = cached
+      // fetch() hides network errors behind "fetch failed"
+      const reason = error.cause?.message ?? error.message
+      console.warn(\`\${channelId}: kept \${cached.length} cached videos (\${reason})\`)
+    }
+  }
+  return result
+}
+
+const getFeedUrl = (args) => {
+  const index = args.indexOf('--feed-url')
+  if (index === -1) return process.env.YOUTUBE_FEED_URL || DEFAULT_FEED_URL
+  if (!args[index + 1]) throw new Error('--feed-url needs a value')
+  return args[index + 1]
+}
+
+// Only when run directly: the functions above can be imported on their own
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const feedUrl = getFeedUrl(process.argv.slice(2))
+  const feeds = JSON.parse(await fs.readFile(feedsFile, 'utf8'))
+  await fs.writeFile(feedsFile, \`\${JSON.stringify(await fetchFeeds(feeds, feedUrl), null, 2)}\\n\`)
+}
+`;
@@ -0,0 +1,33 @@
+/**
+ * Caching rules shared by the deployment targets
+ *
+ * Vite writes its content-hashed bundles to `static/`, so they can be cached
+ * forever. Exported images keep their names across exports and are revalidated
+ * hourly; the page itself always is.
+ */
+
+export const BUILD_ASSETS_DIR = 'static';
+
+export const CACHE_CONTROL_IMMUTABLE = 'public, max-age=31536000, immutable';
+export const CACHE_CONTROL_IMAGES = 'public, max-age=3600';
+export const CACHE_CONTROL_PAGE = 'no-cache';
+
+/**
+ * Add the cache locations to an nginx server block, in front of the page fallback
+ */
+export const withCacheRules = (nginxConf: string): string =>
+  nginxConf.replace(
+    '  location / {',
+    `  location /${BUILD_ASSETS_DIR}/ {
+    add_header Cache-Control "${CACHE_CONTROL_IMMUTABLE}";
+    try_files $uri =404;
+  }
+
+  location /assets/ {
+    add_header Cache-Control "${CACHE_CONTROL_IMAGES}";
+    try_files $uri =404;
+  }
+
+  location / {
+    add_header Cache-Control "${CACHE_CONTROL_PAGE}";`
+  );
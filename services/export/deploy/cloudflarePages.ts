@@ -0,0 +1,30 @@
+/**
+ * Cloudflare Pages deployment configuration
+ */
+
+import {
+  BUILD_ASSETS_DIR,
+  CACHE_CONTROL_IMAGES,
+  CACHE_CONTROL_IMMUTABLE,
+  CACHE_CONTROL_PAGE,
+} from './caching';
+
+// _headers goes in public/, which Vite copies to dist/. No _redirects: without a
+// top-level 404.html, Pages already serves the page for unknown paths.
+export const CLOUDFLARE_HEADERS = `/${BUILD_ASSETS_DIR}/*
+  Cache-Control: ${CACHE_CONTROL_IMMUTABLE}
+
+/assets/*
+  Cache-Control: ${CACHE_CONTROL_IMAGES}
+
+/
+  Cache-Control: ${CACHE_CONTROL_PAGE}
+
+/index.html
+  Cache-Control: ${CACHE_CONTROL_PAGE}
+`;
+
+export const getWranglerToml = (name: string): string => `name = "${name}"
+pages_build_output_dir = "./dist"
+compatibility_date = "2026-10-19"
+`;
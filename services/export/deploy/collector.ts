@@ -0,0 +1,701 @@
+/**
+ * Self-hosted analytics collector, shipped with the Docker and VPS exports
+ *
+ * A small Node server replacing the Supabase Edge Functions: it takes the same
+ * track payload, stores events in SQLite and answers the same summary JSON as
+ * openbento-analytics-admin. It only uses Node built-ins (node:sqlite needs 22.13+).
+ */
+
+import { COLLECTOR_PATH, COLLECTOR_PORT } from '../../../utils/analytics';
+
+export const generateCollectorServer =
+  (): string => `// OpenBento analytics collector (exported from OpenBento)
+//
+//   POST /track                   Public, called by the page (same payload as openbento-analytics-track)
+//   GET  /summary?siteId=&days=   Admin, same JSON as openbento-analytics-admin
+//   GET  /events?siteId=&days=    Admin, raw events for the OpenBento analytics dashboard;
+//                                 narrow them with &day=YYYY-MM-DD&type=click&blockId=&limit=
+//
+// Admin requests need the token in the x-openbento-admin-token header (or as a Bearer token).
+//
+// Environment:
+//   OPENBENTO_ANALYTICS_ADMIN_TOKEN   required
+//   OPENBENTO_ANALYTICS_DB            SQLite file (default ./data/analytics.db)
+//   OPENBENTO_ANALYTICS_ORIGIN        allowed CORS origin (default *)
+//   OPENBENTO_ANALYTICS_ALLOWED_ORIGINS  optional page origins per site, as JSON:
+//                                        {"my-site-id": ["https://example.com"]}
+//
+// Bots, clients over the rate limit, pages outside a site's allowed origins and repeated
+// page views are not stored: they are only counted per site, day and reason.
+//   PORT                              default ${COLLECTOR_PORT}
+
+import { createServer } from 'node:http';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { DatabaseSync } from 'node:sqlite';
+
+const PORT = Number(process.env.PORT) || ${COLLECTOR_PORT};
+const DB_PATH = process.env.OPENBENTO_ANALYTICS_DB || './data/analytics.db';
+const ADMIN_TOKEN = process.env.OPENBENTO_ANALYTICS_ADMIN_TOKEN || '';
+const ALLOWED_ORIGIN = process.env.OPENBENTO_ANALYTICS_ORIGIN || '*';
+
+if (!ADMIN_TOKEN) {
+  console.error('Missing OPENBENTO_ANALYTICS_ADMIN_TOKEN');
+  process.exit(1);
+}
+
+let ALLOWED_PAGE_ORIGINS = {};
+try {
+  ALLOWED_PAGE_ORIGINS = JSON.parse(process.env.OPENBENTO_ANALYTICS_ALLOWED_ORIGINS || '{}');
+} catch {
+  console.error('OPENBENTO_ANALYTICS_ALLOWED_ORIGINS must be a JSON object');
+  process.exit(1);
+}
+
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_ROWS = 10000;
+const TRACK_EVENTS = ['page_view', 'click', 'session_end'];
+
+// A session counts as engaged when the visitor stayed and scrolled past these thresholds
+const ENGAGED_MIN_SECONDS = 10;
+const ENGAGED_MIN_SCROLL = 25;
+const MAX_SESSION_SECONDS = 24 * 60 * 60;
+
+// Events per hashed client IP and site, per window
+const RATE_LIMIT_EVENTS = 60;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// A page view repeating the visitor's previous one within this window is dropped
+const DUPLICATE_WINDOW_MS = 30 * 1000;
+
+// Crawlers, link-preview fetchers, headless browsers and HTTP libraries
+const BOT_USER_AGENT =
+  /bot\\b|crawl|spider|slurp|scrap|facebookexternalhit|facebookcatalog|embedly|preview|whatsapp|skypeuripreview|vkshare|outbrain|quora link|headless|phantomjs|puppeteer|playwright|selenium|lighthouse|pagespeed|gtmetrix|pingdom|uptime|monitor|curl\\/|wget\\/|python|java\\/|go-http-client|okhttp|axios|node-fetch|undici|libwww|httpclient|postman/i;
+
+// Client IPs are only kept hashed, in memory, with a salt that changes on restart
+const IP_SALT = randomBytes(16).toString('hex');
+const FILTER_KEYS = { bot: 'bot', rate_limit: 'rateLimit', origin: 'origin', duplicate: 'duplicate' };
+
+// Same columns (and order) as public.openbento_analytics_events in Supabase
+const COLUMNS = [
+  'id',
+  'created_at',
+  'site_id',
+  'event_type',
+  'block_id',
+  'destination_url',
+  'page_url',
+  'referrer',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'user_agent',
+  'language',
+  'screen_w',
+  'screen_h',
+  'visitor_id',
+  'session_id',
+  'viewport_w',
+  'viewport_h',
+  'timezone',
+  'duration_seconds',
+  'scroll_depth',
+  'engaged',
+  'block_title',
+];
+
+mkdirSync(dirname(DB_PATH), { recursive: true });
+const db = new DatabaseSync(DB_PATH);
+db.exec(\`
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS openbento_analytics_events (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    site_id TEXT NOT NULL,
+    event_type TEXT NOT NULL CHECK (event_type IN ('page_view', 'click', 'session_end')),
+    block_id TEXT,
+    destination_url TEXT,
+    page_url TEXT,
+    referrer TEXT,
+    utm_source TEXT,
+    utm_medium TEXT,
+    utm_campaign TEXT,
+    utm_term TEXT,
+    utm_content TEXT,
+    user_agent TEXT,
+    language TEXT,
+    screen_w INTEGER,
+    screen_h INTEGER,
+    visitor_id TEXT,
+    session_id TEXT,
+    viewport_w INTEGER,
+    viewport_h INTEGER,
+    timezone TEXT,
+    duration_seconds INTEGER,
+    scroll_depth INTEGER CHECK (scroll_depth IS NULL OR scroll_depth BETWEEN 0 AND 100),
+    engaged INTEGER NOT NULL DEFAULT 0,
+    block_title TEXT
+  );
+  CREATE INDEX IF NOT EXISTS openbento_analytics_events_site_time_idx
+    ON openbento_analytics_events (site_id, created_at DESC);
+  CREATE INDEX IF NOT EXISTS openbento_analytics_events_site_visitor_time_idx
+    ON openbento_analytics_events (site_id, visitor_id, created_at DESC)
+    WHERE event_type = 'page_view';
+  CREATE TABLE IF NOT EXISTS openbento_analytics_filtered (
+    site_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('bot', 'rate_limit', 'origin', 'duplicate')),
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (site_id, day, reason)
+  );
+\`);
+
+const insertEvent = db.prepare(
+  'INSERT INTO openbento_analytics_events (' +
+    COLUMNS.join(', ') +
+    ') VALUES (' +
+    COLUMNS.map(() => '?').join(', ') +
+    ')'
+);
+const selectDaily = db.prepare(
+  "SELECT substr(created_at, 1, 10) AS day, " +
+    "SUM(event_type = 'page_view') AS pageViews, " +
+    "SUM(event_type = 'click') AS clicks, " +
+    "COUNT(DISTINCT CASE WHEN event_type = 'page_view' THEN visitor_id END) AS visitors, " +
+    "SUM(event_type = 'session_end') AS sessions, " +
+    "SUM(event_type = 'session_end' AND engaged = 1) AS engagedSessions, " +
+    "TOTAL(CASE WHEN event_type = 'session_end' THEN duration_seconds END) AS durationSeconds, " +
+    "TOTAL(CASE WHEN event_type = 'session_end' THEN scroll_depth END) AS scrollDepthTotal, " +
+    "COUNT(CASE WHEN event_type = 'session_end' THEN scroll_depth END) AS scrollDepthSessions " +
+    'FROM openbento_analytics_events WHERE created_at >= ? AND (site_id = ? OR ? IS NULL) GROUP BY day ORDER BY day'
+);
+// Daily visitors can't be summed: returning visitors would count once per day
+const selectVisitors = db.prepare(
+  'SELECT COUNT(DISTINCT visitor_id) AS visitors FROM openbento_analytics_events ' +
+    "WHERE created_at >= ? AND (site_id = ? OR ? IS NULL) AND event_type = 'page_view'"
+);
+const selectClickCounts = db.prepare(
+  'SELECT block_id AS blockId, destination_url AS destinationUrl, MAX(block_title) AS title, COUNT(*) AS count ' +
+    "FROM openbento_analytics_events WHERE site_id = ? AND created_at >= ? AND event_type = 'click' " +
+    'GROUP BY block_id, destination_url'
+);
+// Page view breakdowns, grouped by the raw value; the summary merges and ranks them
+const PAGE_VIEW_DIMENSIONS = {
+  referrer: 'referrer',
+  utmSource: 'utm_source',
+  utmMedium: 'utm_medium',
+  utmCampaign: 'utm_campaign',
+  // Without screen or viewport size the device can't be told
+  device:
+    "CASE WHEN COALESCE(NULLIF(screen_w, 0), NULLIF(viewport_w, 0)) IS NULL THEN 'unknown' " +
+    "WHEN COALESCE(NULLIF(screen_w, 0), viewport_w) >= 1024 THEN 'desktop' " +
+    "WHEN COALESCE(NULLIF(screen_w, 0), viewport_w) >= 768 THEN 'tablet' ELSE 'mobile' END",
+  language: "COALESCE(language, 'unknown')",
+};
+const selectPageViewCounts = Object.fromEntries(
+  Object.entries(PAGE_VIEW_DIMENSIONS).map(([key, expression]) => [
+    key,
+    db.prepare(
+      'SELECT ' +
+        expression +
+        ' AS value, COUNT(*) AS count FROM openbento_analytics_events ' +
+        "WHERE site_id = ? AND created_at >= ? AND event_type = 'page_view' AND value IS NOT NULL " +
+        'GROUP BY value'
+    ),
+  ])
+);
+const selectRecentPageView = db.prepare(
+  "SELECT 1 FROM openbento_analytics_events WHERE site_id = ? AND event_type = 'page_view' AND visitor_id = ? AND page_url IS ? AND created_at >= ? LIMIT 1"
+);
+const countFiltered = db.prepare(
+  'INSERT INTO openbento_analytics_filtered (site_id, day, reason, count) VALUES (?, ?, ?, 1) ' +
+    'ON CONFLICT (site_id, day, reason) DO UPDATE SET count = count + 1'
+);
+const selectFiltered = db.prepare(
+  'SELECT reason, SUM(count) AS count FROM openbento_analytics_filtered WHERE day >= ? AND (site_id = ? OR ? IS NULL) GROUP BY reason'
+);
+
+const clampText = (value, maxLen) => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return trimmed.length > maxLen ? trimmed.slice(0, maxLen) : trimmed;
+};
+
+const clampInt = (value, maxAbs) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  const n = Math.trunc(value);
+  if (Math.abs(n) > maxAbs) return null;
+  return n;
+};
+
+// Visitor / session ids are random client-generated tokens
+const clampId = (value) => {
+  const id = clampText(value, 64);
+  return id && /^[A-Za-z0-9_-]+$/.test(id) ? id : null;
+};
+
+const clampRange = (value, min, max) => {
+  const n = clampInt(value, Math.max(Math.abs(min), Math.abs(max)));
+  if (n === null || n < min || n > max) return null;
+  return n;
+};
+
+const isBot = (userAgent) => !userAgent || BOT_USER_AGENT.test(userAgent);
+
+const toOrigin = (value) => {
+  if (!value) return null;
+  try {
+    return new URL(value).origin.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+const isOriginAllowed = (siteId, origin) => {
+  const list = ALLOWED_PAGE_ORIGINS[siteId];
+  const allowed = Array.isArray(list) ? list.map(toOrigin).filter(Boolean) : [];
+  return allowed.length === 0 || (!!origin && allowed.includes(origin));
+};
+
+// nginx appends the address it saw last to x-forwarded-for: earlier entries can be forged
+const getClientIp = (req) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const last = typeof forwarded === 'string' ? forwarded.split(',').pop().trim() : '';
+  return last || req.socket.remoteAddress || 'unknown';
+};
+
+const rateLimits = new Map();
+
+const isWithinRateLimit = (req, siteId) => {
+  const key = createHash('sha256')
+    .update(IP_SALT + ':' + siteId + ':' + getClientIp(req))
+    .digest('hex');
+  const now = Date.now();
+  const entry = rateLimits.get(key);
+  if (!entry || entry.windowStart <= now - RATE_LIMIT_WINDOW_MS) {
+    rateLimits.set(key, { windowStart: now, count: 1 });
+    return true;
+  }
+  entry.count += 1;
+  return entry.count <= RATE_LIMIT_EVENTS;
+};
+
+// Forget ended windows
+setInterval(() => {
+  const ended = Date.now() - RATE_LIMIT_WINDOW_MS;
+  for (const [key, entry] of rateLimits) {
+    if (entry.windowStart <= ended) rateLimits.delete(key);
+  }
+}, RATE_LIMIT_WINDOW_MS).unref();
+
+const isDuplicatePageView = (siteId, visitorId, pageUrl) => {
+  if (!visitorId) return false;
+  const since = new Date(Date.now() - DUPLICATE_WINDOW_MS).toISOString();
+  return !!selectRecentPageView.get(siteId, visitorId, pageUrl, since);
+};
+
+const readFiltered = (siteId, sinceDay) => {
+  const filtered = { total: 0, bot: 0, rateLimit: 0, origin: 0, duplicate: 0 };
+  for (const row of selectFiltered.all(sinceDay, siteId, siteId)) {
+    const key = FILTER_KEYS[row.reason];
+    if (!key) continue;
+    filtered[key] += row.count;
+    filtered.total += row.count;
+  }
+  return filtered;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'authorization, content-type, x-openbento-admin-token',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Content-Type': 'application/json',
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return reject(new Error('Payload Too Large'));
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isAdmin = (req) => {
+  const header = req.headers['x-openbento-admin-token'];
+  const auth = req.headers.authorization || '';
+  const token =
+    typeof header === 'string'
+      ? header.trim()
+      : auth.toLowerCase().startsWith('bearer ')
+        ? auth.slice(7).trim()
+        : '';
+  const given = Buffer.from(token);
+  const expected = Buffer.from(ADMIN_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const handleTrack = async (req, res) => {
+  let payload;
+  try {
+    payload = await readJson(req);
+  } catch {
+    return send(res, 400, { error: 'Invalid JSON' });
+  }
+  if (!payload || typeof payload !== 'object') return send(res, 400, { error: 'Invalid JSON' });
+
+  const siteId = clampText(payload.siteId, 128);
+  if (!siteId) return send(res, 400, { error: 'Missing siteId' });
+
+  const event = TRACK_EVENTS.includes(payload.event) ? payload.event : null;
+  if (!event) return send(res, 400, { error: 'Invalid event' });
+
+  const visitorId = clampId(payload.visitorId);
+  const pageUrl = clampText(payload.pageUrl, 2048);
+  const userAgent = clampText(req.headers['user-agent'], 512);
+
+  // Dropped events are only counted; the client gets no error to retry on
+  const filter = (reason) => {
+    countFiltered.run(siteId, new Date().toISOString().slice(0, 10), reason);
+    return send(res, reason === 'rate_limit' ? 429 : 200, { ok: true, filtered: reason });
+  };
+
+  if (isBot(userAgent)) return filter('bot');
+  const origin = toOrigin(req.headers.origin) ?? toOrigin(pageUrl);
+  if (!isOriginAllowed(siteId, origin)) return filter('origin');
+  if (!isWithinRateLimit(req, siteId)) return filter('rate_limit');
+  if (event === 'page_view' && isDuplicatePageView(siteId, visitorId, pageUrl)) {
+    return filter('duplicate');
+  }
+
+  const durationSeconds =
+    event === 'session_end' ? clampRange(payload.durationSeconds, 0, MAX_SESSION_SECONDS) : null;
+  const scrollDepth = event === 'session_end' ? clampRange(payload.scrollDepth, 0, 100) : null;
+  if (event === 'session_end' && durationSeconds === null) {
+    return send(res, 400, { error: 'Invalid durationSeconds' });
+  }
+  const engaged =
+    event === 'session_end' &&
+    (durationSeconds ?? 0) > ENGAGED_MIN_SECONDS &&
+    (scrollDepth ?? 0) > ENGAGED_MIN_SCROLL;
+
+  const utm = payload.utm && typeof payload.utm === 'object' ? payload.utm : {};
+  const acceptLanguage = req.headers['accept-language'];
+  const row = {
+    id: randomUUID(),
+    created_at: new Date().toISOString(),
+    site_id: siteId,
+    event_type: event,
+    block_id: event === 'click' ? clampText(payload.blockId, 128) : null,
+    destination_url: event === 'click' ? clampText(payload.destinationUrl, 2048) : null,
+    page_url: pageUrl,
+    referrer: clampText(payload.referrer, 2048),
+    utm_source: clampText(utm.source, 128),
+    utm_medium: clampText(utm.medium, 128),
+    utm_campaign: clampText(utm.campaign, 128),
+    utm_term: clampText(utm.term, 128),
+    utm_content: clampText(utm.content, 128),
+    user_agent: userAgent,
+    language:
+      clampText(payload.language, 32) ??
+      clampText(typeof acceptLanguage === 'string' ? acceptLanguage.split(',')[0] : null, 32),
+    screen_w: clampInt(payload.screenW, 100000),
+    screen_h: clampInt(payload.screenH, 100000),
+    visitor_id: visitorId,
+    session_id: clampId(payload.sessionId),
+    viewport_w: clampInt(payload.viewportW, 100000),
+    viewport_h: clampInt(payload.viewportH, 100000),
+    timezone: clampText(payload.timezone, 64),
+    duration_seconds: durationSeconds,
+    scroll_depth: scrollDepth,
+    engaged: engaged ? 1 : 0,
+    block_title: event === 'click' ? clampText(payload.blockTitle, 256) : null,
+  };
+
+  try {
+    insertEvent.run(...COLUMNS.map((column) => row[column]));
+  } catch {
+    return send(res, 500, { error: 'Insert failed' });
+  }
+  send(res, 200, { ok: true });
+};
+
+const readRange = (url) => {
+  const siteId = clampText(url.searchParams.get('siteId'), 128);
+  const days = clampRange(Number(url.searchParams.get('days') || 30), 1, 365) ?? 30;
+  // The last \`days\` UTC days, today included
+  const sinceDay = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const since = \`\${sinceDay}T00:00:00.000Z\`;
+  return { siteId, days, since, filtered: readFiltered(siteId, sinceDay) };
+};
+
+const toHost = (referrer) => {
+  try {
+    return new URL(referrer).hostname;
+  } catch {
+    return referrer;
+  }
+};
+
+// Merges grouped counts under a key, top 10 first
+const top = (rows, keyOf = (value) => value) => {
+  const counts = new Map();
+  for (const row of rows) {
+    const key = keyOf(row.value);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + row.count);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10);
+};
+
+// Totals and daily series of a range, for one site or all of them
+const readDaily = (siteId, since) => {
+  const totals = {
+    pageViews: 0,
+    clicks: 0,
+    visitors: selectVisitors.get(since, siteId, siteId).visitors,
+    sessions: 0,
+    engagedSessions: 0,
+    avgDurationSeconds: 0,
+    avgScrollDepth: 0,
+  };
+  let durationSeconds = 0;
+  let scrollDepthTotal = 0;
+  let scrollDepthSessions = 0;
+  const series = selectDaily.all(since, siteId, siteId).map((d) => {
+    totals.pageViews += d.pageViews;
+    totals.clicks += d.clicks;
+    totals.sessions += d.sessions;
+    totals.engagedSessions += d.engagedSessions;
+    durationSeconds += d.durationSeconds;
+    scrollDepthTotal += d.scrollDepthTotal;
+    scrollDepthSessions += d.scrollDepthSessions;
+    return { day: d.day, pageViews: d.pageViews, clicks: d.clicks, visitors: d.visitors };
+  });
+  if (totals.sessions > 0) totals.avgDurationSeconds = Math.round(durationSeconds / totals.sessions);
+  if (scrollDepthSessions > 0) {
+    totals.avgScrollDepth = Math.round(scrollDepthTotal / scrollDepthSessions);
+  }
+  return { totals, series };
+};
+
+// Answered with aggregate queries: no row limit, whatever the range
+const handleSummary = (url, res) => {
+  const { siteId, days, since, filtered } = readRange(url);
+  if (!siteId) return send(res, 400, { error: 'Missing siteId' });
+
+  const { totals, series } = readDaily(siteId, since);
+  const clicks = selectClickCounts.all(siteId, since);
+  const titles = new Map(clicks.filter((c) => c.title).map((c) => [c.blockId, c.title]));
+  const pageViews = (key) => selectPageViewCounts[key].all(siteId, since);
+  const values = (key) => top(pageViews(key)).map(([value, count]) => ({ value, pageViews: count }));
+
+  send(res, 200, {
+    ok: true,
+    siteId,
+    rangeDays: days,
+    totals,
+    series,
+    topDestinations: top(
+      clicks.map((c) => ({ value: c.destinationUrl ?? c.blockId, count: c.count }))
+    ).map(([key, count]) => ({ key, clicks: count })),
+    topReferrers: top(pageViews('referrer'), toHost).map(([host, count]) => ({
+      host,
+      pageViews: count,
+    })),
+    topBlocks: top(clicks.map((c) => ({ value: c.blockId, count: c.count }))).map(
+      ([blockId, count]) => ({ blockId, title: titles.get(blockId) ?? blockId, clicks: count })
+    ),
+    utm: {
+      sources: values('utmSource'),
+      mediums: values('utmMedium'),
+      campaigns: values('utmCampaign'),
+    },
+    devices: top(pageViews('device')).map(([device, count]) => ({ device, pageViews: count })),
+    languages: top(pageViews('language'), (value) => value.split('-')[0]).map(
+      ([language, count]) => ({ language, pageViews: count })
+    ),
+    filtered,
+    sampled: false,
+  });
+};
+
+// Raw events of the range, or of one day, event type or block (drill-down)
+const handleEvents = (url, res) => {
+  const { siteId, since, filtered } = readRange(url);
+  const day = url.searchParams.get('day');
+  const type = url.searchParams.get('type');
+  const blockId = clampText(url.searchParams.get('blockId'), 128);
+  const limit = clampRange(Number(url.searchParams.get('limit') || MAX_ROWS), 1, MAX_ROWS) ?? MAX_ROWS;
+  if (day && !/^\\d{4}-\\d{2}-\\d{2}$/.test(day)) return send(res, 400, { error: 'Invalid day' });
+  if (type && !TRACK_EVENTS.includes(type)) return send(res, 400, { error: 'Invalid type' });
+
+  const where = ['created_at >= ?'];
+  const params = [since];
+  if (day) {
+    where.splice(0, 1, 'substr(created_at, 1, 10) = ?');
+    params.splice(0, 1, day);
+  }
+  if (siteId) {
+    where.push('site_id = ?');
+    params.push(siteId);
+  }
+  if (type) {
+    where.push('event_type = ?');
+    params.push(type);
+  }
+  if (blockId) {
+    where.push('block_id = ?');
+    params.push(blockId);
+  }
+  const rows = db
+    .prepare(
+      'SELECT * FROM openbento_analytics_events WHERE ' +
+        where.join(' AND ') +
+        ' ORDER BY created_at DESC LIMIT ' +
+        limit
+    )
+    .all(...params);
+  const events = rows.map((row) => ({ ...row, engaged: row.engaged === 1 }));
+  // Complete counts of the range: the events may stop at the row limit
+  const summary = readDaily(siteId, since);
+  send(res, 200, { ok: true, events, count: events.length, summary, filtered });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const route = url.pathname.replace(/\\/+$/, '') || '/';
+
+  if (req.method === 'OPTIONS') return send(res, 204, null);
+
+  try {
+    if (route === '/track') {
+      if (req.method !== 'POST') return send(res, 405, { error: 'Method Not Allowed' });
+      return await handleTrack(req, res);
+    }
+    if (route === '/summary' || route === '/events') {
+      if (req.method !== 'GET') return send(res, 405, { error: 'Method Not Allowed' });
+      if (!isAdmin(req)) return send(res, 401, { error: 'Unauthorized' });
+      return route === '/summary' ? handleSummary(url, res) : handleEvents(url, res);
+    }
+    send(res, 404, { error: 'Not Found' });
+  } catch {
+    send(res, 500, { error: 'Query failed' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log('OpenBento analytics collector listening on port ' + PORT);
+});
+
+const shutdown = () => {
+  server.close(() => {
+    db.close();
+    process.exit(0);
+  });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+`;
+
+export const COLLECTOR_DOCKERFILE = `FROM node:22-alpine
+WORKDIR /app
+COPY server.mjs ./
+RUN mkdir /data && chown node:node /data
+ENV OPENBENTO_ANALYTICS_DB=/data/analytics.db
+VOLUME /data
+USER node
+EXPOSE ${COLLECTOR_PORT}
+CMD ["node", "server.mjs"]
+`;
+
+const COMPOSE_COLLECTOR_SERVICE = `  collector:
+    build: ./collector
+    environment:
+      OPENBENTO_ANALYTICS_ADMIN_TOKEN: \${OPENBENTO_ANALYTICS_ADMIN_TOKEN:?Set OPENBENTO_ANALYTICS_ADMIN_TOKEN}
+    volumes:
+      - analytics-data:/data
+    restart: unless-stopped
+
+volumes:
+  analytics-data:
+`;
+
+// Page and collector side by side; nginx proxies ${COLLECTOR_PATH}/ to the collector
+export const DOCKER_COMPOSE_WITH_COLLECTOR = `services:
+  web:
+    build: .
+    ports:
+      - '8080:80'
+    depends_on:
+      - collector
+    restart: unless-stopped
+
+${COMPOSE_COLLECTOR_SERVICE}`;
+
+// Same for the static page: nothing to build, nginx serves the page and its assets
+export const STATIC_DOCKER_COMPOSE_WITH_COLLECTOR = `services:
+  web:
+    image: nginx:alpine
+    ports:
+      - '8080:80'
+    volumes:
+      - ./index.html:/usr/share/nginx/html/index.html:ro
+      - ./assets:/usr/share/nginx/html/assets:ro
+      - ./nginx.conf:/etc/nginx/conf.d/default.conf:ro
+    depends_on:
+      - collector
+    restart: unless-stopped
+
+${COMPOSE_COLLECTOR_SERVICE}`;
+
+export const COLLECTOR_SYSTEMD_UNIT = `[Unit]
+Description=OpenBento analytics collector
+After=network.target
+
+[Service]
+WorkingDirectory=/var/www/bento/collector
+ExecStart=/usr/bin/env node server.mjs
+Environment=PORT=${COLLECTOR_PORT}
+Environment=OPENBENTO_ANALYTICS_DB=/var/lib/openbento/analytics.db
+# Holds OPENBENTO_ANALYTICS_ADMIN_TOKEN=...
+EnvironmentFile=/etc/openbento-analytics.env
+StateDirectory=openbento
+DynamicUser=yes
+Restart=on-failure
+
+[Install]
+WantedBy=multi-user.target
+`;
+
+/**
+ * Add the collector location to an nginx server block, in front of the page fallback
+ */
+export const withCollectorProxy = (nginxConf: string, upstream: string): string =>
+  nginxConf.replace(
+    '  location / {',
+    `  location ${COLLECTOR_PATH}/ {
+    proxy_pass http://${upstream}/;
+    proxy_set_header Host $host;
+    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+  }
+
+  location / {`
+  );
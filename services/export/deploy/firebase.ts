@@ -0,0 +1,32 @@
+/**
+ * Firebase Hosting deployment configuration
+ */
+
+import {
+  BUILD_ASSETS_DIR,
+  CACHE_CONTROL_IMAGES,
+  CACHE_CONTROL_IMMUTABLE,
+  CACHE_CONTROL_PAGE,
+} from './caching';
+
+const cacheHeader = (source: string, value: string): string => `      {
+        "source": "${source}",
+        "headers": [{ "key": "Cache-Control", "value": "${value}" }]
+      }`;
+
+export const FIREBASE_JSON = `{
+  "hosting": {
+    "public": "dist",
+    "ignore": ["firebase.json", "**/.*", "**/node_modules/**"],
+    "rewrites": [{ "source": "**", "destination": "/index.html" }],
+    "headers": [
+${[
+  cacheHeader(`/${BUILD_ASSETS_DIR}/**`, CACHE_CONTROL_IMMUTABLE),
+  cacheHeader('/assets/**', CACHE_CONTROL_IMAGES),
+  cacheHeader('/', CACHE_CONTROL_PAGE),
+  cacheHeader('/index.html', CACHE_CONTROL_PAGE),
+].join(',\n')}
+    ]
+  }
+}
+`;
@@ -0,0 +1,22 @@
+/**
+ * Fly.io deployment configuration (the Docker image, with cache headers)
+ */
+
+import { NGINX_CONF } from './docker';
+import { withCacheRules } from './caching';
+
+export const FLY_NGINX_CONF = withCacheRules(NGINX_CONF);
+
+// Machines stop when idle and start on the next request
+export const getFlyToml = (name: string): string => `app = "${name}"
+
+[build]
+  dockerfile = "Dockerfile"
+
+[http_service]
+  internal_port = 80
+  force_https = true
+  auto_stop_machines = "stop"
+  auto_start_machines = true
+  min_machines_running = 0
+`;
@@ -2,11 +2,25 @@
  * Deployment configurations
  */
 
-export type { ExportDeploymentTarget } from './types';
+export type { ExportDeploymentTarget, ExportMode } from './types';
+export { DEPLOYMENT_TARGET_LABELS, isDeploymentTarget } from './types';
 export { VERCEL_JSON } from './vercel';
 export { NETLIFY_TOML } from './netlify';
 export { GITHUB_WORKFLOW_YAML } from './githubPages';
 export { NGINX_CONF, DOCKERFILE, DOCKERIGNORE } from './docker';
 export { getVpsNginxConf } from './vps';
+export {
+  generateCollectorServer,
+  COLLECTOR_DOCKERFILE,
+  COLLECTOR_SYSTEMD_UNIT,
+  DOCKER_COMPOSE_WITH_COLLECTOR,
+  STATIC_DOCKER_COMPOSE_WITH_COLLECTOR,
+  withCollectorProxy,
+} from './collector';
 export { HEROKU_STATIC_JSON } from './heroku';
-export { generateDeployMd } from './readme';
+export { CLOUDFLARE_HEADERS, getWranglerToml } from './cloudflarePages';
+export { FIREBASE_JSON } from './firebase';
+export { S3_BUCKET_POLICY, S3_DEPLOY_SCRIPT } from './s3';
+export { getRenderYaml } from './render';
+export { FLY_NGINX_CONF, getFlyToml } from './fly';
+export { generateDeployMd, generateStaticDeployMd } from './readme';
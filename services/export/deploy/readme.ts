@@ -2,11 +2,134 @@
  * Generate deployment README
  */
 
-import { ExportDeploymentTarget } from './types';
+import { DEPLOYMENT_TARGET_LABELS, ExportDeploymentTarget } from './types';
+import { COLLECTOR_PATH } from '../../../utils/analytics';
+
+const VPS_COLLECTOR_STEPS = `1. Install Node.js 22.13 or later
+2. Copy \`collector/\` to \`/var/www/bento/collector\` and \`collector/openbento-analytics.service\` to \`/etc/systemd/system/\`
+3. Write \`OPENBENTO_ANALYTICS_ADMIN_TOKEN=<any strong random string>\` to \`/etc/openbento-analytics.env\`
+4. Run \`systemctl enable --now openbento-analytics\``;
+
+// Files shipped next to a static page with the collector (Docker and VPS targets only)
+const STATIC_COLLECTOR_FILES: Partial<Record<ExportDeploymentTarget, string>> = {
+  docker: `
+- \`collector/\` - Analytics collector
+- \`nginx.conf\` - Serves the page and forwards analytics to the collector
+- \`docker-compose.yml\` - Runs the page and the collector`,
+  vps: `
+- \`collector/\` - Analytics collector
+- \`nginx.conf\` - Serves the page and forwards analytics to the collector`,
+};
+
+/**
+ * Setup of the self-hosted analytics collector (Docker and VPS targets only)
+ */
+const generateCollectorMd = (target: ExportDeploymentTarget, staticPage: boolean): string => {
+  const steps =
+    target === 'docker'
+      ? `\`\`\`bash
+export OPENBENTO_ANALYTICS_ADMIN_TOKEN=<any strong random string>
+docker compose up -d --build
+\`\`\`
+
+The page is served on port 8080 and nginx forwards \`${COLLECTOR_PATH}/\` to the collector.
+Events are kept in the \`analytics-data\` volume.`
+      : `${VPS_COLLECTOR_STEPS}
+
+The provided nginx config ${staticPage ? 'serves the page from `/var/www/bento` and ' : ''}forwards \`${COLLECTOR_PATH}/\` to the collector.`;
+
+  return `
+## Analytics
+
+Page views and clicks are sent to the self-hosted collector in \`collector/\`: a small
+Node.js server (22.13 or later, no dependencies) storing events in SQLite.
+
+${steps}
+
+The collector URL set in OpenBento must point there, e.g. \`https://<your-domain>${COLLECTOR_PATH}\`.
+Open **Analytics** in the builder with the same admin token to see the summary.
+`;
+};
+
+const PROJECT_TARGET_STEPS: Record<ExportDeploymentTarget, string> = {
+  vercel: `1. Push to GitHub
+2. Import in Vercel
+3. Deploy (auto-detected)`,
+  netlify: `1. Push to GitHub
+2. Import in Netlify
+3. Deploy (auto-detected)`,
+  'github-pages': `1. Push to GitHub
+2. Go to Settings → Pages → Source: GitHub Actions
+3. The included workflow will auto-deploy`,
+  docker: `\`\`\`bash
+docker build -t my-bento .
+docker run -p 8080:80 my-bento
+\`\`\``,
+  vps: `1. Copy files to your server
+2. Run \`npm install && npm run build\`
+3. Configure nginx with the provided config
+4. Point nginx root to the \`dist\` folder`,
+  heroku: `1. Create Heroku app
+2. Add buildpack: \`heroku/nodejs\`
+3. Push to Heroku`,
+  'cloudflare-pages': `From your machine:
+
+\`\`\`bash
+npm run build
+npx wrangler pages deploy
+\`\`\`
+
+Or push to GitHub and create a Pages project from it (build command \`npm run build\`,
+output directory \`dist\`). \`public/_headers\` sets the caching rules. Without a
+top-level \`404.html\`, Pages serves the page for unknown paths on its own.`,
+  firebase: `\`\`\`bash
+npm install -g firebase-tools
+firebase login
+firebase use --add   # Pick or create the Firebase project
+npm run build
+firebase deploy --only hosting
+\`\`\`
+
+\`firebase.json\` serves \`dist\`, sends unknown paths to the page and sets the caching rules.`,
+  s3: `One-time setup, with the AWS CLI:
+
+\`\`\`bash
+aws s3 mb s3://<bucket>
+aws s3api put-public-access-block --bucket <bucket> --public-access-block-configuration BlockPublicAcls=true,IgnorePublicAcls=true,BlockPublicPolicy=false,RestrictPublicBuckets=false
+aws s3 website s3://<bucket> --index-document index.html --error-document index.html
+\`\`\`
+
+Replace \`BUCKET_NAME\` in \`bucket-policy.json\` with your bucket, then run
+\`aws s3api put-bucket-policy --bucket <bucket> --policy file://bucket-policy.json\`.
+
+Deploy (and redeploy) with:
+
+\`\`\`bash
+sh deploy-s3.sh <bucket>
+\`\`\`
+
+The script builds the site and uploads it with the caching rules. For HTTPS and a custom
+domain, create a CloudFront distribution with the bucket's website endpoint as origin and a
+custom error response turning 404 into \`/index.html\` with status 200. Pass its id as the
+second argument (\`sh deploy-s3.sh <bucket> <distribution-id>\`) to invalidate the page after
+each deploy.`,
+  render: `1. Push to GitHub
+2. In Render, choose New → Blueprint and select the repository
+3. \`render.yaml\` creates a static site with the rewrite and caching rules`,
+  fly: `\`\`\`bash
+fly launch --copy-config --no-deploy   # Creates the app named in fly.toml
+fly deploy
+\`\`\`
+
+The app builds the included Dockerfile and serves the page with nginx, with the caching rules
+in \`nginx.conf\`. Machines stop when idle and start again on the next visit.`,
+};
 
 export const generateDeployMd = (params: {
   name: string;
   target: ExportDeploymentTarget;
+  collector?: boolean;
+  youtubeFeeds?: boolean;
 }): string => `# Deploy ${params.name}
 
 This is a React/Vite/Tailwind project exported from OpenBento.
@@ -16,62 +139,72 @@ This is a React/Vite/Tailwind project exported from OpenBento.
 \`\`\`bash
 npm install
 npm run dev     # Development server
-npm run build   # Production build
+npm run build   # Production build, prerendered to static HTML
 npm run preview # Preview production build
 \`\`\`
 
 ## Deployment
 
-### ${params.target.charAt(0).toUpperCase() + params.target.slice(1)}
+### ${DEPLOYMENT_TARGET_LABELS[params.target]}
 
 ${
-  params.target === 'vercel'
-    ? `1. Push to GitHub
-2. Import in Vercel
-3. Deploy (auto-detected)`
-    : ''
-}
-${
-  params.target === 'netlify'
-    ? `1. Push to GitHub
-2. Import in Netlify
-3. Deploy (auto-detected)`
-    : ''
-}
-${
-  params.target === 'github-pages'
-    ? `1. Push to GitHub
-2. Go to Settings → Pages → Source: GitHub Actions
-3. The included workflow will auto-deploy`
-    : ''
-}
-${
-  params.target === 'docker'
-    ? `\`\`\`bash
-docker build -t my-bento .
-docker run -p 8080:80 my-bento
-\`\`\``
-    : ''
-}
-${
-  params.target === 'vps'
-    ? `1. Copy files to your server
-2. Run \`npm install && npm run build\`
-3. Configure nginx with the provided config
-4. Point nginx root to the \`dist\` folder`
-    : ''
-}
-${
-  params.target === 'heroku'
-    ? `1. Create Heroku app
-2. Add buildpack: \`heroku/nodejs\`
-3. Push to Heroku`
-    : ''
+  params.target === 'docker' && params.collector
+    ? 'The page and the analytics collector run together with Docker Compose (see **Analytics** below).'
+    : PROJECT_TARGET_STEPS[params.target]
 }
 
 ## Files
 
 - \`src/App.tsx\` - Main component with all data embedded
-- \`src/index.css\` - Tailwind styles
-- \`public/assets/\` - Images (if any)
-`;
+- \`src/entry-server.tsx\` and \`prerender.js\` - Render the page into \`dist/index.html\` at build time
+- \`src/index.css\` - Tailwind styles${params.youtubeFeeds ? '\n- `scripts/fetch-youtube-feeds.js` - Fetches the latest YouTube videos into `src/youtube-feeds.json` before each build (`npm run youtube:fetch` to refresh it alone)' : ''}
+- \`public/assets/\` - Images (if any)${params.collector ? '\n- `collector/` - Analytics collector' : ''}
+${params.collector ? generateCollectorMd(params.target, false) : ''}`;
+
+const STATIC_TARGET_STEPS: Record<ExportDeploymentTarget, string> = {
+  vercel: `1. Install the CLI: \`npm i -g vercel\`
+2. Run \`vercel deploy --prod\` from this folder`,
+  netlify: `1. Open https://app.netlify.com/drop
+2. Drag and drop this folder`,
+  'github-pages': `1. Push these files to a repository
+2. Go to Settings → Pages → Source: Deploy from a branch`,
+  docker: `\`\`\`bash
+docker run -p 8080:80 -v "$PWD":/usr/share/nginx/html:ro nginx:alpine
+\`\`\``,
+  vps: `1. Copy these files to your server (e.g. \`/var/www/bento\`)
+2. Point your web server root to that folder`,
+  heroku: `1. Add an empty \`composer.json\` and an \`index.php\` containing \`<?php include_once('index.html');\`
+2. Create a Heroku app and push (the PHP buildpack serves the files)`,
+  'cloudflare-pages': `1. Run \`npx wrangler pages deploy . --project-name my-bento\` from this folder
+2. Or upload the folder in the dashboard: Workers & Pages → Create → Pages → Upload assets`,
+  firebase: `1. Run \`firebase init hosting\` in this folder (public directory: \`.\`, single-page app: No)
+2. Run \`firebase deploy --only hosting\``,
+  s3: `1. Create a bucket with static website hosting enabled (index document: \`index.html\`)
+2. Allow public reads with a bucket policy
+3. Run \`aws s3 sync . s3://<bucket> --exclude DEPLOY.md\` from this folder`,
+  render: `1. Push these files to a repository
+2. In Render, create a Static Site from it with an empty build command and \`.\` as publish directory`,
+  fly: `1. Add a \`Dockerfile\` containing \`FROM nginx:alpine\` and \`COPY . /usr/share/nginx/html\`
+2. Run \`fly launch\` from this folder`,
+};
+
+export const generateStaticDeployMd = (params: {
+  name: string;
+  target: ExportDeploymentTarget;
+  collector?: boolean;
+}): string => `# Deploy ${params.name}
+
+This is a static page exported from OpenBento. There is nothing to install or build:
+upload the folder as-is to any static host.
+
+## Deployment
+
+### ${DEPLOYMENT_TARGET_LABELS[params.target]}
+
+${STATIC_TARGET_STEPS[params.target]}
+
+## Files
+
+- \`index.html\` - The complete page, with inlined styles
+- \`assets/\` - Images (if any)${(params.collector && STATIC_COLLECTOR_FILES[params.target]) || ''}
+${params.collector ? generateCollectorMd(params.target, true) : ''}`;
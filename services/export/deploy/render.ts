@@ -0,0 +1,36 @@
+/**
+ * Render (static site) deployment configuration
+ */
+
+import {
+  BUILD_ASSETS_DIR,
+  CACHE_CONTROL_IMAGES,
+  CACHE_CONTROL_IMMUTABLE,
+  CACHE_CONTROL_PAGE,
+} from './caching';
+
+// Render applies rewrites only to paths without a file
+export const getRenderYaml = (name: string): string => `services:
+  - type: web
+    name: ${name}
+    runtime: static
+    buildCommand: npm install && npm run build
+    staticPublishPath: ./dist
+    routes:
+      - type: rewrite
+        source: /*
+        destination: /index.html
+    headers:
+      - path: /${BUILD_ASSETS_DIR}/*
+        name: Cache-Control
+        value: ${CACHE_CONTROL_IMMUTABLE}
+      - path: /assets/*
+        name: Cache-Control
+        value: ${CACHE_CONTROL_IMAGES}
+      - path: /
+        name: Cache-Control
+        value: ${CACHE_CONTROL_PAGE}
+      - path: /index.html
+        name: Cache-Control
+        value: ${CACHE_CONTROL_PAGE}
+`;
@@ -0,0 +1,46 @@
+/**
+ * AWS S3 (static website hosting, optionally behind CloudFront) deployment configuration
+ */
+
+import {
+  BUILD_ASSETS_DIR,
+  CACHE_CONTROL_IMAGES,
+  CACHE_CONTROL_IMMUTABLE,
+  CACHE_CONTROL_PAGE,
+} from './caching';
+
+// Public read access for the website endpoint; BUCKET_NAME is replaced by the user
+export const S3_BUCKET_POLICY = `{
+  "Version": "2012-10-17",
+  "Statement": [
+    {
+      "Sid": "PublicReadGetObject",
+      "Effect": "Allow",
+      "Principal": "*",
+      "Action": "s3:GetObject",
+      "Resource": "arn:aws:s3:::BUCKET_NAME/*"
+    }
+  ]
+}
+`;
+
+// New bundles are uploaded before the page that references them, and old ones
+// are removed last, so visitors never load a page with missing files
+export const S3_DEPLOY_SCRIPT = `#!/bin/sh
+# Usage: sh deploy-s3.sh <bucket> [cloudfront-distribution-id]
+set -e
+
+BUCKET="\${1:?Usage: sh deploy-s3.sh <bucket> [cloudfront-distribution-id]}"
+DISTRIBUTION_ID="$2"
+
+npm run build
+
+aws s3 sync dist/${BUILD_ASSETS_DIR} "s3://$BUCKET/${BUILD_ASSETS_DIR}" --cache-control "${CACHE_CONTROL_IMMUTABLE}"
+aws s3 sync dist "s3://$BUCKET" --delete --exclude "${BUILD_ASSETS_DIR}/*" --exclude "index.html" --cache-control "${CACHE_CONTROL_IMAGES}"
+aws s3 cp dist/index.html "s3://$BUCKET/index.html" --cache-control "${CACHE_CONTROL_PAGE}"
+aws s3 sync dist/${BUILD_ASSETS_DIR} "s3://$BUCKET/${BUILD_ASSETS_DIR}" --delete --cache-control "${CACHE_CONTROL_IMMUTABLE}"
+
+if [ -n "$DISTRIBUTION_ID" ]; then
+  aws cloudfront create-invalidation --distribution-id "$DISTRIBUTION_ID" --paths "/" "/index.html" "/assets/*"
+fi
+`;
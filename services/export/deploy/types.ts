@@ -8,4 +8,33 @@ export type ExportDeploymentTarget =
   | 'github-pages'
   | 'docker'
   | 'vps'
-  | 'heroku';
+  | 'heroku'
+  | 'cloudflare-pages'
+  | 'firebase'
+  | 's3'
+  | 'render'
+  | 'fly';
+
+// Display names, in the order of the deploy dialog
+export const DEPLOYMENT_TARGET_LABELS: Record<ExportDeploymentTarget, string> = {
+  vercel: 'Vercel',
+  netlify: 'Netlify',
+  'cloudflare-pages': 'Cloudflare Pages',
+  firebase: 'Firebase Hosting',
+  s3: 'AWS S3 / CloudFront',
+  render: 'Render',
+  fly: 'Fly.io',
+  docker: 'Docker (nginx)',
+  vps: 'VPS (nginx)',
+  heroku: 'Heroku',
+  'github-pages': 'GitHub Pages',
+};
+
+export const isDeploymentTarget = (value: unknown): value is ExportDeploymentTarget =>
+  typeof value === 'string' &&
+  Object.prototype.hasOwnProperty.call(DEPLOYMENT_TARGET_LABELS, value);
+
+/**
+ * Export format: a buildable React/Vite project, or a prebuilt static page
+ */
+export type ExportMode = 'project' | 'static';
@@ -3,7 +3,14 @@
  */
 
 import { NGINX_CONF } from './docker';
+import { withCollectorProxy } from './collector';
+import { COLLECTOR_PORT } from '../../../utils/analytics';
 
-export const getVpsNginxConf = (): string => {
-  return NGINX_CONF.replace('/usr/share/nginx/html', '/var/www/bento/dist');
+// The project is built on the server into dist/; a static page is served as uploaded
+export const getVpsNginxConf = (collector = false, staticPage = false): string => {
+  const conf = NGINX_CONF.replace(
+    '/usr/share/nginx/html',
+    staticPage ? '/var/www/bento' : '/var/www/bento/dist'
+  );
+  return collector ? withCollectorProxy(conf, `127.0.0.1:${COLLECTOR_PORT}`) : conf;
 };
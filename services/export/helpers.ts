@@ -35,3 +35,18 @@ export const escapeHtml = (value: string | undefined | null): string => {
     .replaceAll('"', '&quot;')
     .replaceAll("'", '&#39;');
 };
+
+/**
+ * App or project name for hosting providers: lowercase letters, digits and hyphens
+ */
+export const toServiceName = (name: string): string => {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return slug ? `${slug}-bento` : 'bento';
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SiteData } from '../../types';
+import { buildExportZip } from './build';
+import { getBackgroundImageCss } from './imageExtractor';
+
+// 1x1 transparent PNG
+const PNG =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const site: SiteData = {
+  profile: {
+    name: 'Jane',
+    bio: '',
+    avatarUrl: '',
+    theme: 'light',
+    primaryColor: 'blue',
+    backgroundImage: PNG,
+  },
+  blocks: [],
+};
+
+describe('getBackgroundImageCss', () => {
+  it('picks the narrowest variant covering the viewport, in modern formats', () => {
+    const css = getBackgroundImageCss('.page', 'assets/background.jpg', [
+      {
+        type: 'image/avif',
+        srcSet: 'assets/background-480w.avif 480w, assets/background-960w.avif 960w',
+      },
+      {
+        type: 'image/webp',
+        srcSet: 'assets/background-480w.webp 480w, assets/background-960w.webp 960w',
+      },
+    ]);
+    expect(css.split('\n')).toEqual([
+      '.page { background-image: url("assets/background.jpg"); }',
+      '@media (max-width: 960px) { .page { background-image: image-set(url("assets/background-960w.avif") type("image/avif"), url("assets/background-960w.webp") type("image/webp")); } }',
+      '@media (max-width: 480px) { .page { background-image: image-set(url("assets/background-480w.avif") type("image/avif"), url("assets/background-480w.webp") type("image/webp")); } }',
+    ]);
+  });
+
+  it('encodes characters that would end the url or the style element', () => {
+    expect(getBackgroundImageCss('.page', 'https://example.com/a"b</style>.png')).toBe(
+      '.page { background-image: url("https://example.com/a%22b%3C/style%3E.png"); }'
+    );
+  });
+});
+
+describe('background image export', () => {
+  it('writes an uploaded background to the assets of the static page', async () => {
+    const zip = await buildExportZip(site, { mode: 'static' });
+    expect(zip.file('assets/background.png')).not.toBeNull();
+
+    const html = await zip.file('index.html')!.async('string');
+    expect(html).toContain('.page { background-image: url("assets/background.png"); }');
+    expect(html).not.toContain('data:image');
+  });
+
+  it('writes an uploaded background to the public assets of the project', async () => {
+    const zip = await buildExportZip(site);
+    expect(zip.file('public/assets/background.png')).not.toBeNull();
+
+    const app = await zip.file('src/App.tsx')!.async('string');
+    expect(app).toContain('background-image: url(\\"assets/background.png\\")');
+    expect(app).not.toContain('data:image');
+  });
+});
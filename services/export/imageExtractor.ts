@@ -3,40 +3,169 @@
  */
 
 import JSZip from 'jszip';
-import { SiteData } from '../../types';
+import { BlockType, SiteData } from '../../types';
+import { getGalleryImageKey } from '../../utils/gallery';
+import { createImageVariants } from '../imageService';
 import { base64ToBlob } from './helpers';
 
 export interface ImageMap {
   [key: string]: string;
 }
 
+// Alternative encodings of an image, for <source> elements: one srcset per format
+export interface ImageSource {
+  type: string;
+  srcSet: string;
+}
+
+export interface ImageSourceMap {
+  [key: string]: ImageSource[];
+}
+
+export interface ExtractedImages {
+  imageMap: ImageMap;
+  imageSources: ImageSourceMap;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const getExtension = (blob: Blob): string => EXTENSIONS[blob.type] ?? 'png';
+
+// Desktop blocks share the width beside the 420px profile column (and its 3rem
+// padding) over 9 columns; smaller screens show them up to full width
+export const getImageSizes = (colSpan: number): string =>
+  `(min-width: 1024px) calc((100vw - 516px) * ${colSpan} / 9), 100vw`;
+
+// Quoted CSS url(); the characters that could end it (or a <style> element) are encoded
+const cssUrl = (path: string): string =>
+  `url("${path.replace(/["'\\<>\s]/g, encodeURIComponent)}")`;
+
+/**
+ * CSS for the page background image. CSS backgrounds have no srcset: media
+ * queries pick the smallest variant at least as wide as the viewport, in the
+ * first supported format, and wider screens get the original.
+ */
+export const getBackgroundImageCss = (
+  selector: string,
+  src: string,
+  sources: ImageSource[] = []
+): string => {
+  const candidates = new Map<number, string[]>();
+  for (const source of sources) {
+    for (const entry of source.srcSet.split(', ')) {
+      const [path, descriptor] = entry.split(' ');
+      const width = parseInt(descriptor, 10);
+      candidates.set(width, [
+        ...(candidates.get(width) ?? []),
+        `${cssUrl(path)} type("${source.type}")`,
+      ]);
+    }
+  }
+  // Narrowest last, so it wins where several queries match
+  const variants = Array.from(candidates.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(
+      ([width, urls]) =>
+        `@media (max-width: ${width}px) { ${selector} { background-image: image-set(${urls.join(', ')}); } }`
+    );
+  return [`${selector} { background-image: ${cssUrl(src)}; }`, ...variants].join('\n');
+};
+
+/**
+ * Add an image to the assets folder under its real extension. Responsive images
+ * also get sized variants in modern formats, returned as sources.
+ */
+const addImage = async (
+  assetsFolder: JSZip,
+  dataUrl: string,
+  baseName: string,
+  responsive: boolean
+): Promise<{ path: string; sources: ImageSource[] } | null> => {
+  const blob = base64ToBlob(dataUrl);
+  if (!blob) return null;
+  const filename = `${baseName}.${getExtension(blob)}`;
+  // JSZip reads Blobs with FileReader, which Node (the CLI) doesn't have
+  assetsFolder.file(filename, await blob.arrayBuffer());
+
+  const sources: ImageSource[] = [];
+  if (responsive) {
+    for (const variant of await createImageVariants(dataUrl)) {
+      const variantName = `${baseName}-${variant.width}w.${getExtension(variant.blob)}`;
+      assetsFolder.file(variantName, await variant.blob.arrayBuffer());
+      const entry = `/assets/${variantName} ${variant.width}w`;
+      const source = sources.find((s) => s.type === variant.type);
+      if (source) source.srcSet += `, ${entry}`;
+      else sources.push({ type: variant.type, srcSet: entry });
+    }
+  }
+  return { path: `/assets/${filename}`, sources };
+};
+
 /**
  * Extract all base64 images from SiteData and add them to a zip folder
- * Returns a mapping from image keys to their new paths
+ * Returns a mapping from image keys to their new paths, and the sources of
+ * block, gallery and background images
  */
-export function extractImages(data: SiteData, assetsFolder: JSZip | null): ImageMap {
+export async function extractImages(
+  data: SiteData,
+  assetsFolder: JSZip | null
+): Promise<ExtractedImages> {
   const imageMap: ImageMap = {};
+  const imageSources: ImageSourceMap = {};
+  if (!assetsFolder) return { imageMap, imageSources };
+
+  const add = async (key: string, dataUrl: string, baseName: string, responsive = false) => {
+    const added = await addImage(assetsFolder, dataUrl, baseName, responsive);
+    if (!added) return;
+    imageMap[key] = added.path;
+    if (added.sources.length > 0) imageSources[key] = added.sources;
+  };
 
   // Extract avatar if it's a base64 image
   if (data.profile.avatarUrl?.startsWith('data:image')) {
-    const blob = base64ToBlob(data.profile.avatarUrl);
-    if (blob && assetsFolder) {
-      assetsFolder.file('avatar.png', blob);
-      imageMap['profile_avatar'] = '/assets/avatar.png';
-    }
+    await add('profile_avatar', data.profile.avatarUrl, 'avatar');
+  }
+
+  // Extract the page background, the largest image of most pages
+  if (data.profile.backgroundImage?.startsWith('data:image')) {
+    await add('profile_background', data.profile.backgroundImage, 'background', true);
+  }
+
+  // Extract OpenGraph image if it's a base64 image (crawlers take a single URL)
+  if (data.profile.openGraph?.image?.startsWith('data:image')) {
+    await add('profile_og_image', data.profile.openGraph.image, 'og-image');
   }
 
   // Extract block images
   for (const block of data.blocks) {
     if (block.imageUrl?.startsWith('data:image')) {
-      const blob = base64ToBlob(block.imageUrl);
-      if (blob && assetsFolder) {
-        const filename = `block-${block.id}.png`;
-        assetsFolder.file(filename, blob);
-        imageMap[`block_${block.id}`] = `/assets/${filename}`;
-      }
+      // Link images are CSS backgrounds: only media blocks use the variants
+      await add(
+        `block_${block.id}`,
+        block.imageUrl,
+        `block-${block.id}`,
+        block.type === BlockType.MEDIA
+      );
+    }
+
+    // Gallery images, numbered in display order
+    for (const [index, image] of (block.galleryImages ?? []).entries()) {
+      if (!image.url?.startsWith('data:image')) continue;
+      await add(
+        getGalleryImageKey(block.id, image),
+        image.url,
+        `block-${block.id}-${index + 1}`,
+        true
+      );
     }
   }
 
-  return imageMap;
+  return { imageMap, imageSources };
 }
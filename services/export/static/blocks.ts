@@ -0,0 +1,423 @@
+/**
+ * Render blocks to plain HTML for the static export
+ */
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ChevronLeft, ChevronRight, Play, Youtube } from 'lucide-react';
+import {
+  BlockData,
+  BlockType,
+  GalleryImage,
+  LayoutBreakpoint,
+  SocialPlatform,
+} from '../../../types';
+import { buildSocialUrl, getSocialPlatformOption } from '../../../socialPlatforms';
+import {
+  isValidLocationString,
+  isValidYouTubeChannelId,
+  sanitizeUrl,
+} from '../../../utils/security';
+import { parseEmbedUrl } from '../../../utils/embed';
+import { getBlockRadius } from '../../../utils/theme';
+import { getImageAlt } from '../../../utils/accessibility';
+import {
+  resolveBlockBackground,
+  resolveBlockTextColor,
+  withColorScheme,
+} from '../../../utils/colorScheme';
+import {
+  getFocalPoint,
+  getGalleryAlt,
+  getGalleryImageKey,
+  getGalleryImages,
+  getGalleryInterval,
+} from '../../../utils/gallery';
+import { escapeHtml } from '../helpers';
+import { getImageSizes, ImageMap, ImageSource, ImageSourceMap } from '../imageExtractor';
+
+export type StyleMap = Record<string, string | number | undefined>;
+
+/**
+ * Where a block sits on the page: its grid position variables for every layout
+ * (see .bento-grid in styles.ts) and the breakpoints that hide it
+ */
+export interface BlockPlacement {
+  style: StyleMap;
+  hiddenOn: LayoutBreakpoint[];
+}
+
+/**
+ * Serialize a style map to an escaped inline style attribute value
+ */
+export const toStyleAttr = (style: StyleMap): string =>
+  escapeHtml(
+    Object.entries(style)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`)}: ${value}`)
+      .join('; ')
+  );
+
+// Quote a URL for use inside CSS url(...)
+const cssUrl = (url: string): string => `url("${url.replace(/["\\\n\r]/g, encodeURIComponent)}")`;
+
+/**
+ * Render a social platform icon to an inline SVG string
+ */
+export const renderPlatformIcon = (platform: SocialPlatform | undefined, size: number): string => {
+  const option = getSocialPlatformOption(platform);
+  const Icon = option?.brandIcon || option?.icon;
+  if (!Icon) return '';
+  return renderToStaticMarkup(createElement(Icon, { size, 'aria-hidden': true }));
+};
+
+/**
+ * Render a Lucide icon to an inline SVG string
+ */
+export const renderLucideIcon = (
+  Icon: typeof Play,
+  size: number,
+  fill?: string,
+  className?: string
+): string =>
+  renderToStaticMarkup(
+    createElement(Icon, {
+      size,
+      ...(fill ? { fill } : {}),
+      ...(className ? { className } : {}),
+      'aria-hidden': true,
+    })
+  );
+
+/**
+ * Background and text color of a block. With dark mode, the values of both schemes
+ * are set as `variables` and the colors read the one the stylesheet picks.
+ */
+const resolveColors = (
+  block: BlockData,
+  darkMode: boolean
+): { background: string; color: string; variables: StyleMap } => {
+  const background = resolveBlockBackground(block);
+  const color = resolveBlockTextColor(block);
+  if (!darkMode) return { background, color, variables: {} };
+  const dark = withColorScheme(block, 'dark');
+  return {
+    background: 'var(--block-background)',
+    color: 'var(--block-color)',
+    variables: {
+      '--light-background': background,
+      '--dark-background': resolveBlockBackground(dark),
+      '--light-color': color,
+      '--dark-color': resolveBlockTextColor(dark),
+    },
+  };
+};
+
+const getSizeTier = (block: BlockData): 'xs' | 'sm' | 'md' | 'lg' => {
+  const minDim = Math.min(block.colSpan, block.rowSpan);
+  const area = block.colSpan * block.rowSpan;
+  if (minDim <= 1 || area <= 4) return 'xs';
+  if (minDim <= 2 || area <= 8) return 'sm';
+  if (minDim <= 3 || area <= 12) return 'md';
+  return 'lg';
+};
+
+// Same destination rules as the block click handler in the React export
+const getBlockUrl = (block: BlockData): string => {
+  if (
+    (block.type === BlockType.SOCIAL || block.type === BlockType.SOCIAL_ICON) &&
+    block.socialPlatform &&
+    block.socialHandle
+  ) {
+    return sanitizeUrl(buildSocialUrl(block.socialPlatform, block.socialHandle));
+  }
+  if (block.channelId && isValidYouTubeChannelId(block.channelId)) {
+    return `https://youtube.com/channel/${block.channelId}`;
+  }
+  if (
+    block.type === BlockType.TEXT ||
+    block.type === BlockType.MAP ||
+    block.type === BlockType.GALLERY
+  ) {
+    return '';
+  }
+  // Without scripts, the placeholder opens the player in a new tab
+  if (block.type === BlockType.EMBED) return parseEmbedUrl(block.content)?.src ?? '';
+  return sanitizeUrl(block.content);
+};
+
+const resolveImage = (block: BlockData, imageMap: ImageMap): string => {
+  const mapped = imageMap[`block_${block.id}`];
+  if (mapped) return mapped;
+  if (!block.imageUrl || block.imageUrl.startsWith('data:')) return '';
+  return sanitizeUrl(block.imageUrl);
+};
+
+const resolveGalleryImage = (block: BlockData, image: GalleryImage, imageMap: ImageMap): string => {
+  const mapped = imageMap[getGalleryImageKey(block.id, image)];
+  if (mapped) return mapped;
+  if (image.url.startsWith('data:')) return '';
+  return sanitizeUrl(image.url);
+};
+
+// Modern formats first; the <img> keeps the original image as the fallback
+const renderPicture = (
+  sources: ImageSource[] | undefined,
+  colSpan: number,
+  img: string
+): string => {
+  if (!sources?.length) return img;
+  const sizes = getImageSizes(colSpan);
+  return `<picture>${sources.map((source) => `<source type="${source.type}" srcset="${escapeHtml(source.srcSet)}" sizes="${sizes}" />`).join('')}${img}</picture>`;
+};
+
+/**
+ * Wrap block markup in a link (when it has a safe destination) or a plain div
+ */
+const wrapBlock = (
+  block: BlockData,
+  className: string,
+  style: StyleMap,
+  inner: string,
+  url: string
+): string => {
+  const attrs = `class="${className}" style="${toStyleAttr(style)}" data-block-id="${escapeHtml(block.id)}"`;
+  if (!url) return `<div ${attrs}>${inner}</div>`;
+  return `<a ${attrs} href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${inner}</a>`;
+};
+
+const renderTextStack = (block: BlockData, onImage: boolean): string => {
+  const title = block.title ? `<h3 class="bento-title">${escapeHtml(block.title)}</h3>` : '';
+  const subtext = block.subtext ? `<p class="bento-subtext">${escapeHtml(block.subtext)}</p>` : '';
+  const content =
+    block.type === BlockType.TEXT && block.content
+      ? `<p class="bento-content">${escapeHtml(block.content)}</p>`
+      : '';
+
+  let badge = '';
+  if (block.type === BlockType.SOCIAL && block.socialPlatform) {
+    const icon = renderPlatformIcon(block.socialPlatform, 14);
+    const light = onImage || block.textColor === 'text-white';
+    const brandColor =
+      block.textColor === 'text-brand'
+        ? getSocialPlatformOption(block.socialPlatform)?.brandColor
+        : undefined;
+    if (icon) {
+      badge = `<div class="bento-badge${light ? ' is-light' : ''}" style="${toStyleAttr({ color: brandColor })}">${icon}</div>`;
+    }
+  }
+
+  return `<div class="bento-body${block.type === BlockType.TEXT ? ' is-text' : ''}">${badge}<div class="bento-text">${title}${subtext}${content}</div></div>`;
+};
+
+// Without videos the feed stays empty, unless the runtime feed (a CORS proxy) is enabled
+const renderYouTubeFeed = (block: BlockData, runtimeFeed: boolean): string => {
+  const videos = (block.youtubeVideos || []).slice(0, 4);
+  const items = videos
+    .filter((v) => /^[\w-]{6,20}$/.test(v.id))
+    .map(
+      (v) =>
+        `<a href="https://youtube.com/watch?v=${v.id}" target="_blank" rel="noopener noreferrer"><img src="https://img.youtube.com/vi/${v.id}/mqdefault.jpg" alt="${escapeHtml(v.title)}" loading="lazy" /></a>`
+    )
+    .join('');
+  const channelAttr =
+    runtimeFeed &&
+    videos.length === 0 &&
+    block.channelId &&
+    isValidYouTubeChannelId(block.channelId)
+      ? ` data-yt-channel="${escapeHtml(block.channelId)}"`
+      : '';
+
+  return `<div class="yt-feed"><div class="yt-head"><div class="yt-logo">${renderLucideIcon(Youtube, 12)}</div><div class="yt-channel"><h3>${escapeHtml(block.channelTitle || 'YouTube')}</h3><span>Latest videos</span></div></div><div class="yt-videos"${channelAttr}>${items}</div></div>`;
+};
+
+// Slides snap with CSS, so the gallery swipes without scripts; its script adds
+// the arrows, dots, slideshow and lightbox (the controls stay hidden until then)
+const renderGallery = (
+  block: BlockData,
+  imageMap: ImageMap,
+  imageSources: ImageSourceMap
+): string => {
+  const slides = getGalleryImages(block)
+    .map((image) => ({ image, src: resolveGalleryImage(block, image, imageMap) }))
+    .filter(({ src }) => src);
+  const count = slides.length;
+  const items = slides
+    .map(({ image, src }, index) => {
+      const heading = image.caption || block.title;
+      const overlay = heading
+        ? `<div class="media-overlay"><p class="media-title"><span class="theme-heading">${escapeHtml(heading)}</span></p>${image.caption && block.title ? `<p class="media-subtext"><span class="theme-text">${escapeHtml(block.title)}</span></p>` : ''}</div>`
+        : '';
+      const img = `<img class="full-img" src="${escapeHtml(src)}" alt="${escapeHtml(getGalleryAlt(image))}" style="${toStyleAttr({ objectPosition: getFocalPoint(image) })}"${index === 0 ? '' : ' loading="lazy"'}${image.caption ? ` data-caption="${escapeHtml(image.caption)}"` : ''} />`;
+      const picture = renderPicture(
+        imageSources[getGalleryImageKey(block.id, image)],
+        block.colSpan,
+        img
+      );
+      return `<div class="gallery-slide" aria-roledescription="slide" aria-label="${index + 1} of ${count}">${picture}${overlay}</div>`;
+    })
+    .join('');
+  const controls =
+    count > 1
+      ? `<div class="gallery-dots" hidden>${slides.map((_, index) => `<button type="button" class="gallery-dot" data-gallery-go="${index}" aria-label="Show image ${index + 1}"${index === 0 ? ' aria-current="true"' : ''}></button>`).join('')}</div><button type="button" class="gallery-arrow is-prev" data-gallery-step="-1" aria-label="Previous image" hidden>${renderLucideIcon(ChevronLeft, 16)}</button><button type="button" class="gallery-arrow is-next" data-gallery-step="1" aria-label="Next image" hidden>${renderLucideIcon(ChevronRight, 16)}</button>`
+      : '';
+  return `<div class="gallery-track" data-gallery="${block.galleryMode === 'slideshow' ? 'slideshow' : 'carousel'}" data-gallery-interval="${getGalleryInterval(block)}" role="region" aria-roledescription="carousel" aria-label="${escapeHtml(block.title || 'Gallery')}" tabindex="0">${items}</div>${controls}`;
+};
+
+/**
+ * Render a single block. Each block is rendered once: `placement` positions it on every layout.
+ */
+export const renderStaticBlock = (
+  block: BlockData,
+  imageMap: ImageMap,
+  placement: BlockPlacement,
+  darkMode = false,
+  imageSources: ImageSourceMap = {},
+  youtubeRuntimeFeeds = false
+): string => {
+  const borderRadius = getBlockRadius(block.colSpan, block.rowSpan);
+  const position = placement.style;
+  // Hiding can't come from a variable: those breakpoints get a class
+  const itemClass = `size-${getSizeTier(block)}${placement.hiddenOn.map((breakpoint) => ` hide-${breakpoint}`).join('')}`;
+  const url = getBlockUrl(block);
+
+  if (block.type === BlockType.SPACER) {
+    return `<div class="bento-item bento-spacer ${itemClass}" style="${toStyleAttr({ ...position, borderRadius })}" aria-hidden="true"></div>`;
+  }
+
+  const { background, color, variables } = resolveColors(block, darkMode);
+
+  if (block.type === BlockType.SOCIAL_ICON) {
+    const option = getSocialPlatformOption(block.socialPlatform || 'custom');
+    const icon = renderPlatformIcon(block.socialPlatform || 'custom', 24);
+    return wrapBlock(
+      block,
+      `bento-item bento-icon ${itemClass}`,
+      { ...position, ...variables, borderRadius, background, color: option?.brandColor },
+      `${icon}<span class="sr-only">${escapeHtml(option?.label || block.title || '')}</span>`,
+      url
+    );
+  }
+
+  const isYoutube = block.type === BlockType.SOCIAL && !!block.channelId;
+  const isYTGrid = isYoutube && (block.youtubeMode === 'grid' || block.youtubeMode === 'list');
+  const activeVideoId = block.youtubeVideoId || block.youtubeVideos?.[0]?.id;
+  const isRichYT = isYoutube && !isYTGrid && !!activeVideoId && /^[\w-]{6,20}$/.test(activeVideoId);
+
+  if (isYTGrid) {
+    return wrapBlock(
+      block,
+      `bento-item ${itemClass}`,
+      { ...position, ...variables, borderRadius, background, color },
+      renderYouTubeFeed(block, youtubeRuntimeFeeds),
+      ''
+    );
+  }
+
+  const mediaPos = block.mediaPosition || { x: 50, y: 50 };
+  const image = resolveImage(block, imageMap);
+
+  if (block.type === BlockType.MEDIA && image) {
+    const objectPosition = `${mediaPos.x}% ${mediaPos.y}%`;
+    const alt = escapeHtml(getImageAlt(block));
+    const media = /\.(mp4|webm|ogg|mov)$/i.test(image)
+      ? `<video class="full-img" src="${escapeHtml(image)}"${alt ? ` aria-label="${alt}"` : ''} style="${toStyleAttr({ objectPosition })}" autoplay loop muted playsinline></video>`
+      : renderPicture(
+          imageSources[`block_${block.id}`],
+          block.colSpan,
+          `<img class="full-img" src="${escapeHtml(image)}" alt="${alt}" style="${toStyleAttr({ objectPosition })}" loading="lazy" />`
+        );
+    const overlay = block.title
+      ? `<div class="media-overlay"><p class="media-title"><span class="theme-heading">${escapeHtml(block.title)}</span></p>${block.subtext ? `<p class="media-subtext"><span class="theme-text">${escapeHtml(block.subtext)}</span></p>` : ''}</div>`
+      : '';
+    return wrapBlock(
+      block,
+      `bento-item ${itemClass}`,
+      { ...position, ...variables, borderRadius, background },
+      `${media}${overlay}`,
+      url
+    );
+  }
+
+  if (block.type === BlockType.GALLERY) {
+    return wrapBlock(
+      block,
+      `bento-item bento-gallery ${itemClass}`,
+      { ...position, ...variables, borderRadius, background },
+      renderGallery(block, imageMap, imageSources),
+      ''
+    );
+  }
+
+  if (block.type === BlockType.MAP) {
+    const location = block.content || 'Paris';
+    const map = isValidLocationString(location)
+      ? `<iframe src="https://maps.google.com/maps?q=${encodeURIComponent(location)}&amp;t=&amp;z=13&amp;ie=UTF8&amp;iwloc=&amp;output=embed" title="${escapeHtml(block.title || location)}" loading="lazy" sandbox="allow-scripts allow-same-origin"></iframe>`
+      : '';
+    const overlay = block.title
+      ? `<div class="media-overlay"><p class="media-title"><span class="theme-heading">${escapeHtml(block.title)}</span></p></div>`
+      : '';
+    return wrapBlock(
+      block,
+      `bento-item bento-map ${itemClass}`,
+      { ...position, borderRadius },
+      `${map}${overlay}`,
+      ''
+    );
+  }
+
+  if (block.type === BlockType.EMBED) {
+    const embed = parseEmbedUrl(block.content);
+    const placeholder = embed
+      ? `<div class="bento-embed-placeholder" data-embed-src="${escapeHtml(embed.src)}" data-embed-ratio="${escapeHtml(embed.aspectRatio)}" data-embed-title="${escapeHtml(block.title || `${embed.label} player`)}"><span>${renderLucideIcon(Play, 16, 'white')}</span><p class="media-title">${escapeHtml(block.title || embed.label)}</p><p class="bento-embed-note">Click to load the ${escapeHtml(embed.label)} player</p></div>`
+      : '';
+    return wrapBlock(
+      block,
+      `bento-item bento-embed ${itemClass}`,
+      { ...position, borderRadius },
+      placeholder,
+      url
+    );
+  }
+
+  if (isRichYT) {
+    const heading = block.channelTitle || block.title;
+    return wrapBlock(
+      block,
+      `bento-item ${itemClass}`,
+      {
+        ...position,
+        borderRadius,
+        backgroundImage: cssUrl(`https://img.youtube.com/vi/${activeVideoId}/maxresdefault.jpg`),
+      },
+      `${heading ? '<div class="bento-shade"></div>' : ''}<div class="bento-play"><span>${renderLucideIcon(Play, 16, 'white')}</span></div>${heading ? `<div class="media-overlay"><p class="media-title"><span class="theme-heading">${escapeHtml(heading)}</span></p></div>` : ''}`,
+      block.youtubeVideoId ? `https://youtube.com/watch?v=${activeVideoId}` : url
+    );
+  }
+
+  const isLinkImg = block.type === BlockType.LINK && !!image;
+  const style: StyleMap = isLinkImg
+    ? {
+        ...position,
+        ...variables,
+        borderRadius,
+        color,
+        backgroundImage: cssUrl(image),
+        backgroundPosition: `${mediaPos.x}% ${mediaPos.y}%`,
+      }
+    : { ...position, ...variables, borderRadius, background, color };
+  const shade =
+    isLinkImg && (block.title || block.subtext) ? '<div class="bento-shade"></div>' : '';
+  const imageDescription =
+    isLinkImg && block.imageAlt
+      ? `<span role="img" aria-label="${escapeHtml(block.imageAlt)}" class="sr-only"></span>`
+      : '';
+
+  return wrapBlock(
+    block,
+    `bento-item ${itemClass}${isLinkImg ? ' bento-on-image' : ''}`,
+    style,
+    `${imageDescription}${shade}${renderTextStack(block, isLinkImg)}`,
+    url
+  );
+};
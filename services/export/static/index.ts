@@ -0,0 +1,278 @@
+/**
+ * Generate a prebuilt, zero-JS index.html for the static export mode
+ *
+ * Mirrors the desktop, tablet and mobile layouts of the React export, with all CSS inlined.
+ * Blocks are rendered once; media queries switch their grid placement.
+ */
+
+import { ChevronLeft, ChevronRight, Moon, Sun, X } from 'lucide-react';
+import { BlockData, LayoutBreakpoint, SiteData, UserProfile } from '../../../types';
+import {
+  formatFollowerCount,
+  getSocialPlatformOption,
+  buildSocialUrl,
+} from '../../../socialPlatforms';
+import { getBreakpointBlocks, getBreakpointLayout } from '../../../utils/mobileLayout';
+import { isValidImageUrl, sanitizeUrl } from '../../../utils/security';
+import { isDarkModeEnabled } from '../../../utils/colorScheme';
+import { getAvatarAlt } from '../../../utils/accessibility';
+import { getAnalyticsTrackUrl } from '../../../utils/analytics';
+import { escapeHtml } from '../helpers';
+import {
+  ExtractedImages,
+  getBackgroundImageCss,
+  ImageMap,
+  ImageSourceMap,
+} from '../imageExtractor';
+import {
+  generateColorSchemeTags,
+  generateFontsLink,
+  generateMetaTags,
+} from '../templates/indexHtml';
+import { generateStaticCss } from './styles';
+import {
+  BlockPlacement,
+  renderLucideIcon,
+  renderPlatformIcon,
+  renderStaticBlock,
+  StyleMap,
+  toStyleAttr,
+} from './blocks';
+import {
+  generateStaticAnalyticsScript,
+  generateStaticColorSchemeScript,
+  generateStaticEmbedScript,
+  generateStaticGalleryScript,
+  generateStaticYouTubeScript,
+} from './scripts';
+
+const toRelativePath = (path: string): string => path.replace(/^\/+/, '');
+
+/**
+ * Static pages are opened from any folder (or file://), so asset paths must be relative
+ */
+export const toRelativeImages = ({ imageMap, imageSources }: ExtractedImages): ExtractedImages => ({
+  imageMap: Object.fromEntries(
+    Object.entries(imageMap).map(([key, path]) => [key, toRelativePath(path)])
+  ),
+  imageSources: Object.fromEntries(
+    Object.entries(imageSources).map(([key, sources]) => [
+      key,
+      sources.map((source) => ({
+        ...source,
+        srcSet: source.srcSet
+          .split(', ')
+          .map((entry) => toRelativePath(entry))
+          .join(', '),
+      })),
+    ])
+  ),
+});
+
+const getAvatarStyle = (profile: UserProfile) => {
+  const avatarStyle = profile.avatarStyle || {
+    shape: 'rounded',
+    shadow: true,
+    border: true,
+    borderColor: '#ffffff',
+    borderWidth: 4,
+  };
+  return {
+    borderRadius:
+      avatarStyle.shape === 'circle' ? '9999px' : avatarStyle.shape === 'square' ? '0' : '1.5rem',
+    boxShadow: avatarStyle.shadow !== false ? '0 25px 50px -12px rgba(0,0,0,0.15)' : 'none',
+    border:
+      avatarStyle.border !== false
+        ? `${avatarStyle.borderWidth || 4}px solid ${avatarStyle.borderColor || '#ffffff'}`
+        : 'none',
+  };
+};
+
+const renderProfileHeader = (profile: UserProfile, avatarSrc: string): string => {
+  const avatar = avatarSrc
+    ? `<div class="avatar" style="${toStyleAttr(getAvatarStyle(profile))}"><img src="${escapeHtml(avatarSrc)}" alt="${escapeHtml(getAvatarAlt(profile))}" /></div>`
+    : '';
+
+  const accounts = profile.showSocialInHeader ? profile.socialAccounts || [] : [];
+  const socials = accounts
+    .map((account) => {
+      const url = sanitizeUrl(buildSocialUrl(account.platform, account.handle));
+      if (!url) return '';
+      const option = getSocialPlatformOption(account.platform);
+      const count =
+        profile.showFollowerCount && account.followerCount
+          ? `<span class="profile-social-count">${escapeHtml(formatFollowerCount(account.followerCount))}</span>`
+          : '';
+      return `<a class="profile-social" href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer" aria-label="${escapeHtml(option?.label || account.platform)}" style="${toStyleAttr({ color: option?.brandColor })}">${renderPlatformIcon(account.platform, 20)}${count}</a>`;
+    })
+    .join('');
+
+  return `${avatar}<h1 class="profile-name">${escapeHtml(profile.name)}</h1><p class="profile-bio">${escapeHtml(profile.bio)}</p>${socials ? `<div class="profile-socials">${socials}</div>` : ''}`;
+};
+
+const renderFooter = (profile: UserProfile): string =>
+  profile.showBranding !== false
+    ? `<footer class="site-footer"><p>Made with <span class="heart">&#9829;</span> using <a href="https://github.com/yoanbernabeu/openbento" target="_blank" rel="noopener noreferrer">OpenBento</a></p></footer>`
+    : '';
+
+// The image itself comes from getBackgroundImageCss, in the stylesheet
+const getPageStyle = (backgroundSrc: string) => {
+  if (backgroundSrc) {
+    return {
+      backgroundSize: 'cover',
+      backgroundPosition: 'center',
+      backgroundAttachment: 'fixed',
+    };
+  }
+  // Switches with the color scheme (see getThemeCss)
+  return { background: 'var(--bento-page-background)' };
+};
+
+const BREAKPOINTS: LayoutBreakpoint[] = ['mobile', 'tablet'];
+
+// Position of every block in the stacking order of each breakpoint
+const getBreakpointOrders = (blocks: BlockData[]): Record<LayoutBreakpoint, Map<string, number>> =>
+  Object.fromEntries(
+    BREAKPOINTS.map((breakpoint) => [
+      breakpoint,
+      new Map(
+        getBreakpointBlocks(blocks, breakpoint, true).map((block, index) => [block.id, index])
+      ),
+    ])
+  ) as Record<LayoutBreakpoint, Map<string, number>>;
+
+// Grid variables of all layouts, picked by the media queries of .bento-grid
+const getPlacement = (
+  block: BlockData,
+  orders: Record<LayoutBreakpoint, Map<string, number>>
+): BlockPlacement => {
+  const style: StyleMap = {
+    '--desktop-column':
+      block.gridColumn !== undefined
+        ? `${block.gridColumn} / ${block.gridColumn + block.colSpan}`
+        : `span ${block.colSpan}`,
+    '--desktop-row':
+      block.gridRow !== undefined
+        ? `${block.gridRow} / ${block.gridRow + block.rowSpan}`
+        : `span ${block.rowSpan}`,
+  };
+  const hiddenOn: LayoutBreakpoint[] = [];
+  for (const breakpoint of BREAKPOINTS) {
+    const layout = getBreakpointLayout(block, breakpoint);
+    style[`--${breakpoint}-column`] = `span ${layout.colSpan}`;
+    style[`--${breakpoint}-row`] = `span ${layout.rowSpan}`;
+    style[`--${breakpoint}-order`] = orders[breakpoint].get(block.id);
+    if (layout.hidden) hiddenOn.push(breakpoint);
+  }
+  return { style, hiddenOn };
+};
+
+// Shown by its script: without scripts the page follows the system setting
+const renderColorSchemeToggle = (): string =>
+  `<button type="button" class="scheme-toggle" aria-label="Toggle dark mode" hidden>${renderLucideIcon(Moon, 18, undefined, 'icon-moon')}${renderLucideIcon(Sun, 18, undefined, 'icon-sun')}</button>`;
+
+/**
+ * Render the complete static index.html
+ */
+export const generateStaticHtml = (
+  data: SiteData,
+  imageMap: ImageMap,
+  siteId?: string,
+  imageSources: ImageSourceMap = {},
+  youtubeRuntimeFeeds = false
+): string => {
+  const { profile, blocks } = data;
+  const darkMode = isDarkModeEnabled(profile);
+  const showToggle = darkMode && !!profile.darkMode?.showToggle;
+  const avatarSrc =
+    imageMap['profile_avatar'] || (isValidImageUrl(profile.avatarUrl) ? profile.avatarUrl : '');
+  const backgroundSrc =
+    imageMap['profile_background'] ||
+    (profile.backgroundImage && isValidImageUrl(profile.backgroundImage)
+      ? profile.backgroundImage
+      : '');
+  const backgroundCss = backgroundSrc
+    ? `\n${getBackgroundImageCss('.page', backgroundSrc, imageSources['profile_background'])}`
+    : '';
+  const header = renderProfileHeader(profile, avatarSrc);
+  const orders = getBreakpointOrders(blocks);
+
+  const blockMarkup = blocks
+    .map((block) =>
+      renderStaticBlock(
+        block,
+        imageMap,
+        getPlacement(block, orders),
+        darkMode,
+        imageSources,
+        youtubeRuntimeFeeds
+      )
+    )
+    .join('\n');
+
+  // Described background images are exposed to screen readers; others are decorative
+  const backgroundDescription =
+    profile.backgroundImage &&
+    isValidImageUrl(profile.backgroundImage) &&
+    profile.backgroundImageAlt
+      ? `<span role="img" aria-label="${escapeHtml(profile.backgroundImageAlt)}" class="sr-only"></span>`
+      : '';
+
+  const blur =
+    profile.backgroundImage && profile.backgroundBlur && profile.backgroundBlur > 0
+      ? `<div class="page-blur" style="${toStyleAttr({ backdropFilter: `blur(${profile.backgroundBlur}px)`, WebkitBackdropFilter: `blur(${profile.backgroundBlur}px)` })}"></div>`
+      : '';
+
+  const scripts: string[] = [];
+  const analytics = profile.analytics;
+  const analyticsUrl = sanitizeUrl(getAnalyticsTrackUrl(analytics));
+  if (analytics?.enabled && analyticsUrl) {
+    scripts.push(generateStaticAnalyticsScript(analyticsUrl, siteId || 'default'));
+  }
+  if (blockMarkup.includes('data-yt-channel=')) {
+    scripts.push(generateStaticYouTubeScript());
+  }
+  if (blockMarkup.includes('data-embed-src=')) {
+    scripts.push(generateStaticEmbedScript());
+  }
+  if (blockMarkup.includes('data-gallery=')) {
+    scripts.push(
+      generateStaticGalleryScript({
+        close: renderLucideIcon(X, 20),
+        previous: renderLucideIcon(ChevronLeft, 24),
+        next: renderLucideIcon(ChevronRight, 24),
+      })
+    );
+  }
+  if (showToggle) {
+    scripts.push(generateStaticColorSchemeScript());
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />${generateColorSchemeTags(profile)}${generateFontsLink(profile)}
+    <title>${escapeHtml(profile.openGraph?.title || profile.name)}</title>
+${generateMetaTags(profile, imageMap)}
+    <style>${generateStaticCss(profile)}${backgroundCss}</style>
+  </head>
+  <body>
+    <div class="page" style="${toStyleAttr(getPageStyle(backgroundSrc))}">
+      ${blur}${backgroundDescription}${showToggle ? renderColorSchemeToggle() : ''}
+      <div class="page-content">
+        <div class="layout">
+          <header class="profile-header">${header}</header>
+          <main class="layout-main">
+            <div class="bento-grid">
+${blockMarkup}
+            </div>
+          </main>
+        </div>
+        ${renderFooter(profile)}
+      </div>
+    </div>${scripts.map((script) => `\n    <script>${script}</script>`).join('')}
+  </body>
+</html>
+`;
+};
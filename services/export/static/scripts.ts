@@ -0,0 +1,326 @@
+/**
+ * Optional inline scripts for the static HTML export
+ *
+ * The page is fully usable without them; they only add analytics beacons
+ * (page views, clicks, session end), a live YouTube feed for blocks
+ * exported without cached videos (opt-in), click-to-load players for embeds, gallery
+ * controls (arrows, dots, slideshow and lightbox) and the light/dark toggle.
+ */
+
+import { EMBED_ALLOW, EMBED_SANDBOX } from '../../../utils/embed';
+import { COLOR_SCHEME_ATTRIBUTE, COLOR_SCHEME_STORAGE_KEY } from '../../../utils/colorScheme';
+
+// Serialize a value for embedding inside an inline <script>
+const toScriptLiteral = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+export const generateStaticAnalyticsScript = (endpoint: string, siteId: string): string => `
+(function () {
+  var endpoint = ${toScriptLiteral(endpoint)};
+  var siteId = ${toScriptLiteral(siteId)};
+  var start = Date.now();
+  var maxScroll = 0;
+  function randomId() {
+    return window.crypto && crypto.randomUUID
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2) + Date.now().toString(36);
+  }
+  function storedId(storageName, key) {
+    try {
+      var storage = window[storageName];
+      var id = storage.getItem(key);
+      if (!id) {
+        id = randomId();
+        storage.setItem(key, id);
+      }
+      return id;
+    } catch (e) {
+      return randomId();
+    }
+  }
+  var visitorId = storedId('localStorage', 'openbento_vid');
+  var sessionId = storedId('sessionStorage', 'openbento_sid');
+  var timezone;
+  try {
+    timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch (e) {}
+  function track(event, extra) {
+    var utm = new URLSearchParams(window.location.search);
+    var payload = {
+      siteId: siteId,
+      event: event,
+      visitorId: visitorId,
+      sessionId: sessionId,
+      pageUrl: window.location.href,
+      referrer: document.referrer || undefined,
+      utm: {
+        source: utm.get('utm_source') || undefined,
+        medium: utm.get('utm_medium') || undefined,
+        campaign: utm.get('utm_campaign') || undefined,
+        term: utm.get('utm_term') || undefined,
+        content: utm.get('utm_content') || undefined
+      },
+      language: navigator.language,
+      screenW: window.screen && window.screen.width,
+      screenH: window.screen && window.screen.height,
+      viewportW: window.innerWidth,
+      viewportH: window.innerHeight,
+      timezone: timezone
+    };
+    for (var key in extra) payload[key] = extra[key];
+    try {
+      fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        keepalive: true
+      }).catch(function () {});
+    } catch (e) {}
+  }
+  track('page_view');
+  document.addEventListener('click', function (e) {
+    var link = e.target && e.target.closest ? e.target.closest('a[href]') : null;
+    if (!link) return;
+    var block = link.closest('[data-block-id]');
+    track('click', {
+      blockId: block ? block.getAttribute('data-block-id') : undefined,
+      destinationUrl: link.href
+    });
+  });
+  window.addEventListener('scroll', function () {
+    var docHeight = document.documentElement.scrollHeight - window.innerHeight;
+    var percent = docHeight > 0 ? Math.round((window.scrollY / docHeight) * 100) : 0;
+    maxScroll = Math.max(maxScroll, Math.min(100, percent));
+  }, { passive: true });
+  var ended = false;
+  function endSession() {
+    if (ended) return;
+    ended = true;
+    track('session_end', {
+      durationSeconds: Math.round((Date.now() - start) / 1000),
+      scrollDepth: maxScroll
+    });
+  }
+  document.addEventListener('visibilitychange', function () {
+    if (document.visibilityState === 'hidden') endSession();
+  });
+  window.addEventListener('pagehide', endSession);
+})();
+`;
+
+export const generateStaticYouTubeScript = (): string => `
+(function () {
+  var grids = document.querySelectorAll('[data-yt-channel]');
+  var cache = {};
+  function load(channelId) {
+    if (cache[channelId]) return cache[channelId];
+    var rssUrl = 'https://www.youtube.com/feeds/videos.xml?channel_id=' + channelId;
+    var proxyUrl = 'https://api.allorigins.win/raw?url=' + encodeURIComponent(rssUrl);
+    cache[channelId] = fetch(proxyUrl)
+      .then(function (r) { return r.text(); })
+      .then(function (text) {
+        var xml = new DOMParser().parseFromString(text, 'text/xml');
+        return Array.prototype.slice.call(xml.querySelectorAll('entry'), 0, 4).map(function (entry) {
+          var id = entry.getElementsByTagName('yt:videoId')[0];
+          var title = entry.getElementsByTagName('title')[0];
+          return { id: id ? id.textContent : '', title: title ? title.textContent : '' };
+        }).filter(function (v) { return /^[\\w-]{6,20}$/.test(v.id); });
+      });
+    return cache[channelId];
+  }
+  Array.prototype.forEach.call(grids, function (grid) {
+    load(grid.getAttribute('data-yt-channel')).then(function (videos) {
+      videos.forEach(function (v) {
+        var a = document.createElement('a');
+        a.href = 'https://youtube.com/watch?v=' + v.id;
+        a.target = '_blank';
+        a.rel = 'noopener noreferrer';
+        var img = document.createElement('img');
+        img.src = 'https://img.youtube.com/vi/' + v.id + '/mqdefault.jpg';
+        img.alt = v.title;
+        img.loading = 'lazy';
+        a.appendChild(img);
+        grid.appendChild(a);
+      });
+    }).catch(function () {});
+  });
+})();
+`;
+
+// Swap an embed placeholder for its player on click (the link is the no-script fallback)
+export const generateStaticEmbedScript = (): string => `
+(function () {
+  document.addEventListener('click', function (e) {
+    var block = e.target && e.target.closest ? e.target.closest('.bento-embed') : null;
+    var data = block && block.querySelector('[data-embed-src]');
+    if (!data) return;
+    e.preventDefault();
+    var iframe = document.createElement('iframe');
+    iframe.src = data.getAttribute('data-embed-src');
+    iframe.title = data.getAttribute('data-embed-title') || '';
+    iframe.style.aspectRatio = data.getAttribute('data-embed-ratio') || '';
+    iframe.loading = 'lazy';
+    iframe.setAttribute('allow', ${toScriptLiteral(EMBED_ALLOW)});
+    iframe.setAttribute('sandbox', ${toScriptLiteral(EMBED_SANDBOX)});
+    iframe.referrerPolicy = 'strict-origin-when-cross-origin';
+    data.replaceWith(iframe);
+    block.removeAttribute('href');
+  });
+})();
+`;
+
+// Gallery arrows, dots, slideshow timer and lightbox. Each layout renders its
+// own copy of a gallery; hidden copies are skipped by the slideshow.
+export const generateStaticGalleryScript = (icons: {
+  close: string;
+  previous: string;
+  next: string;
+}): string => `
+(function () {
+  var reduceMotion = window.matchMedia && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  var lightboxOpen = false;
+  function openLightbox(images, start, onChange) {
+    var index = start;
+    var trigger = document.activeElement;
+    var dialog = document.createElement('div');
+    dialog.className = 'gallery-lightbox';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.tabIndex = -1;
+    var close = document.createElement('button');
+    close.type = 'button';
+    close.className = 'is-close';
+    close.setAttribute('aria-label', 'Close image');
+    close.innerHTML = ${toScriptLiteral(icons.close)};
+    var img = document.createElement('img');
+    var caption = document.createElement('p');
+    var count = document.createElement('p');
+    count.className = 'gallery-count';
+    dialog.appendChild(close);
+    dialog.appendChild(img);
+    dialog.appendChild(caption);
+    function show() {
+      var source = images[index];
+      img.src = source.src;
+      img.alt = source.alt;
+      caption.textContent = source.caption;
+      caption.hidden = !source.caption;
+      count.textContent = index + 1 + ' / ' + images.length;
+      dialog.setAttribute('aria-label', 'Image ' + (index + 1) + ' of ' + images.length);
+      onChange(index);
+    }
+    function step(delta) {
+      index = (index + delta + images.length) % images.length;
+      show();
+    }
+    if (images.length > 1) {
+      [['is-prev', 'Previous image', ${toScriptLiteral(icons.previous)}, -1], ['is-next', 'Next image', ${toScriptLiteral(icons.next)}, 1]].forEach(function (arrow) {
+        var button = document.createElement('button');
+        button.type = 'button';
+        button.className = arrow[0];
+        button.setAttribute('aria-label', arrow[1]);
+        button.innerHTML = arrow[2];
+        button.addEventListener('click', function (e) {
+          e.stopPropagation();
+          step(arrow[3]);
+        });
+        dialog.appendChild(button);
+      });
+      dialog.appendChild(count);
+    }
+    function dismiss() {
+      lightboxOpen = false;
+      dialog.remove();
+      if (trigger && trigger.focus) trigger.focus();
+    }
+    dialog.addEventListener('click', function (e) {
+      if (e.target !== img) dismiss();
+    });
+    dialog.addEventListener('keydown', function (e) {
+      if (e.key === 'Escape') dismiss();
+      else if (e.key === 'ArrowLeft') step(-1);
+      else if (e.key === 'ArrowRight') step(1);
+    });
+    lightboxOpen = true;
+    show();
+    document.body.appendChild(dialog);
+    close.focus();
+  }
+  Array.prototype.forEach.call(document.querySelectorAll('[data-gallery]'), function (track) {
+    var block = track.parentNode;
+    var slides = track.querySelectorAll('.gallery-slide img');
+    var dots = block.querySelectorAll('[data-gallery-go]');
+    var count = slides.length;
+    var index = 0;
+    var paused = false;
+    function update() {
+      Array.prototype.forEach.call(dots, function (dot, i) {
+        if (i === index) dot.setAttribute('aria-current', 'true');
+        else dot.removeAttribute('aria-current');
+      });
+    }
+    function goTo(next) {
+      if (count === 0) return;
+      index = (next + count) % count;
+      track.scrollTo({ left: index * track.clientWidth, behavior: reduceMotion ? 'auto' : 'smooth' });
+      update();
+    }
+    track.addEventListener('scroll', function () {
+      if (track.clientWidth === 0) return;
+      index = Math.round(track.scrollLeft / track.clientWidth);
+      update();
+    }, { passive: true });
+    Array.prototype.forEach.call(block.querySelectorAll('[hidden]'), function (control) {
+      control.hidden = false;
+    });
+    Array.prototype.forEach.call(block.querySelectorAll('[data-gallery-step]'), function (button) {
+      button.addEventListener('click', function () {
+        goTo(index + Number(button.getAttribute('data-gallery-step')));
+      });
+    });
+    Array.prototype.forEach.call(dots, function (dot) {
+      dot.addEventListener('click', function () {
+        goTo(Number(dot.getAttribute('data-gallery-go')));
+      });
+    });
+    // The lightbox shows the full image, not the variant picked for the slide
+    var images = Array.prototype.map.call(slides, function (img) {
+      return { src: img.src, alt: img.alt, caption: img.getAttribute('data-caption') || '' };
+    });
+    Array.prototype.forEach.call(slides, function (img, i) {
+      img.addEventListener('click', function () {
+        openLightbox(images, i, goTo);
+      });
+    });
+    block.addEventListener('mouseenter', function () { paused = true; });
+    block.addEventListener('mouseleave', function () { paused = false; });
+    block.addEventListener('focusin', function () { paused = true; });
+    block.addEventListener('focusout', function () { paused = false; });
+    if (track.getAttribute('data-gallery') !== 'slideshow' || count < 2 || reduceMotion) return;
+    var seconds = Number(track.getAttribute('data-gallery-interval')) || 5;
+    setInterval(function () {
+      if (paused || lightboxOpen || document.hidden || !track.offsetParent) return;
+      goTo(index + 1);
+    }, seconds * 1000);
+  });
+})();
+`;
+
+// Show the light/dark toggle and remember the visitor's choice
+export const generateStaticColorSchemeScript = (): string => `
+(function () {
+  var root = document.documentElement;
+  var button = document.querySelector('.scheme-toggle');
+  if (!button) return;
+  button.hidden = false;
+  button.addEventListener('click', function () {
+    var current =
+      root.getAttribute(${toScriptLiteral(COLOR_SCHEME_ATTRIBUTE)}) ||
+      (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light');
+    var next = current === 'dark' ? 'light' : 'dark';
+    root.setAttribute(${toScriptLiteral(COLOR_SCHEME_ATTRIBUTE)}, next);
+    try {
+      localStorage.setItem(${toScriptLiteral(COLOR_SCHEME_STORAGE_KEY)}, next);
+    } catch (e) {}
+  });
+})();
+`;
@@ -0,0 +1,423 @@
+/**
+ * Generate the inlined stylesheet for the static HTML export
+ */
+
+import { UserProfile } from '../../../types';
+import { COMMON_BLOCK_CSS, COMMON_THEME_CSS } from '../../commonStyles';
+import { MOBILE_GRID_CONFIG, TABLET_GRID_CONFIG } from '../../../utils/mobileLayout';
+import { getDarkModeCss, isDarkModeEnabled } from '../../../utils/colorScheme';
+import { getThemeCss } from '../../../utils/theme';
+
+// Blocks carry the colors of both schemes (see renderStaticBlock): pick one
+const generateDarkModeCss = (): string => `
+.bento-item { --block-background: var(--light-background); --block-color: var(--light-color); }
+${getDarkModeCss({ '--block-background': 'var(--dark-background)', '--block-color': 'var(--dark-color)' }, ' .bento-item')}
+
+.scheme-toggle {
+  position: fixed;
+  top: 1rem;
+  right: 1rem;
+  z-index: 20;
+  width: 2.5rem;
+  height: 2.5rem;
+  border: 0;
+  border-radius: 9999px;
+  background: rgba(255, 255, 255, 0.8);
+  color: #111827;
+  box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+}
+.scheme-toggle[hidden] { display: none; }
+.scheme-toggle .icon-sun { display: none; }
+${getDarkModeCss({ display: 'none' }, ' .scheme-toggle .icon-moon')}
+${getDarkModeCss({ display: 'block' }, ' .scheme-toggle .icon-sun')}
+`;
+
+export const generateStaticCss = (profile: UserProfile): string => `
+${getThemeCss(profile)}
+*, *::before, *::after { box-sizing: border-box; }
+html, body { margin: 0; padding: 0; }
+body {
+  font-family: var(--bento-font-body);
+  color: var(--bento-text);
+  -webkit-font-smoothing: antialiased;
+  min-height: 100vh;
+}
+a { color: inherit; text-decoration: none; }
+img, video, iframe { display: block; border: 0; }
+h1, h3, p { margin: 0; }
+.sr-only {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  overflow: hidden;
+  clip: rect(0, 0, 0, 0);
+  white-space: nowrap;
+}
+
+.page { position: relative; min-height: 100vh; }
+.page-blur { position: fixed; inset: 0; z-index: 0; pointer-events: none; }
+.page-content { position: relative; z-index: 10; }
+
+.avatar { overflow: hidden; background: #f3f4f6; }
+.avatar img { width: 100%; height: 100%; object-fit: cover; }
+.profile-name {
+  font-family: var(--bento-font-heading);
+  font-weight: 700;
+  letter-spacing: -0.025em;
+  color: var(--bento-text);
+}
+.profile-bio { color: var(--bento-muted); font-weight: 500; white-space: pre-wrap; max-width: 20rem; }
+.profile-socials { display: flex; flex-wrap: wrap; gap: 0.75rem; margin-top: 1rem; }
+.profile-social {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 0.5rem;
+  min-width: 2.5rem;
+  height: 2.5rem;
+  padding: 0 0.75rem;
+  background: #ffffff;
+  border-radius: 9999px;
+  box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -2px rgba(0, 0, 0, 0.1);
+  transition: transform 0.2s ease, box-shadow 0.2s ease;
+}
+.profile-social:hover { transform: translateY(-2px); box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1); }
+.profile-social-count { font-size: 0.875rem; font-weight: 600; color: #374151; }
+
+.profile-header {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  text-align: center;
+  padding: 2rem 1rem 1rem;
+}
+.profile-header .avatar { width: 6rem; height: 6rem; margin-bottom: 1rem; }
+.profile-header .profile-name {
+  font-size: calc(1.5rem * var(--bento-heading-scale));
+  font-weight: 800;
+  margin-bottom: 0.5rem;
+}
+.profile-header .profile-bio { font-size: calc(0.875rem * var(--bento-body-scale)); }
+.profile-header .profile-socials { justify-content: center; }
+
+/* Blocks carry their position on every layout as variables (see getPlacement) */
+.bento-grid {
+  display: grid;
+  grid-template-columns: repeat(${MOBILE_GRID_CONFIG.columns}, 1fr);
+  grid-auto-rows: ${MOBILE_GRID_CONFIG.rowHeight}px;
+  gap: ${MOBILE_GRID_CONFIG.gap}px;
+  padding: 1rem;
+}
+.bento-grid > .bento-item {
+  grid-column: var(--mobile-column);
+  grid-row: var(--mobile-row);
+  order: var(--mobile-order);
+}
+
+@media (max-width: ${TABLET_GRID_CONFIG.minWidth - 1}px) {
+  .bento-grid > .hide-mobile { display: none; }
+}
+
+@media (min-width: ${TABLET_GRID_CONFIG.minWidth}px) and (max-width: 1023px) {
+  .bento-grid {
+    grid-template-columns: repeat(${TABLET_GRID_CONFIG.columns}, 1fr);
+    grid-auto-rows: ${TABLET_GRID_CONFIG.rowHeight}px;
+    gap: ${TABLET_GRID_CONFIG.gap}px;
+  }
+  .bento-grid > .bento-item {
+    grid-column: var(--tablet-column);
+    grid-row: var(--tablet-row);
+    order: var(--tablet-order);
+  }
+  .bento-grid > .hide-tablet { display: none; }
+}
+
+@media (min-width: 1024px) {
+  .layout { display: flex; }
+  .profile-header {
+    position: fixed;
+    left: 0;
+    top: 0;
+    width: 420px;
+    height: 100vh;
+    justify-content: center;
+    align-items: flex-start;
+    text-align: left;
+    padding: 0 3rem;
+  }
+  .profile-header .avatar { width: 10rem; height: 10rem; margin-bottom: 2rem; }
+  .profile-header .profile-name {
+    font-size: calc(2.25rem * var(--bento-heading-scale));
+    font-weight: 700;
+    margin-bottom: 0.75rem;
+  }
+  .profile-header .profile-bio { font-size: calc(1rem * var(--bento-body-scale)); }
+  .profile-header .profile-socials { justify-content: flex-start; }
+  .layout-main { margin-left: 420px; flex: 1; padding: 3rem; }
+  .bento-grid {
+    grid-template-columns: repeat(9, 1fr);
+    grid-auto-rows: 64px;
+    gap: var(--bento-gap);
+    padding: 0;
+  }
+  .bento-grid > .bento-item {
+    grid-column: var(--desktop-column);
+    grid-row: var(--desktop-row);
+    order: 0;
+  }
+}
+
+.bento-item {
+  position: relative;
+  display: block;
+  width: 100%;
+  height: 100%;
+  overflow: hidden;
+  background-size: cover;
+  background-position: center;
+  box-shadow:
+    0 0 0 var(--bento-border-width) var(--bento-border-color),
+    var(--bento-shadow);
+  transition: box-shadow 0.2s ease, transform 0.2s ease;
+}
+a.bento-item:hover {
+  box-shadow:
+    0 0 0 var(--bento-border-width) var(--bento-border-color),
+    0 20px 25px -5px rgba(0, 0, 0, 0.1);
+}
+.bento-spacer { background: transparent; box-shadow: none; }
+.bento-icon { display: flex; align-items: center; justify-content: center; }
+.bento-shade {
+  position: absolute;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  height: 66%;
+  background: linear-gradient(to top, rgba(0, 0, 0, 0.7), rgba(0, 0, 0, 0.3), transparent);
+}
+.bento-body {
+  position: relative;
+  height: 100%;
+  padding: 0.75rem;
+  display: flex;
+  flex-direction: column;
+  justify-content: space-between;
+}
+.bento-body.is-text { justify-content: center; }
+.bento-badge {
+  width: 1.75rem;
+  height: 1.75rem;
+  border-radius: 0.5rem;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: #f3f4f6;
+}
+.bento-badge.is-light { background: rgba(255, 255, 255, 0.2); }
+.bento-text { margin-top: auto; }
+.bento-body.is-text .bento-text { margin-top: 0; }
+.bento-title { font-family: var(--bento-font-heading); font-weight: 700; line-height: 1.25; }
+.bento-subtext { margin-top: 0.25rem; opacity: 0.6; }
+.bento-content { margin-top: 0.5rem; opacity: 0.7; white-space: pre-wrap; }
+.bento-on-image .bento-title { color: #ffffff; text-shadow: 0 2px 8px rgba(0, 0, 0, 0.4); }
+.bento-on-image .bento-subtext { color: rgba(255, 255, 255, 0.8); opacity: 1; }
+
+.bento-item .bento-title { font-size: calc(var(--title-size) * var(--bento-heading-scale)); }
+.bento-item .bento-subtext, .bento-item .bento-content {
+  font-size: calc(var(--text-size) * var(--bento-body-scale));
+}
+.bento-item.size-xs { --title-size: 0.625rem; --text-size: 0.5rem; }
+.bento-item.size-sm { --title-size: 0.75rem; --text-size: 0.5625rem; }
+.bento-item.size-md { --title-size: 0.875rem; --text-size: 0.625rem; }
+.bento-item.size-lg { --title-size: 1rem; --text-size: 0.75rem; }
+@media (min-width: 768px) {
+  .bento-item.size-xs { --title-size: 0.75rem; --text-size: 0.5625rem; }
+  .bento-item.size-sm { --title-size: 0.875rem; --text-size: 0.625rem; }
+  .bento-item.size-md { --title-size: 1rem; --text-size: 0.75rem; }
+  .bento-item.size-lg { --title-size: 1.125rem; --text-size: 0.875rem; }
+}
+
+.bento-map { background: #f3f4f6; }
+.bento-map iframe { width: 100%; height: 100%; opacity: 0.95; filter: grayscale(20%); }
+.bento-map .media-overlay { padding: 0.5rem; }
+
+.bento-embed { background: #f3f4f6; display: flex; align-items: center; justify-content: center; }
+.bento-embed iframe { width: 100%; max-height: 100%; border: 0; }
+.bento-embed-placeholder {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.75rem;
+  text-align: center;
+  color: #111827;
+}
+.bento-embed-placeholder span {
+  width: 2.5rem;
+  height: 2.5rem;
+  border-radius: 9999px;
+  background: #111827;
+  color: #ffffff;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+}
+.bento-embed-note { font-size: 0.75rem; color: #6b7280; }
+
+.gallery-track {
+  display: flex;
+  width: 100%;
+  height: 100%;
+  overflow-x: auto;
+  scroll-snap-type: x mandatory;
+  scrollbar-width: none;
+}
+.gallery-track::-webkit-scrollbar { display: none; }
+.gallery-slide {
+  position: relative;
+  flex: 0 0 100%;
+  height: 100%;
+  overflow: hidden;
+  scroll-snap-align: center;
+}
+.gallery-slide .full-img { cursor: zoom-in; }
+.gallery-dots { position: absolute; top: 0.5rem; left: 0.5rem; z-index: 1; display: flex; gap: 0.25rem; }
+.gallery-dot {
+  width: 0.375rem;
+  height: 0.375rem;
+  border: 0;
+  border-radius: 9999px;
+  padding: 0;
+  background: rgba(255, 255, 255, 0.5);
+  cursor: pointer;
+  transition: width 0.2s ease, background 0.2s ease;
+}
+.gallery-dot[aria-current='true'] { width: 1rem; background: #ffffff; }
+.gallery-arrow {
+  position: absolute;
+  top: 50%;
+  z-index: 1;
+  display: flex;
+  padding: 0.375rem;
+  border: 0;
+  border-radius: 9999px;
+  background: rgba(0, 0, 0, 0.4);
+  color: #ffffff;
+  cursor: pointer;
+  opacity: 0;
+  transform: translateY(-50%);
+  transition: opacity 0.2s ease;
+}
+.gallery-arrow.is-prev { left: 0.5rem; }
+.gallery-arrow.is-next { right: 0.5rem; }
+.bento-gallery:hover .gallery-arrow, .gallery-arrow:focus-visible { opacity: 1; }
+.gallery-dots[hidden], .gallery-arrow[hidden] { display: none; }
+.gallery-lightbox {
+  position: fixed;
+  inset: 0;
+  z-index: 100;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  padding: 1rem;
+  background: rgba(0, 0, 0, 0.9);
+  color: #ffffff;
+}
+.gallery-lightbox img {
+  max-width: 100%;
+  max-height: 80vh;
+  object-fit: contain;
+  border-radius: 0.5rem;
+  box-shadow: 0 25px 50px -12px rgba(0, 0, 0, 0.25);
+}
+.gallery-lightbox p { margin-top: 1rem; max-width: 42rem; text-align: center; font-size: 0.875rem; color: rgba(255, 255, 255, 0.8); }
+.gallery-lightbox .gallery-count { position: absolute; bottom: 1rem; margin: 0; font-size: 0.75rem; color: rgba(255, 255, 255, 0.6); }
+.gallery-lightbox button {
+  position: absolute;
+  display: flex;
+  padding: 0.5rem;
+  border: 0;
+  border-radius: 9999px;
+  background: rgba(255, 255, 255, 0.1);
+  color: #ffffff;
+  cursor: pointer;
+}
+.gallery-lightbox button:hover { background: rgba(255, 255, 255, 0.2); }
+.gallery-lightbox .is-close { top: 1rem; right: 1rem; }
+.gallery-lightbox .is-prev { left: 0.75rem; top: 50%; transform: translateY(-50%); }
+.gallery-lightbox .is-next { right: 0.75rem; top: 50%; transform: translateY(-50%); }
+@media (min-width: 768px) {
+  .gallery-lightbox { padding: 2.5rem; }
+}
+
+.bento-play {
+  position: absolute;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+}
+.bento-play span {
+  width: 2.5rem;
+  height: 2.5rem;
+  border-radius: 9999px;
+  background: #ef4444;
+  color: #ffffff;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.2);
+  transition: transform 0.2s ease;
+}
+a.bento-item:hover .bento-play span { transform: scale(1.1); }
+
+.yt-feed { height: 100%; display: flex; flex-direction: column; padding: 0.5rem; }
+.yt-head {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-bottom: 0.5rem;
+  padding-bottom: 0.5rem;
+  border-bottom: 1px solid #f3f4f6;
+}
+.yt-logo {
+  width: 1.5rem;
+  height: 1.5rem;
+  border-radius: 0.5rem;
+  background: #dc2626;
+  color: #ffffff;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+}
+.yt-channel { min-width: 0; flex: 1; }
+.yt-channel h3 {
+  font-size: 0.75rem;
+  font-weight: 700;
+  color: #111827;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+}
+.yt-channel span { font-size: 0.5rem; color: #9ca3af; }
+.yt-videos {
+  flex: 1;
+  display: grid;
+  grid-template-columns: repeat(2, 1fr);
+  gap: 0.25rem;
+  overflow: hidden;
+}
+.yt-videos a { position: relative; overflow: hidden; border-radius: 0.25rem; background: #f3f4f6; }
+.yt-videos img { width: 100%; height: 100%; object-fit: cover; }
+
+.site-footer { width: 100%; padding: 2.5rem 0; text-align: center; }
+.site-footer p { font-size: 0.875rem; color: #9ca3af; font-weight: 500; }
+.site-footer a { font-weight: 600; }
+.site-footer a:hover { color: #8b5cf6; }
+.site-footer .heart { color: #f87171; }
+${isDarkModeEnabled(profile) ? generateDarkModeCss() : ''}${COMMON_BLOCK_CSS}${COMMON_THEME_CSS}`;
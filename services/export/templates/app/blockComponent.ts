@@ -2,16 +2,17 @@
  * Generate Block component for the exported App.tsx
  */
 
-export const generateBlockComponent = (): string => `
-// Block component
-const Block = ({ block }: { block: BlockData }) => {
-  const { elementRef, tiltStyle, handleMouseMove, handleMouseLeave } = useTiltEffect(true)
-  const [videos, setVideos] = useState(block.youtubeVideos || [])
-  const [loading, setLoading] = useState(false)
-  const mediaPos = block.mediaPosition || { x: 50, y: 50 }
+import { EMBED_ALLOW, EMBED_SANDBOX } from '../../../../utils/embed';
+
+const generateFeeds = (): string => `
+// YouTube videos fetched at build time (scripts/fetch-youtube-feeds.js)
+const feeds: Record<string, NonNullable<BlockData['youtubeVideos']>> = youtubeFeeds
+`;
 
+// Opt-in: channels without videos load their feed in the browser, through a CORS proxy
+const generateRuntimeFeed = (): string => `
   useEffect(() => {
-    if (block.type === BlockType.SOCIAL && block.channelId && !block.youtubeVideos?.length) {
+    if (block.type === BlockType.SOCIAL && block.channelId && !initialVideos.length) {
       setLoading(true)
       const rssUrl = \`https://www.youtube.com/feeds/videos.xml?channel_id=\${block.channelId}\`
       const proxyUrl = \`https://api.allorigins.win/raw?url=\${encodeURIComponent(rssUrl)}\`
@@ -27,14 +28,41 @@ const Block = ({ block }: { block: BlockData }) => {
         if (vids.length) setVideos(vids)
       }).catch(() => {}).finally(() => setLoading(false))
     }
-  }, [block.channelId, block.youtubeVideos, block.type])
+  }, [block.channelId, block.type, initialVideos.length])
+`;
 
+export const generateBlockComponent = (
+  darkMode = false,
+  gallery = false,
+  youtubeFeeds = false,
+  youtubeRuntimeFeeds = false
+): string => `${youtubeFeeds ? generateFeeds() : ''}
+// Block component
+${
+  darkMode
+    ? `const Block = ({ block: source }: { block: BlockData }) => {
+  // Dark mode colors are resolved at export time
+  const scheme = useContext(ColorSchemeContext)
+  const block = scheme === 'dark' && source.dark ? { ...source, ...source.dark } : source`
+    : 'const Block = ({ block }: { block: BlockData }) => {'
+}
+  const { elementRef, tiltStyle, handleMouseMove, handleMouseLeave } = useTiltEffect(true)
+  const initialVideos = ${youtubeFeeds ? '(block.channelId && feeds[block.channelId]) || ' : ''}block.youtubeVideos || []
+${
+  youtubeRuntimeFeeds
+    ? `  const [videos, setVideos] = useState(initialVideos)
+  const [loading, setLoading] = useState(false)`
+    : `  const videos = initialVideos
+  const loading = false`
+}
+  const [embedLoaded, setEmbedLoaded] = useState(false)
+  const mediaPos = block.mediaPosition || { x: 50, y: 50 }
+${youtubeRuntimeFeeds ? generateRuntimeFeed() : ''}
+  // Theme radius (--bento-radius in index.css), smaller on small blocks
   const getBorderRadius = () => {
     const minDim = Math.min(block.colSpan, block.rowSpan)
-    if (minDim <= 1) return '0.5rem'
-    if (minDim <= 2) return '0.625rem'
-    if (minDim <= 3) return '0.75rem'
-    return '0.875rem'
+    const factor = minDim <= 1 ? 0.6667 : minDim <= 2 ? 0.8333 : minDim <= 3 ? 1 : 1.1667
+    return \`calc(var(--bento-radius) * \${factor})\`
   }
   const borderRadius = getBorderRadius()
 
@@ -49,6 +77,16 @@ const Block = ({ block }: { block: BlockData }) => {
   }
 
   const handleClick = () => {
+    if (block.type === BlockType.EMBED) {
+      setEmbedLoaded(true)
+      return
+    }${
+      gallery
+        ? `
+    // Gallery images open the lightbox themselves
+    if (block.type === BlockType.GALLERY) return`
+        : ''
+    }
     let url = block.content
     if (block.type === BlockType.SOCIAL && block.socialPlatform && block.socialHandle) {
       url = SOCIAL_PLATFORMS[block.socialPlatform]?.buildUrl(block.socialHandle)
@@ -73,8 +111,8 @@ const Block = ({ block }: { block: BlockData }) => {
     const Icon = platform?.icon
     const url = block.socialHandle ? platform?.buildUrl(block.socialHandle) : ''
     return (
-      <a href={url || undefined} target="_blank" rel="noopener noreferrer" onClick={handleClick}
-        className={\`bento-item relative h-full \${block.color || 'bg-white'} flex items-center justify-center shadow-sm border border-gray-100 hover:shadow-md transition-all\`}
+      <a href={url || undefined} target="_blank" rel="noopener noreferrer" onClick={handleClick} aria-label={block.label || undefined}
+        className={\`bento-item relative h-full \${block.color || 'bg-white'} flex items-center justify-center theme-card hover:shadow-md transition-all\`}
         style={{ borderRadius, ...gridStyle, ...(block.customBackground ? { background: block.customBackground } : {}) }}>
         {Icon && <span style={{ color: platform.brandColor }}><Icon size={24} /></span>}
       </a>
@@ -84,7 +122,7 @@ const Block = ({ block }: { block: BlockData }) => {
   if (isYTGrid) {
     return (
       <div onClick={handleClick} style={{ borderRadius, ...gridStyle, ...(block.customBackground ? { background: block.customBackground } : {}) }}
-        className={\`bento-item group cursor-pointer h-full \${block.color || 'bg-white'} ring-1 ring-black/5 shadow-sm hover:shadow-xl transition-all\`}>
+        className={\`bento-item group cursor-pointer h-full \${block.color || 'bg-white'} theme-card hover:shadow-xl transition-all\`}>
         <div className="w-full h-full flex flex-col p-2 md:p-3">
           <div className="flex items-center gap-2 mb-2 pb-2 border-b border-gray-100">
             <div className="w-6 h-6 rounded-lg bg-red-600 text-white flex items-center justify-center"><Youtube size={12} /></div>
@@ -120,9 +158,10 @@ const Block = ({ block }: { block: BlockData }) => {
     <div onClick={handleClick} style={{ ...gridStyle }} className="cursor-pointer h-full transform-gpu">
       <div ref={elementRef} onMouseMove={handleMouseMove} onMouseLeave={handleMouseLeave}
         style={{ ...bgStyle, borderRadius, ...tiltStyle, width: '100%', height: '100%', transformStyle: 'preserve-3d' }}
-        className={\`bento-item group relative overflow-hidden w-full h-full \${!block.customBackground && !isLinkImg && !isRichYT ? (block.color || 'bg-white') : ''} \${block.textColor || 'text-gray-900'} ring-1 ring-black/5 shadow-sm transition-all\`}>
+        className={\`bento-item group relative overflow-hidden w-full h-full \${!block.customBackground && !isLinkImg && !isRichYT ? (block.color || 'bg-white') : ''} \${block.textColor || 'text-gray-900'} theme-card transition-all\`}>
         <div className="absolute inset-0 pointer-events-none z-30 opacity-0 group-hover:opacity-100 transition-opacity"
           style={{ background: 'radial-gradient(circle at var(--glare-x, 50%) var(--glare-y, 50%), rgba(255,255,255,0.25) 0%, transparent 60%)' }} />
+        {isLinkImg && block.imageAlt && <span role="img" aria-label={block.imageAlt} className="sr-only" />}
         {(isRichYT || isLinkImg) && (block.title || block.subtext) && (
           <div className="absolute inset-x-0 bottom-0 h-2/3 bg-gradient-to-t from-black/70 via-black/30 to-transparent z-0" />
         )}
@@ -130,17 +169,35 @@ const Block = ({ block }: { block: BlockData }) => {
           {block.type === BlockType.MEDIA && block.imageUrl ? (
             <div className="w-full h-full relative overflow-hidden">
               {/\\.(mp4|webm|ogg|mov)$/i.test(block.imageUrl) ? (
-                <video src={block.imageUrl} className="full-img" style={{ objectPosition: \`\${mediaPos.x}% \${mediaPos.y}%\` }} autoPlay loop muted playsInline />
+                <video src={block.imageUrl} aria-label={block.imageAlt || block.title || undefined} className="full-img" style={{ objectPosition: \`\${mediaPos.x}% \${mediaPos.y}%\` }} autoPlay loop muted playsInline />
               ) : (
-                <img src={block.imageUrl} alt={block.title || ''} className="full-img" style={{ objectPosition: \`\${mediaPos.x}% \${mediaPos.y}%\` }} />
+                <picture>
+                  {block.imageSources?.map(source => <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={block.imageSizes} />)}
+                  <img src={block.imageUrl} alt={block.imageAlt || block.title || ''} className="full-img" style={{ objectPosition: \`\${mediaPos.x}% \${mediaPos.y}%\` }} />
+                </picture>
               )}
-              {block.title && <div className="media-overlay"><p className="media-title text-sm">{block.title}</p>{block.subtext && <p className="media-subtext">{block.subtext}</p>}</div>}
+              {block.title && <div className="media-overlay"><p className="media-title text-sm"><span className="theme-heading">{block.title}</span></p>{block.subtext && <p className="media-subtext"><span className="theme-text">{block.subtext}</span></p>}</div>}
+            </div>
+          ) : ${gallery ? 'block.type === BlockType.GALLERY ? (\n            <Gallery block={block} />\n          ) : ' : ''}block.type === BlockType.EMBED ? (
+            <div className="w-full h-full relative bg-gray-100 overflow-hidden flex items-center justify-center">
+              {block.embed && embedLoaded ? (
+                <iframe src={block.embed.src} title={block.title || \`\${block.embed.label} player\`} className="w-full max-h-full border-0" style={{ aspectRatio: block.embed.aspectRatio }}
+                  loading="lazy" allow="${EMBED_ALLOW}" sandbox="${EMBED_SANDBOX}" referrerPolicy="strict-origin-when-cross-origin" />
+              ) : block.embed ? (
+                <div className="flex flex-col items-center gap-2 px-3 text-center">
+                  <div className="w-10 h-10 rounded-full bg-gray-900 flex items-center justify-center shadow-lg group-hover:scale-110 transition-transform">
+                    <Play size={16} className="text-white ml-0.5" fill="white" />
+                  </div>
+                  <p className="font-semibold text-gray-900 text-sm"><span className="theme-heading">{block.title || block.embed.label}</span></p>
+                  <p className="text-gray-500 text-xs">Click to load the {block.embed.label} player</p>
+                </div>
+              ) : null}
             </div>
           ) : block.type === BlockType.MAP ? (
             <div className="w-full h-full relative bg-gray-100 overflow-hidden">
               <iframe width="100%" height="100%" className="opacity-95 grayscale-[20%] group-hover:grayscale-0 transition-all"
                 src={\`https://maps.google.com/maps?q=\${encodeURIComponent(block.content || 'Paris')}&t=&z=13&ie=UTF8&iwloc=&output=embed\`} loading="lazy" sandbox="allow-scripts allow-same-origin" />
-              {block.title && <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent"><p className="font-semibold text-white text-sm">{block.title}</p></div>}
+              {block.title && <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent"><p className="font-semibold text-white text-sm"><span className="theme-heading">{block.title}</span></p></div>}
             </div>
           ) : isRichYT ? (
             <div className="w-full h-full relative">
@@ -149,7 +206,7 @@ const Block = ({ block }: { block: BlockData }) => {
                   <Play size={16} className="text-white ml-0.5" fill="white" />
                 </div>
               </div>
-              {(block.channelTitle || block.title) && <div className="absolute bottom-0 left-0 right-0 p-3"><h3 className="font-semibold text-white text-sm drop-shadow-lg">{block.channelTitle || block.title}</h3></div>}
+              {(block.channelTitle || block.title) && <div className="absolute bottom-0 left-0 right-0 p-3"><h3 className="font-semibold text-white text-sm drop-shadow-lg"><span className="theme-heading">{block.channelTitle || block.title}</span></h3></div>}
             </div>
           ) : (
             <div className="p-3 h-full flex flex-col justify-between">
@@ -164,9 +221,9 @@ const Block = ({ block }: { block: BlockData }) => {
                 ) : null
               })()}
               <div className={block.type === BlockType.TEXT ? 'flex flex-col justify-center h-full' : 'mt-auto'}>
-                <h3 className={\`font-bold leading-tight \${isLinkImg ? 'text-white drop-shadow-lg' : ''}\`}>{block.title}</h3>
-                {block.subtext && <p className={\`text-xs mt-1 \${isLinkImg ? 'text-white/80' : 'opacity-60'}\`}>{block.subtext}</p>}
-                {block.type === BlockType.TEXT && block.content && <p className="opacity-70 mt-2 text-sm whitespace-pre-wrap">{block.content}</p>}
+                <h3 className={\`font-bold leading-tight \${isLinkImg ? 'text-white drop-shadow-lg' : ''}\`}><span className="theme-heading">{block.title}</span></h3>
+                {block.subtext && <p className={\`text-xs mt-1 \${isLinkImg ? 'text-white/80' : 'opacity-60'}\`}><span className="theme-text">{block.subtext}</span></p>}
+                {block.type === BlockType.TEXT && block.content && <p className="opacity-70 mt-2 text-sm whitespace-pre-wrap"><span className="theme-text">{block.content}</span></p>}
               </div>
             </div>
           )}
@@ -0,0 +1,135 @@
+/**
+ * Generate the Gallery component (carousel, slideshow and lightbox) for the exported App.tsx
+ *
+ * Mirrors components/GalleryCarousel.tsx; only emitted when the site has a gallery block.
+ */
+
+export const generateGalleryComponent = (): string => `
+// Gallery block: scroll-snapped slides (swipeable without script), arrows, dots and a lightbox
+type GalleryImage = NonNullable<BlockData['galleryImages']>[number]
+
+const prefersReducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false
+const galleryAlt = (image: GalleryImage) => image.alt || image.caption || ''
+const focalPoint = (image: GalleryImage) => \`\${image.position?.x ?? 50}% \${image.position?.y ?? 50}%\`
+
+const Lightbox = ({ images, index, onIndexChange, onClose }: { images: GalleryImage[]; index: number; onIndexChange: (index: number) => void; onClose: () => void }) => {
+  const closeRef = useRef<HTMLButtonElement>(null)
+  const image = images[index]
+  const step = (delta: number) => onIndexChange((index + delta + images.length) % images.length)
+
+  useEffect(() => {
+    closeRef.current?.focus()
+  }, [])
+
+  return createPortal(
+    <div role="dialog" aria-modal="true" aria-label={\`Image \${index + 1} of \${images.length}\`} tabIndex={-1}
+      className="fixed inset-0 z-[100] bg-black/90 flex flex-col items-center justify-center p-4 md:p-10 focus:outline-none"
+      onClick={e => { e.stopPropagation(); onClose() }}
+      onMouseMove={e => e.stopPropagation()}
+      onKeyDown={e => {
+        e.stopPropagation()
+        if (e.key === 'Escape') onClose()
+        else if (e.key === 'ArrowLeft') step(-1)
+        else if (e.key === 'ArrowRight') step(1)
+      }}>
+      <button ref={closeRef} type="button" aria-label="Close image" onClick={onClose}
+        className="absolute top-4 right-4 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white">
+        <X size={20} />
+      </button>
+      <img src={image.url} alt={galleryAlt(image)} className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl" onClick={e => e.stopPropagation()} />
+      {image.caption && <p className="mt-4 max-w-2xl text-center text-sm text-white/80">{image.caption}</p>}
+      {images.length > 1 && (
+        <>
+          <button type="button" aria-label="Previous image" onClick={e => { e.stopPropagation(); step(-1) }}
+            className="absolute left-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white">
+            <ChevronLeft size={24} />
+          </button>
+          <button type="button" aria-label="Next image" onClick={e => { e.stopPropagation(); step(1) }}
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white">
+            <ChevronRight size={24} />
+          </button>
+          <p className="absolute bottom-4 text-xs font-medium text-white/60">{index + 1} / {images.length}</p>
+        </>
+      )}
+    </div>,
+    document.body
+  )
+}
+
+const Gallery = ({ block }: { block: BlockData }) => {
+  // Images without a URL are dropped and the interval is clamped at export time
+  const images = block.galleryImages || []
+  const trackRef = useRef<HTMLDivElement>(null)
+  const [index, setIndex] = useState(0)
+  const [paused, setPaused] = useState(false)
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const count = images.length
+
+  const goTo = useCallback((next: number) => {
+    const track = trackRef.current
+    if (!track || count === 0) return
+    const target = (next + count) % count
+    track.scrollTo({ left: target * track.clientWidth, behavior: prefersReducedMotion() ? 'auto' : 'smooth' })
+    setIndex(target)
+  }, [count])
+
+  useEffect(() => {
+    if (block.galleryMode !== 'slideshow' || count < 2 || paused || lightboxIndex !== null || prefersReducedMotion()) return
+    const timer = window.setInterval(() => goTo(index + 1), (block.galleryInterval || 5) * 1000)
+    return () => window.clearInterval(timer)
+  }, [block.galleryMode, block.galleryInterval, count, paused, lightboxIndex, index, goTo])
+
+  if (count === 0) return null
+  const current = images[Math.min(index, count - 1)]
+  const overlayTitle = current.caption || block.title
+
+  return (
+    <div className="w-full h-full relative overflow-hidden" role="region" aria-roledescription="carousel" aria-label={block.title || 'Gallery'}
+      onMouseEnter={() => setPaused(true)} onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)} onBlur={() => setPaused(false)}>
+      <div ref={trackRef} className="w-full h-full flex overflow-x-auto snap-x snap-mandatory no-scrollbar"
+        onScroll={e => {
+          const track = e.currentTarget
+          if (track.clientWidth > 0) setIndex(Math.round(track.scrollLeft / track.clientWidth))
+        }}>
+        {images.map((image, i) => (
+          <div key={image.id} className="w-full h-full shrink-0 snap-center relative overflow-hidden" aria-roledescription="slide" aria-label={\`\${i + 1} of \${count}\`}>
+            <picture>
+              {image.sources?.map(source => <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={block.imageSizes} />)}
+              <img src={image.url} alt={galleryAlt(image)} className="full-img cursor-zoom-in" style={{ objectPosition: focalPoint(image) }}
+                loading={i === 0 ? undefined : 'lazy'} onClick={() => setLightboxIndex(i)} />
+            </picture>
+          </div>
+        ))}
+      </div>
+      {overlayTitle && (
+        <div className="media-overlay pointer-events-none">
+          <p className="media-title text-sm"><span className="theme-heading">{overlayTitle}</span></p>
+          {current.caption && block.title && <p className="media-subtext"><span className="theme-text">{block.title}</span></p>}
+        </div>
+      )}
+      {count > 1 && (
+        <>
+          <div className="absolute top-2 left-2 flex gap-1 z-10">
+            {images.map((image, i) => (
+              <button key={image.id} type="button" aria-label={\`Show image \${i + 1}\`} aria-current={i === index} onClick={() => goTo(i)}
+                className={\`h-1.5 rounded-full transition-all focus:outline-none focus:ring-2 focus:ring-white \${i === index ? 'w-4 bg-white' : 'w-1.5 bg-white/50 hover:bg-white/80'}\`} />
+            ))}
+          </div>
+          <button type="button" aria-label="Previous image" onClick={() => goTo(index - 1)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 z-10 p-1.5 rounded-full bg-black/40 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-black/60 focus:outline-none focus:ring-2 focus:ring-white">
+            <ChevronLeft size={16} />
+          </button>
+          <button type="button" aria-label="Next image" onClick={() => goTo(index + 1)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 z-10 p-1.5 rounded-full bg-black/40 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-black/60 focus:outline-none focus:ring-2 focus:ring-white">
+            <ChevronRight size={16} />
+          </button>
+        </>
+      )}
+      {lightboxIndex !== null && (
+        <Lightbox images={images} index={lightboxIndex} onIndexChange={next => { setLightboxIndex(next); goTo(next) }} onClose={() => setLightboxIndex(null)} />
+      )}
+    </div>
+  )
+}
+`;
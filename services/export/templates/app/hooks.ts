@@ -2,6 +2,8 @@
  * Generate React hooks for the exported App.tsx
  */
 
+import { COLOR_SCHEME_ATTRIBUTE, COLOR_SCHEME_STORAGE_KEY } from '../../../../utils/colorScheme';
+
 export const generateTiltHook = (): string => `
 // Tilt effect hook
 const useTiltEffect = (isEnabled = true) => {
@@ -43,8 +45,29 @@ const useTiltEffect = (isEnabled = true) => {
 }
 `;
 
-export const generateAnalyticsHook = (siteId: string): string => `
-// Analytics hook (uses Edge Function - no API keys exposed)
+export const generateAnalyticsHook = (siteId: string, endpoint: string): string => `
+// Analytics hook (Supabase Edge Function or self-hosted collector - no API keys exposed)
+const ANALYTICS_ENDPOINT = ${JSON.stringify(endpoint)}
+
+const randomId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36)
+
+// Persistent per-browser visitor id and per-tab session id
+const getStoredId = (storage: Storage | undefined, key: string) => {
+  try {
+    if (!storage) return randomId()
+    const existing = storage.getItem(key)
+    if (existing) return existing
+    const id = randomId()
+    storage.setItem(key, id)
+    return id
+  } catch {
+    return randomId()
+  }
+}
+
 const useAnalytics = () => {
   const sessionStart = useRef(Date.now())
   const maxScroll = useRef(0)
@@ -61,16 +84,28 @@ const useAnalytics = () => {
   }, [])
 
   useEffect(() => {
-    const config = profile.analytics
-    if (!config?.enabled || !config?.supabaseUrl) return
+    if (!profile.analytics?.enabled || !ANALYTICS_ENDPOINT) return
 
-    const track = async (eventType: 'page_view' | 'click', extra: { blockId?: string; destinationUrl?: string } = {}) => {
+    const visitorId = getStoredId(window.localStorage, 'openbento_vid')
+    const sessionId = getStoredId(window.sessionStorage, 'openbento_sid')
+    let timezone: string | undefined
+    try {
+      timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    } catch {
+      timezone = undefined
+    }
+
+    const track = (
+      eventType: 'page_view' | 'click' | 'session_end',
+      extra: { blockId?: string; destinationUrl?: string; durationSeconds?: number; scrollDepth?: number } = {}
+    ) => {
       const utm = new URLSearchParams(window.location.search)
       const payload = {
         siteId: '${siteId}',
         event: eventType,
-        blockId: extra.blockId,
-        destinationUrl: extra.destinationUrl,
+        visitorId,
+        sessionId,
+        ...extra,
         pageUrl: window.location.href,
         referrer: document.referrer || undefined,
         utm: {
@@ -83,10 +118,11 @@ const useAnalytics = () => {
         language: navigator.language,
         screenW: window.screen?.width,
         screenH: window.screen?.height,
+        viewportW: window.innerWidth,
+        viewportH: window.innerHeight,
+        timezone,
       }
-      // Use Edge Function endpoint (secure - no API keys needed)
-      const endpoint = config.supabaseUrl.replace(/\\/+$/, '') + '/functions/v1/openbento-analytics-track'
-      fetch(endpoint, {
+      fetch(ANALYTICS_ENDPOINT, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -96,8 +132,67 @@ const useAnalytics = () => {
 
     track('page_view')
 
-    // Note: session_end is not supported by the Edge Function, only page_view and click
-    // If you need session tracking, extend the Edge Function
+    // Send session_end once, when the page is hidden or unloaded
+    let sessionEnded = false
+    const endSession = () => {
+      if (sessionEnded) return
+      sessionEnded = true
+      track('session_end', {
+        durationSeconds: Math.round((Date.now() - sessionStart.current) / 1000),
+        scrollDepth: Math.min(100, Math.max(0, maxScroll.current)),
+      })
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') endSession()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', endSession)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('pagehide', endSession)
+    }
   }, [])
 }
 `;
+
+export const generateColorSchemeHook = (): string => `
+// Color scheme: the visitor's choice (set on <html> from localStorage by index.html),
+// else the system setting. CSS variables switch in index.css; blocks read the context.
+// The prerendered page has light block colors until hydration reads the real scheme.
+type ColorScheme = 'light' | 'dark'
+const ColorSchemeContext = createContext<ColorScheme>('light')
+const darkQuery = typeof window === 'undefined' ? undefined : window.matchMedia?.('(prefers-color-scheme: dark)')
+const colorSchemeListeners = new Set<() => void>()
+
+const readColorScheme = (): ColorScheme => {
+  const chosen = document.documentElement.getAttribute('${COLOR_SCHEME_ATTRIBUTE}')
+  if (chosen === 'light' || chosen === 'dark') return chosen
+  return darkQuery?.matches ? 'dark' : 'light'
+}
+
+const subscribeColorScheme = (listener: () => void) => {
+  colorSchemeListeners.add(listener)
+  darkQuery?.addEventListener('change', listener)
+  return () => {
+    colorSchemeListeners.delete(listener)
+    darkQuery?.removeEventListener('change', listener)
+  }
+}
+
+const useColorScheme = () => {
+  const scheme = useSyncExternalStore(subscribeColorScheme, readColorScheme, (): ColorScheme => 'light')
+
+  const toggle = () => {
+    const next: ColorScheme = scheme === 'dark' ? 'light' : 'dark'
+    document.documentElement.setAttribute('${COLOR_SCHEME_ATTRIBUTE}', next)
+    try {
+      localStorage.setItem('${COLOR_SCHEME_STORAGE_KEY}', next)
+    } catch {
+      // Private mode: the choice lasts until reload
+    }
+    colorSchemeListeners.forEach((listener) => listener())
+  }
+
+  return { scheme, toggle }
+}
+`;
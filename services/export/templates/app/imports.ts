@@ -2,9 +2,12 @@
  * Generate import statements for the exported App.tsx
  */
 
-export const generateImports =
-  (): string => `import { useState, useEffect, useRef, useCallback } from 'react'
-import { Youtube, Play, Loader2 } from 'lucide-react'
+export const generateImports = (
+  darkMode = false,
+  gallery = false,
+  youtubeFeeds = false
+): string => `import { useState, useEffect, useRef, useCallback${darkMode ? ', createContext, useContext, useSyncExternalStore' : ''} } from 'react'
+${gallery ? "import { createPortal } from 'react-dom'\n" : ''}import { Youtube, Play, Loader2${darkMode ? ', Moon, Sun' : ''}${gallery ? ', ChevronLeft, ChevronRight, X' : ''} } from 'lucide-react'
 import {
   SiX, SiInstagram, SiTiktok, SiYoutube, SiGithub, SiGitlab, SiLinkedin,
   SiFacebook, SiTwitch, SiDribbble, SiMedium, SiDevdotto, SiReddit,
@@ -14,4 +17,4 @@ import {
 import { Globe, Link as LinkIcon } from 'lucide-react'
 import type { IconType } from 'react-icons'
 import type { LucideIcon } from 'lucide-react'
-`;
+${youtubeFeeds ? "import youtubeFeeds from './youtube-feeds.json'\n" : ''}`;
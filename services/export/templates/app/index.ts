@@ -2,24 +2,53 @@
  * Generate the complete App.tsx for the exported project
  */
 
-import { SiteData } from '../../../../types';
-import { ImageMap } from '../../imageExtractor';
+import { BlockType, SiteData } from '../../../../types';
+import { parseEmbedUrl } from '../../../../utils/embed';
+import { getBlockColors, isDarkModeEnabled } from '../../../../utils/colorScheme';
+import {
+  getGalleryImageKey,
+  getGalleryImages,
+  getGalleryInterval,
+} from '../../../../utils/gallery';
+import { getAvatarAlt, getBlockLabel } from '../../../../utils/accessibility';
+import { getAnalyticsTrackUrl } from '../../../../utils/analytics';
+import {
+  getBackgroundImageCss,
+  getImageSizes,
+  ImageMap,
+  ImageSourceMap,
+} from '../../imageExtractor';
+import { hasYouTubeFeeds } from '../../config/youtubeFeeds';
 import { generateImports } from './imports';
 import { generateTypes } from './types';
 import { generateSocialPlatformsConfig } from './socialPlatforms';
-import { generateTiltHook, generateAnalyticsHook } from './hooks';
+import { generateTiltHook, generateAnalyticsHook, generateColorSchemeHook } from './hooks';
 import { generateBlockComponent } from './blockComponent';
+import { generateGalleryComponent } from './gallery';
 import {
   generateDesktopLayout,
   generateMobileLayout,
   generateMobileLayoutHelper,
   generateFooter,
   generateBackgroundBlur,
+  generateBackgroundDescription,
+  generateColorSchemeToggle,
 } from './layouts';
 
-export const generateAppTsx = (data: SiteData, imageMap: ImageMap, siteId?: string): string => {
+export const generateAppTsx = (
+  data: SiteData,
+  imageMap: ImageMap,
+  siteId?: string,
+  imageSources: ImageSourceMap = {},
+  youtubeRuntimeFeeds = false
+): string => {
   const { profile, blocks } = data;
+  const darkMode = isDarkModeEnabled(profile);
+  const showToggle = darkMode && !!profile.darkMode?.showToggle;
+  const hasGallery = blocks.some((b) => b.type === BlockType.GALLERY);
+  const hasFeeds = hasYouTubeFeeds(blocks);
   const avatarSrc = imageMap['profile_avatar'] || profile.avatarUrl;
+  const backgroundSrc = imageMap['profile_background'] || profile.backgroundImage;
 
   // Avatar style configuration
   const avatarStyle = profile.avatarStyle || {
@@ -37,22 +66,49 @@ export const generateAppTsx = (data: SiteData, imageMap: ImageMap, siteId?: stri
       ? `${avatarStyle.borderWidth || 4}px solid ${avatarStyle.borderColor || '#ffffff'}`
       : 'none';
 
-  // Background style
-  const bgStyle = profile.backgroundImage
-    ? `{ backgroundImage: "url('${profile.backgroundImage}')", backgroundSize: 'cover', backgroundPosition: 'center', backgroundAttachment: 'fixed' }`
-    : `{ backgroundColor: '${profile.backgroundColor || '#f8fafc'}' }`;
+  // Background style (the page background variable switches with the color scheme).
+  // The image itself is set by a <style> element, so it can use the sized variants.
+  const bgStyle = backgroundSrc
+    ? `{ backgroundSize: 'cover', backgroundPosition: 'center', backgroundAttachment: 'fixed' }`
+    : `{ background: 'var(--bento-page-background)' }`;
+  const bgCss = backgroundSrc
+    ? getBackgroundImageCss('.theme-page', backgroundSrc, imageSources['profile_background'])
+    : '';
 
   // Generate JSON data for blocks and profile
   const blocksJson = JSON.stringify(
     blocks.map((b) => ({
       ...b,
       imageUrl: b.imageUrl && imageMap[`block_${b.id}`] ? imageMap[`block_${b.id}`] : b.imageUrl,
+      // Sized variants in modern formats, for <picture> sources
+      imageSources: imageSources[`block_${b.id}`],
+      ...(b.type === BlockType.MEDIA || b.type === BlockType.GALLERY
+        ? { imageSizes: getImageSizes(b.colSpan) }
+        : {}),
+      // Players are resolved (and allow-listed) at export time
+      ...(b.type === BlockType.EMBED ? { embed: parseEmbedUrl(b.content) } : {}),
+      // Icon-only blocks get their accessible name here
+      ...(b.type === BlockType.SOCIAL_ICON ? { label: getBlockLabel(b) } : {}),
+      ...(b.type === BlockType.GALLERY
+        ? {
+            galleryImages: getGalleryImages(b).map((image) => ({
+              ...image,
+              url: imageMap[getGalleryImageKey(b.id, image)] || image.url,
+              sources: imageSources[getGalleryImageKey(b.id, image)],
+            })),
+            galleryInterval: getGalleryInterval(b),
+          }
+        : {}),
+      // So are dark mode colors, derived where the block has none
+      dark: darkMode ? getBlockColors(b, 'dark') : undefined,
     }))
   );
 
   const profileJson = JSON.stringify({
     ...profile,
     avatarUrl: avatarSrc,
+    backgroundImage: backgroundSrc,
+    avatarAlt: getAvatarAlt(profile),
   });
 
   // Layout parameters
@@ -65,43 +121,35 @@ export const generateAppTsx = (data: SiteData, imageMap: ImageMap, siteId?: stri
     hasSocialAccounts: !!(profile.socialAccounts && profile.socialAccounts.length > 0),
     showBranding: profile.showBranding !== false,
     backgroundBlur: profile.backgroundBlur,
-    backgroundImage: profile.backgroundImage,
+    backgroundImage: backgroundSrc,
   };
 
   // Site ID for analytics (use provided siteId or fallback)
   const analyticsId = data.profile.analytics?.enabled ? siteId || 'default' : '';
+  const analyticsEndpoint = analyticsId ? getAnalyticsTrackUrl(data.profile.analytics) : '';
 
   // Assemble the complete App.tsx
-  return `${generateImports()}
+  return `${generateImports(darkMode, hasGallery, hasFeeds)}
 ${generateTypes()}
 ${generateSocialPlatformsConfig()}
-${generateTiltHook()}
-${generateBlockComponent()}
+${generateTiltHook()}${darkMode ? generateColorSchemeHook() : ''}${hasGallery ? generateGalleryComponent() : ''}
+${generateBlockComponent(darkMode, hasGallery, hasFeeds, youtubeRuntimeFeeds)}
 
 // Profile data
 const profile = ${profileJson}
 const blocks: BlockData[] = ${blocksJson}
-${generateAnalyticsHook(analyticsId)}
+${generateAnalyticsHook(analyticsId, analyticsEndpoint)}
 ${generateMobileLayoutHelper()}
-// Sort blocks for mobile
-const sortedBlocks = [...blocks].sort((a, b) => {
-  const aRow = a.gridRow ?? 999
-  const bRow = b.gridRow ?? 999
-  const aCol = a.gridColumn ?? 999
-  const bCol = b.gridColumn ?? 999
-  if (aRow !== bRow) return aRow - bRow
-  return aCol - bCol
-})
 
 export default function App() {
-  useAnalytics()
+  useAnalytics()${darkMode ? `\n  const { scheme${showToggle ? ', toggle' : ''} } = useColorScheme()` : ''}
 
   const avatarStyle = { borderRadius: '${avatarRadius}', boxShadow: '${avatarShadow}', border: '${avatarBorder}' }
   const bgStyle: React.CSSProperties = ${bgStyle}
 
-  return (
-    <div className="min-h-screen font-sans" style={bgStyle}>
-      ${generateBackgroundBlur(profile.backgroundImage, profile.backgroundBlur)}
+  return (${darkMode ? '\n    <ColorSchemeContext.Provider value={scheme}>' : ''}
+    <div className="theme-page min-h-screen font-sans" style={bgStyle}>
+      ${bgCss ? `<style>{${JSON.stringify(bgCss)}}</style>\n      ` : ''}${generateBackgroundBlur(profile.backgroundImage, profile.backgroundBlur)}${generateBackgroundDescription(profile.backgroundImage, profile.backgroundImageAlt)}${showToggle ? generateColorSchemeToggle() : ''}
       <div className="relative z-10">
 ${generateDesktopLayout(layoutParams)}
 
@@ -109,7 +157,7 @@ ${generateMobileLayout(layoutParams)}
 
 ${generateFooter(layoutParams.showBranding)}
       </div>
-    </div>
+    </div>${darkMode ? '\n    </ColorSchemeContext.Provider>' : ''}
   )
 }
 `;
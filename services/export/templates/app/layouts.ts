@@ -19,10 +19,10 @@ export const generateDesktopLayout = (params: LayoutParams): string => `
         <div className="hidden lg:flex">
           <div className="fixed left-0 top-0 w-[420px] h-screen flex flex-col justify-center items-start px-12">
             <div className="w-40 h-40 overflow-hidden bg-gray-100 mb-8" style={avatarStyle}>
-              <img src={profile.avatarUrl} alt={profile.name} className="w-full h-full object-cover" />
+              <img src={profile.avatarUrl} alt={profile.avatarAlt} className="w-full h-full object-cover" />
             </div>
-            <h1 className="text-4xl font-bold tracking-tight text-gray-900 mb-3">{profile.name}</h1>
-            <p className="text-base text-gray-500 font-medium whitespace-pre-wrap max-w-xs">{profile.bio}</p>
+            <h1 className="text-4xl font-bold tracking-tight theme-ink mb-3"><span className="theme-heading">{profile.name}</span></h1>
+            <p className="text-base theme-muted font-medium whitespace-pre-wrap max-w-xs"><span className="theme-text">{profile.bio}</span></p>
             ${
               params.showSocialInHeader && params.hasSocialAccounts
                 ? `
@@ -50,7 +50,7 @@ export const generateDesktopLayout = (params: LayoutParams): string => `
             }
           </div>
           <div className="ml-[420px] flex-1 p-12">
-            <div className="grid gap-2" style={{ gridTemplateColumns: 'repeat(9, 1fr)', gridAutoRows: '64px' }}>
+            <div className="grid gap-bento" style={{ gridTemplateColumns: 'repeat(9, 1fr)', gridAutoRows: '64px' }}>
               {blocks.map(block => <Block key={block.id} block={block} />)}
             </div>
           </div>
@@ -63,23 +63,83 @@ export const MOBILE_GRID_CONFIG = {
   gap: 12,
 } as const;
 
+// Tablet grid (768px and up, below the desktop layout)
+export const TABLET_GRID_CONFIG = {
+  columns: 4,
+  rowHeight: 80,
+  gap: 12,
+} as const;
+
+// Mirrors utils/mobileLayout.ts: derived spans and order, then per-block overrides
 export const generateMobileLayoutHelper = (): string => `
-// Mobile layout helper - calculates responsive grid spans
-const getMobileLayout = (block: BlockData) => ({
-  colSpan: block.colSpan >= 5 ? 2 : 1,
-  rowSpan: block.colSpan >= 3 && block.colSpan < 5 ? Math.max(block.rowSpan, 2) : block.rowSpan
-})
+// Responsive layout helpers - derived grid spans, overridable per block
+type Breakpoint = 'mobile' | 'tablet'
+
+const BREAKPOINT_COLUMNS: Record<Breakpoint, number> = { mobile: ${MOBILE_GRID_CONFIG.columns}, tablet: ${TABLET_GRID_CONFIG.columns} }
+
+const getBreakpointLayout = (block: BlockData, breakpoint: Breakpoint) => {
+  const override = block.layouts?.[breakpoint]
+  const derived = breakpoint === 'tablet'
+    ? { colSpan: Math.min(${TABLET_GRID_CONFIG.columns}, Math.max(1, Math.round((block.colSpan * 4) / 9))), rowSpan: block.rowSpan }
+    : {
+        colSpan: block.colSpan >= 5 ? 2 : 1,
+        rowSpan: block.colSpan >= 3 && block.colSpan < 5 ? Math.max(block.rowSpan, 2) : block.rowSpan
+      }
+  return {
+    colSpan: Math.min(BREAKPOINT_COLUMNS[breakpoint], Math.max(1, override?.colSpan ?? derived.colSpan)),
+    rowSpan: Math.max(1, override?.rowSpan ?? derived.rowSpan)
+  }
+}
+
+// Desktop reading order (row, then column), moved by override orders; hidden blocks left out
+const getBreakpointBlocks = (breakpoint: Breakpoint) =>
+  [...blocks]
+    .sort((a, b) => {
+      const aRow = a.gridRow ?? 999
+      const bRow = b.gridRow ?? 999
+      if (aRow !== bRow) return aRow - bRow
+      return (a.gridColumn ?? 999) - (b.gridColumn ?? 999)
+    })
+    .map((block, index) => ({ block, index, order: block.layouts?.[breakpoint]?.order }))
+    .sort((a, b) => {
+      const aKey = a.order ?? a.index
+      const bKey = b.order ?? b.index
+      if (aKey !== bKey) return aKey - bKey
+      if ((a.order === undefined) !== (b.order === undefined)) return a.order === undefined ? 1 : -1
+      return a.index - b.index
+    })
+    .map(({ block }) => block)
+    .filter((block) => !block.layouts?.[breakpoint]?.hidden)
+
+const mobileBlocks = getBreakpointBlocks('mobile')
+const tabletBlocks = getBreakpointBlocks('tablet')
 `;
 
+const generateBreakpointGrid = (
+  breakpoint: 'mobile' | 'tablet',
+  config: { columns: number; rowHeight: number; gap: number },
+  className: string
+): string => `
+            <div className="${className}" style={{ gridTemplateColumns: 'repeat(${config.columns}, 1fr)', gridAutoRows: '${config.rowHeight}px', gap: '${config.gap}px' }}>
+              {${breakpoint}Blocks.map(block => {
+                const layout = getBreakpointLayout(block, '${breakpoint}')
+                return (
+                  <div key={block.id} style={{ gridColumn: \`span \${layout.colSpan}\`, gridRow: \`span \${layout.rowSpan}\` }}>
+                    <Block block={{ ...block, gridColumn: undefined, gridRow: undefined }} />
+                  </div>
+                )
+              })}
+            </div>`;
+
 export const generateMobileLayout = (params: LayoutParams): string => `
-        {/* Mobile Layout - 2 columns adaptive */}
+        {/* Mobile Layout - 2 columns adaptive, 4 columns on tablets */}
         <div className="lg:hidden">
           <div className="p-4 pt-8 flex flex-col items-center text-center">
             <div className="w-24 h-24 mb-4 overflow-hidden bg-gray-100" style={avatarStyle}>
-              <img src={profile.avatarUrl} alt={profile.name} className="w-full h-full object-cover" />
+              <img src={profile.avatarUrl} alt={profile.avatarAlt} className="w-full h-full object-cover" />
             </div>
-            <h1 className="text-2xl font-extrabold tracking-tight text-gray-900 mb-2">{profile.name}</h1>
-            <p className="text-sm text-gray-500 font-medium whitespace-pre-wrap max-w-xs">{profile.bio}</p>
+            <h1 className="text-2xl font-extrabold tracking-tight theme-ink mb-2"><span className="theme-heading">{profile.name}</span></h1>
+            <p className="text-sm theme-muted font-medium whitespace-pre-wrap max-w-xs"><span className="theme-text">{profile.bio}</span></p>
             ${
               params.showSocialInHeader && params.hasSocialAccounts
                 ? `
@@ -106,20 +166,16 @@ export const generateMobileLayout = (params: LayoutParams): string => `
                 : ''
             }
           </div>
-          <div className="p-4">
-            <div className="grid" style={{ gridTemplateColumns: 'repeat(${MOBILE_GRID_CONFIG.columns}, 1fr)', gridAutoRows: '${MOBILE_GRID_CONFIG.rowHeight}px', gap: '${MOBILE_GRID_CONFIG.gap}px' }}>
-              {sortedBlocks.map(block => {
-                const mobile = getMobileLayout(block)
-                return (
-                  <div key={block.id} style={{ gridColumn: \`span \${mobile.colSpan}\`, gridRow: \`span \${mobile.rowSpan}\` }}>
-                    <Block block={{ ...block, gridColumn: undefined, gridRow: undefined }} />
-                  </div>
-                )
-              })}
-            </div>
+          <div className="p-4">${generateBreakpointGrid('mobile', MOBILE_GRID_CONFIG, 'grid md:hidden')}${generateBreakpointGrid('tablet', TABLET_GRID_CONFIG, 'hidden md:grid')}
           </div>
         </div>`;
 
+export const generateColorSchemeToggle = (): string => `
+      <button type="button" onClick={toggle} aria-label={scheme === 'dark' ? 'Switch to light mode' : 'Switch to dark mode'}
+        className="fixed top-4 right-4 z-20 w-10 h-10 rounded-full bg-white/80 text-gray-900 shadow-md backdrop-blur flex items-center justify-center hover:scale-105 transition-transform">
+        {scheme === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
+      </button>`;
+
 export const generateFooter = (showBranding: boolean): string =>
   showBranding
     ? `
@@ -131,6 +187,15 @@ export const generateFooter = (showBranding: boolean): string =>
         </footer>`
     : '';
 
+// Exposes a described background image to screen readers; without a description it is decorative
+export const generateBackgroundDescription = (
+  backgroundImage: string | undefined,
+  backgroundImageAlt: string | undefined
+): string =>
+  backgroundImage && backgroundImageAlt
+    ? `<span role="img" aria-label={profile.backgroundImageAlt} className="sr-only" />`
+    : '';
+
 export const generateBackgroundBlur = (
   backgroundImage: string | undefined,
   backgroundBlur: number | undefined
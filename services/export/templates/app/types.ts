@@ -11,11 +11,21 @@ enum BlockType {
   SOCIAL = 'SOCIAL',
   SOCIAL_ICON = 'SOCIAL_ICON',
   MAP = 'MAP',
+  EMBED = 'EMBED',
+  GALLERY = 'GALLERY',
   SPACER = 'SPACER'
 }
 
 type SocialPlatform = 'x' | 'instagram' | 'tiktok' | 'youtube' | 'github' | 'gitlab' | 'linkedin' | 'facebook' | 'twitch' | 'dribbble' | 'medium' | 'devto' | 'reddit' | 'pinterest' | 'threads' | 'bluesky' | 'mastodon' | 'substack' | 'patreon' | 'kofi' | 'buymeacoffee' | 'website' | 'snapchat' | 'discord' | 'telegram' | 'whatsapp' | 'custom'
 
+type EmbedProviderId = 'spotify' | 'soundcloud' | 'vimeo' | 'bandcamp' | 'applemusic'
+
+// Sized variants of an exported image in one format
+interface ImageSource {
+  type: string
+  srcSet: string
+}
+
 interface BlockData {
   id: string
   type: BlockType
@@ -23,21 +33,31 @@ interface BlockData {
   content?: string
   subtext?: string
   imageUrl?: string
+  imageAlt?: string
+  imageSources?: ImageSource[]
+  imageSizes?: string
   mediaPosition?: { x: number; y: number }
   colSpan: number
   rowSpan: number
   color?: string
   customBackground?: string
   textColor?: string
+  dark?: { color?: string; customBackground?: string; textColor?: string }
   gridColumn?: number
   gridRow?: number
+  layouts?: Partial<Record<'mobile' | 'tablet', { colSpan?: number; rowSpan?: number; order?: number; hidden?: boolean }>>
   channelId?: string
   youtubeVideoId?: string
   channelTitle?: string
   youtubeMode?: 'single' | 'grid' | 'list'
   youtubeVideos?: Array<{ id: string; title: string; thumbnail: string }>
+  galleryImages?: Array<{ id: string; url: string; caption?: string; alt?: string; position?: { x: number; y: number }; sources?: ImageSource[] }>
+  galleryMode?: 'carousel' | 'slideshow'
+  galleryInterval?: number
   socialPlatform?: SocialPlatform
   socialHandle?: string
   zIndex?: number
+  embed?: { provider: EmbedProviderId; label: string; src: string; aspectRatio: string } | null
+  label?: string
 }
 `;
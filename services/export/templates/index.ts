@@ -3,6 +3,6 @@
  */
 
 export { generateIndexHtml } from './indexHtml';
-export { generateMainTsx } from './mainTsx';
+export { generateMainTsx, generateEntryServerTsx } from './mainTsx';
 export { generateIndexCSS } from './indexCss';
 export { generateAppTsx } from './app';
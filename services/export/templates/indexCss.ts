@@ -2,10 +2,16 @@
  * Generate src/index.css for exported project
  */
 
-export const generateIndexCSS = (): string => `@tailwind base;
+import { UserProfile } from '../../../types';
+import { getThemeCss } from '../../../utils/theme';
+import { COMMON_THEME_CSS } from '../../commonStyles';
+
+export const generateIndexCSS = (profile: UserProfile): string => `@tailwind base;
 @tailwind components;
 @tailwind utilities;
 
+${getThemeCss(profile)}
+${COMMON_THEME_CSS}
 .full-img {
   position: absolute;
   top: 0;
@@ -2,18 +2,163 @@
  * Generate index.html for exported project
  */
 
+import { UserProfile } from '../../../types';
+import { buildSocialUrl } from '../../../socialPlatforms';
+import { sanitizeUrl } from '../../../utils/security';
+import { resolveTheme, getThemeFontsUrl } from '../../../utils/theme';
+import { COLOR_SCHEME_INIT_SCRIPT, isDarkModeEnabled } from '../../../utils/colorScheme';
 import { escapeHtml } from '../helpers';
+import { ImageMap } from '../imageExtractor';
+import { PRERENDER_PLACEHOLDER } from './mainTsx';
 
-export const generateIndexHtml = (title: string): string => `<!DOCTYPE html>
+const DESCRIPTION_MAX_LENGTH = 200;
+
+/**
+ * Resolve an asset path against the public site URL.
+ * Keeps any sub-path of the site URL (e.g. GitHub Pages project sites).
+ */
+const toAbsoluteUrl = (path: string, siteUrl: string): string => {
+  if (!siteUrl || /^https?:\/\//i.test(path)) return path;
+  try {
+    const base = siteUrl.endsWith('/') ? siteUrl : `${siteUrl}/`;
+    return new URL(path.replace(/^\/+/, ''), base).href;
+  } catch {
+    return path;
+  }
+};
+
+// Only keep images that can be referenced from a meta tag (no inline data URLs)
+const pickLinkableImage = (...candidates: Array<string | undefined>): string => {
+  for (const candidate of candidates) {
+    if (!candidate || candidate.startsWith('data:')) continue;
+    // Asset paths from the image map (absolute or relative) have no scheme
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(candidate) || sanitizeUrl(candidate)) return candidate;
+  }
+  return '';
+};
+
+const toSingleLine = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Build the schema.org ProfilePage / Person structured data
+ */
+export const generateJsonLd = (
+  profile: UserProfile,
+  params: { url: string; image: string; description: string }
+): string => {
+  const sameAs = (profile.socialAccounts || [])
+    .map((account) => buildSocialUrl(account.platform, account.handle))
+    .filter((url) => !!sanitizeUrl(url));
+
+  const person: Record<string, unknown> = {
+    '@type': 'Person',
+    name: profile.name,
+  };
+  if (params.description) person.description = params.description;
+  if (params.image) person.image = params.image;
+  if (params.url) person.url = params.url;
+  if (sameAs.length > 0) person.sameAs = Array.from(new Set(sameAs));
+
+  const page: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'ProfilePage',
+    name: profile.openGraph?.title || profile.name,
+    mainEntity: person,
+  };
+  if (params.url) page.url = params.url;
+
+  // Escape '<' so a value can never close the surrounding <script> tag
+  return JSON.stringify(page, null, 2).replace(/</g, '\\u003c');
+};
+
+/**
+ * Generate the <head> meta tags (SEO, OpenGraph, Twitter card, favicon, JSON-LD)
+ */
+export const generateMetaTags = (profile: UserProfile, imageMap: ImageMap = {}): string => {
+  const og = profile.openGraph || {};
+  const siteUrl = sanitizeUrl(og.url);
+  const title = og.title || profile.name;
+  const description = toSingleLine(og.description || profile.bio || '').slice(
+    0,
+    DESCRIPTION_MAX_LENGTH
+  );
+
+  const avatar = pickLinkableImage(imageMap['profile_avatar'], profile.avatarUrl);
+  const image = pickLinkableImage(imageMap['profile_og_image'], og.image, avatar);
+  const absoluteImage = image ? toAbsoluteUrl(image, siteUrl) : '';
+  const cardType = og.twitterCardType || (absoluteImage ? 'summary_large_image' : 'summary');
+  const twitterHandle = og.twitterHandle?.trim().replace(/^@+/, '');
+
+  const tags: string[] = [];
+  const meta = (attr: 'name' | 'property', key: string, value: string | undefined) => {
+    if (value) tags.push(`<meta ${attr}="${key}" content="${escapeHtml(value)}" />`);
+  };
+
+  meta('name', 'description', description);
+  if (siteUrl) tags.push(`<link rel="canonical" href="${escapeHtml(siteUrl)}" />`);
+  if (avatar) tags.push(`<link rel="icon" href="${escapeHtml(avatar)}" />`);
+  if (avatar) tags.push(`<link rel="apple-touch-icon" href="${escapeHtml(avatar)}" />`);
+
+  meta('property', 'og:type', 'profile');
+  meta('property', 'og:title', title);
+  meta('property', 'og:description', description);
+  meta('property', 'og:url', siteUrl);
+  meta('property', 'og:site_name', og.siteName);
+  meta('property', 'og:image', absoluteImage);
+  if (absoluteImage) meta('property', 'og:image:alt', title);
+
+  meta('name', 'twitter:card', cardType);
+  meta('name', 'twitter:title', title);
+  meta('name', 'twitter:description', description);
+  meta('name', 'twitter:image', absoluteImage);
+  if (twitterHandle) {
+    meta('name', 'twitter:site', `@${twitterHandle}`);
+    meta('name', 'twitter:creator', `@${twitterHandle}`);
+  }
+
+  const jsonLd = generateJsonLd(profile, {
+    url: siteUrl,
+    image: absoluteImage,
+    description,
+  });
+  tags.push(`<script type="application/ld+json">\n${jsonLd}\n    </script>`);
+
+  return tags.map((tag) => `    ${tag}`).join('\n');
+};
+
+/**
+ * Stylesheet link for the theme fonts (none when the theme only uses system fonts)
+ */
+export const generateFontsLink = (profile: UserProfile): string => {
+  const url = getThemeFontsUrl(resolveTheme(profile));
+  return url ? `\n    <link href="${escapeHtml(url)}" rel="stylesheet">` : '';
+};
+
+/**
+ * Dark mode tags for <head>: the supported schemes and, with the visitor toggle,
+ * a script applying the stored choice before the first paint
+ */
+export const generateColorSchemeTags = (profile: UserProfile): string => {
+  if (!isDarkModeEnabled(profile)) return '';
+  const meta = '\n    <meta name="color-scheme" content="light dark" />';
+  return profile.darkMode?.showToggle
+    ? `${meta}\n    <script>${COLOR_SCHEME_INIT_SCRIPT}</script>`
+    : meta;
+};
+
+export const generateIndexHtml = (
+  profile: UserProfile,
+  imageMap: ImageMap = {}
+): string => `<!DOCTYPE html>
 <html lang="en">
   <head>
     <meta charset="UTF-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-    <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap" rel="stylesheet">
-    <title>${escapeHtml(title)}</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />${generateColorSchemeTags(profile)}${generateFontsLink(profile)}
+    <title>${escapeHtml(profile.openGraph?.title || profile.name)}</title>
+${generateMetaTags(profile, imageMap)}
   </head>
   <body>
-    <div id="root"></div>
+    <div id="root">${PRERENDER_PLACEHOLDER}</div>
     <script type="module" src="/src/main.tsx"></script>
   </body>
 </html>
@@ -1,15 +1,39 @@
 /**
- * Generate src/main.tsx for exported project
+ * Generate src/main.tsx and src/entry-server.tsx for exported project
  */
 
+// Marker in index.html replaced by the prerendered page (see prerender.js)
+export const PRERENDER_PLACEHOLDER = '<!--app-html-->';
+
 export const generateMainTsx = (): string => `import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!
+const app = (
   <React.StrictMode>
     <App />
-  </React.StrictMode>,
+  </React.StrictMode>
 )
+
+// Builds are prerendered (prerender.js): take over that markup. The dev server serves an empty root.
+if (root.firstElementChild) {
+  ReactDOM.hydrateRoot(root, app)
+} else {
+  ReactDOM.createRoot(root).render(app)
+}
+`;
+
+export const generateEntryServerTsx = (): string => `import React from 'react'
+import { renderToString } from 'react-dom/server'
+import App from './App'
+
+// Used at build time by prerender.js
+export const render = (): string =>
+  renderToString(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
 `;
@@ -1 +0,0 @@
-// File removed.
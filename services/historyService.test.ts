@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BentoSnapshot, BlockData, BlockType, SiteData } from '../types';
+
+// In-memory snapshot storage instead of IndexedDB
+const stored: BentoSnapshot[] = [];
+vi.mock('./storageService', () => ({
+  getSnapshots: async (bentoId: string) =>
+    stored.filter((s) => s.bentoId === bentoId).sort((a, b) => b.createdAt - a.createdAt),
+  saveSnapshot: async (snapshot: BentoSnapshot) => {
+    stored.push(snapshot);
+  },
+  deleteSnapshots: async (_bentoId: string, ids: string[]) => {
+    for (const id of ids)
+      stored.splice(
+        stored.findIndex((s) => s.id === id),
+        1
+      );
+  },
+}));
+
+const { AUTO_SNAPSHOT_INTERVAL_MS, createCheckpoint, recordAutoSnapshot, restoreSnapshot } =
+  await import('./historyService');
+
+const block = (id: string, fields: Partial<BlockData> = {}): BlockData => ({
+  id,
+  type: BlockType.TEXT,
+  title: id,
+  colSpan: 3,
+  rowSpan: 3,
+  ...fields,
+});
+
+const site = (...blocks: BlockData[]): SiteData => ({
+  profile: { name: 'Jane', bio: '', avatarUrl: '', theme: 'light', primaryColor: 'blue' },
+  blocks,
+});
+
+const snapshotsOf = (bentoId: string) => stored.filter((s) => s.bentoId === bentoId);
+
+// The service keeps per-bento state for the page session: each test uses its own bento
+let bentoId = '';
+let counter = 0;
+
+beforeEach(() => {
+  bentoId = `bento_${++counter}`;
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('recordAutoSnapshot', () => {
+  it('keeps the original state before the first change of the session', async () => {
+    const original = site(block('a'));
+    await recordAutoSnapshot(bentoId, original, site(block('a', { title: 'Edited' })));
+
+    expect(snapshotsOf(bentoId)).toHaveLength(1);
+    expect(snapshotsOf(bentoId)[0].data).toEqual(original);
+  });
+
+  it('snapshots again only once the interval has elapsed', async () => {
+    const v1 = site(block('a'));
+    const v2 = site(block('a', { title: 'v2' }));
+    const v3 = site(block('a', { title: 'v3' }));
+    const v4 = site(block('a', { title: 'v4' }));
+
+    await recordAutoSnapshot(bentoId, v1, v2);
+    vi.advanceTimersByTime(60_000);
+    await recordAutoSnapshot(bentoId, v2, v3);
+    expect(snapshotsOf(bentoId)).toHaveLength(1);
+
+    vi.advanceTimersByTime(AUTO_SNAPSHOT_INTERVAL_MS);
+    await recordAutoSnapshot(bentoId, v3, v4);
+    expect(snapshotsOf(bentoId).map((s) => s.data)).toEqual([v1, v3]);
+  });
+
+  it('always snapshots before a delete, however small', async () => {
+    const v1 = site(block('a'), block('b'));
+    const v2 = site(block('a', { title: 'v2' }), block('b'));
+    const v3 = site(block('a', { title: 'v2' }));
+
+    await recordAutoSnapshot(bentoId, v1, v2);
+    await recordAutoSnapshot(bentoId, v2, v3);
+
+    const [, beforeDelete] = snapshotsOf(bentoId);
+    expect(beforeDelete.data).toEqual(v2);
+    expect(beforeDelete.label).toBe('Before deleting 1 block');
+  });
+
+  it('does not snapshot a state that is already the latest snapshot', async () => {
+    const v1 = site(block('a'), block('b'));
+    await createCheckpoint(bentoId, v1, 'Launch');
+    await recordAutoSnapshot(bentoId, v1, site(block('a')));
+
+    expect(snapshotsOf(bentoId)).toHaveLength(1);
+  });
+
+  it('ignores saves without changes', async () => {
+    await recordAutoSnapshot(bentoId, site(block('a')), site(block('a')));
+    expect(snapshotsOf(bentoId)).toHaveLength(0);
+  });
+});
+
+describe('restoreSnapshot', () => {
+  it('snapshots the current state, then records the restored version', async () => {
+    const old = await createCheckpoint(bentoId, site(block('a')), 'Old');
+    const current = site(block('b'));
+
+    const restored = await restoreSnapshot(old, current);
+
+    expect(restored).toEqual(old.data);
+    const [, beforeRestore, restore] = snapshotsOf(bentoId);
+    expect(beforeRestore).toMatchObject({ kind: 'auto', data: current });
+    expect(restore).toMatchObject({ kind: 'restore', label: 'Restored "Old"', data: old.data });
+    expect(restore.createdAt).toBeGreaterThan(beforeRestore.createdAt);
+  });
+});
@@ -0,0 +1,150 @@
+// Revision history: automatic snapshots, named checkpoints and restore
+import { BentoSnapshot, SiteData } from '../types';
+import { diffSiteData } from '../utils/bentoDiff';
+import { deleteSnapshots, getSnapshots, saveSnapshot } from './storageService';
+
+// Automatic snapshots keep the state before the first change of each editing
+// session, then at most every 10 minutes while editing...
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+// ...and right away before deletes and bulk changes (AI generation, import, layout reset...)
+export const AUTO_SNAPSHOT_CHANGE_THRESHOLD = 5;
+// Oldest automatic snapshots are pruned; checkpoints and restores are kept
+export const MAX_AUTO_SNAPSHOTS = 50;
+
+interface LatestSnapshot {
+  createdAt: number;
+  json: string; // Serialized data, to skip snapshotting the same state twice
+}
+
+// Latest snapshot per bento (null: none yet), loaded lazily from storage
+const latestSnapshots = new Map<string, LatestSnapshot | null>();
+// Bentos changed since the page was loaded
+const editedBentos = new Set<string>();
+
+const generateSnapshotId = (): string =>
+  `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const getLatestSnapshot = async (bentoId: string): Promise<LatestSnapshot | null> => {
+  if (!latestSnapshots.has(bentoId)) {
+    const [latest] = await getSnapshots(bentoId);
+    // A snapshot may have been recorded while loading
+    if (!latestSnapshots.has(bentoId)) {
+      latestSnapshots.set(
+        bentoId,
+        latest ? { createdAt: latest.createdAt, json: JSON.stringify(latest.data) } : null
+      );
+    }
+  }
+  return latestSnapshots.get(bentoId) ?? null;
+};
+
+const pruneAutoSnapshots = async (bentoId: string): Promise<void> => {
+  const snapshots = await getSnapshots(bentoId);
+  const stale = snapshots
+    .filter((s) => s.kind === 'auto')
+    .slice(MAX_AUTO_SNAPSHOTS)
+    .map((s) => s.id);
+  await deleteSnapshots(bentoId, stale);
+};
+
+/**
+ * Persist a new snapshot of a bento
+ */
+export const createSnapshot = async (
+  bentoId: string,
+  data: SiteData,
+  kind: BentoSnapshot['kind'],
+  label?: string
+): Promise<BentoSnapshot> => {
+  const json = JSON.stringify(data);
+  const snapshot: BentoSnapshot = {
+    id: generateSnapshotId(),
+    bentoId,
+    // Strictly increasing so that snapshots taken together keep their order
+    createdAt: Math.max(Date.now(), (latestSnapshots.get(bentoId)?.createdAt ?? 0) + 1),
+    kind,
+    label: label?.trim() || undefined,
+    // Deep copy: the builder state may be mutated after this call
+    data: JSON.parse(json),
+  };
+  latestSnapshots.set(bentoId, { createdAt: snapshot.createdAt, json });
+  await saveSnapshot(snapshot);
+  if (kind === 'auto') await pruneAutoSnapshots(bentoId);
+  return snapshot;
+};
+
+/**
+ * Called on every auto-save with the previously saved data and the new data.
+ * Snapshots the previous version, so it can be restored, before:
+ * - the first change of the session, and the first one after AUTO_SNAPSHOT_INTERVAL_MS
+ * - deletes, whatever their size
+ * - bulk changes (AUTO_SNAPSHOT_CHANGE_THRESHOLD changes or more)
+ */
+export const recordAutoSnapshot = async (
+  bentoId: string,
+  previous: SiteData | null,
+  next: SiteData
+): Promise<void> => {
+  const changes = previous ? diffSiteData(previous, next) : [];
+  if (previous && changes.length === 0) return;
+
+  const isFirstChange = !editedBentos.has(bentoId);
+  editedBentos.add(bentoId);
+  const latest = await getLatestSnapshot(bentoId);
+  const isIntervalElapsed = Date.now() - (latest?.createdAt ?? 0) >= AUTO_SNAPSHOT_INTERVAL_MS;
+
+  // Nothing saved before (a new bento): keep its first version
+  if (!previous) {
+    if (isIntervalElapsed) await createSnapshot(bentoId, next, 'auto');
+    return;
+  }
+
+  const removed = changes.filter((change) => change.kind === 'removed').length;
+  const isBulk = changes.length >= AUTO_SNAPSHOT_CHANGE_THRESHOLD;
+  if (!removed && !isBulk && !isFirstChange && !isIntervalElapsed) return;
+  // Already restorable, e.g. right after a restore or a checkpoint
+  if (latest?.json === JSON.stringify(previous)) return;
+
+  const label = removed
+    ? `Before deleting ${removed} block${removed === 1 ? '' : 's'}`
+    : isBulk
+      ? `Before ${changes.length} changes`
+      : undefined;
+  await createSnapshot(bentoId, previous, 'auto', label);
+};
+
+/**
+ * Save a named checkpoint of the current state
+ */
+export const createCheckpoint = (
+  bentoId: string,
+  data: SiteData,
+  label: string
+): Promise<BentoSnapshot> => createSnapshot(bentoId, data, 'manual', label || 'Checkpoint');
+
+/**
+ * Restore a snapshot as the new head. The current state is snapshotted first so
+ * that restoring is itself reversible. Returns the data to apply in the builder.
+ */
+export const restoreSnapshot = async (
+  snapshot: BentoSnapshot,
+  current: SiteData
+): Promise<SiteData> => {
+  const restoredFrom = new Date(snapshot.createdAt).toLocaleString();
+  await createSnapshot(snapshot.bentoId, current, 'auto', `Before restoring ${restoredFrom}`);
+  const restored = await createSnapshot(
+    snapshot.bentoId,
+    snapshot.data,
+    'restore',
+    `Restored ${snapshot.label ? `"${snapshot.label}"` : restoredFrom}`
+  );
+  return restored.data;
+};
+
+/**
+ * Delete a single snapshot
+ */
+export const deleteSnapshot = (snapshot: BentoSnapshot): Promise<void> =>
+  deleteSnapshots(snapshot.bentoId, [snapshot.id]);
+
+export { getSnapshots };
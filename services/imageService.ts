@@ -0,0 +1,161 @@
+/**
+ * Image optimization in the browser
+ *
+ * Uploads are downscaled and re-encoded on a canvas before they are stored as
+ * data URLs; exports get resized variants in modern formats for srcset.
+ */
+
+const SETTINGS_KEY = 'openbento_image_settings';
+
+export interface ImageSettings {
+  maxDimension: number; // Longest side of uploads in pixels, 0 to keep the original size
+}
+
+export const IMAGE_MAX_DIMENSION_OPTIONS: { value: number; label: string }[] = [
+  { value: 1024, label: '1024 px' },
+  { value: 1600, label: '1600 px' },
+  { value: 2048, label: '2048 px' },
+  { value: 3072, label: '3072 px' },
+  { value: 0, label: 'Original size' },
+];
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { maxDimension: 2048 };
+
+const UPLOAD_QUALITY = 0.85;
+const VARIANT_QUALITY = 0.8;
+
+// Widths of the exported variants; images are never upscaled
+export const EXPORT_IMAGE_WIDTHS = [480, 960, 1440, 1920];
+
+// Preferred first; formats the browser can't encode are skipped
+export const EXPORT_IMAGE_FORMATS = ['image/avif', 'image/webp'];
+
+export interface ImageVariant {
+  type: string;
+  width: number;
+  blob: Blob;
+}
+
+export const loadImageSettings = (): ImageSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      maxDimension:
+        typeof stored.maxDimension === 'number' && stored.maxDimension >= 0
+          ? stored.maxDimension
+          : DEFAULT_IMAGE_SETTINGS.maxDimension,
+    };
+  } catch {
+    return DEFAULT_IMAGE_SETTINGS;
+  }
+};
+
+export const saveImageSettings = (settings: ImageSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save image settings:', e);
+  }
+};
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(file);
+  });
+
+// Animated GIFs and vector images would lose what makes them what they are
+const canReencode = (type: string): boolean =>
+  type.startsWith('image/') && type !== 'image/gif' && type !== 'image/svg+xml';
+
+const getDataUrlType = (dataUrl: string): string => dataUrl.match(/^data:([^;,]+)/)?.[1] ?? '';
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode image'));
+    image.src = src;
+  });
+
+const drawScaled = (image: HTMLImageElement, width: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round((image.naturalHeight * width) / image.naturalWidth));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Browsers without an encoder for the type return a PNG instead: null then
+const encode = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise((resolve) =>
+    canvas.toBlob((blob) => resolve(blob && blob.type === type ? blob : null), type, quality)
+  );
+
+/**
+ * Downscale an uploaded image to the configured maximum size and re-encode it as
+ * WebP. Returns a data URL; the original file when it can't be made smaller.
+ */
+export const optimizeImageFile = async (
+  file: File | Blob,
+  settings: ImageSettings = loadImageSettings()
+): Promise<string> => {
+  const original = await readFileAsDataUrl(file);
+  if (!canReencode(file.type)) return original;
+
+  try {
+    const image = await loadImage(original);
+    const longest = Math.max(image.naturalWidth, image.naturalHeight);
+    const scale = settings.maxDimension > 0 ? Math.min(1, settings.maxDimension / longest) : 1;
+    const canvas = drawScaled(image, Math.max(1, Math.round(image.naturalWidth * scale)));
+
+    // Without a WebP encoder, stay in the original format (PNG keeps transparency)
+    const blob =
+      (await encode(canvas, 'image/webp', UPLOAD_QUALITY)) ??
+      (await encode(
+        canvas,
+        file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png',
+        UPLOAD_QUALITY
+      ));
+    if (!blob || (scale === 1 && blob.size >= file.size)) return original;
+    return await readFileAsDataUrl(blob);
+  } catch {
+    return original;
+  }
+};
+
+/**
+ * Sized variants of an image in every export format the browser can encode.
+ * Empty for images that can't be re-encoded (GIF, SVG, videos), and in Node.
+ */
+export const createImageVariants = async (dataUrl: string): Promise<ImageVariant[]> => {
+  // Outside the browser (the CLI) there is no canvas to draw on
+  if (typeof document === 'undefined' || !canReencode(getDataUrlType(dataUrl))) return [];
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(dataUrl);
+  } catch {
+    return [];
+  }
+  const natural = image.naturalWidth;
+  if (!natural) return [];
+  const widths = EXPORT_IMAGE_WIDTHS.filter((width) => width < natural);
+  if (natural <= EXPORT_IMAGE_WIDTHS[EXPORT_IMAGE_WIDTHS.length - 1]) widths.push(natural);
+
+  const variants: ImageVariant[] = [];
+  for (const type of EXPORT_IMAGE_FORMATS) {
+    for (const width of widths) {
+      const blob = await encode(drawScaled(image, width), type, VARIANT_QUALITY);
+      // No encoder for this format: the other sizes would fail the same way
+      if (!blob) break;
+      variants.push({ type, width, blob });
+    }
+  }
+  return variants;
+};
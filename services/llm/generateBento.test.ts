@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseBentoJSON } from '../schema';
+import { normalizeAiBento } from './generateBento';
+
+describe('normalizeAiBento', () => {
+  it('keeps every schema field of the model output', () => {
+    const block = {
+      id: 'gallery',
+      type: 'MEDIA',
+      colSpan: 6,
+      rowSpan: 4,
+      imageAlt: 'A lake',
+      dark: { color: 'bg-gray-800' },
+      galleryMode: 'carousel',
+      galleryImages: [{ id: 'img1', url: 'https://example.com/1.jpg', alt: 'First' }],
+      layouts: { mobile: { colSpan: 2, order: 2 } },
+    };
+
+    const { json } = parseBentoJSON(
+      normalizeAiBento({ profile: { name: 'Jane', theme: 'dark' }, blocks: [block] })
+    );
+
+    expect(json.profile).toMatchObject({ name: 'Jane', theme: 'dark' });
+    expect(json.blocks[0]).toMatchObject(block);
+  });
+
+  it('leaves blocks without a position unplaced', () => {
+    const json = normalizeAiBento({
+      blocks: [{ type: 'TEXT' }, { type: 'LINK', gridColumn: 4, gridRow: 2 }],
+    });
+
+    expect(json.blocks[0]).not.toHaveProperty('gridColumn');
+    expect(json.blocks[1]).toMatchObject({ gridColumn: 4, gridRow: 2 });
+  });
+
+  it('uses the form values for a missing name and bio and disables analytics', () => {
+    const json = normalizeAiBento(
+      {
+        profile: { analytics: { enabled: true, supabaseUrl: 'https://x.supabase.co' } },
+        blocks: [],
+      },
+      { name: 'Jane', bio: 'Designer' }
+    );
+
+    expect(json.profile).toMatchObject({
+      name: 'Jane',
+      bio: 'Designer',
+      analytics: { enabled: false, supabaseUrl: '' },
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Bento generation: prompt the model, extract the JSON from its reply and ask it
+// to repair schema errors
+import {
+  BentoJSON,
+  BentoValidationError,
+  BENTO_JSON_VERSION,
+  formatSchemaIssues,
+  parseBentoJSON,
+} from '../schema';
+import { BentoGenerationError, ChatMessage, LlmProvider } from './types';
+
+// Repair prompts sent after the first answer
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// The shared prompt is written for chat UIs, where the model may ask questions first
+const SYSTEM_PROMPT = `You generate configuration files for OpenBento pages.
+You cannot ask questions or browse the web: use only the information given, leave unknown values empty and do not invent accounts or URLs.
+Reply with a single JSON object and nothing else.`;
+
+/**
+ * Extract the JSON text from a model reply: drops reasoning blocks (<think>) and
+ * markdown fences, then keeps the outermost {...}
+ */
+export const extractJsonFromReply = (reply: string): string => {
+  const text = reply.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body;
+};
+
+/**
+ * Fill in the fields AI output commonly omits, using the user's form values as
+ * fallbacks. Every other field is kept as is: the result is validated and
+ * sanitized by parseBentoJSON like an imported file. Blocks without a position
+ * are left unplaced so the builder places them when the bento is loaded.
+ * Throws a BentoValidationError when neither profile nor blocks exist.
+ */
+export const normalizeAiBento = (
+  parsed: Record<string, any>,
+  fallback: { name?: string; bio?: string } = {}
+): BentoJSON => {
+  if (typeof parsed !== 'object' || parsed === null || (!parsed.profile && !parsed.blocks)) {
+    throw new BentoValidationError([{ path: '', message: 'missing "profile" or "blocks"' }]);
+  }
+
+  const profile = parsed.profile ?? {};
+  return {
+    ...parsed,
+    id: `ai_${Date.now()}`,
+    name: parsed.name || fallback.name || 'My AI Bento',
+    version: BENTO_JSON_VERSION,
+    profile: {
+      ...profile,
+      name: profile.name || fallback.name || 'My Bento',
+      bio: profile.bio || fallback.bio || '',
+      // Never trust the model with tracking settings
+      analytics: { enabled: false, supabaseUrl: '' },
+    },
+    blocks: (Array.isArray(parsed.blocks) ? parsed.blocks : []).map(
+      (block: Record<string, any>, index: number) => ({
+        color: 'bg-gray-900',
+        textColor: 'text-white',
+        ...block,
+        id: block.id || `block_${index + 1}`,
+        type: block.type || 'TEXT',
+        colSpan: block.colSpan || 3,
+        rowSpan: block.rowSpan || 3,
+      })
+    ),
+  } as BentoJSON;
+};
+
+// Parse and validate one reply; returns the repair instructions when it is unusable
+const checkReply = (
+  reply: string,
+  fallback: { name?: string; bio?: string }
+): { json: BentoJSON } | { error: string; repair: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonFromReply(reply));
+  } catch (e) {
+    return {
+      error: `The reply is not valid JSON: ${(e as Error).message}`,
+      repair: `Your reply is not valid JSON (${(e as Error).message}). Reply again with only the complete JSON object.`,
+    };
+  }
+
+  try {
+    const json = normalizeAiBento(parsed as Record<string, any>, fallback);
+    parseBentoJSON(json);
+    return { json };
+  } catch (e) {
+    if (!(e instanceof BentoValidationError)) throw e;
+    return {
+      error: e.message,
+      repair: `The JSON does not match the OpenBento schema:\n${formatSchemaIssues(e.issues)}\n\nFix these errors and reply again with only the complete corrected JSON object.`,
+    };
+  }
+};
+
+export interface GenerateBentoOptions {
+  signal?: AbortSignal;
+  fallback?: { name?: string; bio?: string };
+  // Called with each streamed chunk; `attempt` starts at 1
+  onToken?: (token: string, attempt: number) => void;
+  // Called before each repair request with the reason
+  onRepair?: (attempt: number, error: string) => void;
+}
+
+/**
+ * Ask the model for a bento and return it once it passes validation. Schema
+ * errors are sent back to the model up to MAX_REPAIR_ATTEMPTS times; after that a
+ * BentoGenerationError carries the last reply. The result is not imported yet.
+ */
+export const generateBento = async (
+  provider: LlmProvider,
+  prompt: string,
+  options: GenerateBentoOptions = {}
+): Promise<{ json: BentoJSON; reply: string; attempts: number }> => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+
+  for (let attempt = 1; ; attempt++) {
+    const reply = await provider.chat(messages, {
+      signal: options.signal,
+      onToken: (token) => options.onToken?.(token, attempt),
+    });
+    const result = checkReply(reply, options.fallback ?? {});
+    if ('json' in result) return { json: result.json, reply, attempts: attempt };
+
+    if (attempt > MAX_REPAIR_ATTEMPTS) {
+      throw new BentoGenerationError(result.error, reply);
+    }
+    options.onRepair?.(attempt + 1, result.error);
+    messages.push({ role: 'assistant', content: reply }, { role: 'user', content: result.repair });
+  }
+};
@@ -0,0 +1,19 @@
+/**
+ * Direct bento generation with a language model
+ *
+ * Talks to any OpenAI-compatible chat endpoint, hosted or local (Ollama,
+ * llama.cpp), so the generated prompt no longer has to be copied to a chat UI.
+ */
+
+export type { ChatMessage, LlmProvider, LlmSettings } from './types';
+export { BentoGenerationError, LlmRequestError } from './types';
+export type { LlmPreset } from './settings';
+export { LLM_PRESETS, isLlmConfigured, loadLlmSettings, saveLlmSettings } from './settings';
+export { createOpenAiCompatibleProvider } from './openAiCompatible';
+export type { GenerateBentoOptions } from './generateBento';
+export {
+  MAX_REPAIR_ATTEMPTS,
+  extractJsonFromReply,
+  generateBento,
+  normalizeAiBento,
+} from './generateBento';
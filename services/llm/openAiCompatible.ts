@@ -0,0 +1,121 @@
+// Provider for OpenAI-compatible chat endpoints (OpenAI, Ollama, llama.cpp, vLLM, LM Studio...)
+import {
+  ChatMessage,
+  ChatRequestOptions,
+  LlmProvider,
+  LlmRequestError,
+  LlmSettings,
+} from './types';
+
+const TEMPERATURE = 0.4;
+
+const chatCompletionsUrl = (baseUrl: string): string =>
+  `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+// Error bodies are `{ error: { message } }` on OpenAI and most compatible servers
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    const message = body?.error?.message ?? body?.error ?? body?.message;
+    if (typeof message === 'string' && message) return message;
+  } catch {
+    // Not JSON: use the raw text
+  }
+  return text.slice(0, 200) || response.statusText || `HTTP ${response.status}`;
+};
+
+// Content of one `data:` line of the event stream; null for [DONE] and keep-alives
+const parseStreamLine = (line: string): string | null => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+  const payload = trimmed.slice(5).trim();
+  if (!payload || payload === '[DONE]') return null;
+  try {
+    const chunk = JSON.parse(payload);
+    if (chunk?.error) {
+      throw new LlmRequestError(chunk.error.message || 'The model returned an error');
+    }
+    const content = chunk?.choices?.[0]?.delta?.content;
+    return typeof content === 'string' ? content : null;
+  } catch (e) {
+    if (e instanceof LlmRequestError) throw e;
+    return null;
+  }
+};
+
+const readStream = async (
+  body: ReadableStream<Uint8Array>,
+  onToken?: (token: string) => void
+): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let reply = '';
+
+  const handleLine = (line: string) => {
+    const token = parseStreamLine(line);
+    if (!token) return;
+    reply += token;
+    onToken?.(token);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+  return reply;
+};
+
+/**
+ * Create a provider sending streamed requests to `<baseUrl>/chat/completions`.
+ * Servers that ignore `stream: true` and answer with a single JSON body also work.
+ */
+export const createOpenAiCompatibleProvider = (settings: LlmSettings): LlmProvider => ({
+  chat: async (messages: ChatMessage[], options: ChatRequestOptions = {}) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(chatCompletionsUrl(settings.baseUrl), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: settings.model.trim(),
+          messages,
+          stream: true,
+          temperature: TEMPERATURE,
+        }),
+        signal: options.signal,
+      });
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') throw e;
+      throw new LlmRequestError(
+        `Could not reach ${settings.baseUrl}. Check the URL, and that the server allows requests from this page (CORS).`
+      );
+    }
+
+    if (!response.ok) {
+      throw new LlmRequestError(await readErrorMessage(response), response.status);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (response.body && !contentType.includes('application/json')) {
+      return readStream(response.body, options.onToken);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmRequestError('The endpoint returned no message');
+    }
+    options.onToken?.(content);
+    return content;
+  },
+});
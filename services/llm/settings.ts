@@ -0,0 +1,74 @@
+// LLM endpoint settings. Endpoint and model persist in localStorage; the API key
+// only lives in sessionStorage, like the other secrets of the builder.
+import { LlmSettings } from './types';
+
+const SETTINGS_KEY = 'openbento_llm_settings';
+const API_KEY_KEY = 'openbento_llm_api_key';
+
+export interface LlmPreset {
+  id: string;
+  label: string;
+  baseUrl: string;
+  model: string;
+  needsApiKey: boolean;
+}
+
+// Any OpenAI-compatible /chat/completions endpoint works; these fill in the usual values
+export const LLM_PRESETS: LlmPreset[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    needsApiKey: true,
+  },
+  {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    needsApiKey: false,
+  },
+  {
+    id: 'llamacpp',
+    label: 'llama.cpp server (local)',
+    baseUrl: 'http://localhost:8080/v1',
+    model: 'default',
+    needsApiKey: false,
+  },
+];
+
+const EMPTY_SETTINGS: LlmSettings = { baseUrl: '', model: '', apiKey: '' };
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      baseUrl: typeof stored.baseUrl === 'string' ? stored.baseUrl : '',
+      model: typeof stored.model === 'string' ? stored.model : '',
+      apiKey: sessionStorage.getItem(API_KEY_KEY) || '',
+    };
+  } catch {
+    return EMPTY_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings): void => {
+  try {
+    localStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({ baseUrl: settings.baseUrl.trim(), model: settings.model.trim() })
+    );
+    if (settings.apiKey) {
+      sessionStorage.setItem(API_KEY_KEY, settings.apiKey);
+    } else {
+      sessionStorage.removeItem(API_KEY_KEY);
+    }
+  } catch (e) {
+    console.error('Failed to save LLM settings:', e);
+  }
+};
+
+// Endpoint and model are required; local servers usually need no key
+export const isLlmConfigured = (settings: LlmSettings): boolean =>
+  settings.baseUrl.trim() !== '' && settings.model.trim() !== '';
@@ -0,0 +1,53 @@
+/**
+ * LLM provider types
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Where generation requests go. The API key is kept separately (see settings.ts).
+export interface LlmSettings {
+  baseUrl: string; // e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1"
+  model: string;
+  apiKey: string;
+}
+
+export interface ChatRequestOptions {
+  signal?: AbortSignal;
+  // Called with each streamed chunk of the reply
+  onToken?: (token: string) => void;
+}
+
+export interface LlmProvider {
+  // Send the conversation and resolve with the full reply
+  chat: (messages: ChatMessage[], options?: ChatRequestOptions) => Promise<string>;
+}
+
+/**
+ * Raised when the endpoint cannot be reached or answers with an error
+ */
+export class LlmRequestError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LlmRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when the model did not produce a valid bento after every repair attempt.
+ * `reply` holds the last answer so the user can fix it by hand.
+ */
+export class BentoGenerationError extends Error {
+  readonly reply: string;
+
+  constructor(message: string, reply: string) {
+    super(message);
+    this.name = 'BentoGenerationError';
+    this.reply = reply;
+  }
+}
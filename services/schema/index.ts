@@ -0,0 +1,113 @@
+/**
+ * Bento schema: validation and migrations
+ *
+ * Everything entering the app (stored bentos, imported files, AI output) goes
+ * through here: documents are migrated to the current schema version, then
+ * validated with path-level error messages.
+ */
+
+import { BlockData, SiteData, Theme } from '../../types';
+import { resolveTheme } from '../../utils/theme';
+import {
+  BentoDocument,
+  BENTO_JSON_VERSION,
+  BENTO_SCHEMA_VERSION,
+  runMigrations,
+} from './migrations';
+import { sanitizeBlocks, sanitizeSiteData, sanitizeTheme } from './sanitize';
+import { BentoJSON, BentoValidationError, SchemaIssue } from './types';
+import { validateBentoJSON, validateBlocks, validateTheme } from './validate';
+
+export type { BentoJSON, SchemaIssue } from './types';
+export type { BentoMigration } from './migrations';
+export { BentoValidationError, formatSchemaIssues } from './types';
+export {
+  BENTO_JSON_VERSION,
+  BENTO_SCHEMA_VERSION,
+  MIGRATIONS,
+  getSchemaVersion,
+} from './migrations';
+export { validateBentoJSON, validateBlocks, validateSiteData, validateTheme } from './validate';
+export { sanitizeBlocks, sanitizeSiteData, sanitizeTheme } from './sanitize';
+
+/**
+ * Plain JSON object (not null or an array), for reading untrusted input
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields that older files and AI output commonly omit
+const withDefaults = (doc: BentoDocument): BentoDocument => {
+  const profile = isRecord(doc.profile) ? doc.profile : undefined;
+  return {
+    ...doc,
+    name: doc.name || 'Imported Bento',
+    blocks: doc.blocks ?? [],
+    profile: profile && {
+      ...profile,
+      name: profile.name || 'My Bento',
+      bio: profile.bio ?? '',
+      avatarUrl: profile.avatarUrl ?? '',
+      theme: profile.theme || 'light',
+      primaryColor: profile.primaryColor || 'blue',
+      showBranding: profile.showBranding ?? true,
+      analytics: profile.analytics ?? { enabled: false, supabaseUrl: '' },
+      socialAccounts: profile.socialAccounts ?? [],
+    },
+  };
+};
+
+/**
+ * Parse an imported bento file: migrate it to the current version, fill in
+ * optional fields, validate, then sanitize. Throws a BentoValidationError listing
+ * every issue; `report` lists the unsafe values that were stripped.
+ */
+export const parseBentoJSON = (value: unknown): { json: BentoJSON; report: SchemaIssue[] } => {
+  if (!isRecord(value)) {
+    throw new BentoValidationError([{ path: '', message: 'expected a bento object' }]);
+  }
+
+  const { doc } = runMigrations(value);
+  const json = { ...withDefaults(doc), version: BENTO_JSON_VERSION };
+  const issues = validateBentoJSON(json);
+  if (issues.length > 0) throw new BentoValidationError(issues);
+  const { data, report } = sanitizeSiteData(json as unknown as BentoJSON);
+  return { json: data, report };
+};
+
+/**
+ * Parse blocks copied out of a bento: migrate them from `schemaVersion`, validate,
+ * then sanitize like an imported file. Throws a BentoValidationError listing every issue.
+ */
+export const parseBlocksJSON = (
+  blocks: unknown,
+  schemaVersion: unknown
+): { blocks: BlockData[]; report: SchemaIssue[] } => {
+  const { doc } = runMigrations({ blocks, schemaVersion });
+  const issues = validateBlocks(doc.blocks);
+  if (issues.length > 0) throw new BentoValidationError(issues);
+  return sanitizeBlocks(doc.blocks as BlockData[]);
+};
+
+/**
+ * Parse a shared theme: validate, sanitize, then fill missing fields from the
+ * default theme. Throws a BentoValidationError listing every issue.
+ */
+export const parseThemeJSON = (value: unknown): { theme: Theme; report: SchemaIssue[] } => {
+  const issues = validateTheme(value);
+  if (issues.length > 0) throw new BentoValidationError(issues);
+  const { theme, report } = sanitizeTheme(value as Partial<Theme>);
+  return { theme: resolveTheme({ themeConfig: theme as Theme }), report };
+};
+
+/**
+ * Migrate stored bento data to the current version.
+ * `migrated` tells whether the result differs from the input and should be saved.
+ */
+export const migrateSiteData = (data: SiteData): { data: SiteData; migrated: boolean } => {
+  const { doc, migrated } = runMigrations(data as unknown as BentoDocument);
+  return {
+    data: { ...(doc as unknown as SiteData), schemaVersion: BENTO_SCHEMA_VERSION },
+    migrated,
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * Ordered migration registry for bento documents
+ *
+ * Each migration upgrades a document from `version - 1` to `version`. To change
+ * the data format, append a migration here: the schema version follows.
+ * Migrations receive unvalidated input and must not assume field types.
+ */
+
+import { BlockType } from '../../types';
+import { BentoValidationError } from './types';
+
+// A SiteData or BentoJSON object, before validation
+export type BentoDocument = Record<string, unknown>;
+
+export interface BentoMigration {
+  version: number; // Version produced by this migration
+  description: string;
+  migrate: (doc: BentoDocument) => BentoDocument;
+}
+
+const MAX_ROW_SPAN = 50;
+
+type RawBlock = Record<string, any>;
+
+const isRawBlock = (value: unknown): value is RawBlock =>
+  typeof value === 'object' && value !== null;
+
+// v1 -> v2: old blocks had colSpan 1-3 on a 3-column grid, new blocks use colSpan 1-9.
+// Regular blocks (not SOCIAL_ICON) take 3x3 cells minimum.
+const migrateBlocksToNineColumnGrid = (blocks: unknown[]): unknown[] => {
+  const needsMigration = blocks.some((b) => {
+    if (!isRawBlock(b)) return false;
+    // SOCIAL_ICON and SPACER with 9 cols are already new format
+    if (b.type === BlockType.SOCIAL_ICON) return false;
+    if (b.type === BlockType.SPACER && b.colSpan === 9) return false;
+    // If colSpan is 1, 2, or 3 for a regular block, it's old format
+    // New format regular blocks have colSpan of 3, 6, or 9
+    return b.colSpan <= 3 && b.rowSpan <= 3;
+  });
+
+  if (!needsMigration) return blocks;
+
+  return blocks.map((block) => {
+    // Skip new-format blocks
+    if (!isRawBlock(block)) return block;
+    if (block.type === BlockType.SOCIAL_ICON) return block;
+    if (block.type === BlockType.SPACER && block.colSpan === 9) return block;
+    if (typeof block.colSpan !== 'number' || typeof block.rowSpan !== 'number') return block;
+
+    // Migrate old format: multiply dimensions by 3
+    const newColSpan = Math.min(block.colSpan * 3, 9);
+    const newRowSpan = Math.min(block.rowSpan * 3, MAX_ROW_SPAN);
+
+    // Migrate positions: multiply by 3 and adjust for 1-based indexing
+    const newGridColumn =
+      typeof block.gridColumn === 'number' ? (block.gridColumn - 1) * 3 + 1 : undefined;
+    const newGridRow = typeof block.gridRow === 'number' ? (block.gridRow - 1) * 3 + 1 : undefined;
+
+    return {
+      ...block,
+      colSpan: newColSpan,
+      rowSpan: newRowSpan,
+      gridColumn: newGridColumn,
+      gridRow: newGridRow,
+    };
+  });
+};
+
+export const MIGRATIONS: BentoMigration[] = [
+  {
+    version: 2,
+    description: 'Move blocks from the 3-column grid to the 9-column grid',
+    migrate: (doc) => ({
+      ...doc,
+      blocks: Array.isArray(doc.blocks) ? migrateBlocksToNineColumnGrid(doc.blocks) : doc.blocks,
+      gridVersion: 2,
+    }),
+  },
+];
+
+export const BENTO_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Value of BentoJSON.version for exported files
+export const BENTO_JSON_VERSION = `${BENTO_SCHEMA_VERSION}.0`;
+
+/**
+ * Schema version of a document. SiteData carries `schemaVersion`, BentoJSON a
+ * "<major>.0" `version`. Older documents (unversioned or "1.0") only differ by
+ * their grid version; a missing grid version means the current grid.
+ */
+export const getSchemaVersion = (doc: BentoDocument): number => {
+  if (typeof doc.schemaVersion === 'number') return doc.schemaVersion;
+  const major = typeof doc.version === 'string' ? parseInt(doc.version, 10) : NaN;
+  if (major >= 2) return major;
+  return typeof doc.gridVersion === 'number' && doc.gridVersion < 2 ? 1 : 2;
+};
+
+/**
+ * Run every migration newer than the document's version, in order.
+ * Throws a BentoValidationError for documents from a newer OpenBento.
+ */
+export const runMigrations = (
+  doc: BentoDocument
+): { doc: BentoDocument; fromVersion: number; migrated: boolean } => {
+  const fromVersion = getSchemaVersion(doc);
+  if (fromVersion > BENTO_SCHEMA_VERSION) {
+    throw new BentoValidationError([
+      {
+        path: 'version',
+        message: `version ${fromVersion} is newer than the supported version ${BENTO_SCHEMA_VERSION}; update OpenBento to open this bento`,
+      },
+    ]);
+  }
+
+  const migrated = MIGRATIONS.filter((m) => m.version > fromVersion).reduce(
+    (current, migration) => migration.migrate(current),
+    doc
+  );
+  return { doc: migrated, fromVersion, migrated: fromVersion < BENTO_SCHEMA_VERSION };
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { BlockData, BlockType, SiteData } from '../../types';
+import { sanitizeBlocks, sanitizeSiteData, sanitizeTheme } from './sanitize';
+
+const block = (overrides: Partial<BlockData> = {}): BlockData => ({
+  id: 'b1',
+  type: BlockType.LINK,
+  title: 'Link',
+  content: 'https://example.com/',
+  colSpan: 3,
+  rowSpan: 3,
+  ...overrides,
+});
+
+const site = (overrides: Partial<SiteData['profile']> = {}, blocks = [block()]): SiteData => ({
+  profile: {
+    name: 'Jane',
+    bio: '',
+    avatarUrl: '',
+    theme: 'light',
+    primaryColor: 'blue',
+    ...overrides,
+  },
+  blocks,
+});
+
+describe('sanitizeSiteData', () => {
+  it('keeps safe data as it is, with an empty report', () => {
+    const data = site({ backgroundColor: '#fafafa' });
+    const { data: sanitized, report } = sanitizeSiteData(data);
+    expect(sanitized).toEqual(data);
+    expect(report).toEqual([]);
+  });
+
+  it('strips javascript: URLs from links, images and profile fields', () => {
+    const { data, report } = sanitizeSiteData(
+      site({ avatarUrl: 'javascript:alert(1)', openGraph: { url: 'JavaScript:alert(1)' } }, [
+        block({ content: 'javascript:alert(1)', imageUrl: 'javascript:alert(1)' }),
+      ])
+    );
+    expect(data.profile.avatarUrl).toBe('');
+    expect(data.profile.openGraph?.url).toBeUndefined();
+    expect(data.blocks[0].content).toBeUndefined();
+    expect(data.blocks[0].imageUrl).toBeUndefined();
+    expect(report.map((issue) => issue.path)).toEqual([
+      'profile.avatarUrl',
+      'profile.openGraph.url',
+      'blocks[0].content',
+      'blocks[0].imageUrl',
+    ]);
+    expect(report[2].message).toBe('removed unsafe URL "javascript:alert(1)"');
+  });
+
+  it('rejects schemes hidden behind control characters', () => {
+    const { data, report } = sanitizeSiteData(
+      site({}, [block({ content: 'java\tscript:alert(1)' })])
+    );
+    expect(data.blocks[0].content).toBeUndefined();
+    expect(report).toHaveLength(1);
+  });
+
+  it('keeps scheme-less links, which cannot run code', () => {
+    const { data, report } = sanitizeSiteData(site({}, [block({ content: 'example.com' })]));
+    expect(data.blocks[0].content).toBe('example.com');
+    expect(report).toEqual([]);
+  });
+
+  it('encodes the characters that could close a CSS url() in image URLs', () => {
+    const { data } = sanitizeSiteData(
+      site({ backgroundImage: "https://example.com/a.png');background:url('x" })
+    );
+    expect(data.profile.backgroundImage).not.toMatch(/['()]/);
+  });
+
+  it('removes unsafe colors and CSS backgrounds', () => {
+    const { data, report } = sanitizeSiteData(
+      site({ backgroundColor: 'red;background:url(https://evil.example)' }, [
+        block({
+          customBackground: 'url(https://evil.example/x.png)',
+          color: 'bg-red-500" onclick',
+        }),
+      ])
+    );
+    expect(data.profile.backgroundColor).toBeUndefined();
+    expect(data.blocks[0].customBackground).toBeUndefined();
+    expect(data.blocks[0].color).toBeUndefined();
+    expect(report).toEqual([
+      {
+        path: 'profile.backgroundColor',
+        message: 'removed unsupported color "red;background:url(https://evil.example)"',
+      },
+      { path: 'blocks[0].color', message: 'removed unsupported class "bg-red-500\\" onclick"' },
+      {
+        path: 'blocks[0].customBackground',
+        message: 'removed unsupported background "url(https://evil.example/x.png)"',
+      },
+    ]);
+  });
+
+  it('clamps layout values and reports the change', () => {
+    const { data, report } = sanitizeSiteData(site({}, [block({ colSpan: 12, gridColumn: 9 })]));
+    expect(data.blocks[0].colSpan).toBe(9);
+    expect(data.blocks[0].gridColumn).toBe(1);
+    expect(report).toEqual([
+      { path: 'blocks[0].colSpan', message: 'clamped from 12 to 9' },
+      { path: 'blocks[0].gridColumn', message: 'clamped from 9 to 1' },
+    ]);
+  });
+});
+
+describe('sanitizeTheme', () => {
+  it('removes unsafe font names and colors', () => {
+    const { theme, report } = sanitizeTheme({
+      headingFont: 'Inter',
+      bodyFont: "x'; } body { background: url(https://evil.example) } .y { font-family: '",
+      borderColor: 'expression(alert(1))',
+    });
+    expect(theme.headingFont).toBe('Inter');
+    expect(theme.bodyFont).toBeUndefined();
+    expect(theme.borderColor).toBeUndefined();
+    expect(report.map((issue) => issue.path)).toEqual(['theme.bodyFont', 'theme.borderColor']);
+    expect(report[0].message).toMatch(/^removed unsupported font "/);
+  });
+});
+
+describe('sanitizeBlocks', () => {
+  it('reports paths of pasted blocks by their index', () => {
+    const { blocks, report } = sanitizeBlocks([
+      block(),
+      block({ id: 'b2', content: 'data:text/html,<script>alert(1)</script>' }),
+    ]);
+    expect(blocks[1].content).toBeUndefined();
+    expect(report).toEqual([
+      {
+        path: 'blocks[1].content',
+        message: 'removed unsafe URL "data:text/html,<script>alert(1)</script>"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Sanitization of incoming bento data (imported files, AI output, the JSON editor)
+ *
+ * Runs after validation, so field types are known. Unsafe values end up in inline
+ * styles, hrefs and the generated App.tsx; they are removed or clamped, and every
+ * change is reported so users can see what was stripped.
+ */
+
+import {
+  BlockData,
+  BlockLayoutOverride,
+  BlockType,
+  GalleryImage,
+  LayoutBreakpoint,
+  SiteData,
+  Theme,
+  UserProfile,
+} from '../../types';
+import { BREAKPOINT_GRID_CONFIG } from '../../utils/mobileLayout';
+import { GALLERY_INTERVAL_LIMITS, MAX_GALLERY_IMAGES } from '../../utils/gallery';
+import { THEME_LIMITS } from '../../utils/theme';
+import {
+  isAllowedEmbedUrl,
+  isSafeClassList,
+  isSafeCssBackground,
+  isSafeCssColor,
+  isSafeFontName,
+  isValidLocationString,
+  isValidYouTubeChannelId,
+  sanitizeUrl,
+} from '../../utils/security';
+import { SchemaIssue } from './types';
+
+const GRID_COLUMNS = 9;
+const MAX_ROW_SPAN = 50;
+const MAX_GRID_ROW = 200;
+const MAX_BACKGROUND_BLUR = 20;
+const MAX_BORDER_WIDTH = 20;
+
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp|avif|svg\+xml);base64,[a-z0-9+/=\s]+$/i;
+const YOUTUBE_VIDEO_ID = /^[\w-]{6,20}$/;
+const HAS_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+// Blocks whose content is a URL (other types hold text or a location)
+const URL_CONTENT_TYPES = new Set<BlockType>([
+  BlockType.LINK,
+  BlockType.MEDIA,
+  BlockType.SOCIAL,
+  BlockType.SOCIAL_ICON,
+]);
+
+const preview = (value: string): string =>
+  JSON.stringify(value.length > 60 ? `${value.slice(0, 60)}...` : value);
+
+// Image URLs are also used in CSS url(...) and generated code: encode the
+// characters that could close them
+const sanitizeImageUrl = (url: string): string => {
+  const trimmed = url.trim();
+  if (SAFE_DATA_IMAGE.test(trimmed)) return trimmed;
+  return sanitizeUrl(trimmed).replace(
+    /['()\\]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+};
+
+const createSanitizer = () => {
+  const report: SchemaIssue[] = [];
+
+  // Keep a string field when `isSafe` accepts it, otherwise drop it
+  const keep = (
+    value: string | undefined,
+    path: string,
+    isSafe: (v: string) => boolean,
+    what: string
+  ): string | undefined => {
+    if (value === undefined || value === '') return value;
+    if (isSafe(value)) return value;
+    report.push({ path, message: `removed ${what} ${preview(value)}` });
+    return undefined;
+  };
+
+  // Scheme-less values (e.g. "example.com") are kept: they cannot run code.
+  // Control characters are rejected since browsers drop them ("java\tscript:").
+  const url = (value: string | undefined, path: string): string | undefined => {
+    if (value === undefined || value === '') return value;
+    // eslint-disable-next-line no-control-regex
+    if (!/[\u0000-\u001f]/.test(value) && !HAS_SCHEME.test(value.trim())) return value;
+    const safe = sanitizeUrl(value.trim());
+    if (!safe) report.push({ path, message: `removed unsafe URL ${preview(value)}` });
+    return safe || undefined;
+  };
+
+  const imageUrl = (value: string | undefined, path: string): string | undefined => {
+    if (value === undefined || value === '') return value;
+    const safe = sanitizeImageUrl(value);
+    if (!safe) report.push({ path, message: `removed unsafe image URL ${preview(value)}` });
+    return safe || undefined;
+  };
+
+  const clamp = <T extends number | undefined>(
+    value: T,
+    path: string,
+    min: number,
+    max: number
+  ): T => {
+    if (value === undefined) return value;
+    const clamped = Math.min(max, Math.max(min, value));
+    if (clamped !== value) report.push({ path, message: `clamped from ${value} to ${clamped}` });
+    return clamped as T;
+  };
+
+  return { report, keep, url, imageUrl, clamp };
+};
+
+type Sanitizer = ReturnType<typeof createSanitizer>;
+
+// Font names and colors end up in CSS variables and the generated stylesheets
+const sanitizeThemeFields = (
+  theme: Partial<Theme>,
+  path: string,
+  s: Sanitizer
+): Partial<Theme> => ({
+  ...theme,
+  headingFont: s.keep(theme.headingFont, `${path}.headingFont`, isSafeFontName, 'unsupported font'),
+  bodyFont: s.keep(theme.bodyFont, `${path}.bodyFont`, isSafeFontName, 'unsupported font'),
+  headingScale: s.clamp(
+    theme.headingScale,
+    `${path}.headingScale`,
+    THEME_LIMITS.scale.min,
+    THEME_LIMITS.scale.max
+  ),
+  bodyScale: s.clamp(
+    theme.bodyScale,
+    `${path}.bodyScale`,
+    THEME_LIMITS.scale.min,
+    THEME_LIMITS.scale.max
+  ),
+  radius: s.clamp(theme.radius, `${path}.radius`, THEME_LIMITS.radius.min, THEME_LIMITS.radius.max),
+  borderWidth: s.clamp(
+    theme.borderWidth,
+    `${path}.borderWidth`,
+    THEME_LIMITS.borderWidth.min,
+    THEME_LIMITS.borderWidth.max
+  ),
+  borderColor: s.keep(
+    theme.borderColor,
+    `${path}.borderColor`,
+    isSafeCssColor,
+    'unsupported color'
+  ),
+  gap: s.clamp(theme.gap, `${path}.gap`, THEME_LIMITS.gap.min, THEME_LIMITS.gap.max),
+  background: s.keep(
+    theme.background,
+    `${path}.background`,
+    isSafeCssBackground,
+    'unsupported background'
+  ),
+});
+
+const sanitizeProfile = (profile: UserProfile, s: Sanitizer): UserProfile => {
+  const result: UserProfile = {
+    ...profile,
+    avatarUrl: s.imageUrl(profile.avatarUrl, 'profile.avatarUrl') ?? '',
+    backgroundColor: s.keep(
+      profile.backgroundColor,
+      'profile.backgroundColor',
+      isSafeCssColor,
+      'unsupported color'
+    ),
+    backgroundImage: s.imageUrl(profile.backgroundImage, 'profile.backgroundImage'),
+    backgroundBlur: s.clamp(
+      profile.backgroundBlur,
+      'profile.backgroundBlur',
+      0,
+      MAX_BACKGROUND_BLUR
+    ),
+    socialAccounts: profile.socialAccounts?.map((account, index) => ({
+      ...account,
+      // Handles are placed into URLs by buildSocialUrl; url-type platforms hold a full URL
+      handle: HAS_SCHEME.test(account.handle.trim())
+        ? (s.url(account.handle, `profile.socialAccounts[${index}].handle`) ?? '')
+        : account.handle,
+    })),
+  };
+
+  if (profile.avatarStyle) {
+    result.avatarStyle = {
+      ...profile.avatarStyle,
+      borderColor: s.keep(
+        profile.avatarStyle.borderColor,
+        'profile.avatarStyle.borderColor',
+        isSafeCssColor,
+        'unsupported color'
+      ),
+      borderWidth: s.clamp(
+        profile.avatarStyle.borderWidth,
+        'profile.avatarStyle.borderWidth',
+        0,
+        MAX_BORDER_WIDTH
+      ),
+    };
+  }
+  if (profile.themeConfig) {
+    result.themeConfig = sanitizeThemeFields(
+      profile.themeConfig,
+      'profile.themeConfig',
+      s
+    ) as Theme;
+  }
+  if (profile.darkMode) {
+    result.darkMode = {
+      ...profile.darkMode,
+      backgroundColor: s.keep(
+        profile.darkMode.backgroundColor,
+        'profile.darkMode.backgroundColor',
+        isSafeCssBackground,
+        'unsupported background'
+      ),
+    };
+  }
+  if (profile.analytics) {
+    result.analytics = {
+      ...profile.analytics,
+      supabaseUrl: s.url(profile.analytics.supabaseUrl, 'profile.analytics.supabaseUrl') ?? '',
+      collectorUrl: s.url(profile.analytics.collectorUrl, 'profile.analytics.collectorUrl'),
+    };
+  }
+  if (profile.openGraph) {
+    result.openGraph = {
+      ...profile.openGraph,
+      image: s.imageUrl(profile.openGraph.image, 'profile.openGraph.image'),
+      url: s.url(profile.openGraph.url, 'profile.openGraph.url'),
+    };
+  }
+  return result;
+};
+
+const sanitizeLayoutOverride = (
+  override: BlockLayoutOverride | undefined,
+  breakpoint: LayoutBreakpoint,
+  path: string,
+  s: Sanitizer
+): BlockLayoutOverride | undefined =>
+  override && {
+    ...override,
+    colSpan: s.clamp(
+      override.colSpan,
+      `${path}.colSpan`,
+      1,
+      BREAKPOINT_GRID_CONFIG[breakpoint].columns
+    ),
+    rowSpan: s.clamp(override.rowSpan, `${path}.rowSpan`, 1, MAX_ROW_SPAN),
+  };
+
+const sanitizeGalleryImages = (
+  images: GalleryImage[],
+  path: string,
+  s: Sanitizer
+): GalleryImage[] => {
+  if (images.length > MAX_GALLERY_IMAGES) {
+    s.report.push({
+      path,
+      message: `removed ${images.length - MAX_GALLERY_IMAGES} images over the limit of ${MAX_GALLERY_IMAGES}`,
+    });
+  }
+  return images
+    .slice(0, MAX_GALLERY_IMAGES)
+    .map((image, index) => ({
+      ...image,
+      url: s.imageUrl(image.url, `${path}[${index}].url`) ?? '',
+      position: image.position && {
+        x: s.clamp(image.position.x, `${path}[${index}].position.x`, 0, 100),
+        y: s.clamp(image.position.y, `${path}[${index}].position.y`, 0, 100),
+      },
+    }))
+    .filter((image) => image.url);
+};
+
+const sanitizeBlock = (block: BlockData, path: string, s: Sanitizer): BlockData => {
+  const colSpan = s.clamp(block.colSpan, `${path}.colSpan`, 1, GRID_COLUMNS);
+
+  let content = block.content;
+  if (URL_CONTENT_TYPES.has(block.type)) {
+    content = s.url(content, `${path}.content`);
+  } else if (block.type === BlockType.MAP) {
+    content = s.keep(content, `${path}.content`, isValidLocationString, 'invalid location');
+  } else if (block.type === BlockType.EMBED) {
+    content = s.keep(content, `${path}.content`, isAllowedEmbedUrl, 'unsupported embed URL');
+  }
+
+  return {
+    ...block,
+    content,
+    imageUrl: s.imageUrl(block.imageUrl, `${path}.imageUrl`),
+    mediaPosition: block.mediaPosition && {
+      x: s.clamp(block.mediaPosition.x, `${path}.mediaPosition.x`, 0, 100),
+      y: s.clamp(block.mediaPosition.y, `${path}.mediaPosition.y`, 0, 100),
+    },
+    colSpan,
+    rowSpan: s.clamp(block.rowSpan, `${path}.rowSpan`, 1, MAX_ROW_SPAN),
+    gridColumn: s.clamp(block.gridColumn, `${path}.gridColumn`, 1, GRID_COLUMNS - colSpan + 1),
+    gridRow: s.clamp(block.gridRow, `${path}.gridRow`, 1, MAX_GRID_ROW),
+    layouts: block.layouts && {
+      ...block.layouts,
+      mobile: sanitizeLayoutOverride(block.layouts.mobile, 'mobile', `${path}.layouts.mobile`, s),
+      tablet: sanitizeLayoutOverride(block.layouts.tablet, 'tablet', `${path}.layouts.tablet`, s),
+    },
+    color: s.keep(block.color, `${path}.color`, isSafeClassList, 'unsupported class'),
+    textColor: s.keep(block.textColor, `${path}.textColor`, isSafeClassList, 'unsupported class'),
+    customBackground: s.keep(
+      block.customBackground,
+      `${path}.customBackground`,
+      isSafeCssBackground,
+      'unsupported background'
+    ),
+    dark: block.dark && {
+      ...block.dark,
+      color: s.keep(block.dark.color, `${path}.dark.color`, isSafeClassList, 'unsupported class'),
+      textColor: s.keep(
+        block.dark.textColor,
+        `${path}.dark.textColor`,
+        isSafeClassList,
+        'unsupported class'
+      ),
+      customBackground: s.keep(
+        block.dark.customBackground,
+        `${path}.dark.customBackground`,
+        isSafeCssBackground,
+        'unsupported background'
+      ),
+    },
+    channelId: s.keep(
+      block.channelId,
+      `${path}.channelId`,
+      isValidYouTubeChannelId,
+      'invalid YouTube channel id'
+    ),
+    youtubeVideoId: s.keep(
+      block.youtubeVideoId,
+      `${path}.youtubeVideoId`,
+      (id) => YOUTUBE_VIDEO_ID.test(id),
+      'invalid YouTube video id'
+    ),
+    youtubeVideos: block.youtubeVideos
+      ?.filter((video, index) => {
+        if (YOUTUBE_VIDEO_ID.test(video.id)) return true;
+        s.report.push({
+          path: `${path}.youtubeVideos[${index}]`,
+          message: `removed video with invalid id ${preview(video.id)}`,
+        });
+        return false;
+      })
+      .map((video) => ({ ...video, thumbnail: sanitizeImageUrl(video.thumbnail) })),
+    galleryImages:
+      block.galleryImages && sanitizeGalleryImages(block.galleryImages, `${path}.galleryImages`, s),
+    galleryInterval: s.clamp(
+      block.galleryInterval,
+      `${path}.galleryInterval`,
+      GALLERY_INTERVAL_LIMITS.min,
+      GALLERY_INTERVAL_LIMITS.max
+    ),
+  };
+};
+
+/**
+ * Strip unsafe URLs and CSS from validated site data and clamp layout values.
+ * `report` lists every removed or changed value with its path.
+ */
+export const sanitizeSiteData = <T extends SiteData>(
+  data: T
+): { data: T; report: SchemaIssue[] } => {
+  const s = createSanitizer();
+  const sanitized = {
+    ...data,
+    profile: sanitizeProfile(data.profile, s),
+    blocks: data.blocks.map((block, index) => sanitizeBlock(block, `blocks[${index}]`, s)),
+  };
+  return { data: sanitized, report: s.report };
+};
+
+/**
+ * Sanitize validated blocks outside of a bento (e.g. pasted from the clipboard).
+ */
+export const sanitizeBlocks = (
+  blocks: BlockData[]
+): { blocks: BlockData[]; report: SchemaIssue[] } => {
+  const s = createSanitizer();
+  return {
+    blocks: blocks.map((block, index) => sanitizeBlock(block, `blocks[${index}]`, s)),
+    report: s.report,
+  };
+};
+
+/**
+ * Sanitize a validated theme outside of a bento (e.g. an imported theme file).
+ */
+export const sanitizeTheme = (
+  theme: Partial<Theme>
+): { theme: Partial<Theme>; report: SchemaIssue[] } => {
+  const s = createSanitizer();
+  return { theme: sanitizeThemeFields(theme, 'theme', s), report: s.report };
+};
@@ -0,0 +1,50 @@
+/**
+ * Bento document types and validation errors
+ */
+
+import { BlockData, UserProfile } from '../../types';
+
+// Bento JSON format (for export/import)
+export interface BentoJSON {
+  id: string;
+  name: string;
+  version: string; // "<schema version>.0"; "1.0" files predate versioning
+  profile: UserProfile;
+  blocks: BlockData[];
+  gridVersion?: number;
+  exportedAt?: number;
+}
+
+// One validation failure, e.g. { path: 'blocks[2].colSpan', message: 'expected an integer >= 1, got 0' }
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+const MAX_LISTED_ISSUES = 5;
+
+/**
+ * Render issues as one line each, e.g. for an alert or an inline error box
+ */
+export const formatSchemaIssues = (issues: SchemaIssue[]): string => {
+  const lines = issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => `${issue.path || '(root)'}: ${issue.message}`);
+  if (issues.length > MAX_LISTED_ISSUES) {
+    lines.push(`...and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Raised when a bento document does not match the schema
+ */
+export class BentoValidationError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Invalid bento:\n${formatSchemaIssues(issues)}`);
+    this.name = 'BentoValidationError';
+    this.issues = issues;
+  }
+}
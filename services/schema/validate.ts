@@ -0,0 +1,343 @@
+/**
+ * Runtime validation of bento documents
+ *
+ * Schemas are plain rule objects mirroring the interfaces in types.ts. Unknown
+ * keys are accepted (forward compatibility); known keys must have the right type.
+ */
+
+import { BlockType } from '../../types';
+import { SOCIAL_PLATFORM_OPTIONS } from '../../socialPlatforms';
+import { SchemaIssue } from './types';
+
+type Rule =
+  | { type: 'string'; required?: boolean; oneOf?: readonly string[] }
+  | { type: 'number'; required?: boolean; integer?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'object'; required?: boolean; fields: Record<string, Rule> }
+  | { type: 'array'; required?: boolean; items: Rule };
+
+const str = (required = false, oneOf?: readonly string[]): Rule => ({
+  type: 'string',
+  required,
+  oneOf,
+});
+const int = (min: number, max?: number, required = false): Rule => ({
+  type: 'number',
+  integer: true,
+  min,
+  max,
+  required,
+});
+const bool: Rule = { type: 'boolean' };
+
+const SOCIAL_PLATFORMS = SOCIAL_PLATFORM_OPTIONS.map((option) => option.id);
+
+const LAYOUT_OVERRIDE_SCHEMA: Rule = {
+  type: 'object',
+  fields: { colSpan: int(1), rowSpan: int(1), order: int(0), hidden: bool },
+};
+
+const BLOCK_SCHEMA: Rule = {
+  type: 'object',
+  fields: {
+    id: str(true),
+    type: str(true, Object.values(BlockType)),
+    title: str(),
+    content: str(),
+    subtext: str(),
+    imageUrl: str(),
+    imageAlt: str(),
+    mediaPosition: {
+      type: 'object',
+      fields: {
+        x: { type: 'number', required: true },
+        y: { type: 'number', required: true },
+      },
+    },
+    // Upper bounds of layout values are clamped by sanitizeSiteData
+    colSpan: int(1, undefined, true),
+    rowSpan: int(1, undefined, true),
+    color: str(),
+    customBackground: str(),
+    textColor: str(),
+    dark: {
+      type: 'object',
+      fields: { color: str(), customBackground: str(), textColor: str() },
+    },
+    rotation: { type: 'number' },
+    gridColumn: int(1),
+    gridRow: int(1),
+    layouts: {
+      type: 'object',
+      fields: { mobile: LAYOUT_OVERRIDE_SCHEMA, tablet: LAYOUT_OVERRIDE_SCHEMA },
+    },
+    channelId: str(),
+    youtubeVideoId: str(),
+    channelTitle: str(),
+    youtubeMode: str(false, ['single', 'grid', 'list']),
+    youtubeVideos: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: { id: str(true), title: str(true), thumbnail: str(true) },
+      },
+    },
+    galleryImages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          id: str(true),
+          url: str(true),
+          caption: str(),
+          alt: str(),
+          position: {
+            type: 'object',
+            fields: {
+              x: { type: 'number', required: true },
+              y: { type: 'number', required: true },
+            },
+          },
+        },
+      },
+    },
+    galleryMode: str(false, ['carousel', 'slideshow']),
+    galleryInterval: { type: 'number', min: 0 },
+    socialPlatform: str(false, SOCIAL_PLATFORMS),
+    socialHandle: str(),
+    zIndex: { type: 'number' },
+  },
+};
+
+// Upper bounds are clamped by sanitizeSiteData; missing fields fall back to DEFAULT_THEME
+const THEME_SCHEMA: Rule = {
+  type: 'object',
+  fields: {
+    name: str(),
+    headingFont: str(),
+    bodyFont: str(),
+    headingScale: { type: 'number', min: 0 },
+    bodyScale: { type: 'number', min: 0 },
+    radius: { type: 'number', min: 0 },
+    shadow: str(false, ['none', 'soft', 'medium', 'strong', 'hard']),
+    borderWidth: { type: 'number', min: 0 },
+    borderColor: str(),
+    gap: { type: 'number', min: 0 },
+    background: str(),
+  },
+};
+
+const PROFILE_SCHEMA: Rule = {
+  type: 'object',
+  required: true,
+  fields: {
+    name: str(true),
+    bio: str(true),
+    avatarUrl: str(true),
+    avatarAlt: str(),
+    avatarStyle: {
+      type: 'object',
+      fields: {
+        shape: str(true, ['circle', 'square', 'rounded']),
+        shadow: { type: 'boolean', required: true },
+        border: { type: 'boolean', required: true },
+        borderColor: str(),
+        borderWidth: { type: 'number', min: 0 },
+      },
+    },
+    theme: str(true, ['light', 'dark']),
+    primaryColor: str(true),
+    themeConfig: THEME_SCHEMA,
+    darkMode: {
+      type: 'object',
+      fields: { enabled: bool, showToggle: bool, backgroundColor: str() },
+    },
+    showBranding: bool,
+    showSocialInHeader: bool,
+    showFollowerCount: bool,
+    backgroundColor: str(),
+    backgroundImage: str(),
+    backgroundImageAlt: str(),
+    backgroundBlur: { type: 'number', min: 0 },
+    analytics: {
+      type: 'object',
+      fields: {
+        enabled: bool,
+        provider: str(false, ['supabase', 'self-hosted']),
+        supabaseUrl: str(),
+        collectorUrl: str(),
+        anonKey: str(),
+      },
+    },
+    socialAccounts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          platform: str(true, SOCIAL_PLATFORMS),
+          handle: str(true),
+          followerCount: { type: 'number', min: 0 },
+        },
+      },
+    },
+    openGraph: {
+      type: 'object',
+      fields: {
+        title: str(),
+        description: str(),
+        image: str(),
+        siteName: str(),
+        url: str(),
+        twitterHandle: str(),
+        twitterCardType: str(false, ['summary', 'summary_large_image']),
+      },
+    },
+  },
+};
+
+const SITE_DATA_FIELDS: Record<string, Rule> = {
+  profile: PROFILE_SCHEMA,
+  blocks: { type: 'array', required: true, items: BLOCK_SCHEMA },
+  gridVersion: int(1),
+  schemaVersion: int(1),
+};
+
+const SITE_DATA_SCHEMA: Rule = { type: 'object', required: true, fields: SITE_DATA_FIELDS };
+
+const BENTO_JSON_SCHEMA: Rule = {
+  type: 'object',
+  required: true,
+  fields: {
+    ...SITE_DATA_FIELDS,
+    id: str(),
+    name: str(true),
+    version: str(true),
+    exportedAt: { type: 'number' },
+  },
+};
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  }
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const checkRule = (value: unknown, rule: Rule, path: string, issues: SchemaIssue[]): void => {
+  if (value === undefined) {
+    if (rule.required) issues.push({ path, message: 'is required' });
+    return;
+  }
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected a string, got ${describeValue(value)}` });
+      } else if (rule.oneOf && !rule.oneOf.includes(value)) {
+        issues.push({
+          path,
+          message: `expected one of ${rule.oneOf.join(', ')}, got ${describeValue(value)}`,
+        });
+      }
+      return;
+
+    case 'number': {
+      const kind = rule.integer ? 'an integer' : 'a number';
+      const bounds =
+        rule.min !== undefined && rule.max !== undefined
+          ? ` between ${rule.min} and ${rule.max}`
+          : rule.min !== undefined
+            ? ` >= ${rule.min}`
+            : '';
+      const valid =
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (!rule.integer || Number.isInteger(value)) &&
+        (rule.min === undefined || value >= rule.min) &&
+        (rule.max === undefined || value <= rule.max);
+      if (!valid)
+        issues.push({ path, message: `expected ${kind}${bounds}, got ${describeValue(value)}` });
+      return;
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `expected true or false, got ${describeValue(value)}` });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array, got ${describeValue(value)}` });
+        return;
+      }
+      value.forEach((item, index) => checkRule(item, rule.items, `${path}[${index}]`, issues));
+      return;
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected an object, got ${describeValue(value)}` });
+        return;
+      }
+      Object.entries(rule.fields).forEach(([key, fieldRule]) =>
+        checkRule((value as Record<string, unknown>)[key], fieldRule, joinPath(path, key), issues)
+      );
+      return;
+  }
+};
+
+// Block ids must be unique: the builder and the analytics key on them
+const checkUniqueBlockIds = (value: unknown, issues: SchemaIssue[]): void => {
+  const blocks = (value as { blocks?: unknown } | null)?.blocks;
+  if (!Array.isArray(blocks)) return;
+  const seen = new Set<string>();
+  blocks.forEach((block, index) => {
+    const id = (block as { id?: unknown } | null)?.id;
+    if (typeof id !== 'string') return;
+    if (seen.has(id)) issues.push({ path: `blocks[${index}].id`, message: `duplicate id "${id}"` });
+    seen.add(id);
+  });
+};
+
+/**
+ * Validate a SiteData object ({ profile, blocks }). Returns an empty list when valid.
+ */
+export const validateSiteData = (value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  checkRule(value, SITE_DATA_SCHEMA, '', issues);
+  checkUniqueBlockIds(value, issues);
+  return issues;
+};
+
+/**
+ * Validate a list of blocks (e.g. pasted from the clipboard). Returns an empty list when valid.
+ */
+export const validateBlocks = (value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  checkRule(value, { type: 'array', required: true, items: BLOCK_SCHEMA }, 'blocks', issues);
+  return issues;
+};
+
+/**
+ * Validate an exported bento file. Returns an empty list when valid.
+ * Block ids may repeat: they are regenerated on import.
+ */
+export const validateBentoJSON = (value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  checkRule(value, BENTO_JSON_SCHEMA, '', issues);
+  return issues;
+};
+
+/**
+ * Validate a theme outside of a bento (e.g. an imported theme file). Returns an empty list when valid.
+ */
+export const validateTheme = (value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  checkRule(value, { ...THEME_SCHEMA, required: true }, 'theme', issues);
+  return issues;
+};
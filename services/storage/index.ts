@@ -0,0 +1,109 @@
+/**
+ * Storage adapters
+ *
+ * IndexedDB is the default backend; localStorage stays available as a fallback
+ * for browsers where IndexedDB cannot be opened, until IndexedDB has held the data.
+ */
+
+import { SavedBento } from '../../types';
+import { createIndexedDbAdapter, IndexedDbEvents, isIndexedDbAvailable } from './indexedDbAdapter';
+import {
+  createLocalStorageAdapter,
+  LEGACY_ASSETS_KEY,
+  LEGACY_BENTOS_KEY,
+} from './localStorageAdapter';
+import { StorageAdapter } from './types';
+
+export type { Asset, StorageAdapter, StorageAdapterName } from './types';
+export { StorageWriteError, toStorageWriteError } from './types';
+export { createLocalStorageAdapter } from './localStorageAdapter';
+export { createIndexedDbAdapter } from './indexedDbAdapter';
+export type { IndexedDbEvents } from './indexedDbAdapter';
+
+// Set once IndexedDB has been opened: from then on the bentos live there,
+// and the (migrated, then emptied) localStorage copy must not be used again
+const INDEXEDDB_IN_USE_KEY = 'openbento_indexeddb_in_use';
+
+const isIndexedDbInUse = (): boolean => {
+  try {
+    return localStorage.getItem(INDEXEDDB_IN_USE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const markIndexedDbInUse = (): void => {
+  try {
+    localStorage.setItem(INDEXEDDB_IN_USE_KEY, 'true');
+  } catch {
+    // ignore
+  }
+};
+
+/**
+ * Copy bentos and assets stored by older versions (localStorage) into the adapter,
+ * then free the localStorage keys. Bentos already present in the adapter are only
+ * replaced by a more recent localStorage copy.
+ */
+export const migrateFromLocalStorage = async (target: StorageAdapter): Promise<void> => {
+  if (target.name === 'localstorage') return;
+
+  const legacy = createLocalStorageAdapter();
+  const [legacyBentos, legacyAssets] = await Promise.all([
+    legacy.loadBentos(),
+    legacy.loadAssets(),
+  ]);
+  if (legacyBentos.length === 0 && legacyAssets.length === 0) return;
+
+  const existing = new Map<string, SavedBento>(
+    (await target.loadBentos()).map((bento) => [bento.id, bento])
+  );
+  for (const bento of legacyBentos) {
+    const current = existing.get(bento.id);
+    if (!current || (bento.updatedAt ?? 0) > (current.updatedAt ?? 0)) {
+      await target.putBento(bento);
+    }
+  }
+
+  if (legacyAssets.length > 0) {
+    const assets = await target.loadAssets();
+    const knownIds = new Set(assets.map((asset) => asset.id));
+    await target.saveAssets([...assets, ...legacyAssets.filter((a) => !knownIds.has(a.id))]);
+  }
+
+  // Only drop the old copy once everything has been written
+  markIndexedDbInUse();
+  try {
+    localStorage.removeItem(LEGACY_BENTOS_KEY);
+    localStorage.removeItem(LEGACY_ASSETS_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+/**
+ * Pick the best available adapter: IndexedDB, or localStorage as a fallback.
+ * Rejects instead of falling back once the data has moved to IndexedDB:
+ * an empty localStorage would look like a first visit.
+ */
+export const createStorageAdapter = async (
+  events: IndexedDbEvents = {}
+): Promise<StorageAdapter> => {
+  if (isIndexedDbAvailable()) {
+    try {
+      const adapter = await createIndexedDbAdapter(events);
+      markIndexedDbInUse();
+      await migrateFromLocalStorage(adapter);
+      return adapter;
+    } catch (e) {
+      if (isIndexedDbInUse()) {
+        throw new Error(
+          `Could not open your saved bentos: ${e instanceof Error ? e.message : 'IndexedDB is unavailable'}. Reload the page to try again.`,
+          { cause: e }
+        );
+      }
+      console.warn('IndexedDB unavailable, falling back to localStorage:', e);
+    }
+  }
+  return createLocalStorageAdapter();
+};
@@ -0,0 +1,156 @@
+/**
+ * IndexedDB adapter (default)
+ *
+ * One object store per collection, keyed by id. IndexedDB quotas are a share
+ * of free disk space rather than localStorage's fixed ~5MB.
+ */
+
+import { BentoSnapshot, SavedBento } from '../../types';
+import { Asset, StorageAdapter, toStorageWriteError } from './types';
+
+const DB_NAME = 'openbento';
+const DB_VERSION = 2;
+const BENTOS_STORE = 'bentos';
+const ASSETS_STORE = 'assets';
+const SNAPSHOTS_STORE = 'snapshots'; // v2
+const SNAPSHOTS_BY_BENTO = 'bentoId';
+
+type StoreName = typeof BENTOS_STORE | typeof ASSETS_STORE | typeof SNAPSHOTS_STORE;
+
+export const isIndexedDbAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Connection events: an upgrade waiting for other tabs to close their connection,
+ * and this connection closed for an upgrade started elsewhere
+ */
+export interface IndexedDbEvents {
+  onBlocked?: () => void;
+  onVersionChange?: () => void;
+}
+
+const openDatabase = (events: IndexedDbEvents): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BENTOS_STORE)) {
+        db.createObjectStore(BENTOS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+        db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        snapshots.createIndex(SNAPSHOTS_BY_BENTO, 'bentoId');
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version open in another tab instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        events.onVersionChange?.();
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // An older tab still has the database open: the request succeeds once it closes
+    request.onblocked = () => events.onBlocked?.();
+  });
+
+const readAll = <T>(db: IDBDatabase, store: StoreName, bentoId?: string): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const request =
+      bentoId === undefined
+        ? objectStore.getAll()
+        : objectStore.index(SNAPSHOTS_BY_BENTO).getAll(bentoId);
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a readwrite transaction; resolves on commit, rejects with a StorageWriteError on abort
+ */
+const write = (
+  db: IDBDatabase,
+  stores: StoreName | StoreName[],
+  action: string,
+  apply: (tx: IDBTransaction) => void
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(stores, 'readwrite');
+      apply(tx);
+    } catch (e) {
+      reject(toStorageWriteError(e, action));
+      return;
+    }
+    tx.oncomplete = () => resolve();
+    // A failed request aborts the whole transaction, so errors are reported once here
+    tx.onabort = () => reject(toStorageWriteError(tx.error, action));
+  });
+
+/**
+ * Open the database and build the adapter. Rejects if IndexedDB cannot be used
+ * (private browsing in some browsers, disabled storage...).
+ */
+export const createIndexedDbAdapter = async (
+  events: IndexedDbEvents = {}
+): Promise<StorageAdapter> => {
+  const db = await openDatabase(events);
+
+  return {
+    name: 'indexeddb',
+
+    loadBentos: () => readAll<SavedBento>(db, BENTOS_STORE),
+
+    putBento: (bento) =>
+      write(db, BENTOS_STORE, 'save bento', (tx) => tx.objectStore(BENTOS_STORE).put(bento)),
+
+    deleteBento: (id) =>
+      write(db, [BENTOS_STORE, SNAPSHOTS_STORE], 'delete bento', (tx) => {
+        tx.objectStore(BENTOS_STORE).delete(id);
+        const keys = tx.objectStore(SNAPSHOTS_STORE).index(SNAPSHOTS_BY_BENTO).getAllKeys(id);
+        keys.onsuccess = () => {
+          keys.result.forEach((key) => tx.objectStore(SNAPSHOTS_STORE).delete(key));
+        };
+      }),
+
+    loadSnapshots: (bentoId) => readAll<BentoSnapshot>(db, SNAPSHOTS_STORE, bentoId),
+
+    putSnapshot: (snapshot) =>
+      write(db, SNAPSHOTS_STORE, 'save snapshot', (tx) =>
+        tx.objectStore(SNAPSHOTS_STORE).put(snapshot)
+      ),
+
+    deleteSnapshots: (_bentoId, ids) =>
+      write(db, SNAPSHOTS_STORE, 'delete snapshots', (tx) => {
+        const store = tx.objectStore(SNAPSHOTS_STORE);
+        ids.forEach((id) => store.delete(id));
+      }),
+
+    loadAssets: () => readAll<Asset>(db, ASSETS_STORE),
+
+    saveAssets: (assets) =>
+      write(db, ASSETS_STORE, 'save assets', (tx) => {
+        const store = tx.objectStore(ASSETS_STORE);
+        store.clear();
+        assets.forEach((asset) => store.put(asset));
+      }),
+
+    clear: () =>
+      write(db, [BENTOS_STORE, ASSETS_STORE, SNAPSHOTS_STORE], 'clear data', (tx) => {
+        tx.objectStore(BENTOS_STORE).clear();
+        tx.objectStore(ASSETS_STORE).clear();
+        tx.objectStore(SNAPSHOTS_STORE).clear();
+      }),
+  };
+};
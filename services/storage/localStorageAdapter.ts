@@ -0,0 +1,94 @@
+/**
+ * localStorage adapter (fallback when IndexedDB is unavailable)
+ *
+ * Everything is stored as JSON under two keys, so the ~5MB origin quota
+ * is shared by all bentos and their inlined images.
+ */
+
+import { BentoSnapshot, SavedBento } from '../../types';
+import { Asset, StorageAdapter, toStorageWriteError } from './types';
+
+export const LEGACY_BENTOS_KEY = 'openbento_bentos';
+export const LEGACY_ASSETS_KEY = 'openbento_assets';
+const SNAPSHOTS_KEY_PREFIX = 'openbento_snapshots_';
+
+const snapshotsKey = (bentoId: string): string => `${SNAPSHOTS_KEY_PREFIX}${bentoId}`;
+
+const readJson = <T>(key: string): T[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Failed to read ${key} from localStorage:`, e);
+    return [];
+  }
+};
+
+const writeJson = (key: string, value: unknown, action: string): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    throw toStorageWriteError(e, action);
+  }
+};
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localstorage',
+
+  loadBentos: async () => readJson<SavedBento>(LEGACY_BENTOS_KEY),
+
+  putBento: async (bento) => {
+    const bentos = readJson<SavedBento>(LEGACY_BENTOS_KEY);
+    const index = bentos.findIndex((b) => b.id === bento.id);
+    if (index >= 0) bentos[index] = bento;
+    else bentos.push(bento);
+    writeJson(LEGACY_BENTOS_KEY, bentos, 'save bento');
+  },
+
+  deleteBento: async (id) => {
+    const bentos = readJson<SavedBento>(LEGACY_BENTOS_KEY).filter((b) => b.id !== id);
+    writeJson(LEGACY_BENTOS_KEY, bentos, 'delete bento');
+    try {
+      localStorage.removeItem(snapshotsKey(id));
+    } catch {
+      // ignore
+    }
+  },
+
+  loadSnapshots: async (bentoId) => readJson<BentoSnapshot>(snapshotsKey(bentoId)),
+
+  putSnapshot: async (snapshot) => {
+    const snapshots = readJson<BentoSnapshot>(snapshotsKey(snapshot.bentoId));
+    const index = snapshots.findIndex((s) => s.id === snapshot.id);
+    if (index >= 0) snapshots[index] = snapshot;
+    else snapshots.push(snapshot);
+    writeJson(snapshotsKey(snapshot.bentoId), snapshots, 'save snapshot');
+  },
+
+  deleteSnapshots: async (bentoId, ids) => {
+    const snapshots = readJson<BentoSnapshot>(snapshotsKey(bentoId)).filter(
+      (s) => !ids.includes(s.id)
+    );
+    writeJson(snapshotsKey(bentoId), snapshots, 'delete snapshots');
+  },
+
+  loadAssets: async () => readJson<Asset>(LEGACY_ASSETS_KEY),
+
+  saveAssets: async (assets) => {
+    writeJson(LEGACY_ASSETS_KEY, assets, 'save assets');
+  },
+
+  clear: async () => {
+    try {
+      localStorage.removeItem(LEGACY_BENTOS_KEY);
+      localStorage.removeItem(LEGACY_ASSETS_KEY);
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith(SNAPSHOTS_KEY_PREFIX))
+        .forEach((key) => localStorage.removeItem(key));
+    } catch {
+      // ignore
+    }
+  },
+});
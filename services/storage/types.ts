@@ -0,0 +1,63 @@
+/**
+ * Storage adapter types
+ */
+
+import { BentoSnapshot, SavedBento } from '../../types';
+
+// Asset type for uploaded images
+export interface Asset {
+  id: string;
+  name: string;
+  type: string; // 'image/png', 'image/jpeg', etc.
+  data: string; // base64 data URL
+  createdAt: number;
+}
+
+export type StorageAdapterName = 'indexeddb' | 'localstorage';
+
+/**
+ * Persistence backend for bentos and assets.
+ * Reads happen once at startup; every write resolves once the data is durable
+ * and rejects with a StorageWriteError otherwise.
+ */
+export interface StorageAdapter {
+  readonly name: StorageAdapterName;
+  loadBentos(): Promise<SavedBento[]>;
+  putBento(bento: SavedBento): Promise<void>;
+  deleteBento(id: string): Promise<void>; // Also deletes the bento's snapshots
+  loadSnapshots(bentoId: string): Promise<BentoSnapshot[]>;
+  putSnapshot(snapshot: BentoSnapshot): Promise<void>;
+  deleteSnapshots(bentoId: string, ids: string[]): Promise<void>;
+  loadAssets(): Promise<Asset[]>;
+  saveAssets(assets: Asset[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Raised when a write cannot be persisted (quota exceeded, storage disabled...)
+ */
+export class StorageWriteError extends Error {
+  readonly isQuotaExceeded: boolean;
+
+  constructor(message: string, options?: { cause?: unknown; isQuotaExceeded?: boolean }) {
+    super(message, { cause: options?.cause });
+    this.name = 'StorageWriteError';
+    this.isQuotaExceeded = options?.isQuotaExceeded ?? false;
+  }
+}
+
+export const isQuotaExceededError = (e: unknown): boolean =>
+  e instanceof DOMException &&
+  (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Wrap a low-level error into a StorageWriteError with a user-facing message
+ */
+export const toStorageWriteError = (e: unknown, action: string): StorageWriteError => {
+  if (e instanceof StorageWriteError) return e;
+  const isQuotaExceeded = isQuotaExceededError(e);
+  const message = isQuotaExceeded
+    ? `Browser storage is full: could not ${action}. Remove unused bentos or large images.`
+    : `Could not ${action}: ${e instanceof Error ? e.message : 'unknown storage error'}`;
+  return new StorageWriteError(message, { cause: e, isQuotaExceeded });
+};
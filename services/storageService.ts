@@ -1,51 +1,146 @@
-import { SavedBento, SiteData, BlockType, BlockData, UserProfile } from '../types';
+import { BentoSnapshot, SavedBento, SiteData, BlockType } from '../types';
 import { AVATAR_PLACEHOLDER } from '../constants';
+import {
+  Asset,
+  StorageAdapter,
+  StorageAdapterName,
+  createStorageAdapter,
+  toStorageWriteError,
+} from './storage';
+import {
+  BENTO_JSON_VERSION,
+  BENTO_SCHEMA_VERSION,
+  BentoJSON,
+  BentoValidationError,
+  formatSchemaIssues,
+  migrateSiteData,
+  parseBentoJSON,
+  SchemaIssue,
+  validateSiteData,
+} from './schema';
 
-const STORAGE_KEY = 'openbento_bentos';
 const ACTIVE_BENTO_KEY = 'openbento_active_bento';
-const ASSETS_KEY = 'openbento_assets';
 const INITIALIZED_KEY = 'openbento_initialized';
 export const GRID_VERSION = 2;
 
-// Asset type for uploaded images
-export interface Asset {
-  id: string;
-  name: string;
-  type: string; // 'image/png', 'image/jpeg', etc.
-  data: string; // base64 data URL
-  createdAt: number;
-}
+export type { Asset } from './storage';
+export { StorageWriteError } from './storage';
+export type { BentoJSON, SchemaIssue } from './schema';
 
-// Bento JSON format (for export/import)
-export interface BentoJSON {
-  id: string;
-  name: string;
-  version: string;
-  profile: UserProfile;
-  blocks: BlockData[];
-  gridVersion?: number;
-  exportedAt?: number;
+// Result of an import: the new bento and the unsafe values stripped from it
+export interface BentoImportResult {
+  bento: SavedBento;
+  report: SchemaIssue[];
 }
+export { BentoValidationError } from './schema';
 
 // Generate unique ID
 const generateId = (): string => {
   return `bento_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
-// ============ BENTO STORAGE ============
+// ============ STORAGE BACKEND ============
+
+// Bentos and assets are read once from the adapter, then served from memory.
+// Writes update the cache synchronously and are persisted in order.
+let adapter: StorageAdapter | null = null;
+let bentoCache: SavedBento[] = [];
+let assetCache: Asset[] = [];
+let readyPromise: Promise<void> | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+type StorageErrorListener = (error: Error) => void;
+const errorListeners = new Set<StorageErrorListener>();
+const blockedListeners = new Set<() => void>();
+
+// Load the storage backend (IndexedDB, with localStorage migration/fallback)
+export const initStorage = (): Promise<void> => {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      adapter = await createStorageAdapter({
+        onBlocked: () => {
+          console.warn('Storage upgrade waiting for other OpenBento tabs to close');
+          blockedListeners.forEach((listener) => listener());
+        },
+        // This tab's connection is gone: writes would fail from now on
+        onVersionChange: () => {
+          const error = new Error(
+            'OpenBento was updated in another tab. Reload this page to keep saving.'
+          );
+          errorListeners.forEach((listener) => listener(error));
+        },
+      });
+      const [bentos, assets] = await Promise.all([adapter.loadBentos(), adapter.loadAssets()]);
+      bentoCache = bentos.map(migrateStoredBento).sort((a, b) => a.createdAt - b.createdAt);
+      assetCache = assets.sort((a, b) => a.createdAt - b.createdAt);
+    })();
+  }
+  return readyPromise;
+};
 
-// Get all saved bentos
-export const getAllBentos = (): SavedBento[] => {
+// Bring a stored bento to the current schema version, saving it back when it changed.
+// Invalid data is kept as-is (and logged) rather than dropped.
+const migrateStoredBento = (bento: SavedBento): SavedBento => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    return JSON.parse(stored);
+    const { data, migrated } = migrateSiteData(bento.data);
+    const issues = validateSiteData(data);
+    if (issues.length > 0) {
+      console.warn(`Bento "${bento.name}" has invalid data:\n${formatSchemaIssues(issues)}`);
+    }
+    const result = { ...bento, data };
+    if (migrated) persist('migrate bento', (a) => a.putBento(result));
+    return result;
   } catch (e) {
-    console.error('Failed to get bentos from localStorage:', e);
-    return [];
+    console.error(`Failed to migrate bento "${bento.name}":`, e);
+    return bento;
   }
 };
 
+// Name of the active backend, or null before initStorage() has resolved
+export const getStorageBackend = (): StorageAdapterName | null => adapter?.name ?? null;
+
+// Subscribe to failed writes (quota exceeded, storage disabled...)
+export const onStorageError = (listener: StorageErrorListener): (() => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+// Subscribe to a storage upgrade waiting for other tabs (still on an older version)
+// to close; loading resumes by itself once they do
+export const onStorageBlocked = (listener: () => void): (() => void) => {
+  blockedListeners.add(listener);
+  return () => {
+    blockedListeners.delete(listener);
+  };
+};
+
+// Queue a write. The returned promise rejects with a StorageWriteError on failure;
+// listeners are notified too, so callers may ignore it.
+const persist = (action: string, write: (a: StorageAdapter) => Promise<void>): Promise<void> => {
+  const task = writeQueue.then(async () => {
+    await initStorage();
+    try {
+      await write(adapter!);
+    } catch (e) {
+      const error = toStorageWriteError(e, action);
+      console.error(`Failed to ${action}:`, error.cause ?? error);
+      errorListeners.forEach((listener) => listener(error));
+      throw error;
+    }
+  });
+  writeQueue = task.catch(() => undefined);
+  // Mark as handled for fire-and-forget callers; awaiting callers still see the rejection
+  task.catch(() => undefined);
+  return task;
+};
+
+// ============ BENTO STORAGE ============
+
+// Get all saved bentos
+export const getAllBentos = (): SavedBento[] => [...bentoCache];
+
 // Get a specific bento by ID
 export const getBento = (id: string): SavedBento | null => {
   const bentos = getAllBentos();
@@ -53,26 +148,21 @@ export const getBento = (id: string): SavedBento | null => {
 };
 
 // Save a bento (create or update)
-export const saveBento = (bento: SavedBento): void => {
-  try {
-    const bentos = getAllBentos();
-    const existingIndex = bentos.findIndex((b) => b.id === bento.id);
-
-    const updatedBento = {
-      ...bento,
-      updatedAt: Date.now(),
-    };
-
-    if (existingIndex >= 0) {
-      bentos[existingIndex] = updatedBento;
-    } else {
-      bentos.push(updatedBento);
-    }
+export const saveBento = (bento: SavedBento): Promise<void> => {
+  const updatedBento = {
+    ...bento,
+    data: { ...bento.data, schemaVersion: BENTO_SCHEMA_VERSION },
+    updatedAt: Date.now(),
+  };
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(bentos));
-  } catch (e) {
-    console.error('Failed to save bento to localStorage:', e);
+  const existingIndex = bentoCache.findIndex((b) => b.id === bento.id);
+  if (existingIndex >= 0) {
+    bentoCache[existingIndex] = updatedBento;
+  } else {
+    bentoCache.push(updatedBento);
   }
+
+  return persist('save bento', (a) => a.putBento(updatedBento));
 };
 
 // Create a new bento from JSON template
@@ -83,12 +173,12 @@ export const createBentoFromJSON = async (
     const response = await fetch(templatePath);
     if (!response.ok) throw new Error('Failed to load template');
 
-    const template: BentoJSON = await response.json();
+    const { json: template } = parseBentoJSON(await response.json());
     const now = Date.now();
 
     const newBento: SavedBento = {
       id: generateId(),
-      name: template.name || 'My Bento',
+      name: template.name,
       createdAt: now,
       updatedAt: now,
       data: {
@@ -160,17 +250,18 @@ export const createBento = (name: string): SavedBento => {
 };
 
 // Delete a bento
-export const deleteBento = (id: string): void => {
-  try {
-    const bentos = getAllBentos().filter((b) => b.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(bentos));
+export const deleteBento = (id: string): Promise<void> => {
+  bentoCache = bentoCache.filter((b) => b.id !== id);
 
+  try {
     if (getActiveBentoId() === id) {
       localStorage.removeItem(ACTIVE_BENTO_KEY);
     }
-  } catch (e) {
-    console.error('Failed to delete bento from localStorage:', e);
+  } catch {
+    // ignore
   }
+
+  return persist('delete bento', (a) => a.deleteBento(id));
 };
 
 // Get the currently active bento ID
@@ -231,6 +322,8 @@ export const getOrCreateActiveBento = (): SavedBento => {
 
 // Initialize app - call this on first load to load from template
 export const initializeApp = async (): Promise<SavedBento> => {
+  await initStorage();
+
   const activeId = getActiveBentoId();
 
   if (activeId) {
@@ -249,27 +342,46 @@ export const initializeApp = async (): Promise<SavedBento> => {
 };
 
 // Update just the data of a bento (for auto-save)
-export const updateBentoData = (id: string, data: SiteData): void => {
+export const updateBentoData = (id: string, data: SiteData): Promise<void> => {
   const bento = getBento(id);
-  if (bento) {
-    saveBento({
-      ...bento,
-      data,
-      updatedAt: Date.now(),
-    });
-  }
+  if (!bento) return Promise.resolve();
+  return saveBento({
+    ...bento,
+    data,
+    updatedAt: Date.now(),
+  });
 };
 
 // Rename a bento
-export const renameBento = (id: string, newName: string): void => {
+export const renameBento = (id: string, newName: string): Promise<void> => {
   const bento = getBento(id);
-  if (bento) {
-    saveBento({
-      ...bento,
-      name: newName,
-      updatedAt: Date.now(),
-    });
-  }
+  if (!bento) return Promise.resolve();
+  return saveBento({
+    ...bento,
+    name: newName,
+    updatedAt: Date.now(),
+  });
+};
+
+// ============ SNAPSHOTS (REVISION HISTORY) ============
+
+// Get the snapshots of a bento, newest first. Not cached: snapshots are only
+// read when the history panel opens.
+export const getSnapshots = async (bentoId: string): Promise<BentoSnapshot[]> => {
+  await initStorage();
+  await writeQueue; // Include snapshots that are still being written
+  const snapshots = await adapter!.loadSnapshots(bentoId);
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Save a snapshot
+export const saveSnapshot = (snapshot: BentoSnapshot): Promise<void> =>
+  persist('save snapshot', (a) => a.putSnapshot(snapshot));
+
+// Delete snapshots of a bento
+export const deleteSnapshots = (bentoId: string, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return persist('delete snapshots', (a) => a.deleteSnapshots(bentoId, ids));
 };
 
 // ============ EXPORT / IMPORT ============
@@ -279,7 +391,7 @@ export const exportBentoToJSON = (bento: SavedBento): BentoJSON => {
   return {
     id: bento.id,
     name: bento.name,
-    version: '1.0',
+    version: BENTO_JSON_VERSION,
     profile: bento.data.profile,
     blocks: bento.data.blocks,
     gridVersion: bento.data.gridVersion ?? GRID_VERSION,
@@ -302,28 +414,23 @@ export const downloadBentoJSON = (bento: SavedBento): void => {
   URL.revokeObjectURL(url);
 };
 
-// Import a bento from JSON
-export const importBentoFromJSON = (json: BentoJSON): SavedBento => {
+// Import a bento from JSON (migrated, validated and sanitized; throws a BentoValidationError)
+export const importBentoFromJSON = (input: unknown): BentoImportResult => {
+  const { json, report } = parseBentoJSON(input);
   const now = Date.now();
 
   const newBento: SavedBento = {
     id: generateId(), // Always generate new ID to avoid conflicts
-    name: json.name || 'Imported Bento',
+    name: json.name,
     createdAt: now,
     updatedAt: now,
     data: {
       gridVersion: json.gridVersion ?? GRID_VERSION,
       profile: {
-        name: json.profile?.name || 'My Bento',
-        bio: json.profile?.bio || '',
-        avatarUrl: json.profile?.avatarUrl || AVATAR_PLACEHOLDER,
-        theme: json.profile?.theme || 'light',
-        primaryColor: json.profile?.primaryColor || 'blue',
-        showBranding: json.profile?.showBranding ?? true,
-        analytics: json.profile?.analytics || { enabled: false, supabaseUrl: '' },
-        socialAccounts: json.profile?.socialAccounts || [],
+        ...json.profile,
+        avatarUrl: json.profile.avatarUrl || AVATAR_PLACEHOLDER,
       },
-      blocks: (json.blocks || []).map((b) => ({
+      blocks: json.blocks.map((b) => ({
         ...b,
         id: generateId(), // Generate new IDs
       })),
@@ -333,21 +440,26 @@ export const importBentoFromJSON = (json: BentoJSON): SavedBento => {
   saveBento(newBento);
   setActiveBentoId(newBento.id);
 
-  return newBento;
+  return { bento: newBento, report };
 };
 
 // Load bento from file input
-export const loadBentoFromFile = (file: File): Promise<SavedBento> => {
+export const loadBentoFromFile = (file: File): Promise<BentoImportResult> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = (e) => {
+      let json: unknown;
       try {
-        const json = JSON.parse(e.target?.result as string) as BentoJSON;
-        const bento = importBentoFromJSON(json);
-        resolve(bento);
+        json = JSON.parse(e.target?.result as string);
       } catch {
         reject(new Error('Invalid JSON file'));
+        return;
+      }
+      try {
+        resolve(importBentoFromJSON(json));
+      } catch (err) {
+        reject(err instanceof BentoValidationError ? err : new Error('Invalid bento file'));
       }
     };
 
@@ -359,23 +471,12 @@ export const loadBentoFromFile = (file: File): Promise<SavedBento> => {
 // ============ ASSETS STORAGE ============
 
 // Get all assets
-export const getAssets = (): Asset[] => {
-  try {
-    const stored = localStorage.getItem(ASSETS_KEY);
-    if (!stored) return [];
-    return JSON.parse(stored);
-  } catch {
-    return [];
-  }
-};
+export const getAssets = (): Asset[] => [...assetCache];
 
 // Save assets
-export const saveAssets = (assets: Asset[]): void => {
-  try {
-    localStorage.setItem(ASSETS_KEY, JSON.stringify(assets));
-  } catch (e) {
-    console.error('Failed to save assets:', e);
-  }
+export const saveAssets = (assets: Asset[]): Promise<void> => {
+  assetCache = [...assets];
+  return persist('save assets', (a) => a.saveAssets(assets));
 };
 
 // Add an asset (image uploaded by user)
@@ -396,9 +497,9 @@ export const addAsset = (name: string, type: string, data: string): Asset => {
 };
 
 // Remove an asset
-export const removeAsset = (id: string): void => {
+export const removeAsset = (id: string): Promise<void> => {
   const assets = getAssets().filter((a) => a.id !== id);
-  saveAssets(assets);
+  return saveAssets(assets);
 };
 
 // Export assets to JSON
@@ -426,13 +527,16 @@ export const downloadAssetsJSON = (): void => {
 };
 
 // Clear all data (reset)
-export const clearAllData = (): void => {
+export const clearAllData = (): Promise<void> => {
+  bentoCache = [];
+  assetCache = [];
+
   try {
-    localStorage.removeItem(STORAGE_KEY);
     localStorage.removeItem(ACTIVE_BENTO_KEY);
-    localStorage.removeItem(ASSETS_KEY);
     localStorage.removeItem(INITIALIZED_KEY);
   } catch {
     // ignore
   }
+
+  return persist('clear data', (a) => a.clear());
 };
@@ -0,0 +1,56 @@
+/**
+ * Theme files: share a house style between bentos
+ *
+ * A theme is exported as a small versioned JSON file. Imported themes go through
+ * the same validation and sanitization as bento files.
+ */
+
+import { Theme } from '../types';
+import { BentoValidationError, isRecord, parseThemeJSON, SchemaIssue } from './schema';
+
+export const THEME_FILE_FORMAT = 'openbento/theme';
+export const THEME_FILE_VERSION = 1;
+
+export interface ThemeFile {
+  format: typeof THEME_FILE_FORMAT;
+  version: number;
+  theme: Theme;
+}
+
+export const serializeTheme = (theme: Theme): string => {
+  const file: ThemeFile = { format: THEME_FILE_FORMAT, version: THEME_FILE_VERSION, theme };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse the text of a theme file. Throws a BentoValidationError when it is not
+ * a theme file or the theme is invalid; `report` lists the unsafe values stripped.
+ */
+export const parseThemeFile = (text: string): { theme: Theme; report: SchemaIssue[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new BentoValidationError([{ path: '', message: 'is not valid JSON' }]);
+  }
+  if (!isRecord(value) || value.format !== THEME_FILE_FORMAT) {
+    throw new BentoValidationError([
+      { path: 'format', message: `expected "${THEME_FILE_FORMAT}"` },
+    ]);
+  }
+  return parseThemeJSON(value.theme);
+};
+
+// Download a theme as a JSON file
+export const downloadThemeJSON = (theme: Theme): void => {
+  const blob = new Blob([serializeTheme(theme)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${theme.name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'theme'}.theme.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,49 @@
+// Link unfurling through the dev server (/__openbento/unfurl): fills LINK blocks
+// from a page's OpenGraph metadata
+import type { LinkMetadata } from '../server/unfurl';
+import { addAsset } from './storageService';
+
+export type { LinkMetadata } from '../server/unfurl';
+
+export interface UnfurlResult {
+  metadata: LinkMetadata;
+  imageDataUrl?: string; // Set when the image was stored locally
+  imageError?: string; // Why the image could not be stored
+}
+
+/**
+ * Fetch the metadata of `url`. With `storeImage`, the page image is downloaded
+ * and saved as an asset so the block does not hotlink it.
+ */
+export const unfurlLink = async (
+  url: string,
+  { storeImage = false }: { storeImage?: boolean } = {}
+): Promise<UnfurlResult> => {
+  let res: Response;
+  try {
+    res = await fetch('/__openbento/unfurl', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, includeImage: storeImage }),
+    });
+  } catch {
+    throw new Error('Could not reach the OpenBento dev server.');
+  }
+
+  const data = await res.json().catch(() => null);
+  // Static hosting (or `vite preview`) has no middleware
+  if (!data) throw new Error('Filling from a URL needs the dev server (npm run dev).');
+  if (!res.ok || !data.ok) throw new Error(data.error || `Request failed (${res.status})`);
+
+  const result: UnfurlResult = {
+    metadata: data.metadata,
+    imageDataUrl: data.imageDataUrl,
+    imageError: data.imageError,
+  };
+  if (result.imageDataUrl) {
+    const type = result.imageDataUrl.slice(5, result.imageDataUrl.indexOf(';'));
+    const name = result.metadata.siteName || new URL(result.metadata.url).hostname;
+    addAsset(`${name} preview`, type, result.imageDataUrl);
+  }
+  return result;
+};
@@ -0,0 +1,61 @@
+// YouTube channel feeds in the builder. YouTube sends no CORS headers: feeds come
+// through the dev server (/__openbento/youtube-feed), or through the allorigins.win
+// proxy when "Live YouTube feeds" is enabled in the deploy settings.
+
+export const YOUTUBE_RUNTIME_FEEDS_KEY = 'openbento_youtube_runtime_feeds';
+
+const MAX_VIDEOS = 4;
+
+export interface YouTubeFeed {
+  channelTitle?: string;
+  videos: Array<{ id: string; title: string; thumbnail: string }>;
+}
+
+export const isYouTubeRuntimeFeedsEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(YOUTUBE_RUNTIME_FEEDS_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const readFeedXml = async (channelId: string): Promise<string> => {
+  const res = await fetch(`/__openbento/youtube-feed?channelId=${encodeURIComponent(channelId)}`);
+  const data = await res.json().catch(() => null);
+  if (data) {
+    if (!res.ok || !data.ok) throw new Error(data.error || `Request failed (${res.status})`);
+    return data.xml;
+  }
+
+  // Static hosting (or `vite preview`) has no middleware
+  if (!isYouTubeRuntimeFeedsEnabled()) {
+    throw new Error(
+      'Loading YouTube feeds needs the dev server (npm run dev), or "Live YouTube feeds" enabled in the deploy settings.'
+    );
+  }
+  const rssUrl = `https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`;
+  const proxied = await fetch(`https://api.allorigins.win/raw?url=${encodeURIComponent(rssUrl)}`);
+  if (!proxied.ok) throw new Error('Network error');
+  return proxied.text();
+};
+
+/**
+ * Latest videos of a channel, newest first
+ */
+export const fetchYouTubeFeed = async (channelId: string): Promise<YouTubeFeed> => {
+  const xmlDoc = new DOMParser().parseFromString(await readFeedXml(channelId), 'text/xml');
+  const videos = Array.from(xmlDoc.querySelectorAll('entry'))
+    .slice(0, MAX_VIDEOS)
+    .map((entry) => {
+      const id = entry.getElementsByTagName('yt:videoId')[0]?.textContent || '';
+      return {
+        id,
+        title: entry.getElementsByTagName('title')[0]?.textContent || '',
+        thumbnail: `https://img.youtube.com/vi/${id}/mqdefault.jpg`,
+      };
+    });
+  return {
+    channelTitle: xmlDoc.querySelector('author > name')?.textContent || undefined,
+    videos,
+  };
+};
@@ -52,6 +52,152 @@ const getToken = (req: Request): string | null => {
 
 const getDayKey = (iso: string): string => iso.slice(0, 10);
 
+// Reasons of events dropped by the track function, as summary keys
+const FILTER_KEYS: Record<string, 'bot' | 'rateLimit' | 'origin' | 'duplicate'> = {
+  bot: 'bot',
+  rate_limit: 'rateLimit',
+  origin: 'origin',
+  duplicate: 'duplicate',
+};
+
+const MAX_ROWS = 10_000;
+const MAX_DRILL_DOWN_ROWS = 1000;
+
+type Breakdown = { dimension: string; value: string; label: string | null; count: number };
+
+// Summary of a range from the daily rollups; null when they are not set up
+const summarizeRollups = async (siteId: string, sinceDay: string) => {
+  const { data: scheduled, error: scheduledError } = await supabase.rpc(
+    'openbento_analytics_rollups_scheduled'
+  );
+  if (scheduledError) return null;
+  if (!scheduled) {
+    // No pg_cron job: bring today (and any day not rolled up yet) up to date for this site
+    const { error: refreshError } = await supabase.rpc('openbento_analytics_refresh_rollups', {
+      p_site_id: siteId,
+    });
+    if (refreshError) return null;
+  }
+
+  const [
+    { data: days, error: daysError },
+    { data: breakdowns, error: breakdownsError },
+    { data: visitors, error: visitorsError },
+  ] = await Promise.all([
+    supabase
+      .from('openbento_analytics_daily')
+      .select(
+        'day,page_views,clicks,visitors,sessions,engaged_sessions,duration_seconds,scroll_depth_total,scroll_depth_sessions'
+      )
+      .eq('site_id', siteId)
+      .gte('day', sinceDay)
+      .order('day', { ascending: true }),
+    supabase.rpc('openbento_analytics_rollup_breakdowns', {
+      p_site_id: siteId,
+      p_since: sinceDay,
+      p_limit: 10,
+    }),
+    // Daily visitors can't be summed: returning visitors would count once per day
+    supabase.rpc('openbento_analytics_unique_visitors', {
+      p_site_id: siteId,
+      p_since: sinceDay,
+    }),
+  ]);
+  if (daysError || breakdownsError || visitorsError) return null;
+
+  const totals = {
+    pageViews: 0,
+    clicks: 0,
+    visitors: Number(visitors ?? 0),
+    sessions: 0,
+    engagedSessions: 0,
+    avgDurationSeconds: 0,
+    avgScrollDepth: 0,
+  };
+  let durationSeconds = 0;
+  let scrollDepthTotal = 0;
+  let scrollDepthSessions = 0;
+  const series = (days ?? []).map((d) => {
+    totals.pageViews += d.page_views;
+    totals.clicks += d.clicks;
+    totals.sessions += d.sessions;
+    totals.engagedSessions += d.engaged_sessions;
+    durationSeconds += Number(d.duration_seconds);
+    scrollDepthTotal += Number(d.scroll_depth_total);
+    scrollDepthSessions += d.scroll_depth_sessions;
+    return { day: d.day, pageViews: d.page_views, clicks: d.clicks, visitors: d.visitors };
+  });
+  if (totals.sessions > 0)
+    totals.avgDurationSeconds = Math.round(durationSeconds / totals.sessions);
+  if (scrollDepthSessions > 0) {
+    totals.avgScrollDepth = Math.round(scrollDepthTotal / scrollDepthSessions);
+  }
+
+  const rows = ((breakdowns ?? []) as Breakdown[]).map((b) => ({ ...b, count: Number(b.count) }));
+  const of = (dimension: string) => rows.filter((b) => b.dimension === dimension);
+  const values = (dimension: string) =>
+    of(dimension).map((b) => ({ value: b.value, pageViews: b.count }));
+
+  return {
+    source: 'rollups',
+    totals,
+    series,
+    topDestinations: of('destination').map((b) => ({ key: b.value, clicks: b.count })),
+    topReferrers: of('referrer').map((b) => ({ host: b.value, pageViews: b.count })),
+    topBlocks: of('block').map((b) => ({
+      blockId: b.value,
+      title: b.label ?? b.value,
+      clicks: b.count,
+    })),
+    utm: {
+      sources: values('utm_source'),
+      mediums: values('utm_medium'),
+      campaigns: values('utm_campaign'),
+    },
+    devices: of('device').map((b) => ({ device: b.value, pageViews: b.count })),
+    languages: of('language').map((b) => ({ language: b.value, pageViews: b.count })),
+  };
+};
+
+// Raw events behind a summary: ?events&day=YYYY-MM-DD&type=click&blockId=...&limit=...
+const drillDown = async (url: URL, siteId: string, since: string) => {
+  const day = url.searchParams.get('day');
+  const type = url.searchParams.get('type');
+  const blockId = clampText(url.searchParams.get('blockId'), 128);
+  const limit = clampInt(Number(url.searchParams.get('limit')), 1, MAX_DRILL_DOWN_ROWS) ?? 100;
+
+  let query = supabase.from('openbento_analytics_events').select('*').eq('site_id', siteId);
+  if (day && /^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    const start = new Date(`${day}T00:00:00Z`);
+    if (Number.isNaN(start.getTime())) return json({ error: 'Invalid day' }, 400);
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    query = query.gte('created_at', start.toISOString()).lt('created_at', end.toISOString());
+  } else if (day) {
+    return json({ error: 'Invalid day' }, 400);
+  } else {
+    query = query.gte('created_at', since);
+  }
+  if (type) {
+    if (!['page_view', 'click', 'session_end'].includes(type)) {
+      return json({ error: 'Invalid type' }, 400);
+    }
+    query = query.eq('event_type', type);
+  }
+  if (blockId) query = query.eq('block_id', blockId);
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+  if (error) return json({ error: 'Query failed' }, 500);
+
+  const events = data ?? [];
+  return json({
+    ok: true,
+    siteId,
+    events,
+    count: events.length,
+    truncated: events.length >= limit,
+  });
+};
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
 
@@ -80,20 +226,45 @@ Deno.serve(async (req) => {
 
   if (!siteId) return json({ error: 'Missing siteId' }, 400);
   const rangeDays = days ?? 30;
-  const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString();
+  // The last rangeDays UTC days, today included
+  const sinceDay = getDayKey(
+    new Date(Date.now() - (rangeDays - 1) * 24 * 60 * 60 * 1000).toISOString()
+  );
+  const since = `${sinceDay}T00:00:00.000Z`;
+
+  if (url.searchParams.has('events')) return drillDown(url, siteId, since);
+
+  // Filtered counts are daily; missing when the filtering migration was not applied
+  const filtered = { total: 0, bot: 0, rateLimit: 0, origin: 0, duplicate: 0 };
+  const { data: filteredRows } = await supabase
+    .from('openbento_analytics_filtered')
+    .select('reason,count')
+    .eq('site_id', siteId)
+    .gte('day', sinceDay);
+  for (const row of filteredRows ?? []) {
+    const key = FILTER_KEYS[row.reason];
+    if (!key) continue;
+    filtered[key] += row.count;
+    filtered.total += row.count;
+  }
+
+  const rollups = await summarizeRollups(siteId, sinceDay);
+  if (rollups) return json({ ok: true, siteId, rangeDays, ...rollups, filtered, sampled: false });
 
+  // Rollups missing (migration not applied): aggregate raw events
   const { data, error } = await supabase
     .from('openbento_analytics_events')
-    .select('created_at,event_type,block_id,destination_url,referrer')
+    .select('created_at,event_type,block_id,destination_url,referrer,visitor_id')
     .eq('site_id', siteId)
     .gte('created_at', since)
     .order('created_at', { ascending: false })
-    .limit(10_000);
+    .limit(MAX_ROWS);
 
   if (error) return json({ error: 'Query failed' }, 500);
 
   const events = data ?? [];
-  const totals = { pageViews: 0, clicks: 0 };
+  const totals = { pageViews: 0, clicks: 0, visitors: 0 };
+  const visitors = new Set<string>();
   const daily = new Map<string, { day: string; pageViews: number; clicks: number }>();
   const destinations = new Map<string, number>();
   const referrers = new Map<string, number>();
@@ -105,6 +276,7 @@ Deno.serve(async (req) => {
     if (e.event_type === 'page_view') {
       totals.pageViews += 1;
       current.pageViews += 1;
+      if (e.visitor_id) visitors.add(e.visitor_id);
 
       const r = clampText(e.referrer, 2048);
       if (r) {
@@ -126,6 +298,7 @@ Deno.serve(async (req) => {
     daily.set(day, current);
   }
 
+  totals.visitors = visitors.size;
   const series = Array.from(daily.values()).sort((a, b) => (a.day < b.day ? -1 : 1));
   const topDestinations = Array.from(destinations.entries())
     .sort((a, b) => b[1] - a[1])
@@ -141,10 +314,12 @@ Deno.serve(async (req) => {
     ok: true,
     siteId,
     rangeDays,
+    source: 'events',
     totals,
     series,
     topDestinations,
     topReferrers,
-    sampled: events.length >= 10_000,
+    filtered,
+    sampled: events.length >= MAX_ROWS,
   });
 });
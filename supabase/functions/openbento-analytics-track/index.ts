@@ -16,10 +16,18 @@ if (!supabaseUrl || !serviceRoleKey) {
 
 const supabase = createClient(supabaseUrl, serviceRoleKey);
 
+// Salt of the hashed client IPs (rate limiting); the service role key when unset
+const ipSalt = Deno.env.get('OPENBENTO_ANALYTICS_IP_SALT') || serviceRoleKey;
+
+type TrackEvent = 'page_view' | 'click' | 'session_end';
+
 type TrackPayload = {
   siteId: string;
-  event: 'page_view' | 'click';
+  event: TrackEvent;
+  visitorId?: string;
+  sessionId?: string;
   blockId?: string;
+  blockTitle?: string;
   destinationUrl?: string;
   pageUrl?: string;
   referrer?: string;
@@ -33,8 +41,33 @@ type TrackPayload = {
   language?: string;
   screenW?: number;
   screenH?: number;
+  viewportW?: number;
+  viewportH?: number;
+  timezone?: string;
+  // session_end only
+  durationSeconds?: number;
+  scrollDepth?: number;
 };
 
+const TRACK_EVENTS: readonly TrackEvent[] = ['page_view', 'click', 'session_end'];
+
+// A session counts as engaged when the visitor stayed and scrolled past these thresholds
+const ENGAGED_MIN_SECONDS = 10;
+const ENGAGED_MIN_SCROLL = 25;
+const MAX_SESSION_SECONDS = 24 * 60 * 60;
+
+// Events per hashed client IP and site, per window
+const RATE_LIMIT_EVENTS = 60;
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+// A page view repeating the visitor's previous one within this window is dropped
+const DUPLICATE_WINDOW_SECONDS = 30;
+
+// Crawlers, link-preview fetchers, headless browsers and HTTP libraries
+const BOT_USER_AGENT =
+  /bot\b|crawl|spider|slurp|scrap|facebookexternalhit|facebookcatalog|embedly|preview|whatsapp|skypeuripreview|vkshare|outbrain|quora link|headless|phantomjs|puppeteer|playwright|selenium|lighthouse|pagespeed|gtmetrix|pingdom|uptime|monitor|curl\/|wget\/|python|java\/|go-http-client|okhttp|axios|node-fetch|undici|libwww|httpclient|postman/i;
+
+type FilterReason = 'bot' | 'rate_limit' | 'origin' | 'duplicate';
+
 const clampText = (value: unknown, maxLen: number): string | null => {
   if (typeof value !== 'string') return null;
   const trimmed = value.trim();
@@ -49,6 +82,86 @@ const clampInt = (value: unknown, maxAbs: number): number | null => {
   return n;
 };
 
+// Visitor / session ids are random client-generated tokens
+const clampId = (value: unknown): string | null => {
+  const id = clampText(value, 64);
+  return id && /^[A-Za-z0-9_-]+$/.test(id) ? id : null;
+};
+
+const clampRange = (value: unknown, min: number, max: number): number | null => {
+  const n = clampInt(value, Math.max(Math.abs(min), Math.abs(max)));
+  if (n === null || n < min || n > max) return null;
+  return n;
+};
+
+const isBot = (userAgent: string | null): boolean => !userAgent || BOT_USER_AGENT.test(userAgent);
+
+const toOrigin = (value: string | null): string | null => {
+  if (!value) return null;
+  try {
+    return new URL(value).origin.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// First address of x-forwarded-for, as set by the Supabase gateway
+const getClientIp = (req: Request): string =>
+  req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+  req.headers.get('cf-connecting-ip') ||
+  req.headers.get('x-real-ip') ||
+  'unknown';
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The filtering tables come with a migration: if it is missing, events are let through
+const isOriginAllowed = async (siteId: string, origin: string | null): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('openbento_analytics_sites')
+    .select('allowed_origins')
+    .eq('site_id', siteId)
+    .maybeSingle();
+  const allowed = ((data?.allowed_origins as string[] | null) ?? [])
+    .map((o) => toOrigin(o))
+    .filter(Boolean);
+  if (error || allowed.length === 0) return true;
+  return !!origin && allowed.includes(origin);
+};
+
+const isWithinRateLimit = async (req: Request, siteId: string): Promise<boolean> => {
+  const day = new Date().toISOString().slice(0, 10);
+  const key = await sha256(`${ipSalt}:${day}:${siteId}:${getClientIp(req)}`);
+  const { data, error } = await supabase.rpc('openbento_analytics_rate_limit', {
+    p_key: key,
+    p_limit: RATE_LIMIT_EVENTS,
+    p_window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+  return error ? true : data !== false;
+};
+
+const isDuplicatePageView = async (
+  siteId: string,
+  visitorId: string | null,
+  pageUrl: string | null
+): Promise<boolean> => {
+  if (!visitorId) return false;
+  const since = new Date(Date.now() - DUPLICATE_WINDOW_SECONDS * 1000).toISOString();
+  const recent = supabase
+    .from('openbento_analytics_events')
+    .select('id')
+    .eq('site_id', siteId)
+    .eq('event_type', 'page_view')
+    .eq('visitor_id', visitorId)
+    .gte('created_at', since);
+  const { data, error } = await (
+    pageUrl ? recent.eq('page_url', pageUrl) : recent.is('page_url', null)
+  ).limit(1);
+  return !error && (data?.length ?? 0) > 0;
+};
+
 const json = (body: unknown, status = 200) =>
   new Response(JSON.stringify(body), {
     status,
@@ -65,25 +178,63 @@ Deno.serve(async (req) => {
   } catch {
     return json({ error: 'Invalid JSON' }, 400);
   }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
 
   const siteId = clampText(payload.siteId, 128);
   if (!siteId) return json({ error: 'Missing siteId' }, 400);
 
-  const event = payload.event === 'page_view' || payload.event === 'click' ? payload.event : null;
+  const event = TRACK_EVENTS.includes(payload.event) ? payload.event : null;
   if (!event) return json({ error: 'Invalid event' }, 400);
 
+  const visitorId = clampId(payload.visitorId);
+  const sessionId = clampId(payload.sessionId);
+  const pageUrl = clampText(payload.pageUrl, 2048);
+  const userAgent = clampText(req.headers.get('user-agent'), 512);
+
+  // Dropped events are only counted; the client gets no error to retry on
+  const filter = async (reason: FilterReason) => {
+    await supabase.rpc('openbento_analytics_count_filtered', {
+      p_site_id: siteId,
+      p_reason: reason,
+    });
+    return json({ ok: true, filtered: reason }, reason === 'rate_limit' ? 429 : 200);
+  };
+
+  if (isBot(userAgent)) return filter('bot');
+  const origin = toOrigin(req.headers.get('origin')) ?? toOrigin(pageUrl);
+  if (!(await isOriginAllowed(siteId, origin))) return filter('origin');
+  if (!(await isWithinRateLimit(req, siteId))) return filter('rate_limit');
+  if (event === 'page_view' && (await isDuplicatePageView(siteId, visitorId, pageUrl))) {
+    return filter('duplicate');
+  }
+
   const blockId = event === 'click' ? clampText(payload.blockId, 128) : null;
+  const blockTitle = event === 'click' ? clampText(payload.blockTitle, 256) : null;
   const destinationUrl = event === 'click' ? clampText(payload.destinationUrl, 2048) : null;
 
-  const pageUrl = clampText(payload.pageUrl, 2048);
+  const durationSeconds =
+    event === 'session_end' ? clampRange(payload.durationSeconds, 0, MAX_SESSION_SECONDS) : null;
+  const scrollDepth = event === 'session_end' ? clampRange(payload.scrollDepth, 0, 100) : null;
+  if (event === 'session_end' && durationSeconds === null) {
+    return json({ error: 'Invalid durationSeconds' }, 400);
+  }
+  const engaged =
+    event === 'session_end' &&
+    (durationSeconds ?? 0) > ENGAGED_MIN_SECONDS &&
+    (scrollDepth ?? 0) > ENGAGED_MIN_SCROLL;
+
   const referrer = clampText(payload.referrer, 2048);
-  const userAgent = clampText(req.headers.get('user-agent'), 512);
   const language =
     clampText(payload.language, 32) ??
     clampText(req.headers.get('accept-language')?.split(',')[0], 32);
 
   const screenW = clampInt(payload.screenW, 100_000);
   const screenH = clampInt(payload.screenH, 100_000);
+  const viewportW = clampInt(payload.viewportW, 100_000);
+  const viewportH = clampInt(payload.viewportH, 100_000);
+  const timezone = clampText(payload.timezone, 64);
 
   const utm = payload.utm ?? {};
   const utm_source = clampText(utm.source, 128);
@@ -108,6 +259,15 @@ Deno.serve(async (req) => {
     language,
     screen_w: screenW,
     screen_h: screenH,
+    visitor_id: visitorId,
+    session_id: sessionId,
+    viewport_w: viewportW,
+    viewport_h: viewportH,
+    timezone,
+    duration_seconds: durationSeconds,
+    scroll_depth: scrollDepth,
+    engaged,
+    block_title: blockTitle,
   });
 
   if (error) return json({ error: 'Insert failed' }, 500);
@@ -0,0 +1,37 @@
+-- OpenBento Analytics: session model
+--
+-- Adds the visitor/session columns read by the analytics dashboard and
+-- allows the 'session_end' event (sent when a visitor leaves the page).
+
+alter table public.openbento_analytics_events
+  add column if not exists visitor_id text,
+  add column if not exists session_id text,
+  add column if not exists viewport_w integer,
+  add column if not exists viewport_h integer,
+  add column if not exists timezone text,
+  add column if not exists duration_seconds integer,
+  add column if not exists scroll_depth integer,
+  add column if not exists engaged boolean not null default false,
+  add column if not exists block_title text;
+
+-- 'page_view' = inbound traffic, 'click' = outbound traffic,
+-- 'session_end' = time on page / scroll depth of a finished visit
+alter table public.openbento_analytics_events
+  drop constraint if exists openbento_analytics_events_event_type_check;
+
+alter table public.openbento_analytics_events
+  add constraint openbento_analytics_events_event_type_check
+  check (event_type in ('page_view', 'click', 'session_end'));
+
+alter table public.openbento_analytics_events
+  drop constraint if exists openbento_analytics_events_scroll_depth_check;
+
+alter table public.openbento_analytics_events
+  add constraint openbento_analytics_events_scroll_depth_check
+  check (scroll_depth is null or (scroll_depth between 0 and 100));
+
+create index if not exists openbento_analytics_events_site_visitor_idx
+  on public.openbento_analytics_events (site_id, visitor_id);
+
+create index if not exists openbento_analytics_events_site_session_idx
+  on public.openbento_analytics_events (site_id, session_id);
@@ -0,0 +1,92 @@
+-- OpenBento Analytics: filtering
+--
+-- The track function drops bots, clients over the rate limit, events from pages
+-- outside a site's allowed origins and repeated page views. Dropped events are
+-- not stored: they are only counted per site, day and reason for the dashboard.
+
+create table if not exists public.openbento_analytics_filtered (
+  site_id text not null,
+  day date not null,
+  reason text not null check (reason in ('bot', 'rate_limit', 'origin', 'duplicate')),
+  count integer not null default 0,
+  primary key (site_id, day, reason)
+);
+
+-- Fixed-window counters. Keys are salted SHA-256 hashes of the client IP, the
+-- site and the day: raw IP addresses are never stored.
+create table if not exists public.openbento_analytics_rate_limits (
+  key text primary key,
+  window_start timestamptz not null,
+  count integer not null default 0
+);
+
+-- Optional allow-list: when a site lists origins, events from other pages are dropped.
+--   insert into public.openbento_analytics_sites (site_id, allowed_origins)
+--   values ('my-site-id', array['https://example.com']);
+create table if not exists public.openbento_analytics_sites (
+  site_id text primary key,
+  allowed_origins text[] not null default '{}'
+);
+
+alter table public.openbento_analytics_filtered enable row level security;
+alter table public.openbento_analytics_rate_limits enable row level security;
+alter table public.openbento_analytics_sites enable row level security;
+
+-- Duplicate page view lookups
+create index if not exists openbento_analytics_events_site_visitor_time_idx
+  on public.openbento_analytics_events (site_id, visitor_id, created_at desc)
+  where event_type = 'page_view';
+
+create or replace function public.openbento_analytics_count_filtered(p_site_id text, p_reason text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.openbento_analytics_filtered (site_id, day, reason, count)
+  values (p_site_id, current_date, p_reason, 1)
+  on conflict (site_id, day, reason)
+  do update set count = openbento_analytics_filtered.count + 1;
+$$;
+
+-- Records a hit; true while the key stays within p_limit hits per window
+create or replace function public.openbento_analytics_rate_limit(
+  p_key text,
+  p_limit integer,
+  p_window_seconds integer
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  hits integer;
+begin
+  insert into public.openbento_analytics_rate_limits as r (key, window_start, count)
+  values (p_key, now(), 1)
+  on conflict (key) do update set
+    count = case
+      when r.window_start < now() - make_interval(secs => p_window_seconds) then 1
+      else r.count + 1
+    end,
+    window_start = case
+      when r.window_start < now() - make_interval(secs => p_window_seconds) then now()
+      else r.window_start
+    end
+  returning count into hits;
+
+  -- Keys change daily: forget old windows now and then
+  if random() < 0.01 then
+    delete from public.openbento_analytics_rate_limits
+    where window_start < now() - interval '1 day';
+  end if;
+
+  return hits <= p_limit;
+end;
+$$;
+
+revoke execute on function public.openbento_analytics_count_filtered(text, text)
+  from public, anon, authenticated;
+revoke execute on function public.openbento_analytics_rate_limit(text, integer, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,284 @@
+-- OpenBento Analytics: daily rollups
+--
+-- The admin function answers summaries from per-day aggregates instead of raw
+-- events, so ranges up to a year stay fast and complete. Days are UTC. Raw
+-- events are kept: they remain the source of the rollups and of drill-downs.
+
+create table if not exists public.openbento_analytics_daily (
+  site_id text not null,
+  day date not null,
+  page_views integer not null default 0,
+  clicks integer not null default 0,
+  -- Distinct visitors with a page view that day
+  visitors integer not null default 0,
+  sessions integer not null default 0,
+  engaged_sessions integer not null default 0,
+  duration_seconds bigint not null default 0,
+  scroll_depth_total bigint not null default 0,
+  scroll_depth_sessions integer not null default 0,
+  refreshed_at timestamptz not null default now(),
+  primary key (site_id, day)
+);
+
+-- One row per site, day and value of a dimension. Blocks and destinations count
+-- clicks; the other dimensions count page views.
+create table if not exists public.openbento_analytics_daily_breakdowns (
+  site_id text not null,
+  day date not null,
+  dimension text not null check (
+    dimension in (
+      'block',
+      'destination',
+      'referrer',
+      'utm_source',
+      'utm_medium',
+      'utm_campaign',
+      'device',
+      'language'
+    )
+  ),
+  value text not null,
+  -- Latest block title, for 'block' rows
+  label text,
+  count integer not null default 0,
+  primary key (site_id, day, dimension, value)
+);
+
+alter table public.openbento_analytics_daily enable row level security;
+alter table public.openbento_analytics_daily_breakdowns enable row level security;
+
+-- Refreshes of every site scan events by time
+create index if not exists openbento_analytics_events_time_idx
+  on public.openbento_analytics_events (created_at);
+
+-- Recomputes the rollups of days >= p_since, for one site or all of them.
+-- Without p_since, each site is refreshed from its last unfinished day (and at
+-- least from yesterday), so missed schedules catch up.
+create or replace function public.openbento_analytics_refresh_rollups(
+  p_site_id text default null,
+  p_since date default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  yesterday date := (now() at time zone 'utc')::date - 1;
+  since date := p_since;
+  since_at timestamptz;
+begin
+  -- Concurrent refreshes would insert the same rows
+  perform pg_advisory_xact_lock(hashtext('openbento_analytics_refresh_rollups'));
+
+  if since is null then
+    -- A day is final once it was refreshed after it ended
+    select min(
+      case
+        when d.refreshed_at >= (d.day + 1)::timestamp at time zone 'utc' then d.day + 1
+        else d.day
+      end
+    )
+    into since
+    from (
+      select distinct on (site_id) site_id, day, refreshed_at
+      from public.openbento_analytics_daily
+      where p_site_id is null or site_id = p_site_id
+      order by site_id, day desc
+    ) d;
+
+    -- A site seen for the first time
+    if since is null and p_site_id is not null then
+      select (min(e.created_at) at time zone 'utc')::date
+      into since
+      from public.openbento_analytics_events e
+      where e.site_id = p_site_id;
+    end if;
+
+    since := least(coalesce(since, yesterday), yesterday);
+  end if;
+
+  since_at := since::timestamp at time zone 'utc';
+
+  delete from public.openbento_analytics_daily
+  where day >= since and (p_site_id is null or site_id = p_site_id);
+
+  delete from public.openbento_analytics_daily_breakdowns
+  where day >= since and (p_site_id is null or site_id = p_site_id);
+
+  insert into public.openbento_analytics_daily (
+    site_id,
+    day,
+    page_views,
+    clicks,
+    visitors,
+    sessions,
+    engaged_sessions,
+    duration_seconds,
+    scroll_depth_total,
+    scroll_depth_sessions
+  )
+  select
+    e.site_id,
+    (e.created_at at time zone 'utc')::date,
+    count(*) filter (where e.event_type = 'page_view'),
+    count(*) filter (where e.event_type = 'click'),
+    count(distinct e.visitor_id) filter (where e.event_type = 'page_view'),
+    count(*) filter (where e.event_type = 'session_end'),
+    count(*) filter (where e.event_type = 'session_end' and e.engaged),
+    coalesce(sum(e.duration_seconds) filter (where e.event_type = 'session_end'), 0),
+    coalesce(sum(e.scroll_depth) filter (where e.event_type = 'session_end'), 0),
+    count(e.scroll_depth) filter (where e.event_type = 'session_end')
+  from public.openbento_analytics_events e
+  where e.created_at >= since_at and (p_site_id is null or e.site_id = p_site_id)
+  group by 1, 2;
+
+  insert into public.openbento_analytics_daily_breakdowns (site_id, day, dimension, value, label, count)
+  select
+    e.site_id,
+    (e.created_at at time zone 'utc')::date,
+    b.dimension,
+    b.value,
+    (array_agg(b.label order by e.created_at desc) filter (where b.label is not null))[1],
+    count(*)
+  from public.openbento_analytics_events e
+  cross join lateral (
+    values
+      ('block', case when e.event_type = 'click' then e.block_id end, e.block_title),
+      (
+        'destination',
+        case when e.event_type = 'click' then coalesce(e.destination_url, e.block_id) end,
+        null
+      ),
+      (
+        'referrer',
+        case when e.event_type = 'page_view' then coalesce(
+          lower(substring(e.referrer from '^[A-Za-z][A-Za-z0-9+.-]*://([^/?#:@]+)')),
+          e.referrer
+        ) end,
+        null
+      ),
+      ('utm_source', case when e.event_type = 'page_view' then e.utm_source end, null),
+      ('utm_medium', case when e.event_type = 'page_view' then e.utm_medium end, null),
+      ('utm_campaign', case when e.event_type = 'page_view' then e.utm_campaign end, null),
+      (
+        'device',
+        case when e.event_type = 'page_view' then
+          case
+            when coalesce(nullif(e.screen_w, 0), nullif(e.viewport_w, 0)) is null then 'unknown'
+            when coalesce(nullif(e.screen_w, 0), e.viewport_w) >= 1024 then 'desktop'
+            when coalesce(nullif(e.screen_w, 0), e.viewport_w) >= 768 then 'tablet'
+            else 'mobile'
+          end
+        end,
+        null
+      ),
+      (
+        'language',
+        case when e.event_type = 'page_view' then
+          split_part(coalesce(e.language, 'unknown'), '-', 1)
+        end,
+        null
+      )
+  ) as b(dimension, value, label)
+  where e.created_at >= since_at
+    and (p_site_id is null or e.site_id = p_site_id)
+    and b.value is not null
+  group by 1, 2, 3, 4;
+end;
+$$;
+
+-- Summed breakdowns of a range, top p_limit values per dimension
+create or replace function public.openbento_analytics_rollup_breakdowns(
+  p_site_id text,
+  p_since date,
+  p_limit integer default 10
+)
+returns table (dimension text, value text, label text, count bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ranked.dimension, ranked.value, ranked.label, ranked.count
+  from (
+    select
+      b.dimension,
+      b.value,
+      (array_agg(b.label order by b.day desc) filter (where b.label is not null))[1] as label,
+      sum(b.count) as count,
+      row_number() over (partition by b.dimension order by sum(b.count) desc, b.value) as rank
+    from public.openbento_analytics_daily_breakdowns b
+    where b.site_id = p_site_id and b.day >= p_since
+    group by b.dimension, b.value
+  ) ranked
+  where ranked.rank <= p_limit
+  order by ranked.dimension, ranked.count desc;
+$$;
+
+-- Distinct visitors of a range, for one site or all of them. Daily visitors can't
+-- be summed: a visitor coming back on several days would be counted each time.
+create or replace function public.openbento_analytics_unique_visitors(
+  p_site_id text,
+  p_since date
+)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(distinct e.visitor_id)
+  from public.openbento_analytics_events e
+  where e.event_type = 'page_view'
+    and e.created_at >= p_since::timestamp at time zone 'utc'
+    and (p_site_id is null or e.site_id = p_site_id);
+$$;
+
+-- Whether pg_cron keeps the rollups current (see the end of this file); reads
+-- refresh them themselves otherwise
+create or replace function public.openbento_analytics_rollups_scheduled()
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  scheduled boolean := false;
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    execute 'select exists (select 1 from cron.job where jobname = $1)'
+      into scheduled
+      using 'openbento-analytics-rollups';
+  end if;
+  return scheduled;
+end;
+$$;
+
+revoke execute on function public.openbento_analytics_refresh_rollups(text, date)
+  from public, anon, authenticated;
+revoke execute on function public.openbento_analytics_rollup_breakdowns(text, date, integer)
+  from public, anon, authenticated;
+revoke execute on function public.openbento_analytics_unique_visitors(text, date)
+  from public, anon, authenticated;
+revoke execute on function public.openbento_analytics_rollups_scheduled()
+  from public, anon, authenticated;
+
+-- Backfill existing events
+select public.openbento_analytics_refresh_rollups(null, date '1970-01-01');
+
+-- Keep every site current when pg_cron is enabled (Database > Extensions): the
+-- admin function then reads the rollups as they are. Without it, the admin
+-- function refreshes the site it is asked about on each summary.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'openbento-analytics-rollups',
+      '*/15 * * * *',
+      'select public.openbento_analytics_refresh_rollups()'
+    );
+  end if;
+end;
+$$;
@@ -5,6 +5,8 @@ export enum BlockType {
   SOCIAL = 'SOCIAL',
   SOCIAL_ICON = 'SOCIAL_ICON', // Small icon-only social block for 9x9 grid
   MAP = 'MAP',
+  EMBED = 'EMBED', // Allow-listed audio/video players (Spotify, Vimeo...)
+  GALLERY = 'GALLERY', // Several images as a carousel or slideshow
   SPACER = 'SPACER',
 }
 
@@ -45,6 +47,38 @@ export interface SocialAccount {
   followerCount?: number; // Optional follower/subscriber count
 }
 
+// Breakpoints below desktop whose derived layout can be overridden per block
+export type LayoutBreakpoint = 'mobile' | 'tablet';
+
+export interface BlockLayoutOverride {
+  colSpan?: number; // Columns on the breakpoint grid (mobile: 1-2, tablet: 1-4)
+  rowSpan?: number;
+  order?: number; // Position in the stacked layout (defaults to desktop reading order)
+  hidden?: boolean;
+}
+
+// Light or dark appearance of a page
+export type ColorScheme = 'light' | 'dark';
+
+// Colors of a block in one color scheme
+export interface BlockColors {
+  color?: string;
+  customBackground?: string;
+  textColor?: string;
+}
+
+// Carousel: visitors swipe between images. Slideshow: images also advance on their own.
+export type GalleryMode = 'carousel' | 'slideshow';
+
+// One image of a GALLERY block
+export interface GalleryImage {
+  id: string;
+  url: string; // URL or data URL
+  caption?: string;
+  alt?: string; // Alternative text (falls back to the caption)
+  position?: { x: number; y: number }; // Focal point (0-100 for each axis)
+}
+
 export interface BlockData {
   id: string;
   type: BlockType;
@@ -52,6 +86,7 @@ export interface BlockData {
   content?: string; // URL or Text
   subtext?: string;
   imageUrl?: string;
+  imageAlt?: string; // Alt text of the MEDIA image or video, or of the LINK background image
   mediaPosition?: { x: number; y: number }; // Object position for media (0-100 for each axis)
   colSpan: number; // 1-9 (9-col grid)
   rowSpan: number; // 1+ (builder clamps to 50)
@@ -59,11 +94,15 @@ export interface BlockData {
   customBackground?: string; // Raw CSS value (hex or gradient)
   textColor?: string; // 'text-black' or 'text-white'
   rotation?: number; // Removed usage, kept for type safety if needed, or remove.
+  dark?: BlockColors; // Dark-mode colors (missing values are derived from the light ones)
 
   // Grid positioning (explicit placement)
   gridColumn?: number; // 1-based column start position
   gridRow?: number; // 1-based row start position
 
+  // Overrides of the layout derived from the desktop grid on smaller screens
+  layouts?: Partial<Record<LayoutBreakpoint, BlockLayoutOverride>>;
+
   // YouTube specific
   channelId?: string; // Persist the ID for dynamic fetching
   youtubeVideoId?: string; // For Single Mode (fallback or initial)
@@ -71,6 +110,11 @@ export interface BlockData {
   youtubeMode?: 'single' | 'grid' | 'list';
   youtubeVideos?: Array<{ id: string; title: string; thumbnail: string }>;
 
+  // Gallery specific
+  galleryImages?: GalleryImage[]; // In display order
+  galleryMode?: GalleryMode;
+  galleryInterval?: number; // Seconds per slide in slideshow mode
+
   // Social platform (non-YouTube mode)
   socialPlatform?: SocialPlatform;
   socialHandle?: string; // Stored without leading '@' when possible
@@ -94,27 +138,63 @@ export interface OpenGraphData {
   description?: string; // Description (max 200 chars recommended)
   image?: string; // Image URL (1200x630px recommended)
   siteName?: string; // Site name
+  url?: string; // Public URL of the deployed page (canonical + og:url)
   twitterHandle?: string; // Twitter/X handle (without @)
   twitterCardType?: 'summary' | 'summary_large_image'; // Twitter card type
 }
 
+// Depth of the block card shadow
+export type ThemeShadow = 'none' | 'soft' | 'medium' | 'strong' | 'hard';
+
+// Visual style of a bento: applied in the builder, the preview and both exports
+export interface Theme {
+  name: string;
+  headingFont: string; // Font family name (Google Fonts or system)
+  bodyFont: string;
+  headingScale: number; // Multiplier of heading sizes (profile name, block titles)
+  bodyScale: number; // Multiplier of body sizes (bio, block text)
+  radius: number; // Corner radius of a medium block in pixels (smaller blocks get less)
+  shadow: ThemeShadow;
+  borderWidth: number; // Card border in pixels (0 for none)
+  borderColor: string; // CSS color
+  gap: number; // Space between blocks on the desktop grid, in pixels
+  background: string; // Page background: a CSS color or gradient
+}
+
+// Dark variant of the page in exported sites
+export interface DarkModeSettings {
+  enabled?: boolean; // Follow the visitor's prefers-color-scheme
+  showToggle?: boolean; // Light/dark switch for visitors, remembered in localStorage
+  backgroundColor?: string; // Page background in dark mode (derived when unset)
+}
+
+// Where exported pages send analytics events: Supabase Edge Functions, or the
+// self-hosted collector shipped with the Docker and VPS exports
+export type AnalyticsProvider = 'supabase' | 'self-hosted';
+
 export interface UserProfile {
   name: string;
   bio: string;
   avatarUrl: string;
+  avatarAlt?: string; // Alt text of the avatar (defaults to the name)
   avatarStyle?: AvatarStyle; // Profile picture style options
   theme: 'light' | 'dark';
   primaryColor: string;
+  themeConfig?: Theme; // Fonts, radius, shadows and spacing (defaults to DEFAULT_THEME)
+  darkMode?: DarkModeSettings;
   showBranding?: boolean;
   showSocialInHeader?: boolean; // Show social icons row under name/bio
   showFollowerCount?: boolean; // Show follower count next to social icons
   // Background customization
   backgroundColor?: string; // CSS color value (hex, rgb, etc.)
   backgroundImage?: string; // URL or data URL for background image
+  backgroundImageAlt?: string; // Description of the background image (decorative when empty)
   backgroundBlur?: number; // Blur amount for background image (0-20)
   analytics?: {
     enabled?: boolean;
+    provider?: AnalyticsProvider; // Defaults to 'supabase'
     supabaseUrl?: string; // https://<project-ref>.supabase.co
+    collectorUrl?: string; // Self-hosted collector, e.g. https://example.com/analytics
     anonKey?: string; // DEPRECATED: No longer needed - Edge Function handles auth securely
   };
   // Centralized social accounts configuration
@@ -127,6 +207,7 @@ export interface SiteData {
   profile: UserProfile;
   blocks: BlockData[];
   gridVersion?: number;
+  schemaVersion?: number; // See services/schema/migrations.ts
 }
 
 export interface SavedBento {
@@ -136,3 +217,13 @@ export interface SavedBento {
   updatedAt: number;
   data: SiteData;
 }
+
+// Persisted revision of a bento (revision history)
+export interface BentoSnapshot {
+  id: string;
+  bentoId: string;
+  createdAt: number;
+  kind: 'auto' | 'manual' | 'restore'; // manual = named checkpoint, restore = restored version
+  label?: string;
+  data: SiteData;
+}
@@ -0,0 +1,122 @@
+/**
+ * Accessibility of a bento: alternative text helpers shared by the builder and
+ * both exports, and the checks listed before export (missing alt text, low text
+ * contrast and links without a readable name)
+ */
+
+import { BlockData, BlockType, ColorScheme, SiteData, UserProfile } from '../types';
+import { getSocialPlatformOption } from '../socialPlatforms';
+import {
+  getContrastRatio,
+  isDarkModeEnabled,
+  resolveBlockBackground,
+  resolveBlockTextColor,
+  withColorScheme,
+} from './colorScheme';
+import { getGalleryAlt, getGalleryImages } from './gallery';
+import { describeBlock } from './bentoDiff';
+
+// WCAG AA for normal-size text
+export const MIN_CONTRAST_RATIO = 4.5;
+
+export type AccessibilityIssueKind = 'alt-text' | 'contrast' | 'link-label';
+
+export interface AccessibilityIssue {
+  kind: AccessibilityIssueKind;
+  blockId?: string; // Absent for profile issues
+  message: string;
+}
+
+const isVideoUrl = (url: string): boolean => /\.(mp4|webm|ogg|mov)$/i.test(url);
+
+// Alt text of a MEDIA image (or label of its video); the title is the fallback
+export const getImageAlt = (block: BlockData): string => block.imageAlt || block.title || '';
+
+export const getAvatarAlt = (profile: UserProfile): string => profile.avatarAlt || profile.name;
+
+/**
+ * Accessible name of a block rendered as a link: its text, else the platform or image
+ */
+export const getBlockLabel = (block: BlockData): string =>
+  block.title ||
+  block.subtext ||
+  block.channelTitle ||
+  (block.socialPlatform ? getSocialPlatformOption(block.socialPlatform)?.label : undefined) ||
+  block.imageAlt ||
+  '';
+
+// Blocks showing their title and text over their own background
+const hasTextOnBackground = (block: BlockData): boolean => {
+  if (!block.title && !block.subtext && !(block.type === BlockType.TEXT && block.content)) {
+    return false;
+  }
+  if (block.type === BlockType.TEXT) return true;
+  if (block.type === BlockType.LINK) return !block.imageUrl;
+  return block.type === BlockType.SOCIAL && !block.channelId;
+};
+
+const checkContrast = (
+  block: BlockData,
+  scheme: ColorScheme,
+  issues: AccessibilityIssue[]
+): void => {
+  const colors = withColorScheme(block, scheme);
+  const ratio = getContrastRatio(resolveBlockTextColor(colors), resolveBlockBackground(colors));
+  if (ratio === null || ratio >= MIN_CONTRAST_RATIO) return;
+  issues.push({
+    kind: 'contrast',
+    blockId: block.id,
+    message: `${describeBlock(block)}: text contrast is ${ratio.toFixed(1)}:1${scheme === 'dark' ? ' in dark mode' : ''}, below ${MIN_CONTRAST_RATIO}:1`,
+  });
+};
+
+const checkBlock = (block: BlockData, darkMode: boolean, issues: AccessibilityIssue[]): void => {
+  if (block.type === BlockType.MEDIA && block.imageUrl && !getImageAlt(block)) {
+    issues.push({
+      kind: 'alt-text',
+      blockId: block.id,
+      message: `${describeBlock(block)}: the ${isVideoUrl(block.imageUrl) ? 'video has no description' : 'image has no alt text'}`,
+    });
+  }
+
+  if (block.type === BlockType.GALLERY) {
+    const images = getGalleryImages(block);
+    const missing = images.filter((image) => !getGalleryAlt(image)).length;
+    if (missing > 0) {
+      issues.push({
+        kind: 'alt-text',
+        blockId: block.id,
+        message: `${describeBlock(block)}: ${missing} of ${images.length} images have no alt text or caption`,
+      });
+    }
+  }
+
+  const isLink =
+    (block.type === BlockType.LINK && !!block.content?.trim()) ||
+    (block.type === BlockType.SOCIAL && !!block.socialHandle);
+  if (isLink && !block.title && !block.subtext && !block.channelTitle) {
+    issues.push({
+      kind: 'link-label',
+      blockId: block.id,
+      message: `${describeBlock(block)}: the link has no visible text`,
+    });
+  }
+
+  if (hasTextOnBackground(block)) {
+    checkContrast(block, 'light', issues);
+    if (darkMode) checkContrast(block, 'dark', issues);
+  }
+};
+
+/**
+ * Accessibility issues of a bento, profile first, then blocks in order
+ */
+export const checkAccessibility = ({ profile, blocks }: SiteData): AccessibilityIssue[] => {
+  const issues: AccessibilityIssue[] = [];
+  if (profile.avatarUrl && !getAvatarAlt(profile).trim()) {
+    issues.push({ kind: 'alt-text', message: 'The avatar has no alt text' });
+  }
+  const darkMode = isDarkModeEnabled(profile);
+  blocks.forEach((block) => checkBlock(block, darkMode, issues));
+  return issues;
+};
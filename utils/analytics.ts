@@ -0,0 +1,70 @@
+/**
+ * Analytics endpoints of a bento
+ *
+ * Both providers take the same track payload and answer the same summary JSON:
+ * the Supabase Edge Functions under `/functions/v1/`, or the self-hosted
+ * collector (services/export/deploy/collector.ts) under its own base URL.
+ */
+
+import { AnalyticsProvider, UserProfile } from '../types';
+
+type AnalyticsSettings = UserProfile['analytics'];
+
+export const ANALYTICS_PROVIDERS: { id: AnalyticsProvider; label: string }[] = [
+  { id: 'supabase', label: 'Supabase' },
+  { id: 'self-hosted', label: 'Self-hosted' },
+];
+
+// Where the Docker and VPS exports serve the collector, next to the page
+export const COLLECTOR_PATH = '/analytics';
+export const COLLECTOR_PORT = 8787;
+
+export const getAnalyticsProvider = (analytics: AnalyticsSettings): AnalyticsProvider =>
+  analytics?.provider === 'self-hosted' ? 'self-hosted' : 'supabase';
+
+/**
+ * Base URL of the configured provider, without trailing slash ('' when unset)
+ */
+export const getAnalyticsBaseUrl = (analytics: AnalyticsSettings): string => {
+  const url =
+    getAnalyticsProvider(analytics) === 'self-hosted'
+      ? analytics?.collectorUrl
+      : analytics?.supabaseUrl;
+  return url?.trim().replace(/\/+$/, '') || '';
+};
+
+const getEndpoint = (analytics: AnalyticsSettings, name: 'track' | 'admin'): string => {
+  const base = getAnalyticsBaseUrl(analytics);
+  if (!base) return '';
+  if (getAnalyticsProvider(analytics) === 'self-hosted') {
+    return `${base}/${name === 'track' ? 'track' : 'summary'}`;
+  }
+  return `${base}/functions/v1/openbento-analytics-${name}`;
+};
+
+/**
+ * Public endpoint receiving page views, clicks and session ends ('' when unset)
+ */
+export const getAnalyticsTrackUrl = (analytics: AnalyticsSettings): string =>
+  getEndpoint(analytics, 'track');
+
+/**
+ * Admin endpoint answering the summary of a site ('' when unset). Requires the
+ * admin token in the `x-openbento-admin-token` header.
+ */
+export const getAnalyticsSummaryUrl = (
+  analytics: AnalyticsSettings,
+  siteId: string,
+  days: number
+): string => {
+  const endpoint = getEndpoint(analytics, 'admin');
+  if (!endpoint) return '';
+  return `${endpoint}?siteId=${encodeURIComponent(siteId)}&days=${encodeURIComponent(String(days))}`;
+};
+
+/**
+ * Admin endpoint of the self-hosted collector listing raw events, for the
+ * analytics dashboard (same rows as the Supabase table)
+ */
+export const getCollectorEventsUrl = (collectorUrl: string, days: number): string =>
+  `${collectorUrl.trim().replace(/\/+$/, '')}/events?days=${encodeURIComponent(String(days))}`;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { BlockData, BlockType, SiteData } from '../types';
+import { diffSiteData } from './bentoDiff';
+
+const block = (id: string, fields: Partial<BlockData> = {}): BlockData => ({
+  id,
+  type: BlockType.LINK,
+  title: id,
+  colSpan: 3,
+  rowSpan: 3,
+  gridColumn: 1,
+  gridRow: 1,
+  ...fields,
+});
+
+const site = (blocks: BlockData[], name = 'Jane'): SiteData => ({
+  profile: { name, bio: '', avatarUrl: '', theme: 'light', primaryColor: 'blue' },
+  blocks,
+});
+
+describe('diffSiteData', () => {
+  it('reports nothing for identical data', () => {
+    expect(diffSiteData(site([block('a')]), site([block('a')]))).toEqual([]);
+  });
+
+  it('lists profile changes, then removed, added and modified blocks', () => {
+    const before = site([block('a'), block('b'), block('c')]);
+    const after = site(
+      [block('a', { gridColumn: 4 }), block('c', { colSpan: 6, title: 'Renamed' }), block('d')],
+      'Janet'
+    );
+
+    expect(diffSiteData(before, after)).toEqual([
+      { kind: 'profile', description: 'Name changed' },
+      { kind: 'removed', blockId: 'b', description: 'Removed Link "b"' },
+      { kind: 'moved', blockId: 'a', description: 'Moved Link "a" to column 4, row 1' },
+      {
+        kind: 'resized',
+        blockId: 'c',
+        description: 'Resized Link "Renamed" from 3×3 to 6×3',
+      },
+      { kind: 'edited', blockId: 'c', description: 'Edited Link "Renamed" (title)' },
+      { kind: 'added', blockId: 'd', description: 'Added Link "d"' },
+    ]);
+  });
+
+  it('merges fields that share a label', () => {
+    const changes = diffSiteData(
+      site([block('a')]),
+      site([block('a', { color: 'bg-black', customBackground: '#000' })])
+    );
+    expect(changes).toEqual([
+      { kind: 'edited', blockId: 'a', description: 'Edited Link "a" (background)' },
+    ]);
+  });
+});
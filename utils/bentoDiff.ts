@@ -0,0 +1,174 @@
+// Human-readable diff between two versions of a bento (revision history)
+import { BlockData, BlockType, SiteData, UserProfile } from '../types';
+
+export type BentoChangeKind = 'added' | 'removed' | 'moved' | 'resized' | 'edited' | 'profile';
+
+export interface BentoChange {
+  kind: BentoChangeKind;
+  blockId?: string;
+  description: string;
+}
+
+const BLOCK_TYPE_LABELS: Record<BlockType, string> = {
+  [BlockType.LINK]: 'Link',
+  [BlockType.TEXT]: 'Text',
+  [BlockType.MEDIA]: 'Media',
+  [BlockType.SOCIAL]: 'Social',
+  [BlockType.SOCIAL_ICON]: 'Social icon',
+  [BlockType.MAP]: 'Map',
+  [BlockType.EMBED]: 'Embed',
+  [BlockType.GALLERY]: 'Gallery',
+  [BlockType.SPACER]: 'Spacer',
+};
+
+// Block fields shown in "edited" changes; layout fields are reported as moved/resized
+const BLOCK_FIELD_LABELS: Partial<Record<keyof BlockData, string>> = {
+  type: 'type',
+  title: 'title',
+  content: 'content',
+  subtext: 'subtitle',
+  imageUrl: 'image',
+  imageAlt: 'alt text',
+  mediaPosition: 'image position',
+  color: 'background',
+  customBackground: 'background',
+  textColor: 'text color',
+  dark: 'dark mode colors',
+  channelId: 'YouTube channel',
+  youtubeVideoId: 'YouTube video',
+  channelTitle: 'YouTube channel',
+  youtubeMode: 'YouTube mode',
+  youtubeVideos: 'YouTube videos',
+  galleryImages: 'gallery images',
+  galleryMode: 'gallery mode',
+  galleryInterval: 'slideshow speed',
+  socialPlatform: 'platform',
+  socialHandle: 'handle',
+  layouts: 'mobile/tablet layout',
+};
+
+const PROFILE_FIELD_LABELS: Record<keyof UserProfile, string> = {
+  name: 'Name',
+  bio: 'Bio',
+  avatarUrl: 'Avatar',
+  avatarAlt: 'Avatar',
+  avatarStyle: 'Avatar style',
+  theme: 'Theme',
+  primaryColor: 'Primary color',
+  themeConfig: 'Theme',
+  darkMode: 'Dark mode',
+  showBranding: 'Branding',
+  showSocialInHeader: 'Header social icons',
+  showFollowerCount: 'Follower counts',
+  backgroundColor: 'Background',
+  backgroundImage: 'Background',
+  backgroundImageAlt: 'Background',
+  backgroundBlur: 'Background',
+  analytics: 'Analytics',
+  socialAccounts: 'Social accounts',
+  openGraph: 'SEO & sharing',
+};
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const truncate = (text: string, max = 32): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+/**
+ * Short name for a block, e.g. `Link "My Website"`
+ */
+export const describeBlock = (block: BlockData): string => {
+  const type = BLOCK_TYPE_LABELS[block.type] || block.type;
+  const name = (block.title || block.channelTitle || block.socialHandle || '').trim();
+  if (name) return `${type} "${truncate(name)}"`;
+  if (block.type === BlockType.TEXT && block.content?.trim()) {
+    return `${type} "${truncate(block.content.trim())}"`;
+  }
+  return `${type} block`;
+};
+
+const formatPosition = (block: BlockData): string =>
+  block.gridColumn !== undefined && block.gridRow !== undefined
+    ? `column ${block.gridColumn}, row ${block.gridRow}`
+    : 'auto placement';
+
+const uniqueLabels = (labels: Array<string | undefined>): string[] =>
+  Array.from(new Set(labels.filter((label): label is string => !!label)));
+
+/**
+ * Lists what changed between two versions of a bento, in display order:
+ * profile fields first, then removed, added and modified blocks.
+ */
+export const diffSiteData = (before: SiteData, after: SiteData): BentoChange[] => {
+  const changes: BentoChange[] = [];
+
+  const profileKeys = new Set([
+    ...Object.keys(before.profile || {}),
+    ...Object.keys(after.profile || {}),
+  ]) as Set<keyof UserProfile>;
+  const profileLabels = uniqueLabels(
+    Array.from(profileKeys)
+      .filter((key) => !isSame(before.profile?.[key], after.profile?.[key]))
+      .map((key) => PROFILE_FIELD_LABELS[key] || key)
+  );
+  profileLabels.forEach((label) => {
+    changes.push({ kind: 'profile', description: `${label} changed` });
+  });
+
+  const beforeBlocks = new Map(before.blocks.map((block) => [block.id, block]));
+  const afterBlocks = new Map(after.blocks.map((block) => [block.id, block]));
+
+  before.blocks.forEach((block) => {
+    if (!afterBlocks.has(block.id)) {
+      changes.push({
+        kind: 'removed',
+        blockId: block.id,
+        description: `Removed ${describeBlock(block)}`,
+      });
+    }
+  });
+
+  after.blocks.forEach((block) => {
+    const previous = beforeBlocks.get(block.id);
+    if (!previous) {
+      changes.push({
+        kind: 'added',
+        blockId: block.id,
+        description: `Added ${describeBlock(block)}`,
+      });
+      return;
+    }
+
+    const name = describeBlock(block);
+    if (previous.gridColumn !== block.gridColumn || previous.gridRow !== block.gridRow) {
+      changes.push({
+        kind: 'moved',
+        blockId: block.id,
+        description: `Moved ${name} to ${formatPosition(block)}`,
+      });
+    }
+    if (previous.colSpan !== block.colSpan || previous.rowSpan !== block.rowSpan) {
+      changes.push({
+        kind: 'resized',
+        blockId: block.id,
+        description: `Resized ${name} from ${previous.colSpan}×${previous.rowSpan} to ${block.colSpan}×${block.rowSpan}`,
+      });
+    }
+
+    const fieldKeys = Object.keys(BLOCK_FIELD_LABELS) as Array<keyof BlockData>;
+    const fields = uniqueLabels(
+      fieldKeys
+        .filter((key) => !isSame(previous[key], block[key]))
+        .map((key) => BLOCK_FIELD_LABELS[key])
+    );
+    if (fields.length > 0) {
+      changes.push({
+        kind: 'edited',
+        blockId: block.id,
+        description: `Edited ${name} (${fields.join(', ')})`,
+      });
+    }
+  });
+
+  return changes;
+};
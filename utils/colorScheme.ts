@@ -0,0 +1,243 @@
+/**
+ * Dark mode: dark variants of block and page colors
+ *
+ * Blocks may store their own dark colors (`block.dark`); missing values are
+ * derived from the light ones by darkening light surfaces and picking a
+ * readable text color. Exported sites switch with prefers-color-scheme, or
+ * with the visitor's choice stored under COLOR_SCHEME_STORAGE_KEY and set as
+ * the COLOR_SCHEME_ATTRIBUTE of <html>.
+ */
+
+import { BlockColors, BlockData, BlockType, ColorScheme, UserProfile } from '../types';
+import { BASE_COLORS } from '../constants';
+import { getSocialPlatformOption } from '../socialPlatforms';
+
+export const COLOR_SCHEME_ATTRIBUTE = 'data-color-scheme';
+export const COLOR_SCHEME_STORAGE_KEY = 'openbento-color-scheme';
+
+const DEFAULT_BLOCK_BACKGROUND = '#ffffff';
+const DEFAULT_TEXT_COLOR = '#111827';
+
+// Text classes offered by the editor that are not part of BASE_COLORS
+const EXTRA_TEXT_COLORS: Record<string, string> = {
+  'text-black': '#000000',
+  'text-white': '#ffffff',
+  'text-gray-700': '#374151',
+  'text-gray-900': '#111827',
+};
+
+type Rgba = { r: number; g: number; b: number; a: number };
+type Hsl = { h: number; s: number; l: number };
+
+// Hex and rgb()/rgba() colors, alone or inside gradients
+const COLOR_PATTERN = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|rgba?\([^)]*\)/gi;
+
+const parseColor = (token: string): Rgba | null => {
+  if (token.startsWith('#')) {
+    let hex = token.slice(1);
+    if (hex.length <= 4) hex = [...hex].map((c) => c + c).join('');
+    const value = (i: number) => parseInt(hex.slice(i, i + 2), 16);
+    return { r: value(0), g: value(2), b: value(4), a: hex.length === 8 ? value(6) / 255 : 1 };
+  }
+  const parts = token
+    .replace(/^rgba?\(|\)$/gi, '')
+    .split(/[\s,/]+/)
+    .filter(Boolean);
+  if (parts.length < 3) return null;
+  const channel = (part: string) =>
+    part.endsWith('%') ? (parseFloat(part) / 100) * 255 : parseFloat(part);
+  const alpha =
+    parts[3] === undefined
+      ? 1
+      : parts[3].endsWith('%')
+        ? parseFloat(parts[3]) / 100
+        : parseFloat(parts[3]);
+  const [r, g, b] = parts.slice(0, 3).map(channel);
+  if ([r, g, b, alpha].some((n) => Number.isNaN(n))) return null;
+  return { r, g, b, a: alpha };
+};
+
+const toHsl = ({ r, g, b }: Rgba): Hsl => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h =
+    max === rn
+      ? (gn - bn) / d + (gn < bn ? 6 : 0)
+      : max === gn
+        ? (bn - rn) / d + 2
+        : (rn - gn) / d + 4;
+  return { h: h / 6, s, l };
+};
+
+const fromHsl = ({ h, s, l }: Hsl, a: number): Rgba => {
+  if (s === 0) return { r: l * 255, g: l * 255, b: l * 255, a };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hue = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return { r: hue(h + 1 / 3) * 255, g: hue(h) * 255, b: hue(h - 1 / 3) * 255, a };
+};
+
+const formatColor = ({ r, g, b, a }: Rgba): string => {
+  const channels = [r, g, b].map((n) => Math.round(Math.min(255, Math.max(0, n))));
+  if (a >= 1) return `#${channels.map((n) => n.toString(16).padStart(2, '0')).join('')}`;
+  return `rgba(${channels.join(', ')}, ${Number(a.toFixed(3))})`;
+};
+
+// Rewrite every color of a CSS value (color or gradient); other text is kept
+const mapColors = (value: string, map: (hsl: Hsl) => Hsl): string =>
+  value.replace(COLOR_PATTERN, (token) => {
+    const rgba = parseColor(token);
+    return rgba ? formatColor(fromHsl(map(toHsl(rgba)), rgba.a)) : token;
+  });
+
+/**
+ * Dark counterpart of a background: light colors become dark (and less saturated),
+ * colors that are already dark are kept
+ */
+export const toDarkSurface = (value: string): string =>
+  mapColors(value, ({ h, s, l }) =>
+    l > 0.5 ? { h, s: s * 0.6, l: 0.08 + (1 - l) * 0.84 } : { h, s, l }
+  );
+
+/**
+ * Dark counterpart of a line color (borders): dark colors become light
+ */
+export const toDarkInk = (value: string): string =>
+  mapColors(value, ({ h, s, l }) => (l < 0.5 ? { h, s, l: 1 - l } : { h, s, l }));
+
+/**
+ * Average lightness (0-1) of the colors of a CSS value, or null when it has none
+ */
+export const getLightness = (value: string): number | null => {
+  const colors = (value.match(COLOR_PATTERN) ?? []).map(parseColor).filter(Boolean) as Rgba[];
+  if (colors.length === 0) return null;
+  return colors.reduce((sum, color) => sum + toHsl(color).l, 0) / colors.length;
+};
+
+// WCAG relative luminance, translucent colors laid over white
+const getLuminance = ({ r, g, b, a }: Rgba): number => {
+  const [rl, gl, bl] = [r, g, b].map((n) => {
+    const channel = (n * a + 255 * (1 - a)) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * rl + 0.7152 * gl + 0.0722 * bl;
+};
+
+/**
+ * WCAG contrast ratio (1-21) of a text color over a background. A gradient counts
+ * with its least contrasting color; null when either value has no color.
+ */
+export const getContrastRatio = (foreground: string, background: string): number | null => {
+  const text = parseColor(foreground.match(COLOR_PATTERN)?.[0] ?? '');
+  const surfaces = (background.match(COLOR_PATTERN) ?? []).map(parseColor).filter(Boolean);
+  if (!text || surfaces.length === 0) return null;
+  const textLuminance = getLuminance(text);
+  return Math.min(
+    ...(surfaces as Rgba[]).map((surface) => {
+      const [light, dark] = [textLuminance, getLuminance(surface)].sort((a, b) => b - a);
+      return (light + 0.05) / (dark + 0.05);
+    })
+  );
+};
+
+export const isDarkModeEnabled = (profile: Pick<UserProfile, 'darkMode'>): boolean =>
+  !!profile.darkMode?.enabled;
+
+// CSS background of a block's colors: the custom value, else the palette color
+const getBackgroundValue = (colors: BlockColors): string | undefined =>
+  colors.customBackground || BASE_COLORS.find((c) => c.bg === colors.color)?.hex;
+
+/**
+ * CSS background of a block: the custom value, else the palette color, else white
+ */
+export const resolveBlockBackground = (colors: BlockColors): string =>
+  getBackgroundValue(colors) ?? DEFAULT_BLOCK_BACKGROUND;
+
+/**
+ * CSS text color of a block (the brand color for `text-brand`)
+ */
+export const resolveBlockTextColor = (block: BlockData): string => {
+  if (block.textColor === 'text-brand') {
+    return getSocialPlatformOption(block.socialPlatform)?.brandColor || DEFAULT_TEXT_COLOR;
+  }
+  if (!block.textColor) return DEFAULT_TEXT_COLOR;
+  return (
+    EXTRA_TEXT_COLORS[block.textColor] ||
+    BASE_COLORS.find((c) => c.text === block.textColor)?.textHex ||
+    DEFAULT_TEXT_COLOR
+  );
+};
+
+// Social icons show their brand color when no text color is set
+const keepsBrandColor = (block: BlockData) =>
+  block.textColor === 'text-brand' || (block.type === BlockType.SOCIAL_ICON && !block.textColor);
+
+/**
+ * Colors of a block in a color scheme. In dark mode, the stored dark colors win;
+ * the background and text color are derived when missing.
+ */
+export const getBlockColors = (block: BlockData, scheme: ColorScheme = 'light'): BlockColors => {
+  const light: BlockColors = {
+    color: block.color,
+    customBackground: block.customBackground,
+    textColor: block.textColor,
+  };
+  if (scheme === 'light') return light;
+
+  const stored = block.dark ?? {};
+  const background: BlockColors =
+    stored.color || stored.customBackground
+      ? { color: stored.color, customBackground: stored.customBackground }
+      : {
+          color: block.color,
+          customBackground: toDarkSurface(getBackgroundValue(light) ?? DEFAULT_BLOCK_BACKGROUND),
+        };
+  if (stored.textColor || keepsBrandColor(block)) {
+    return { ...background, textColor: stored.textColor || block.textColor };
+  }
+  const lightness = getLightness(getBackgroundValue(background) ?? DEFAULT_BLOCK_BACKGROUND);
+  return {
+    ...background,
+    textColor:
+      lightness === null ? block.textColor : lightness < 0.55 ? 'text-white' : 'text-gray-900',
+  };
+};
+
+/**
+ * The block with its colors for a color scheme (for renderers reading block fields)
+ */
+export const withColorScheme = (block: BlockData, scheme: ColorScheme = 'light'): BlockData =>
+  scheme === 'light' ? block : { ...block, ...getBlockColors(block, 'dark') };
+
+// A CSS rule from a map of declarations
+export const toCssRule = (selector: string, declarations: Record<string, string>): string =>
+  `${selector} {\n${Object.entries(declarations)
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join('\n')}\n}`;
+
+/**
+ * Rules applying `declarations` in dark mode: when the visitor's system prefers it
+ * (unless they picked light) or when they picked dark. `descendant` scopes the
+ * rule below <html>, e.g. ' .bento-item'.
+ */
+export const getDarkModeCss = (declarations: Record<string, string>, descendant = ''): string =>
+  `@media (prefers-color-scheme: dark) {\n${toCssRule(
+    `:root:not([${COLOR_SCHEME_ATTRIBUTE}='light'])${descendant}`,
+    declarations
+  )}\n}\n${toCssRule(`:root[${COLOR_SCHEME_ATTRIBUTE}='dark']${descendant}`, declarations)}`;
+
+/**
+ * Inline script for <head> applying the stored choice before the first paint
+ */
+export const COLOR_SCHEME_INIT_SCRIPT = `try{var s=localStorage.getItem('${COLOR_SCHEME_STORAGE_KEY}');if(s==='light'||s==='dark')document.documentElement.setAttribute('${COLOR_SCHEME_ATTRIBUTE}',s)}catch(e){}`;
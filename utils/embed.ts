@@ -0,0 +1,147 @@
+// Allow-listed players for EMBED blocks: share URLs (or pasted <iframe> snippets)
+// are turned into player URLs, anything else is rejected
+export type EmbedProviderId = 'spotify' | 'soundcloud' | 'vimeo' | 'bandcamp' | 'applemusic';
+
+export interface EmbedInfo {
+  provider: EmbedProviderId;
+  label: string; // Provider name shown on the click-to-load placeholder
+  src: string; // Player URL for the iframe
+  aspectRatio: string; // CSS aspect-ratio of the player
+}
+
+interface EmbedProvider {
+  id: EmbedProviderId;
+  label: string;
+  hosts: string[];
+  toPlayer: (url: URL) => { src: string; aspectRatio: string } | null;
+}
+
+// Players run third-party scripts, but stay isolated from the page
+export const EMBED_SANDBOX =
+  'allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox allow-presentation';
+export const EMBED_ALLOW = 'autoplay; encrypted-media; fullscreen; picture-in-picture';
+
+const SPOTIFY_PATH =
+  /^\/(?:intl-[a-z-]+\/)?(?:embed\/)?(track|album|playlist|episode|show|artist)\/([A-Za-z0-9]{22})\/?$/;
+const SOUNDCLOUD_PATH = /^\/[\w-]+\/(?:sets\/)?[\w-]+\/?$/;
+const VIMEO_PATH = /^\/(?:video\/)?(\d+)(?:\/([a-f0-9]+))?\/?$/;
+const BANDCAMP_PATH = /^\/EmbeddedPlayer\/[\w=/.,-]+$/;
+const APPLE_MUSIC_PATH =
+  /^\/([a-z]{2})\/(album|playlist|song|music-video|station)\/[^/]+\/[\w.-]+$/;
+
+const PROVIDERS: EmbedProvider[] = [
+  {
+    id: 'spotify',
+    label: 'Spotify',
+    hosts: ['open.spotify.com'],
+    toPlayer: (url) => {
+      const match = url.pathname.match(SPOTIFY_PATH);
+      if (!match) return null;
+      const [, kind, id] = match;
+      return {
+        src: `https://open.spotify.com/embed/${kind}/${id}`,
+        aspectRatio: kind === 'track' || kind === 'episode' ? '4 / 1' : '1 / 1',
+      };
+    },
+  },
+  {
+    id: 'soundcloud',
+    label: 'SoundCloud',
+    hosts: ['soundcloud.com', 'www.soundcloud.com', 'm.soundcloud.com', 'w.soundcloud.com'],
+    toPlayer: (url) => {
+      // Player URLs carry the track URL as a parameter: validate that one instead
+      if (url.hostname === 'w.soundcloud.com') {
+        const track = url.searchParams.get('url');
+        return track && /^https:\/\/(api\.)?soundcloud\.com\//.test(track)
+          ? {
+              src: `https://w.soundcloud.com/player/?url=${encodeURIComponent(track)}&visual=true`,
+              aspectRatio: '16 / 9',
+            }
+          : null;
+      }
+      if (!SOUNDCLOUD_PATH.test(url.pathname)) return null;
+      const track = `https://soundcloud.com${url.pathname.replace(/\/$/, '')}`;
+      return {
+        src: `https://w.soundcloud.com/player/?url=${encodeURIComponent(track)}&visual=true`,
+        aspectRatio: '16 / 9',
+      };
+    },
+  },
+  {
+    id: 'vimeo',
+    label: 'Vimeo',
+    hosts: ['vimeo.com', 'www.vimeo.com', 'player.vimeo.com'],
+    toPlayer: (url) => {
+      const match = url.pathname.match(VIMEO_PATH);
+      if (!match) return null;
+      // Unlisted videos need their hash, either in the path or as ?h=
+      const hash = match[2] || url.searchParams.get('h');
+      const hashParam = hash && /^[a-f0-9]+$/.test(hash) ? `?h=${hash}` : '';
+      return {
+        src: `https://player.vimeo.com/video/${match[1]}${hashParam}`,
+        aspectRatio: '16 / 9',
+      };
+    },
+  },
+  {
+    id: 'bandcamp',
+    label: 'Bandcamp',
+    hosts: ['bandcamp.com'],
+    // Album pages don't expose the numeric id: only the embed code from Share/Embed works
+    toPlayer: (url) =>
+      BANDCAMP_PATH.test(url.pathname)
+        ? {
+            src: `https://bandcamp.com${url.pathname}`,
+            aspectRatio: /size=small/.test(url.pathname) ? '8 / 1' : '3 / 4',
+          }
+        : null,
+  },
+  {
+    id: 'applemusic',
+    label: 'Apple Music',
+    hosts: ['music.apple.com', 'embed.music.apple.com'],
+    toPlayer: (url) => {
+      const match = url.pathname.match(APPLE_MUSIC_PATH);
+      if (!match) return null;
+      // ?i=<id> selects a single song of an album
+      const song = url.searchParams.get('i');
+      const songParam = song && /^\d+$/.test(song) ? `?i=${song}` : '';
+      return {
+        src: `https://embed.music.apple.com${url.pathname}${songParam}`,
+        aspectRatio: match[2] === 'song' || songParam ? '4 / 1' : '3 / 2',
+      };
+    },
+  },
+];
+
+export const EMBED_PROVIDER_LABELS = PROVIDERS.map((provider) => provider.label);
+
+// Accept the src of a pasted <iframe ...> snippet as well as a plain URL
+const extractUrl = (input: string): string => {
+  const trimmed = input.trim();
+  if (!/^<iframe\b/i.test(trimmed)) return trimmed;
+  return trimmed.match(/\bsrc\s*=\s*["']([^"']+)["']/i)?.[1].replace(/&amp;/g, '&') ?? '';
+};
+
+/**
+ * Resolve a provider URL to its player. Returns null unless the URL is https (or
+ * http), on an allow-listed host, and matches one of the provider's URL shapes.
+ */
+export const parseEmbedUrl = (input: string | undefined | null): EmbedInfo | null => {
+  if (!input || typeof input !== 'string') return null;
+
+  let url: URL;
+  try {
+    url = new URL(extractUrl(input));
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (url.username || url.password || url.port) return null;
+
+  const hostname = url.hostname.toLowerCase();
+  const provider = PROVIDERS.find((p) => p.hosts.includes(hostname));
+  const player = provider?.toPlayer(url);
+  if (!provider || !player) return null;
+  return { provider: provider.id, label: provider.label, ...player };
+};
@@ -0,0 +1,55 @@
+// Images of GALLERY blocks, shared by the builder, the preview and both exports
+import { BlockData, GalleryImage, GalleryMode } from '../types';
+
+export const DEFAULT_GALLERY_MODE: GalleryMode = 'carousel';
+export const DEFAULT_GALLERY_INTERVAL = 5;
+export const GALLERY_INTERVAL_LIMITS = { min: 2, max: 30 } as const;
+export const MAX_GALLERY_IMAGES = 24;
+
+const CENTER = { x: 50, y: 50 };
+
+/**
+ * Images of a gallery block that can be shown (with a URL)
+ */
+export const getGalleryImages = (block: BlockData): GalleryImage[] =>
+  (block.galleryImages || []).filter((image) => !!image.url);
+
+export const getGalleryInterval = (block: BlockData): number =>
+  Math.min(
+    GALLERY_INTERVAL_LIMITS.max,
+    Math.max(GALLERY_INTERVAL_LIMITS.min, block.galleryInterval ?? DEFAULT_GALLERY_INTERVAL)
+  );
+
+// CSS object-position of an image's focal point
+export const getFocalPoint = (image: GalleryImage): string => {
+  const { x, y } = image.position || CENTER;
+  return `${x}% ${y}%`;
+};
+
+// Alternative text; an empty string marks the image as decorative
+export const getGalleryAlt = (image: GalleryImage): string => image.alt || image.caption || '';
+
+// Key of an extracted gallery image in the export ImageMap
+export const getGalleryImageKey = (blockId: string, image: GalleryImage): string =>
+  `block_${blockId}_gallery_${image.id}`;
+
+export const createGalleryImage = (url: string): GalleryImage => ({
+  id:
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2, 11),
+  url,
+});
+
+// Move the image at `from` to `to`, keeping the others in order
+export const moveGalleryImage = (
+  images: GalleryImage[],
+  from: number,
+  to: number
+): GalleryImage[] => {
+  if (to < 0 || to >= images.length || from === to) return images;
+  const next = [...images];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -1,15 +1,68 @@
 // Mobile layout utilities for responsive grid conversion
-import { BlockData } from '../types';
+import { BlockData, BlockLayoutOverride, LayoutBreakpoint } from '../types';
+
+export interface BreakpointLayout {
+  colSpan: number;
+  rowSpan: number;
+  hidden: boolean;
+}
+
+/**
+ * Mobile grid configuration constants
+ */
+export const MOBILE_GRID_CONFIG = {
+  columns: 2,
+  rowHeight: 80, // px per row
+  gap: 12, // px between items
+} as const;
+
+/**
+ * Tablet grid configuration constants (768px and up, below the desktop layout)
+ */
+export const TABLET_GRID_CONFIG = {
+  columns: 4,
+  rowHeight: 80,
+  gap: 12,
+  minWidth: 768, // px
+} as const;
+
+export const BREAKPOINT_GRID_CONFIG: Record<
+  LayoutBreakpoint,
+  { columns: number; rowHeight: number; gap: number }
+> = {
+  mobile: MOBILE_GRID_CONFIG,
+  tablet: TABLET_GRID_CONFIG,
+};
+
+export const BREAKPOINT_LABELS: Record<LayoutBreakpoint, string> = {
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+};
 
 /**
- * Calculates the mobile grid layout for a block based on its desktop dimensions.
+ * Layout derived from the desktop dimensions, before overrides.
  *
- * Rules:
+ * Mobile rules:
  * - Desktop colSpan 1-4 → Mobile 1 column (50% width)
  * - Desktop colSpan 5-9 → Mobile 2 columns (100% width)
  * - Medium blocks (colSpan 3-4) get minimum 2 rowSpan for better proportions
+ *
+ * Tablet: the 9 desktop columns are scaled down to 4.
  */
-export const getMobileLayout = (block: BlockData): { colSpan: number; rowSpan: number } => {
+const getDerivedLayout = (
+  block: BlockData,
+  breakpoint: LayoutBreakpoint
+): { colSpan: number; rowSpan: number } => {
+  if (breakpoint === 'tablet') {
+    return {
+      colSpan: Math.min(
+        TABLET_GRID_CONFIG.columns,
+        Math.max(1, Math.round((block.colSpan * 4) / 9))
+      ),
+      rowSpan: block.rowSpan,
+    };
+  }
+
   // Large blocks (more than half of 9-col grid) → full width
   const mobileColSpan = block.colSpan >= 5 ? 2 : 1;
 
@@ -23,11 +76,123 @@ export const getMobileLayout = (block: BlockData): { colSpan: number; rowSpan: n
   };
 };
 
+export const getLayoutOverride = (
+  block: BlockData,
+  breakpoint: LayoutBreakpoint
+): BlockLayoutOverride | undefined => block.layouts?.[breakpoint];
+
 /**
- * Mobile grid configuration constants
+ * Layout of a block on a breakpoint: the derived layout with the block's overrides applied.
  */
-export const MOBILE_GRID_CONFIG = {
-  columns: 2,
-  rowHeight: 80, // px per row
-  gap: 12, // px between items
-} as const;
+export const getBreakpointLayout = (
+  block: BlockData,
+  breakpoint: LayoutBreakpoint
+): BreakpointLayout => {
+  const derived = getDerivedLayout(block, breakpoint);
+  const override = getLayoutOverride(block, breakpoint);
+  const columns = BREAKPOINT_GRID_CONFIG[breakpoint].columns;
+  return {
+    colSpan: Math.min(columns, Math.max(1, override?.colSpan ?? derived.colSpan)),
+    rowSpan: Math.max(1, override?.rowSpan ?? derived.rowSpan),
+    hidden: override?.hidden === true,
+  };
+};
+
+/**
+ * Calculates the mobile grid layout for a block (derived from its desktop
+ * dimensions unless overridden).
+ */
+export const getMobileLayout = (block: BlockData): { colSpan: number; rowSpan: number } => {
+  const { colSpan, rowSpan } = getBreakpointLayout(block, 'mobile');
+  return { colSpan, rowSpan };
+};
+
+/**
+ * Blocks in the order they are stacked on a breakpoint. Without overrides this is
+ * the desktop reading order (row first, then column); an override `order` moves a
+ * block to that position. Hidden blocks are left out unless `includeHidden` is set.
+ */
+export const getBreakpointBlocks = (
+  blocks: BlockData[],
+  breakpoint: LayoutBreakpoint,
+  includeHidden = false
+): BlockData[] => {
+  const readingOrder = [...blocks].sort((a, b) => {
+    const aRow = a.gridRow ?? 999;
+    const bRow = b.gridRow ?? 999;
+    if (aRow !== bRow) return aRow - bRow;
+    return (a.gridColumn ?? 999) - (b.gridColumn ?? 999);
+  });
+
+  return readingOrder
+    .map((block, index) => ({ block, index, order: getLayoutOverride(block, breakpoint)?.order }))
+    .sort((a, b) => {
+      const aKey = a.order ?? a.index;
+      const bKey = b.order ?? b.index;
+      if (aKey !== bKey) return aKey - bKey;
+      // Explicitly ordered blocks win ties
+      if ((a.order === undefined) !== (b.order === undefined))
+        return a.order === undefined ? 1 : -1;
+      return a.index - b.index;
+    })
+    .map(({ block }) => block)
+    .filter((block) => includeHidden || !getLayoutOverride(block, breakpoint)?.hidden);
+};
+
+/**
+ * Set (or with `undefined`, clear) override fields of a block on a breakpoint.
+ * Empty overrides are removed so untouched blocks keep no `layouts` field.
+ */
+export const updateLayoutOverride = (
+  block: BlockData,
+  breakpoint: LayoutBreakpoint,
+  changes: BlockLayoutOverride
+): BlockData => {
+  const merged: BlockLayoutOverride = { ...getLayoutOverride(block, breakpoint), ...changes };
+  (Object.keys(merged) as Array<keyof BlockLayoutOverride>).forEach((key) => {
+    if (merged[key] === undefined) delete merged[key];
+  });
+
+  const layouts = { ...block.layouts, [breakpoint]: merged };
+  if (Object.keys(merged).length === 0) delete layouts[breakpoint];
+  return { ...block, layouts: Object.keys(layouts).length > 0 ? layouts : undefined };
+};
+
+/**
+ * Move a block to `targetIndex` in the breakpoint order. Every block receives an
+ * explicit order so the result does not depend on later desktop moves.
+ */
+export const moveBlockInBreakpoint = (
+  blocks: BlockData[],
+  breakpoint: LayoutBreakpoint,
+  blockId: string,
+  targetIndex: number
+): BlockData[] => {
+  const ordered = getBreakpointBlocks(blocks, breakpoint, true);
+  const fromIndex = ordered.findIndex((b) => b.id === blockId);
+  if (fromIndex === -1) return blocks;
+
+  const [moved] = ordered.splice(fromIndex, 1);
+  ordered.splice(Math.max(0, Math.min(targetIndex, ordered.length)), 0, moved);
+
+  const orderById = new Map(ordered.map((b, index) => [b.id, index]));
+  return blocks.map((b) => updateLayoutOverride(b, breakpoint, { order: orderById.get(b.id) }));
+};
+
+/**
+ * Remove every override of a breakpoint (back to the derived layout).
+ */
+export const resetBreakpointLayout = (
+  blocks: BlockData[],
+  breakpoint: LayoutBreakpoint
+): BlockData[] =>
+  blocks.map((b) =>
+    getLayoutOverride(b, breakpoint)
+      ? updateLayoutOverride(b, breakpoint, {
+          colSpan: undefined,
+          rowSpan: undefined,
+          order: undefined,
+          hidden: undefined,
+        })
+      : b
+  );
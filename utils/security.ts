@@ -1,4 +1,5 @@
 // Security utilities for URL and input validation
+import { parseEmbedUrl } from './embed';
 
 /**
  * Validates that a URL uses safe protocols (http/https only)
@@ -70,6 +71,13 @@ export const isValidLocationString = (location: string | undefined | null): bool
   return !dangerousPatterns.some((pattern) => pattern.test(location.trim()));
 };
 
+/**
+ * Validates that an EMBED block URL points to an allow-listed player
+ * (Spotify, SoundCloud, Vimeo, Bandcamp, Apple Music)
+ */
+export const isAllowedEmbedUrl = (url: string | undefined | null): boolean =>
+  parseEmbedUrl(url) !== null;
+
 /**
  * Validates image URL - must be http/https and common image extensions or data:image
  */
@@ -112,3 +120,75 @@ export const isValidDomain = (domain: string | undefined | null): boolean => {
   // Basic domain validation - alphanumeric, hyphens, dots
   return /^[a-zA-Z0-9][a-zA-Z0-9.-]*\.[a-zA-Z]{2,}$/.test(domain);
 };
+
+const CSS_FUNCTIONS = new Set([
+  'rgb',
+  'rgba',
+  'hsl',
+  'hsla',
+  'linear-gradient',
+  'radial-gradient',
+  'conic-gradient',
+  'repeating-linear-gradient',
+  'repeating-radial-gradient',
+  'repeating-conic-gradient',
+]);
+
+// Only functions from CSS_FUNCTIONS, with balanced parentheses. The character set
+// excludes quotes, semicolons, colons and braces, so nothing can escape the declaration.
+const isAllowListedCss = (value: string): boolean => {
+  if (value.length > 500 || !/^[a-z0-9#%.,\s()/+-]+$/i.test(value)) return false;
+
+  const functions = value.match(/[a-z-]+(?=\()/gi) || [];
+  if (!functions.every((name) => CSS_FUNCTIONS.has(name.toLowerCase()))) return false;
+  if (/(^|[^a-z-])\(/i.test(value)) return false; // Bare parenthesis without a function name
+
+  let depth = 0;
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+/**
+ * Validates a CSS color: hex, rgb()/hsl() or a named color
+ */
+export const isSafeCssColor = (value: string | undefined | null): boolean => {
+  if (!value || typeof value !== 'string') return false;
+  const color = value.trim();
+  if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)) return true;
+  if (/^[a-z]{3,30}$/i.test(color)) return true;
+  return /^(rgba?|hsla?)\([^()]*\)$/i.test(color) && isAllowListedCss(color);
+};
+
+/**
+ * Validates a CSS background value: a color or a linear/radial/conic gradient
+ */
+export const isSafeCssBackground = (value: string | undefined | null): boolean => {
+  if (!value || typeof value !== 'string') return false;
+  const background = value.trim();
+  if (isSafeCssColor(background)) return true;
+  return (
+    /^(repeating-)?(linear|radial|conic)-gradient\(.*\)$/is.test(background) &&
+    isAllowListedCss(background)
+  );
+};
+
+/**
+ * Validates a font family name (e.g. "Playfair Display"): letters, digits, spaces and dashes
+ */
+export const isSafeFontName = (value: string | undefined | null): boolean => {
+  if (!value || typeof value !== 'string') return false;
+  return /^[a-z0-9][a-z0-9 -]{0,49}$/i.test(value.trim());
+};
+
+/**
+ * Validates a list of Tailwind-style class names (e.g. "bg-blue-100" or "bg-[#ff0000]")
+ */
+export const isSafeClassList = (value: string | undefined | null): boolean => {
+  if (!value || typeof value !== 'string') return false;
+  return (
+    value.length <= 200 && /^[a-z0-9_:/.[\]#%-]+(\s+[a-z0-9_:/.[\]#%-]+)*$/i.test(value.trim())
+  );
+};
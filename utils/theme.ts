@@ -0,0 +1,269 @@
+/**
+ * Theme: fonts, text scales, corners, shadows, card border, spacing and page background
+ *
+ * A theme is applied through CSS variables set on the page wrapper (builder,
+ * preview, exports). The shared rules reading them live in COMMON_THEME_CSS.
+ */
+
+import { ColorScheme, Theme, ThemeShadow, UserProfile } from '../types';
+import {
+  getDarkModeCss,
+  isDarkModeEnabled,
+  toCssRule,
+  toDarkInk,
+  toDarkSurface,
+} from './colorScheme';
+
+export type FontCategory = 'sans-serif' | 'serif' | 'monospace' | 'display';
+
+export interface FontOption {
+  name: string;
+  category: FontCategory;
+  weights: string; // Weights requested from Google Fonts (not all families have 800)
+}
+
+// Fonts offered in the theme editor. Other Google Fonts can be typed in.
+export const FONT_OPTIONS: FontOption[] = [
+  { name: 'Inter', category: 'sans-serif', weights: '400;500;600;700;800' },
+  { name: 'DM Sans', category: 'sans-serif', weights: '400;500;600;700;800' },
+  { name: 'Manrope', category: 'sans-serif', weights: '400;500;600;700;800' },
+  { name: 'Poppins', category: 'sans-serif', weights: '400;500;600;700;800' },
+  { name: 'Space Grotesk', category: 'sans-serif', weights: '400;500;600;700' },
+  { name: 'IBM Plex Sans', category: 'sans-serif', weights: '400;500;600;700' },
+  { name: 'Playfair Display', category: 'serif', weights: '400;500;600;700;800' },
+  { name: 'Fraunces', category: 'serif', weights: '400;500;600;700;800' },
+  { name: 'Lora', category: 'serif', weights: '400;500;600;700' },
+  { name: 'JetBrains Mono', category: 'monospace', weights: '400;500;600;700;800' },
+  { name: 'Bricolage Grotesque', category: 'display', weights: '400;500;600;700;800' },
+];
+
+// Fonts every browser has: never loaded from Google Fonts
+const SYSTEM_FONTS = new Set(['system-ui', 'serif', 'sans-serif', 'monospace', 'Georgia']);
+
+const FALLBACK_STACKS: Record<FontCategory, string> = {
+  'sans-serif': "system-ui, -apple-system, 'Segoe UI', sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  monospace: "ui-monospace, 'SFMono-Regular', Menlo, monospace",
+  display: "system-ui, -apple-system, 'Segoe UI', sans-serif",
+};
+
+export const THEME_SHADOWS: Record<ThemeShadow, string> = {
+  none: '0 0 #0000',
+  soft: '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
+  medium: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -2px rgba(0, 0, 0, 0.1)',
+  strong: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 8px 10px -6px rgba(0, 0, 0, 0.1)',
+  hard: '4px 4px 0 0 #111827',
+};
+
+export const THEME_SHADOW_LABELS: Record<ThemeShadow, string> = {
+  none: 'None',
+  soft: 'Soft',
+  medium: 'Medium',
+  strong: 'Strong',
+  hard: 'Hard offset',
+};
+
+export const THEME_LIMITS = {
+  scale: { min: 0.75, max: 1.5 },
+  radius: { min: 0, max: 40 },
+  borderWidth: { min: 0, max: 8 },
+  gap: { min: 0, max: 32 },
+} as const;
+
+// Matches the look of bentos created before themes existed
+export const DEFAULT_THEME: Theme = {
+  name: 'Classic',
+  headingFont: 'Inter',
+  bodyFont: 'Inter',
+  headingScale: 1,
+  bodyScale: 1,
+  radius: 12,
+  shadow: 'soft',
+  borderWidth: 1,
+  borderColor: 'rgba(0, 0, 0, 0.05)',
+  gap: 8,
+  background: '#f8fafc',
+};
+
+export const THEME_PRESETS: Theme[] = [
+  DEFAULT_THEME,
+  {
+    name: 'Soft',
+    headingFont: 'DM Sans',
+    bodyFont: 'DM Sans',
+    headingScale: 1.05,
+    bodyScale: 1,
+    radius: 24,
+    shadow: 'medium',
+    borderWidth: 0,
+    borderColor: 'rgba(0, 0, 0, 0.05)',
+    gap: 12,
+    background: 'linear-gradient(135deg, #fdf2f8 0%, #eef2ff 100%)',
+  },
+  {
+    name: 'Editorial',
+    headingFont: 'Playfair Display',
+    bodyFont: 'Lora',
+    headingScale: 1.15,
+    bodyScale: 1,
+    radius: 4,
+    shadow: 'none',
+    borderWidth: 1,
+    borderColor: '#e7e5e4',
+    gap: 12,
+    background: '#fafaf9',
+  },
+  {
+    name: 'Brutalist',
+    headingFont: 'Space Grotesk',
+    bodyFont: 'Space Grotesk',
+    headingScale: 1.1,
+    bodyScale: 1,
+    radius: 0,
+    shadow: 'hard',
+    borderWidth: 2,
+    borderColor: '#111827',
+    gap: 16,
+    background: '#fef3c7',
+  },
+  {
+    name: 'Studio',
+    headingFont: 'Bricolage Grotesque',
+    bodyFont: 'Manrope',
+    headingScale: 1,
+    bodyScale: 0.95,
+    radius: 16,
+    shadow: 'strong',
+    borderWidth: 0,
+    borderColor: 'rgba(0, 0, 0, 0.05)',
+    gap: 10,
+    background: '#f1f5f9',
+  },
+  {
+    name: 'Terminal',
+    headingFont: 'JetBrains Mono',
+    bodyFont: 'JetBrains Mono',
+    headingScale: 0.95,
+    bodyScale: 0.9,
+    radius: 6,
+    shadow: 'none',
+    borderWidth: 1,
+    borderColor: '#d4d4d8',
+    gap: 6,
+    background: '#f4f4f5',
+  },
+];
+
+/**
+ * The theme of a profile, with defaults for missing fields
+ */
+export const resolveTheme = (profile: Pick<UserProfile, 'themeConfig'>): Theme => {
+  // Sanitization leaves unsafe fields undefined: keep the default for those
+  const fields = Object.entries(profile.themeConfig ?? {}).filter(
+    ([, value]) => value !== undefined
+  );
+  return { ...DEFAULT_THEME, ...Object.fromEntries(fields) };
+};
+
+/**
+ * Page background when no background image is set: the profile color overrides the
+ * theme. In dark mode, the dark background of the profile wins, else it is derived.
+ */
+export const getPageBackground = (profile: UserProfile, scheme: ColorScheme = 'light'): string => {
+  const light = profile.backgroundColor || resolveTheme(profile).background;
+  if (scheme === 'light') return light;
+  return profile.darkMode?.backgroundColor || toDarkSurface(light);
+};
+
+const quoteFont = (name: string): string => (SYSTEM_FONTS.has(name) ? name : `'${name}'`);
+
+/**
+ * CSS font-family value for a font name, with a fallback stack of the same kind
+ */
+export const getFontStack = (name: string): string => {
+  const category = FONT_OPTIONS.find((font) => font.name === name)?.category ?? 'sans-serif';
+  return `${quoteFont(name)}, ${FALLBACK_STACKS[category]}`;
+};
+
+/**
+ * Google Fonts stylesheet for the fonts of one or more themes, or null when only
+ * system fonts are used
+ */
+export const getThemeFontsUrl = (themes: Theme | Theme[]): string | null => {
+  const names = (Array.isArray(themes) ? themes : [themes]).flatMap((theme) => [
+    theme.headingFont,
+    theme.bodyFont,
+  ]);
+  const families = Array.from(new Set(names))
+    .filter((name) => !SYSTEM_FONTS.has(name))
+    .map((name) => {
+      const weights = FONT_OPTIONS.find((font) => font.name === name)?.weights ?? '400;700';
+      return `family=${encodeURIComponent(name).replace(/%20/g, '+')}:wght@${weights}`;
+    });
+  if (families.length === 0) return null;
+  return `https://fonts.googleapis.com/css2?${families.join('&')}&display=swap`;
+};
+
+// Page text (name, bio) in each color scheme
+const PAGE_TEXT_COLORS: Record<ColorScheme, { text: string; muted: string }> = {
+  light: { text: '#111827', muted: '#6b7280' },
+  dark: { text: '#f9fafb', muted: '#9ca3af' },
+};
+
+/**
+ * CSS variables of a theme, as a style object for the page wrapper
+ */
+export const getThemeCssVariables = (
+  theme: Theme,
+  scheme: ColorScheme = 'light'
+): Record<string, string> => ({
+  '--bento-font-heading': getFontStack(theme.headingFont),
+  '--bento-font-body': getFontStack(theme.bodyFont),
+  '--bento-heading-scale': String(theme.headingScale),
+  '--bento-body-scale': String(theme.bodyScale),
+  '--bento-radius': `${theme.radius}px`,
+  '--bento-shadow': THEME_SHADOWS[theme.shadow] ?? THEME_SHADOWS.soft,
+  '--bento-border-width': `${theme.borderWidth}px`,
+  '--bento-border-color': scheme === 'dark' ? toDarkInk(theme.borderColor) : theme.borderColor,
+  '--bento-gap': `${theme.gap}px`,
+  '--bento-background': scheme === 'dark' ? toDarkSurface(theme.background) : theme.background,
+  '--bento-text': PAGE_TEXT_COLORS[scheme].text,
+  '--bento-muted': PAGE_TEXT_COLORS[scheme].muted,
+});
+
+/**
+ * Variables of a profile's page: its theme plus the resolved page background
+ */
+export const getPageCssVariables = (
+  profile: UserProfile,
+  scheme: ColorScheme = 'light'
+): Record<string, string> => ({
+  ...getThemeCssVariables(resolveTheme(profile), scheme),
+  '--bento-page-background': getPageBackground(profile, scheme),
+});
+
+/**
+ * The page variables as CSS for exported stylesheets. With dark mode enabled, the
+ * variables that differ are redefined for dark mode.
+ */
+export const getThemeCss = (profile: UserProfile): string => {
+  const light = getPageCssVariables(profile);
+  const css = toCssRule(':root', light);
+  if (!isDarkModeEnabled(profile)) return css;
+  const dark = Object.fromEntries(
+    Object.entries(getPageCssVariables(profile, 'dark')).filter(
+      ([name, value]) => light[name] !== value
+    )
+  );
+  return `${css}\n${getDarkModeCss(dark)}`;
+};
+
+/**
+ * Corner radius of a block: smaller blocks are more rectangular. With the default
+ * 12px radius this gives 8, 10, 12 and 14px.
+ */
+export const getBlockRadius = (colSpan: number, rowSpan: number): string => {
+  const minDim = Math.min(colSpan, rowSpan);
+  const factor = minDim <= 1 ? 2 / 3 : minDim <= 2 ? 5 / 6 : minDim <= 3 ? 1 : 7 / 6;
+  return `calc(var(--bento-radius, 12px) * ${Number(factor.toFixed(4))})`;
+};
@@ -9,6 +9,8 @@ import react from '@vitejs/plugin-react';
 import mdx from '@mdx-js/rollup';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
+import { fetchImageAsDataUrl, unfurlUrl, UnfurlError, type UnfurlOptions } from './server/unfurl';
+import { isValidYouTubeChannelId } from './utils/security';
 
 const execFileAsync = promisify(execFile);
 
@@ -32,6 +34,40 @@ const readJsonBody = async (req: IncomingMessage) => {
   }
 };
 
+// Simple setup creates this schema itself (with a public insert policy) and runs
+// the other supabase/migrations files as they are
+const SCHEMA_MIGRATION = '20251230170000_openbento_analytics.sql';
+
+// Columns of openbento_analytics_events read by the analytics dashboard
+const EVENT_COLUMNS = [
+  'id',
+  'created_at',
+  'site_id',
+  'event_type',
+  'block_id',
+  'destination_url',
+  'page_url',
+  'referrer',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'user_agent',
+  'language',
+  'screen_w',
+  'screen_h',
+  'visitor_id',
+  'session_id',
+  'viewport_w',
+  'viewport_h',
+  'timezone',
+  'duration_seconds',
+  'scroll_depth',
+  'engaged',
+  'block_title',
+];
+
 const parseMaybeJson = (text: string) => {
   const trimmed = text.trim();
   if (!trimmed) return null;
@@ -173,73 +209,138 @@ const simpleSupabaseSetupPlugin = (): Plugin => {
             const dbHost = `db.${projectRef}.supabase.co`;
 
             try {
-              // Fetch all analytics data - using validated parameters only
-              const query = siteIdValid
-                ? `SELECT * FROM public.openbento_analytics_events WHERE site_id = '${siteId.replace(/'/g, "''")}' AND created_at > NOW() - INTERVAL '${days} days' ORDER BY created_at DESC LIMIT 10000`
-                : `SELECT * FROM public.openbento_analytics_events WHERE created_at > NOW() - INTERVAL '${days} days' ORDER BY created_at DESC LIMIT 10000`;
-
-              const { stdout } = await execFileAsync(
-                'psql',
-                [
-                  '-h',
-                  dbHost,
-                  '-p',
-                  '5432',
-                  '-U',
-                  'postgres',
-                  '-d',
-                  'postgres',
-                  '-t',
-                  '-A',
-                  '-F',
-                  '|',
-                  '-c',
-                  query,
-                ],
-                {
-                  env: { ...process.env, PGPASSWORD: dbPassword },
-                  timeout: 30000,
+              // Fetch all analytics data - using validated parameters only. Columns are
+              // selected by name and read back as JSON, whatever the table's column order.
+              const siteCondition = siteIdValid
+                ? `site_id = '${siteId.replace(/'/g, "''")}' AND `
+                : '';
+              const query = `SELECT COALESCE(json_agg(e ORDER BY e.created_at DESC), '[]') FROM (SELECT ${EVENT_COLUMNS.join(', ')} FROM public.openbento_analytics_events WHERE ${siteCondition}created_at > NOW() - INTERVAL '${days} days' ORDER BY created_at DESC LIMIT 10000) e`;
+
+              const runQuery = (sql: string) =>
+                execFileAsync(
+                  'psql',
+                  [
+                    '-h',
+                    dbHost,
+                    '-p',
+                    '5432',
+                    '-U',
+                    'postgres',
+                    '-d',
+                    'postgres',
+                    '-t',
+                    '-A',
+                    '-F',
+                    '|',
+                    '-c',
+                    sql,
+                  ],
+                  {
+                    env: { ...process.env, PGPASSWORD: dbPassword },
+                    timeout: 30000,
+                    // 10000 events as JSON
+                    maxBuffer: 64 * 1024 * 1024,
+                  }
+                );
+
+              const { stdout } = await runQuery(query);
+
+              const events = JSON.parse(stdout.trim() || '[]');
+
+              // Events dropped by the track function (counted by the filtering migration)
+              const filtered = { total: 0, bot: 0, rateLimit: 0, origin: 0, duplicate: 0 };
+              const filterKeys: Record<string, keyof typeof filtered> = {
+                bot: 'bot',
+                rate_limit: 'rateLimit',
+                origin: 'origin',
+                duplicate: 'duplicate',
+              };
+              try {
+                const { stdout: filteredOut } = await runQuery(
+                  `SELECT reason, SUM(count) FROM public.openbento_analytics_filtered WHERE day > CURRENT_DATE - ${days}${siteIdValid ? ` AND site_id = '${siteId.replace(/'/g, "''")}'` : ''} GROUP BY reason`
+                );
+                for (const line of filteredOut
+                  .trim()
+                  .split('\n')
+                  .filter((l) => l.trim())) {
+                  const [reason, count] = line.split('|');
+                  const key = filterKeys[reason];
+                  if (!key) continue;
+                  filtered[key] += parseInt(count) || 0;
+                  filtered.total += parseInt(count) || 0;
                 }
-              );
+              } catch {
+                // Filtering migration not applied yet
+              }
 
-              // Parse the pipe-delimited output
-              const lines = stdout
-                .trim()
-                .split('\n')
-                .filter((l) => l.trim());
-              const events = lines.map((line) => {
-                const parts = line.split('|');
-                return {
-                  id: parts[0],
-                  created_at: parts[1],
-                  site_id: parts[2],
-                  event_type: parts[3],
-                  block_id: parts[4] || null,
-                  destination_url: parts[5] || null,
-                  page_url: parts[6] || null,
-                  referrer: parts[7] || null,
-                  utm_source: parts[8] || null,
-                  utm_medium: parts[9] || null,
-                  utm_campaign: parts[10] || null,
-                  utm_term: parts[11] || null,
-                  utm_content: parts[12] || null,
-                  user_agent: parts[13] || null,
-                  language: parts[14] || null,
-                  screen_w: parts[15] ? parseInt(parts[15]) : null,
-                  screen_h: parts[16] ? parseInt(parts[16]) : null,
-                  visitor_id: parts[17] || null,
-                  session_id: parts[18] || null,
-                  viewport_w: parts[19] ? parseInt(parts[19]) : null,
-                  viewport_h: parts[20] ? parseInt(parts[20]) : null,
-                  timezone: parts[21] || null,
-                  duration_seconds: parts[22] ? parseInt(parts[22]) : null,
-                  scroll_depth: parts[23] ? parseInt(parts[23]) : null,
-                  engaged: parts[24] === 't',
-                  block_title: parts[25] || null,
+              // Complete counts from the daily rollups: the events stop at 10000 rows
+              let summary = null;
+              try {
+                const siteFilter = siteIdValid ? `'${siteId.replace(/'/g, "''")}'` : null;
+                const { stdout: scheduledOut } = await runQuery(
+                  'SELECT public.openbento_analytics_rollups_scheduled()'
+                );
+                if (scheduledOut.trim() !== 't') {
+                  await runQuery(
+                    `SELECT public.openbento_analytics_refresh_rollups(${siteFilter ?? 'NULL'})`
+                  );
+                }
+                const { stdout: dailyOut } = await runQuery(
+                  `SELECT day, SUM(page_views), SUM(clicks), SUM(visitors), SUM(sessions), SUM(engaged_sessions), SUM(duration_seconds), SUM(scroll_depth_total), SUM(scroll_depth_sessions) FROM public.openbento_analytics_daily WHERE day > CURRENT_DATE - ${days}${siteFilter ? ` AND site_id = ${siteFilter}` : ''} GROUP BY day ORDER BY day`
+                );
+                // Daily visitors can't be summed: returning visitors would count once per day
+                const { stdout: visitorsOut } = await runQuery(
+                  `SELECT public.openbento_analytics_unique_visitors(${siteFilter ?? 'NULL'}, CURRENT_DATE - ${days - 1})`
+                );
+                const totals = {
+                  pageViews: 0,
+                  clicks: 0,
+                  visitors: parseInt(visitorsOut) || 0,
+                  sessions: 0,
+                  engagedSessions: 0,
+                  avgDurationSeconds: 0,
+                  avgScrollDepth: 0,
                 };
-              });
+                let durationSeconds = 0;
+                let scrollDepthTotal = 0;
+                let scrollDepthSessions = 0;
+                const series = dailyOut
+                  .trim()
+                  .split('\n')
+                  .filter((l) => l.trim())
+                  .map((line) => {
+                    const [day, ...counts] = line.split('|');
+                    const [
+                      pageViews,
+                      clicks,
+                      visitors,
+                      sessions,
+                      engaged,
+                      duration,
+                      scroll,
+                      scrolled,
+                    ] = counts.map((c) => parseInt(c) || 0);
+                    totals.pageViews += pageViews;
+                    totals.clicks += clicks;
+                    totals.sessions += sessions;
+                    totals.engagedSessions += engaged;
+                    durationSeconds += duration;
+                    scrollDepthTotal += scroll;
+                    scrollDepthSessions += scrolled;
+                    return { day, pageViews, clicks, visitors };
+                  });
+                if (totals.sessions > 0) {
+                  totals.avgDurationSeconds = Math.round(durationSeconds / totals.sessions);
+                }
+                if (scrollDepthSessions > 0) {
+                  totals.avgScrollDepth = Math.round(scrollDepthTotal / scrollDepthSessions);
+                }
+                summary = { totals, series };
+              } catch {
+                // Rollups migration not applied yet
+              }
 
-              json(res, 200, { ok: true, events, count: events.length });
+              json(res, 200, { ok: true, events, count: events.length, summary, filtered });
             } catch (e: any) {
               json(res, 500, {
                 ok: false,
@@ -272,7 +373,7 @@ const simpleSupabaseSetupPlugin = (): Plugin => {
             const logs: string[] = [];
 
             // Run SQL migration via psql
-            const migrationSql = `
+            const schemaSql = `
               create extension if not exists "pgcrypto";
 
               create table if not exists public.openbento_analytics_events (
@@ -312,6 +413,16 @@ const simpleSupabaseSetupPlugin = (): Plugin => {
               -- Only service_role key can read analytics data
             `;
 
+            const migrationsDir = path.join(server.config.root, 'supabase', 'migrations');
+            const migrationSql = [
+              schemaSql,
+              ...fs
+                .readdirSync(migrationsDir)
+                .filter((name) => name.endsWith('.sql') && name !== SCHEMA_MIGRATION)
+                .sort()
+                .map((name) => fs.readFileSync(path.join(migrationsDir, name), 'utf8')),
+            ].join('\n');
+
             try {
               logs.push('Connecting to database...');
               const { stdout, stderr: _stderr } = await execFileAsync(
@@ -737,6 +848,75 @@ const openbentoSupabaseDevPlugin = (): Plugin => {
   };
 };
 
+// Link unfurling: reads a page's OpenGraph metadata to fill LINK blocks (dev only)
+const linkUnfurlPlugin = (options: UnfurlOptions = {}): Plugin => {
+  return {
+    name: 'openbento-link-unfurl',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        if (req.method !== 'POST' || req.url !== '/__openbento/unfurl') return next();
+
+        try {
+          const body = (await readJsonBody(req)) as any;
+          const metadata = await unfurlUrl(body?.url, options);
+
+          // The image is optional: the metadata is still useful without it
+          let imageDataUrl: string | undefined;
+          let imageError: string | undefined;
+          if (body?.includeImage === true && metadata.imageUrl) {
+            try {
+              imageDataUrl = await fetchImageAsDataUrl(metadata.imageUrl, options);
+            } catch (e) {
+              imageError = e instanceof Error ? e.message : 'Could not download the image';
+            }
+          }
+
+          json(res, 200, { ok: true, metadata, imageDataUrl, imageError });
+        } catch (e) {
+          json(res, e instanceof UnfurlError ? e.status : 500, {
+            ok: false,
+            error: e instanceof Error ? e.message : 'Internal error',
+          });
+        }
+      });
+    },
+  };
+};
+
+// YouTube channel feeds for the builder (dev only): YouTube sends no CORS headers
+const youtubeFeedPlugin = (): Plugin => {
+  return {
+    name: 'openbento-youtube-feed',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (req.method !== 'GET' || url.pathname !== '/__openbento/youtube-feed') return next();
+
+        const channelId = url.searchParams.get('channelId');
+        if (!isValidYouTubeChannelId(channelId)) {
+          json(res, 400, { ok: false, error: 'Invalid channel id' });
+          return;
+        }
+        try {
+          const response = await fetch(
+            `https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`,
+            { signal: AbortSignal.timeout(10000) }
+          );
+          if (!response.ok) {
+            json(res, 502, { ok: false, error: `YouTube answered with status ${response.status}` });
+            return;
+          }
+          json(res, 200, { ok: true, xml: await response.text() });
+        } catch {
+          json(res, 502, { ok: false, error: 'Could not reach YouTube' });
+        }
+      });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
@@ -755,6 +935,11 @@ export default defineConfig(({ mode }) => {
       react(),
       simpleSupabaseSetupPlugin(),
       openbentoSupabaseDevPlugin(),
+      linkUnfurlPlugin({
+        // Lets the endpoint reach local fixture servers; keep off on shared networks
+        allowPrivateHosts: env.OPENBENTO_UNFURL_ALLOW_PRIVATE_HOSTS === 'true',
+      }),
+      youtubeFeedPlugin(),
     ],
     define: {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),